@@ -2,12 +2,16 @@
  * EmergentOS - Briefing Fetch API
  * 
  * GET /api/ai/briefing/[date]
- * Fetches the briefing for a specific date.
+ * Fetches the briefing for a specific date (YYYY-MM-DD), or "today"
+ * resolved in the user's time zone.
  */
 
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
+import { detokenizeDeep } from '@/lib/dlp/vault';
+import { getUserPreferences } from '@/lib/preferences';
+import { getCurrentDateInZone } from '@/lib/time';
 
 export async function GET(
   request: Request,
@@ -20,14 +24,16 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // 2. Extract date from route params
-    const { date } = await params;
+    // 2. Extract date from route params ("today" = user's local date)
+    const { date: dateParam } = await params;
+    const { timeZone } = await getUserPreferences(userId);
+    const date = dateParam === 'today' ? getCurrentDateInZone(timeZone) : dateParam;
 
     // 3. Validate date format (YYYY-MM-DD)
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
     if (!dateRegex.test(date)) {
       return NextResponse.json(
-        { error: 'Invalid date format. Use YYYY-MM-DD.' },
+        { error: 'Invalid date format. Use YYYY-MM-DD or "today".' },
         { status: 400 }
       );
     }
@@ -53,17 +59,19 @@ export async function GET(
       return NextResponse.json({
         found: false,
         briefingDate: date,
+        timeZone,
         message: 'No briefing found for this date',
       });
     }
 
-    // 5. Return briefing
+    // 5. Return briefing (PII tokens re-hydrated server-side)
     return NextResponse.json({
       found: true,
       briefingId: briefing.id,
       briefingDate: briefing.briefing_date,
       generatedAt: briefing.generated_at,
-      content: briefing.content,
+      timeZone,
+      content: await detokenizeDeep(userId, briefing.content),
     });
   } catch (error) {
     console.error('[Briefing Fetch API] Error:', error);
@@ -13,9 +13,17 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
-import { callGeminiWithSchema, isGeminiConfigured, BRIEFING_SCHEMA } from '@/lib/llm/gemini';
+import { getLlmClientForUser } from '@/lib/llm/client';
+import { isLlmBudgetExceededError } from '@/lib/llm/metering';
+import { BRIEFING_SCHEMA } from '@/lib/llm/schemas';
+import { generateStructured } from '@/lib/llm/validation';
+import { buildFallbackBriefing } from '@/lib/llm/fallbacks';
 import { buildBriefingPrompt, type UserProfileContext } from '@/lib/llm/prompts';
-import { getCurrentUTCDate, daysAgoUTC, startOfDayUTC, endOfDayUTC } from '@/lib/time';
+import { getCurrentDateInZone, startOfDayInZone, endOfDayInZone } from '@/lib/time';
+import { getUserPreferences } from '@/lib/preferences';
+import { attachThreadHistory, type EarlierThreadMessage } from '@/lib/email-threads';
+import { withholdUnverified } from '@/lib/dlp/vault';
+import { parseAttendees, type CalendarAttendee, type ResponseStatus } from '@/lib/attendees';
 
 export async function POST() {
   try {
@@ -25,10 +33,11 @@ export async function POST() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // 2. Check Gemini configuration
-    if (!isGeminiConfigured()) {
+    // 2. Check LLM configuration
+    const llm = await getLlmClientForUser(userId, 'briefing');
+    if (!llm) {
       return NextResponse.json(
-        { error: 'Gemini API not configured' },
+        { error: 'AI service not configured' },
         { status: 503 }
       );
     }
@@ -47,13 +56,15 @@ export async function POST() {
     };
 
     // 4. If no sources connected, delete today's briefing and return
-    const todayUTC = getCurrentUTCDate();
+    // Briefings are keyed by the user's local date
+    const { timeZone } = await getUserPreferences(userId);
+    const today = getCurrentDateInZone(timeZone);
     if (!connectedSources.gmail && !connectedSources.calendar && !connectedSources.drive) {
       await supabase
         .from('briefings')
         .delete()
         .eq('user_id', userId)
-        .eq('briefing_date', todayUTC);
+        .eq('briefing_date', today);
 
       return NextResponse.json({
         success: true,
@@ -62,26 +73,31 @@ export async function POST() {
     }
 
     // 5. Fetch data from connected sources
-    const yesterday = daysAgoUTC(1).toISOString();
     const now = new Date();
-    const todayStartUTC = startOfDayUTC(now).toISOString();
-    const tomorrowEndUTC = endOfDayUTC(new Date(now.getTime() + 24 * 60 * 60 * 1000)).toISOString();
+    const yesterday = startOfDayInZone(now, timeZone, -1).toISOString();
+    const todayStartUTC = startOfDayInZone(now, timeZone).toISOString();
+    const tomorrowEndUTC = endOfDayInZone(now, timeZone, 1).toISOString();
 
     // Emails (last 24 hours)
     let emails: Array<{
+      message_id: string;
+      thread_id: string | null;
       sender: string;
       subject: string;
       snippet: string | null;
+      body_preview: string | null;
       received_at: string;
+      earlier_messages?: EarlierThreadMessage[];
     }> = [];
     if (connectedSources.gmail) {
       const { data } = await supabase
         .from('emails')
-        .select('sender, subject, snippet, received_at')
+        .select('message_id, thread_id, sender, subject, snippet, body_preview, received_at, security_verified')
         .eq('user_id', userId)
         .gte('received_at', yesterday)
         .order('received_at', { ascending: false });
-      emails = data || [];
+      // Whole conversations, not just the newest reply; unscanned text stays out of the prompt
+      emails = await attachThreadHistory(userId, withholdUnverified(data || [], ['snippet', 'body_preview']));
     }
 
     // Calendar events (today and tomorrow, including multi-day events)
@@ -93,19 +109,21 @@ export async function POST() {
       end_time: string;
       is_all_day: boolean;
       location: string | null;
-      attendees: unknown[];
+      attendees: CalendarAttendee[];
+      self_response_status: ResponseStatus;
       has_conflict: boolean;
       conflict_with: string[];
     }> = [];
     if (connectedSources.calendar) {
       const { data } = await supabase
         .from('calendar_events')
-        .select('event_id, title, description, start_time, end_time, is_all_day, location, attendees, has_conflict, conflict_with')
+        .select('event_id, title, description, start_time, end_time, is_all_day, location, attendees, self_response_status, has_conflict, conflict_with, security_verified')
         .eq('user_id', userId)
+        .eq('focus_hold', false)   // Focus holds aren't meetings
         .lte('start_time', tomorrowEndUTC)
         .gte('end_time', todayStartUTC)
         .order('start_time', { ascending: true });
-      events = data || [];
+      events = withholdUnverified(data || [], ['description']).map((e) => ({ ...e, attendees: parseAttendees(e.attendees) }));
     }
 
     // Drive documents (last 24 hours)
@@ -144,23 +162,24 @@ export async function POST() {
       };
     }
 
-    // 7. Build prompt and call Gemini with schema enforcement
-    const prompt = buildBriefingPrompt(emails, events, documents, connectedSources, userProfile);
+    // 7. Build prompt and call the LLM with schema enforcement
+    const prompt = buildBriefingPrompt(emails, events, documents, connectedSources, userProfile, timeZone);
     
     console.log(`[Briefing] Generating briefing for user ${userId}, personalized: ${userProfile.hasOnboarding}`);
-    const responseText = await callGeminiWithSchema(prompt, BRIEFING_SCHEMA);
-
-    // 8. Parse JSON response (schema enforced, but validate anyway)
-    let content: Record<string, unknown>;
-    try {
-      content = JSON.parse(responseText);
-    } catch {
-      console.error('[Briefing] Failed to parse Gemini response:', responseText);
-      return NextResponse.json(
-        { error: 'Failed to parse briefing response' },
-        { status: 500 }
-      );
-    }
+
+    // 8. Validate the response (repaired once, else a safe fallback briefing)
+    const { content } = await generateStructured(
+      llm,
+      prompt,
+      BRIEFING_SCHEMA,
+      () => buildFallbackBriefing({
+        emailCount: emails.length,
+        eventCount: events.length,
+        conflictCount: events.filter((e) => e.has_conflict).length,
+        documentCount: documents.length,
+      }),
+      'Briefing'
+    );
 
     // 9. UPSERT into briefings table
     const { data: briefing, error: upsertError } = await supabase
@@ -168,7 +187,7 @@ export async function POST() {
       .upsert(
         {
           user_id: userId,
-          briefing_date: todayUTC,
+          briefing_date: today,
           content,
           generated_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -191,9 +210,16 @@ export async function POST() {
     return NextResponse.json({
       success: true,
       briefingId: briefing?.id,
-      briefingDate: todayUTC,
+      briefingDate: today,
     });
   } catch (error) {
+    // Over budget: today's existing briefing stays as it is
+    if (isLlmBudgetExceededError(error)) {
+      return NextResponse.json(
+        { error: (error as Error).message, budgetExceeded: true },
+        { status: 429 }
+      );
+    }
     console.error('[Briefing API] Error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
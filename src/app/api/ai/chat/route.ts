@@ -4,13 +4,21 @@
  * POST /api/ai/chat
  * RAG chat with streaming via Server-Sent Events.
  * Per Section 9.5 and 9.6.
+ *
+ * Body: { message, sessionId? } - omitting sessionId starts a new session.
+ * The first event is `{ session }`; both turns are saved to chat_messages.
  */
 
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
-import { callGeminiChat, isGeminiConfigured } from '@/lib/llm/gemini';
+import { getLlmClientForUser } from '@/lib/llm/client';
+import { isLlmBudgetExceededError } from '@/lib/llm/metering';
 import { buildChatSystemPrompt } from '@/lib/llm/prompts';
 import { hybridSearch } from '@/lib/embeddings';
+import { loadTokenMap, replaceTokens } from '@/lib/dlp/vault';
+import { getUserPreferences } from '@/lib/preferences';
+import { expandEmailThreads } from '@/lib/email-threads';
+import { createChatSession, getChatHistory, getChatSession, saveChatMessage } from '@/lib/chat-history';
 
 // Map source types to ChatSource kinds
 const SOURCE_TYPE_TO_KIND: Record<string, 'email' | 'event' | 'document' | 'briefing'> = {
@@ -20,6 +28,23 @@ const SOURCE_TYPE_TO_KIND: Record<string, 'email' | 'event' | 'document' | 'brie
   briefing: 'briefing',
 };
 
+// Longest vault token, e.g. [SECRET_0123456789abcdef]
+const MAX_TOKEN_LENGTH = 25;
+
+/**
+ * Split streamed text into a part safe to emit and a trailing fragment
+ * that may be the start of a vault token split across chunks
+ */
+function splitPendingToken(text: string): [string, string] {
+  const open = text.lastIndexOf('[');
+  if (open === -1) return [text, ''];
+  const tail = text.substring(open);
+  if (tail.length < MAX_TOKEN_LENGTH && /^\[[A-Za-z0-9_]*$/.test(tail)) {
+    return [text.substring(0, open), tail];
+  }
+  return [text, ''];
+}
+
 export async function POST(request: Request) {
   try {
     // 1. Authenticate user
@@ -31,17 +56,18 @@ export async function POST(request: Request) {
       );
     }
 
-    // 2. Check Gemini configuration
-    if (!isGeminiConfigured()) {
+    // 2. Check LLM configuration
+    const llm = await getLlmClientForUser(userId, 'chat');
+    if (!llm) {
       return new Response(
-        JSON.stringify({ error: 'Gemini API not configured' }),
+        JSON.stringify({ error: 'AI service not configured' }),
         { status: 503, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
     // 3. Parse request body
     const body = await request.json().catch(() => ({}));
-    const { message } = body;
+    const { message, sessionId } = body;
 
     if (!message || typeof message !== 'string') {
       return new Response(
@@ -50,7 +76,29 @@ export async function POST(request: Request) {
       );
     }
 
-    // 4. Get user's connected sources
+    if (sessionId !== undefined && sessionId !== null && typeof sessionId !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'sessionId must be a string' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 4. Resume the session (with its prior turns) or start a new one
+    const session = sessionId
+      ? await getChatSession(userId, sessionId)
+      : await createChatSession(userId, message);
+
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: 'Session not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const history = sessionId ? await getChatHistory(userId, session.id) : [];
+    await saveChatMessage(userId, session.id, 'user', message);
+
+    // 5. Get user's connected sources
     const { data: connections } = await supabase
       .from('connections')
       .select('provider, status')
@@ -63,7 +111,7 @@ export async function POST(request: Request) {
       drive: connections?.some((c) => c.provider === 'drive') || false,
     };
 
-    // 5. Perform hybrid search for relevant context
+    // 6. Perform hybrid search for relevant context
     let searchContext: Array<{
       sourceType: string;
       content: string;
@@ -74,49 +122,94 @@ export async function POST(request: Request) {
     if (connectedSources.gmail || connectedSources.calendar || connectedSources.drive) {
       try {
         const searchResults = await hybridSearch(userId, message, 5);
-        searchContext = searchResults.map((r) => ({
+        // Email hits are widened to their whole thread
+        searchContext = await expandEmailThreads(userId, searchResults.map((r) => ({
           sourceType: r.sourceType,
           content: r.content,
           metadata: r.metadata,
-        }));
+        })));
       } catch (searchError) {
         console.warn('[Chat] Hybrid search failed:', searchError);
         // Continue without search context
       }
     }
 
-    // 6. Build system prompt with context
-    const systemPrompt = buildChatSystemPrompt(connectedSources, searchContext);
+    // 7. Build system prompt with context
+    const { timeZone } = await getUserPreferences(userId);
+    const systemPrompt = buildChatSystemPrompt(connectedSources, searchContext, timeZone);
+
+    // 8. Call the LLM with streaming
+    console.log(`[Chat] Processing message for user ${userId} (session ${session.id}, ${history.length} prior turns)`);
+    const llmStream = await llm.streamChat(systemPrompt, message, history);
 
-    // 7. Call Gemini with streaming
-    console.log(`[Chat] Processing message for user ${userId}`);
-    const geminiStream = await callGeminiChat(systemPrompt, message);
+    // 9. Load originals for PII tokens the model may echo back
+    const tokenMap = await loadTokenMap(userId, searchContext.map((ctx) => ctx.content));
 
-    // 8. Convert search results to ChatSource format for client
-    const sources = searchContext.map((ctx) => ({
+    // 10. Convert search results to ChatSource format
+    // Stored sources keep tokens (re-hydrated on resume); the client gets originals
+    const storedSources = searchContext.map((ctx) => ({
       kind: SOURCE_TYPE_TO_KIND[ctx.sourceType] || 'document',
       id: ctx.metadata.source_id || (ctx.metadata as Record<string, string>).message_id || (ctx.metadata as Record<string, string>).event_id || (ctx.metadata as Record<string, string>).document_id || crypto.randomUUID(),
       title: (ctx.metadata as Record<string, string>).subject || (ctx.metadata as Record<string, string>).title || (ctx.metadata as Record<string, string>).name || 'Unknown',
       occurredAt: (ctx.metadata as Record<string, string>).received_at || (ctx.metadata as Record<string, string>).start_time || (ctx.metadata as Record<string, string>).modified_at,
       snippet: ctx.content.substring(0, 100) + (ctx.content.length > 100 ? '...' : ''),
     }));
+    const sources = storedSources.map((source, i) => ({
+      ...source,
+      snippet: replaceTokens(searchContext[i].content, tokenMap).substring(0, 100) + (searchContext[i].content.length > 100 ? '...' : ''),
+    }));
 
-    // 9. Create a new stream that wraps Gemini stream and appends sources at the end
-    // Note: Gemini stream does NOT send [DONE] - we add it here after sources
+    // 11. Create a new stream that wraps the LLM stream, re-hydrates tokens and appends sources at the end
+    // Note: the LLM stream does NOT send [DONE] - we add it here after sources
     const encoder = new TextEncoder();
-    const reader = geminiStream.getReader();
-    
+    const decoder = new TextDecoder();
+    const reader = llmStream.getReader();
+
     const wrappedStream = new ReadableStream({
       async start(controller) {
+        const emitText = (text: string) => {
+          if (text) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text: replaceTokens(text, tokenMap) })}\n\n`));
+          }
+        };
+
         try {
-          // Pass through all Gemini stream chunks
+          // Tell the client which session this turn belongs to
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ session: { id: session.id, title: session.title } })}\n\n`));
+
+          let eventBuffer = '';
+          let pendingText = '';
+          let assistantText = '';  // As generated (tokens intact) for chat_messages
+
+          // Re-emit LLM text events, holding back any partial token
           while (true) {
             const { done, value } = await reader.read();
             if (done) break;
-            controller.enqueue(value);
+
+            eventBuffer += decoder.decode(value, { stream: true });
+            const events = eventBuffer.split('\n\n');
+            eventBuffer = events.pop() || '';
+
+            for (const event of events) {
+              if (!event.startsWith('data: ')) continue;
+              try {
+                const parsed = JSON.parse(event.slice(6));
+                if (typeof parsed.text !== 'string') {
+                  controller.enqueue(encoder.encode(`${event}\n\n`));
+                  continue;
+                }
+                assistantText += parsed.text;
+                const [ready, pending] = splitPendingToken(pendingText + parsed.text);
+                pendingText = pending;
+                emitText(ready);
+              } catch {
+                controller.enqueue(encoder.encode(`${event}\n\n`));
+              }
+            }
           }
+          emitText(pendingText);
           
-          // After Gemini stream completes, send sources (if any)
+          // After the LLM stream completes, send sources (if any)
           if (sources.length > 0) {
             controller.enqueue(encoder.encode(`data: ${JSON.stringify({ sources })}\n\n`));
           }
@@ -124,13 +217,20 @@ export async function POST(request: Request) {
           // Send completion signal
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
+
+          // Persist the assistant turn (the reply has already been delivered)
+          try {
+            await saveChatMessage(userId, session.id, 'assistant', assistantText, storedSources);
+          } catch (saveError) {
+            console.error('[Chat] Failed to save assistant message:', saveError);
+          }
         } catch (error) {
           controller.error(error);
         }
       },
     });
 
-    // 10. Return SSE stream
+    // 12. Return SSE stream
     return new Response(wrappedStream, {
       headers: {
         'Content-Type': 'text/event-stream',
@@ -139,6 +239,12 @@ export async function POST(request: Request) {
       },
     });
   } catch (error) {
+    if (isLlmBudgetExceededError(error)) {
+      return new Response(
+        JSON.stringify({ error: (error as Error).message, budgetExceeded: true }),
+        { status: 429, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     console.error('[Chat API] Error:', error);
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
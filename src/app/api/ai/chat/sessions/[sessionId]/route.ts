@@ -0,0 +1,131 @@
+/**
+ * EmergentOS - Chat Session API
+ *
+ * GET    /api/ai/chat/sessions/[sessionId] - Session with its messages (resume)
+ * PATCH  /api/ai/chat/sessions/[sessionId] - Rename ({ title })
+ * DELETE /api/ai/chat/sessions/[sessionId] - Delete session and messages
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  deleteChatSession,
+  getChatMessages,
+  getChatSession,
+  renameChatSession,
+} from '@/lib/chat-history';
+import { detokenizeDeep } from '@/lib/dlp/vault';
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Verify ownership
+    const { sessionId } = await params;
+    const session = await getChatSession(userId, sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    // 3. Fetch messages (system turns are never shown)
+    const messages = (await getChatMessages(userId, sessionId))
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        sources: m.sources || [],
+        createdAt: m.created_at,
+      }));
+
+    // 4. Re-hydrate PII tokens in assistant replies and source snippets
+    return NextResponse.json({
+      session: {
+        id: session.id,
+        title: session.title,
+        createdAt: session.created_at,
+        updatedAt: session.updated_at,
+      },
+      messages: await detokenizeDeep(userId, messages),
+    });
+  } catch (error) {
+    console.error('[Chat Session API] GET Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate body
+    const body = await request.json().catch(() => ({}));
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    if (!title) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+
+    // 3. Rename
+    const { sessionId } = await params;
+    const session = await renameChatSession(userId, sessionId, title);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: {
+        id: session.id,
+        title: session.title,
+        createdAt: session.created_at,
+        updatedAt: session.updated_at,
+      },
+    });
+  } catch (error) {
+    console.error('[Chat Session API] PATCH Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Delete (messages cascade)
+    const { sessionId } = await params;
+    const deleted = await deleteChatSession(userId, sessionId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    console.log(`[Chat Session API] Deleted session ${sessionId} for user ${userId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Chat Session API] DELETE Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * EmergentOS - Chat Sessions API
+ *
+ * GET /api/ai/chat/sessions
+ * Lists the user's Omni-Panel sessions, most recently active first.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { listChatSessions } from '@/lib/chat-history';
+
+export async function GET() {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Fetch sessions
+    const sessions = await listChatSessions(userId);
+
+    return NextResponse.json({
+      sessions: sessions.map((s) => ({
+        id: s.id,
+        title: s.title,
+        createdAt: s.created_at,
+        updatedAt: s.updated_at,
+      })),
+    });
+  } catch (error) {
+    console.error('[Chat Sessions API] GET Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * EmergentOS - Calendar Action Undo API
+ *
+ * POST /api/calendar/actions/[actionId]/undo
+ * Restores the event's original fields on Google Calendar. Allowed until the
+ * action's undo_until (CALENDAR_ACTION_UNDO_WINDOW_MINUTES after applying).
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { isCalendarActionRejectedError, undoCalendarAction } from '@/lib/calendar-actions';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ actionId: string }> }
+) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Restore the original event
+    const { actionId } = await params;
+    const action = await undoCalendarAction(userId, actionId);
+
+    if (!action) {
+      return NextResponse.json({ error: 'Calendar action not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, action });
+  } catch (error) {
+    if (isCalendarActionRejectedError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    if (requiresReconnect(error)) {
+      return NextResponse.json({ error: 'Calendar connection expired', reconnect: true }, { status: 409 });
+    }
+    console.error('[Calendar Action Undo API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
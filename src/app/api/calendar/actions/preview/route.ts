@@ -0,0 +1,50 @@
+/**
+ * EmergentOS - Calendar Action Preview API
+ *
+ * POST /api/calendar/actions/preview
+ * What applying a conflict resolution would change on Google Calendar, as a
+ * before/after diff. Nothing is written.
+ *
+ * Body: { resolution: { keepEvent, moveEvent, suggestedAction }, action?, note?, start? }
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  isCalendarActionRejectedError,
+  parseCalendarActionRequest,
+  previewCalendarAction,
+} from '@/lib/calendar-actions';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function POST(request: Request) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate the resolution
+    const actionRequest = parseCalendarActionRequest(await request.json().catch(() => ({})));
+    if (!actionRequest) {
+      return NextResponse.json({ error: 'Invalid conflict resolution' }, { status: 400 });
+    }
+
+    // 3. Plan the change against the live event
+    const preview = await previewCalendarAction(userId, actionRequest);
+    return NextResponse.json({ preview });
+  } catch (error) {
+    if (isCalendarActionRejectedError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    if (requiresReconnect(error)) {
+      return NextResponse.json({ error: 'Calendar connection expired', reconnect: true }, { status: 409 });
+    }
+    console.error('[Calendar Action Preview API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * EmergentOS - Calendar Actions API
+ *
+ * GET  /api/calendar/actions - Recent conflict resolutions written to Google Calendar (audit)
+ * POST /api/calendar/actions - Apply a conflict resolution; undo via POST /api/calendar/actions/[actionId]/undo
+ *
+ * POST body: { resolution: { keepEvent, moveEvent, suggestedAction }, action?, note?, start? }
+ * Writes need the calendar.events scope; a read-only connection returns
+ * 409 with reconnect: true.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  applyCalendarAction,
+  isCalendarActionRejectedError,
+  listCalendarActions,
+  parseCalendarActionRequest,
+} from '@/lib/calendar-actions';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Most recent actions first
+    const actions = await listCalendarActions(userId);
+    return NextResponse.json({ actions });
+  } catch (error) {
+    console.error('[Calendar Actions API] GET Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate the resolution
+    const actionRequest = parseCalendarActionRequest(await request.json().catch(() => ({})));
+    if (!actionRequest) {
+      return NextResponse.json({ error: 'Invalid conflict resolution' }, { status: 400 });
+    }
+
+    // 3. Write the change and record it for undo
+    const action = await applyCalendarAction(userId, actionRequest);
+    return NextResponse.json({ success: true, action });
+  } catch (error) {
+    if (isCalendarActionRejectedError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    if (requiresReconnect(error)) {
+      return NextResponse.json(
+        { error: 'Calendar write access is missing. Reconnect Google Calendar to allow changes.', reconnect: true },
+        { status: 409 }
+      );
+    }
+    console.error('[Calendar Actions API] POST Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * EmergentOS - Calendar List API
+ *
+ * GET /api/calendar/calendars
+ * Returns the user's Google calendars with their sync and conflict settings.
+ * Selection is saved through PUT /api/preferences ({ calendars }).
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { supabase } from '@/lib/supabase';
+import { fetchCalendarList } from '@/lib/calendars';
+import { getUserPreferences } from '@/lib/preferences';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Check calendar connection
+    const { data: connection } = await supabase
+      .from('connections')
+      .select('connection_id')
+      .eq('user_id', userId)
+      .eq('provider', 'calendar')
+      .eq('status', 'connected')
+      .maybeSingle();
+
+    if (!connection) {
+      return NextResponse.json({ calendars: [], connected: false });
+    }
+
+    // 3. Fetch the live calendar list and merge the saved selection
+    const [list, preferences] = await Promise.all([
+      fetchCalendarList(connection.connection_id),
+      getUserPreferences(userId),
+    ]);
+
+    const selected = new Set(preferences.calendars.selected);
+    const excluded = new Set(preferences.calendars.conflictExcluded);
+
+    const calendars = list.map((calendar) => ({
+      id: calendar.id,
+      summary: calendar.summary,
+      color: calendar.color,
+      primary: calendar.primary,
+      accessRole: calendar.accessRole,
+      selected: calendar.primary || selected.has(calendar.id),
+      includeInConflicts: !excluded.has(calendar.id),
+    }));
+
+    return NextResponse.json({ calendars, connected: true });
+  } catch (error) {
+    if (requiresReconnect(error)) {
+      return NextResponse.json({ error: 'Calendar connection expired' }, { status: 409 });
+    }
+    console.error('[Calendar List API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,16 @@
  * GET /api/calendar/events
  * Fetches calendar events for display in the dashboard.
  * Supports query params: today=true, from=ISO, to=ISO
+ * "today" and the default range use the user's time zone.
+ * Descriptions are stored with PII tokens and re-hydrated for the owner.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
-import { startOfDayUTC, endOfDayUTC } from '@/lib/time';
+import { startOfDayInZone, endOfDayInZone } from '@/lib/time';
+import { getUserPreferences } from '@/lib/preferences';
+import { detokenizeDeep } from '@/lib/dlp/vault';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,25 +29,24 @@ export async function GET(request: NextRequest) {
     const fromParam = searchParams.get('from');
     const toParam = searchParams.get('to');
 
-    // 3. Determine time range
+    // 3. Determine time range (day boundaries in the user's time zone)
+    const { timeZone } = await getUserPreferences(userId);
     const now = new Date();
     let fromTime: string;
     let toTime: string;
 
     if (today) {
       // Today's events (including multi-day events that overlap with today)
-      const todayStart = startOfDayUTC(now);
-      const tomorrowEnd = endOfDayUTC(new Date(now.getTime() + 24 * 60 * 60 * 1000));
-      fromTime = todayStart.toISOString();
-      toTime = tomorrowEnd.toISOString();
+      fromTime = startOfDayInZone(now, timeZone).toISOString();
+      toTime = endOfDayInZone(now, timeZone, 1).toISOString();
     } else if (fromParam && toParam) {
       // Custom range
       fromTime = new Date(fromParam).toISOString();
       toTime = new Date(toParam).toISOString();
     } else {
       // Default: next 7 days
-      fromTime = startOfDayUTC(now).toISOString();
-      toTime = endOfDayUTC(new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)).toISOString();
+      fromTime = startOfDayInZone(now, timeZone).toISOString();
+      toTime = endOfDayInZone(now, timeZone, 7).toISOString();
     }
 
     // 4. Query events (including multi-day events that overlap with the range)
@@ -67,23 +70,23 @@ export async function GET(request: NextRequest) {
     // 5. Filter to today-only if requested (for exact day match)
     let filteredEvents = events || [];
     if (today) {
-      const todayDate = now.toISOString().split('T')[0];
+      const todayStart = startOfDayInZone(now, timeZone);
+      const todayEnd = endOfDayInZone(now, timeZone);
       filteredEvents = filteredEvents.filter(event => {
         const eventStart = new Date(event.start_time);
         const eventEnd = new Date(event.end_time);
-        const todayStart = startOfDayUTC(now);
-        const todayEnd = endOfDayUTC(now);
         
         // Event is relevant if it overlaps with today
         return eventStart <= todayEnd && eventEnd >= todayStart;
       });
     }
 
-    // 6. Return events with count
+    // 6. Return events (PII tokens re-hydrated) with count
     return NextResponse.json({
-      events: filteredEvents,
+      events: await detokenizeDeep(userId, filteredEvents),
       count: filteredEvents.length,
       range: { from: fromTime, to: toTime },
+      timeZone,
     });
   } catch (error) {
     console.error('[Calendar Events API] Error:', error);
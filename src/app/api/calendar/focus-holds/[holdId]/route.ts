@@ -0,0 +1,47 @@
+/**
+ * EmergentOS - Focus Hold Release API
+ *
+ * DELETE /api/calendar/focus-holds/[holdId]
+ * Deletes the hold's "Focus" event and stops managing it. Auto-protect may
+ * book other free time on its next run if the weekly target is short.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { isFocusHoldRejectedError, releaseFocusHold } from '@/lib/focus-holds';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ holdId: string }> }
+) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Delete the event and mark the hold released
+    const { holdId } = await params;
+    const hold = await releaseFocusHold(userId, holdId);
+
+    if (!hold) {
+      return NextResponse.json({ error: 'Focus hold not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, hold });
+  } catch (error) {
+    if (isFocusHoldRejectedError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    if (requiresReconnect(error)) {
+      return NextResponse.json({ error: 'Calendar connection expired', reconnect: true }, { status: 409 });
+    }
+    console.error('[Focus Hold Release API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * EmergentOS - Focus Holds API
+ *
+ * GET  /api/calendar/focus-holds - Upcoming active focus holds
+ * POST /api/calendar/focus-holds - Protect a block; release via DELETE /api/calendar/focus-holds/[holdId]
+ *
+ * POST body: { start, end } (ISO). Books a busy "Focus" event on the primary
+ * calendar; needs the calendar.events scope, so a read-only connection
+ * returns 409 with reconnect: true.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  createFocusHold,
+  isFocusHoldRejectedError,
+  listFocusHolds,
+  parseFocusHoldRequest,
+} from '@/lib/focus-holds';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Soonest first
+    const holds = await listFocusHolds(userId);
+    return NextResponse.json({ holds });
+  } catch (error) {
+    console.error('[Focus Holds API] GET Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate the block
+    const slot = parseFocusHoldRequest(await request.json().catch(() => ({})));
+    if (!slot) {
+      return NextResponse.json({ error: 'Invalid focus block' }, { status: 400 });
+    }
+
+    // 3. Book the hold
+    const hold = await createFocusHold(userId, slot.start, slot.end);
+    return NextResponse.json({ success: true, hold });
+  } catch (error) {
+    if (isFocusHoldRejectedError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    if (requiresReconnect(error)) {
+      return NextResponse.json(
+        { error: 'Calendar write access is missing. Reconnect Google Calendar to allow changes.', reconnect: true },
+        { status: 409 }
+      );
+    }
+    console.error('[Focus Holds API] POST Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
 import { IMMINENT_EVENT_THRESHOLD_MINUTES } from '@/lib/constants';
+import { detokenizeText } from '@/lib/dlp/vault';
 
 export async function GET(request: NextRequest) {
   try {
@@ -75,7 +76,7 @@ export async function GET(request: NextRequest) {
       (new Date(event.start_time).getTime() - now.getTime()) / 60000
     );
 
-    // 6. Return event with enriched data
+    // 6. Return event with enriched data (description stored with PII tokens)
     return NextResponse.json({
       found: true,
       event: {
@@ -84,7 +85,7 @@ export async function GET(request: NextRequest) {
         start_time: event.start_time,
         end_time: event.end_time,
         location: event.location,
-        description: event.description,
+        description: event.description && await detokenizeText(userId, event.description),
         minutesUntil,
       },
     });
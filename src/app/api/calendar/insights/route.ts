@@ -2,7 +2,8 @@
  * EmergentOS - Calendar Insights API
  * 
  * GET /api/calendar/insights
- * Returns the AI-generated calendar analysis for the authenticated user.
+ * Returns the AI-generated calendar analysis for the authenticated user,
+ * with the recurring meeting audit.
  * 
  * POST /api/calendar/insights
  * Triggers calendar analysis regeneration.
@@ -14,8 +15,17 @@ import { supabase } from '@/lib/supabase';
 import { daysAgoUTC, daysFromNowUTC } from '@/lib/time';
 import { getConflictDetails, identifyFocusBlocks } from '@/lib/helpers';
 import { buildCalendarAnalysisPrompt, type UserProfileContext } from '@/lib/llm/prompts';
-import { callGeminiWithSchema, CALENDAR_ANALYSIS_SCHEMA, isGeminiConfigured } from '@/lib/llm/gemini';
+import { getLlmClientForUser } from '@/lib/llm/client';
+import { isLlmBudgetExceededError } from '@/lib/llm/metering';
+import { CALENDAR_ANALYSIS_SCHEMA, type CalendarAnalysisContent } from '@/lib/llm/schemas';
+import { generateStructured } from '@/lib/llm/validation';
+import { buildFallbackCalendarAnalysis } from '@/lib/llm/fallbacks';
+import type { LlmClient } from '@/lib/llm/types';
 import { CALENDAR_ANALYSIS_PAST_DAYS, CALENDAR_ANALYSIS_FUTURE_DAYS } from '@/lib/constants';
+import { detokenizeDeep, withholdUnverified } from '@/lib/dlp/vault';
+import { getUserPreferences, parseUserPreferences, toWorkSchedule } from '@/lib/preferences';
+import { getRecurringMeetingAudit } from '@/lib/recurring-meetings';
+import { parseAttendees } from '@/lib/attendees';
 
 export async function GET() {
   try {
@@ -48,18 +58,35 @@ export async function GET() {
       });
     }
 
-    // 3. Return insights with enhanced fields
+    // 3. Return insights with enhanced fields and the recurring meeting audit (PII tokens re-hydrated server-side)
+    const [{ timeZone }, recurringSeries] = await Promise.all([
+      getUserPreferences(userId),
+      getRecurringMeetingAudit(userId),
+    ]);
     return NextResponse.json({
       found: true,
       insight: {
         id: insight.id,
-        content: insight.content,
+        content: await detokenizeDeep(userId, insight.content),
         conflictsCount: insight.conflicts_count,
         focusTimeHours: insight.focus_time_hours,
         meetingHours: insight.meeting_hours,
         healthScore: insight.health_score,
         verdict: insight.verdict,
         generatedAt: insight.generated_at,
+        timeZone,
+        recurringSeries: await detokenizeDeep(userId, recurringSeries.map((series) => ({
+          title: series.title,
+          recurrence: series.recurrence,
+          organizedByUser: series.organized_by_user,
+          attendeeCount: series.attendee_count,
+          quarterHours: series.quarter_hours,
+          upcomingCount: series.upcoming_count,
+          occurrencesInWindow: series.occurrences_in_window,
+          conflictCount: series.conflict_count,
+          lastSkippedAt: series.last_skipped_at,
+          lastSkippedReason: series.last_skipped_reason,
+        }))),
       },
     });
   } catch (error) {
@@ -83,8 +110,9 @@ export async function POST() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // 2. Check if Gemini is configured
-    if (!isGeminiConfigured()) {
+    // 2. Check if an LLM is configured
+    const llm = await getLlmClientForUser(userId, 'calendar_analysis');
+    if (!llm) {
       return NextResponse.json(
         { error: 'AI analysis not configured' },
         { status: 503 }
@@ -110,7 +138,7 @@ export async function POST() {
     console.log(`[Calendar Insights] Triggering analysis for user ${userId}`);
 
     // 4. Run calendar analysis
-    const analysisResult = await runCalendarAnalysis(userId);
+    const analysisResult = await runCalendarAnalysis(userId, llm);
 
     // 5. UPSERT into calendar_insights
     const { error: upsertError } = await supabase
@@ -143,6 +171,13 @@ export async function POST() {
       verdict: analysisResult.verdict,
     });
   } catch (error) {
+    // Over budget: the stored insights stay as they are
+    if (isLlmBudgetExceededError(error)) {
+      return NextResponse.json(
+        { error: (error as Error).message, budgetExceeded: true },
+        { status: 429 }
+      );
+    }
     console.error('[Calendar Insights API] POST Error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -154,8 +189,8 @@ export async function POST() {
 /**
  * Run calendar analysis (copied from calendar-sync.ts to avoid circular deps)
  */
-async function runCalendarAnalysis(userId: string): Promise<{
-  content: Record<string, unknown>;
+async function runCalendarAnalysis(userId: string, llm: LlmClient): Promise<{
+  content: CalendarAnalysisContent;
   conflicts_count: number;
   focus_time_hours: number;
   meeting_hours: number;
@@ -177,7 +212,7 @@ async function runCalendarAnalysis(userId: string): Promise<{
   // Fetch user profile for personalization
   const { data: userProfile } = await supabase
     .from('user_profiles')
-    .select('onboarding_status, onboarding_answers, ai_assessment')
+    .select('onboarding_status, onboarding_answers, ai_assessment, preferences')
     .eq('user_id', userId)
     .single();
 
@@ -187,7 +222,8 @@ async function runCalendarAnalysis(userId: string): Promise<{
     assessment: userProfile?.ai_assessment as UserProfileContext['assessment'],
   };
 
-  const calendarEvents = (events || []).map((e) => ({
+  // Focus holds are protected focus time, not meetings
+  const calendarEvents = withholdUnverified(events || [], ['description']).filter((e) => !e.focus_hold).map((e) => ({
     event_id: e.event_id,
     title: e.title,
     description: e.description,
@@ -195,36 +231,38 @@ async function runCalendarAnalysis(userId: string): Promise<{
     end_time: e.end_time,
     is_all_day: e.is_all_day,
     location: e.location,
-    attendees: e.attendees as unknown[],
+    attendees: parseAttendees(e.attendees),
+    self_response_status: e.self_response_status,
     organizer: e.organizer,
+    recurring_event_id: e.recurring_event_id,
     has_conflict: e.has_conflict,
     conflict_with: e.conflict_with || [],
   }));
 
   const conflicts = getConflictDetails(calendarEvents);
-  const focusBlocks = identifyFocusBlocks(calendarEvents, new Date());
-
-  const prompt = buildCalendarAnalysisPrompt(calendarEvents, conflicts, focusBlocks, profileContext);
-  const responseText = await callGeminiWithSchema(prompt, CALENDAR_ANALYSIS_SCHEMA);
-
-  let content: Record<string, unknown>;
-  try {
-    content = JSON.parse(responseText);
-  } catch {
-    console.error('[Calendar Insights] Failed to parse analysis response:', responseText);
-    content = { error: 'Failed to parse analysis', raw: responseText };
-  }
+  const preferences = parseUserPreferences(userProfile?.preferences);
+  const focusBlocks = identifyFocusBlocks(calendarEvents, new Date(), toWorkSchedule(preferences));
+  const recurringSeries = await getRecurringMeetingAudit(userId);
 
-  const metrics = (content.metrics || {}) as Record<string, number>;
-  const healthScore = (content.healthScore as number) || 50;
-  const verdict = (content.verdict as string) || 'MODERATE';
+  const prompt = buildCalendarAnalysisPrompt(calendarEvents, conflicts, focusBlocks, profileContext, preferences.timeZone, recurringSeries);
+  const { content } = await generateStructured(
+    llm,
+    prompt,
+    CALENDAR_ANALYSIS_SCHEMA,
+    () => buildFallbackCalendarAnalysis({
+      events: calendarEvents,
+      conflictCount: conflicts.length,
+      focusHours: focusBlocks.reduce((sum, b) => sum + b.durationHours, 0),
+    }),
+    'Calendar Insights'
+  );
 
   return {
     content,
-    conflicts_count: metrics.conflictCount ?? conflicts.length,
-    focus_time_hours: metrics.focusHoursAvailable ?? focusBlocks.reduce((sum, b) => sum + b.durationHours, 0),
-    meeting_hours: metrics.meetingHoursTotal ?? 0,
-    health_score: healthScore,
-    verdict,
+    conflicts_count: content.metrics.conflictCount,
+    focus_time_hours: content.metrics.focusHoursAvailable,
+    meeting_hours: content.metrics.meetingHoursTotal,
+    health_score: content.healthScore,
+    verdict: content.verdict,
   };
 }
@@ -0,0 +1,52 @@
+/**
+ * EmergentOS - Meeting Slot Finder API
+ *
+ * POST /api/calendar/meeting-slots - Ranked times when the user and the
+ * attendees are all free, inside the user's working hours
+ *
+ * Body: { attendees: string[], durationMinutes, from?, to? } (ISO window,
+ * default the next SLOT_FINDER_DEFAULT_DAYS days, never past the synced
+ * CALENDAR_FUTURE_DAYS). Attendees whose calendars the user can't see are
+ * listed in `unavailable` and ranked without.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  findMeetingSlots,
+  isMeetingSlotsRejectedError,
+  parseMeetingSlotRequest,
+} from '@/lib/meeting-slots';
+import { requiresReconnect } from '@/lib/errors';
+
+export async function POST(request: Request) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate attendees, duration and window
+    const slotRequest = parseMeetingSlotRequest(await request.json().catch(() => ({})));
+    if (!slotRequest) {
+      return NextResponse.json({ error: 'Invalid slot search' }, { status: 400 });
+    }
+
+    // 3. Combine calendars and rank free slots
+    const search = await findMeetingSlots(userId, slotRequest);
+    return NextResponse.json(search);
+  } catch (error) {
+    if (isMeetingSlotsRejectedError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 409 });
+    }
+    if (requiresReconnect(error)) {
+      return NextResponse.json({ error: 'Calendar connection expired', reconnect: true }, { status: 409 });
+    }
+    console.error('[Meeting Slots API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * EmergentOS - Calendar RSVP API
+ *
+ * GET /api/calendar/rsvp
+ * Upcoming invites still awaiting the user's response, and meetings the user
+ * is attending where a key attendee (organizer or required guest) declined.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { supabase } from '@/lib/supabase';
+import { daysFromNowUTC } from '@/lib/time';
+import { getDeclinedKeyAttendees, isAttending, parseAttendees } from '@/lib/attendees';
+import { RSVP_LOOKAHEAD_DAYS } from '@/lib/constants';
+
+export async function GET() {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Upcoming events in the lookahead window
+    const { data: events, error } = await supabase
+      .from('calendar_events')
+      .select('event_id, calendar_id, title, start_time, end_time, is_all_day, organizer, attendees, self_response_status')
+      .eq('user_id', userId)
+      .gte('start_time', new Date().toISOString())
+      .lte('start_time', daysFromNowUTC(RSVP_LOOKAHEAD_DAYS).toISOString())
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      console.error('[Calendar RSVP] Query error:', error);
+      return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 });
+    }
+
+    // 3. Split into pending invites and meetings missing key attendees
+    const awaitingResponse = [];
+    const keyAttendeeDeclines = [];
+
+    for (const event of events || []) {
+      const attendees = parseAttendees(event.attendees);
+      const summary = {
+        event_id: event.event_id,
+        calendar_id: event.calendar_id,
+        title: event.title,
+        start_time: event.start_time,
+        end_time: event.end_time,
+        is_all_day: event.is_all_day,
+        organizer: event.organizer,
+        attendee_count: attendees.length,
+      };
+
+      if (event.self_response_status === 'needsAction') {
+        awaitingResponse.push(summary);
+      }
+
+      const declined = getDeclinedKeyAttendees(attendees);
+      if (declined.length > 0 && isAttending(event)) {
+        keyAttendeeDeclines.push({
+          ...summary,
+          declined: declined.map((a) => ({ email: a.email, displayName: a.displayName, organizer: a.organizer })),
+        });
+      }
+    }
+
+    return NextResponse.json({ awaitingResponse, keyAttendeeDeclines });
+  } catch (error) {
+    console.error('[Calendar RSVP API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
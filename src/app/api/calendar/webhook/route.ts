@@ -0,0 +1,115 @@
+/**
+ * EmergentOS - Calendar Push Notification Webhook
+ *
+ * POST /api/calendar/webhook
+ * Receives Google Calendar events.watch notifications and queues a calendar
+ * sync with trigger 'push'. Notifications carry no event data, only headers
+ * identifying the channel; the sync itself picks up what changed.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { inngest } from '@/lib/inngest';
+import { getWatchChannels, isValidChannelToken } from '@/lib/calendar-watch';
+
+export async function POST(request: Request) {
+  try {
+    // 1. Read channel headers
+    const channelId = request.headers.get('x-goog-channel-id');
+    const channelToken = request.headers.get('x-goog-channel-token');
+    const resourceState = request.headers.get('x-goog-resource-state');
+
+    if (!channelId) {
+      return NextResponse.json({ error: 'Missing channel ID' }, { status: 400 });
+    }
+
+    // 2. Find the connection that owns this channel
+    const { data: connection, error } = await supabase
+      .from('connections')
+      .select('id, user_id, status, metadata')
+      .eq('provider', 'calendar')
+      .filter('metadata->watch_channel_ids', 'cs', JSON.stringify([channelId]))
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Calendar Webhook] Connection lookup error:', error);
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+
+    // Replaced or orphaned channel: acknowledge so Google stops retrying; it expires on its own
+    const channel = connection
+      ? getWatchChannels(connection.metadata).find((c) => c.id === channelId) ?? null
+      : null;
+    if (!connection || !channel) {
+      console.log(`[Calendar Webhook] Ignoring notification for unknown channel ${channelId}`);
+      return NextResponse.json({ received: true });
+    }
+
+    // 3. Verify the channel token
+    if (!isValidChannelToken(channel, channelToken)) {
+      console.error(`[Calendar Webhook] Invalid token for channel ${channelId}`);
+      return NextResponse.json({ error: 'Invalid channel token' }, { status: 401 });
+    }
+
+    // 'sync' is the handshake sent when the channel is created
+    if (resourceState === 'sync' || connection.status !== 'connected') {
+      return NextResponse.json({ received: true });
+    }
+
+    // 4. Collapse bursts: a job that hasn't started fetching yet will see this change too
+    const { data: pendingJob } = await supabase
+      .from('sync_jobs')
+      .select('id')
+      .eq('user_id', connection.user_id)
+      .eq('provider', 'calendar')
+      .eq('status', 'pending')
+      .limit(1)
+      .maybeSingle();
+
+    if (pendingJob) {
+      console.log(`[Calendar Webhook] Sync already pending for user ${connection.user_id}`);
+      return NextResponse.json({ received: true, queued: false });
+    }
+
+    // 5. Create sync job and send Inngest event
+    const jobId = crypto.randomUUID();
+    const messageNumber = request.headers.get('x-goog-message-number') || Date.now().toString();
+    const idempotencyKey = `push-${connection.user_id}-calendar-${channelId}-${messageNumber}`;
+
+    const { error: jobError } = await supabase.from('sync_jobs').insert({
+      id: jobId,
+      user_id: connection.user_id,
+      provider: 'calendar',
+      trigger: 'push',
+      idempotency_key: idempotencyKey,
+      status: 'pending',
+    });
+
+    if (jobError) {
+      // Duplicate delivery of the same message
+      if (jobError.code === '23505') {
+        return NextResponse.json({ received: true, queued: false });
+      }
+      console.error('[Calendar Webhook] Failed to create sync job:', jobError);
+      return NextResponse.json({ error: 'Database error' }, { status: 500 });
+    }
+
+    await inngest.send({
+      name: 'calendar/sync.requested',
+      data: {
+        userId: connection.user_id,
+        connectionId: connection.id,
+        trigger: 'push',
+        idempotencyKey,
+        jobId,
+      },
+    });
+
+    console.log(`[Calendar Webhook] Queued push sync for user ${connection.user_id} (state: ${resourceState})`);
+
+    return NextResponse.json({ received: true, queued: true });
+  } catch (error) {
+    console.error('[Calendar Webhook] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * EmergentOS - Email Thread API
+ *
+ * GET /api/email/threads/[threadId]
+ * Rebuilds a Gmail conversation from stored messages (oldest first),
+ * with cleaned bodies and PII re-hydrated.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getEmailThread } from '@/lib/email-threads';
+import { detokenizeDeep } from '@/lib/dlp/vault';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Load thread
+    const { threadId } = await params;
+    const thread = await getEmailThread(userId, threadId);
+    if (!thread) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+
+    // 3. Re-hydrate PII tokens for display
+    const hydrated = await detokenizeDeep(userId, thread);
+
+    return NextResponse.json({
+      threadId: hydrated.threadId,
+      subject: hydrated.subject,
+      participants: hydrated.participants,
+      messageCount: hydrated.messageCount,
+      lastMessageAt: hydrated.lastMessageAt,
+      messages: hydrated.messages.map((m) => ({
+        messageId: m.message_id,
+        sender: m.sender,
+        subject: m.subject,
+        receivedAt: m.received_at,
+        isRead: m.is_read,
+        snippet: m.snippet,
+        body: m.body_preview,
+      })),
+    });
+  } catch (error) {
+    console.error('[Email Thread API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
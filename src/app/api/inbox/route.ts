@@ -0,0 +1,106 @@
+/**
+ * EmergentOS - Unified Inbox API
+ *
+ * GET /api/inbox
+ * Ranked feed of emails, upcoming events and recently modified documents.
+ * Supports query params:
+ *   source=email,event,document  (default: all)
+ *   status=all|read|unread       (read state only exists for emails)
+ *   from=YYYY-MM-DD, to=YYYY-MM-DD (user's local dates, inclusive)
+ *   limit=N, cursor=<nextCursor from the previous page>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { INBOX_MAX_PAGE_SIZE, INBOX_PAGE_SIZE } from '@/lib/constants';
+import {
+  decodeInboxCursor,
+  getInboxPage,
+  INBOX_SOURCES,
+  type InboxReadStatus,
+  type InboxSource,
+} from '@/lib/inbox';
+import { detokenizeDeep } from '@/lib/dlp/vault';
+import { getUserPreferences } from '@/lib/preferences';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const READ_STATUSES: InboxReadStatus[] = ['all', 'read', 'unread'];
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Parse and validate query parameters
+    const searchParams = request.nextUrl.searchParams;
+
+    const sourceParam = searchParams.get('source');
+    const sources = sourceParam
+      ? sourceParam.split(',').map((s) => s.trim()).filter(Boolean)
+      : INBOX_SOURCES;
+    if (sources.length === 0 || !sources.every((s) => INBOX_SOURCES.includes(s as InboxSource))) {
+      return NextResponse.json(
+        { error: `source must be a comma-separated list of: ${INBOX_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const status = (searchParams.get('status') || 'all') as InboxReadStatus;
+    if (!READ_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'status must be one of: all, read, unread' },
+        { status: 400 }
+      );
+    }
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD.' },
+        { status: 400 }
+      );
+    }
+    if (from && to && from > to) {
+      return NextResponse.json({ error: 'from must not be after to' }, { status: 400 });
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(limitParam)
+      ? INBOX_PAGE_SIZE
+      : Math.min(Math.max(limitParam, 1), INBOX_MAX_PAGE_SIZE);
+
+    const cursorParam = searchParams.get('cursor');
+    const cursor = cursorParam ? decodeInboxCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    // 3. Build the ranked page (date filters use the user's time zone)
+    const { timeZone } = await getUserPreferences(userId);
+    const page = await getInboxPage(
+      userId,
+      { sources: sources as InboxSource[], status, from, to },
+      timeZone,
+      limit,
+      cursor
+    );
+
+    // 4. Re-hydrate PII tokens for display
+    return NextResponse.json({
+      items: await detokenizeDeep(userId, page.items),
+      nextCursor: page.nextCursor,
+      counts: page.counts,
+      timeZone,
+    });
+  } catch (error) {
+    console.error('[Inbox API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,8 +10,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
 import { nango, PROVIDER_CONFIG_KEYS } from '@/lib/nango';
-import { getCurrentUTCDate } from '@/lib/time';
+import { getCurrentDateInZone } from '@/lib/time';
+import { getUserPreferences } from '@/lib/preferences';
 import { generateBriefingForUser } from '@/lib/inngest/cron-briefing';
+import { getWatchChannels, stopCalendarWatch } from '@/lib/calendar-watch';
 
 type Provider = 'gmail' | 'calendar' | 'drive';
 
@@ -49,7 +51,7 @@ export async function POST(
     // 3. Find connection
     const { data: connection } = await supabase
       .from('connections')
-      .select('connection_id')
+      .select('connection_id, metadata')
       .eq('user_id', userId)
       .eq('provider', provider)
       .single();
@@ -59,7 +61,11 @@ export async function POST(
       return NextResponse.json({ success: true });
     }
 
-    // 4. Delete from Nango (graceful failure)
+    // 4. Stop the calendar push channels while the token is still valid
+    const watchChannels = provider === 'calendar' ? getWatchChannels(connection.metadata) : [];
+    await Promise.all(watchChannels.map((channel) => stopCalendarWatch(connection.connection_id, channel)));
+
+    // 5. Delete from Nango (graceful failure)
     try {
       const providerConfigKey = PROVIDER_CONFIG_KEYS[provider as Provider];
       await nango.deleteConnection(providerConfigKey, connection.connection_id);
@@ -69,7 +75,7 @@ export async function POST(
       // Continue anyway - don't fail the disconnect for this
     }
 
-    // 5. Delete local data (provider-specific)
+    // 6. Delete local data (provider-specific)
     const sourceType = PROVIDER_SOURCE_TYPE_MAP[provider as Provider];
 
     // Delete connection record
@@ -85,10 +91,14 @@ export async function POST(
     } else if (provider === 'calendar') {
       await supabase.from('calendar_events').delete().eq('user_id', userId);
       await supabase.from('calendar_insights').delete().eq('user_id', userId);
+      await supabase.from('recurring_series').delete().eq('user_id', userId);
     } else if (provider === 'drive') {
       await supabase.from('drive_documents').delete().eq('user_id', userId);
     }
 
+    // Pending item retries have nothing left to sync into
+    await supabase.from('sync_item_failures').delete().eq('user_id', userId).eq('provider', provider);
+
     // Delete embeddings for this source type
     await supabase
       .from('embeddings')
@@ -96,17 +106,17 @@ export async function POST(
       .eq('user_id', userId)
       .eq('source_type', sourceType);
 
-    // Delete today's briefing (will be regenerated)
-    const todayUTC = getCurrentUTCDate();
+    // Delete today's briefing in the user's time zone (will be regenerated)
+    const { timeZone } = await getUserPreferences(userId);
     await supabase
       .from('briefings')
       .delete()
       .eq('user_id', userId)
-      .eq('briefing_date', todayUTC);
+      .eq('briefing_date', getCurrentDateInZone(timeZone));
 
     console.log(`[Disconnect] Deleted all ${provider} data for user ${userId}`);
 
-    // 6. Regenerate briefing with remaining sources
+    // 7. Regenerate briefing with remaining sources
     try {
       await generateBriefingForUser({ userId });
       console.log(`[Disconnect] Regenerated briefing for user ${userId}`);
@@ -115,7 +125,7 @@ export async function POST(
       // Don't fail disconnect for briefing errors
     }
 
-    // 7. Return success
+    // 8. Return success
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[Disconnect API] Error:', error);
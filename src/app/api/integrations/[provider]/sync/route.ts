@@ -91,12 +91,13 @@ export async function POST(
       const { data: job } = await supabase
         .from('sync_jobs')
         .select(
-          'status, items_inserted, items_updated, items_deleted, time_changed, error_message'
+          'status, items_inserted, items_updated, items_deleted, items_failed, time_changed, error_message'
         )
         .eq('id', jobId)
         .single();
 
-      if (job?.status === 'complete') {
+      // 'partial' finished with some failed items; those are retried in the background
+      if (job?.status === 'complete' || job?.status === 'partial') {
         const itemsSynced =
           (job.items_inserted || 0) + (job.items_updated || 0);
         const dataChanged =
@@ -106,6 +107,7 @@ export async function POST(
           success: true,
           itemsSynced,
           itemsDeleted: job.items_deleted || 0,
+          itemsFailed: job.items_failed || 0,
           syncType: connection.last_sync_at ? 'delta' : 'initial',
           dataChanged,
           timeChanged: job.time_changed || false, // Calendar only
@@ -7,7 +7,7 @@
 
 import { auth } from '@clerk/nextjs/server';
 import { supabase } from '@/lib/supabase';
-import { callGeminiJSON, isGeminiConfigured } from '@/lib/llm/gemini';
+import { getLlmClientForUser } from '@/lib/llm/client';
 import { buildUserAssessmentPrompt } from '@/lib/llm/prompts';
 import type { OnboardingAnswers, UserAssessment, ThemeColor } from '@/lib/onboarding/types';
 
@@ -25,7 +25,8 @@ export async function POST(request: Request) {
       return Response.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!isGeminiConfigured()) {
+    const llm = await getLlmClientForUser(userId, 'onboarding');
+    if (!llm) {
       return Response.json({ error: 'AI service not configured' }, { status: 503 });
     }
 
@@ -40,7 +41,7 @@ export async function POST(request: Request) {
 
     // Generate AI assessment
     const prompt = buildUserAssessmentPrompt(answers, confirmedRecap);
-    const assessmentText = await callGeminiJSON(prompt);
+    const assessmentText = await llm.generateJSON(prompt);
     
     let assessment: UserAssessment;
     try {
@@ -6,7 +6,7 @@
  */
 
 import { auth } from '@clerk/nextjs/server';
-import { callGeminiText, isGeminiConfigured } from '@/lib/llm/gemini';
+import { getLlmClientForUser } from '@/lib/llm/client';
 import { buildSmartRecapPrompt } from '@/lib/llm/prompts';
 import type { OnboardingAnswers } from '@/lib/onboarding/types';
 
@@ -21,7 +21,8 @@ export async function POST(request: Request) {
       return Response.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!isGeminiConfigured()) {
+    const llm = await getLlmClientForUser(userId, 'onboarding');
+    if (!llm) {
       return Response.json({ error: 'AI service not configured' }, { status: 503 });
     }
 
@@ -34,7 +35,7 @@ export async function POST(request: Request) {
 
     // Generate the Smart Recap (plain text, not JSON)
     const prompt = buildSmartRecapPrompt(answers);
-    const recap = await callGeminiText(prompt);
+    const recap = await llm.generateText(prompt);
 
     // Clean up the response (remove any markdown code fences if present)
     const cleanRecap = recap
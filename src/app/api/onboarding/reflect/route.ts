@@ -6,7 +6,7 @@
  */
 
 import { auth } from '@clerk/nextjs/server';
-import { callGeminiText, isGeminiConfigured } from '@/lib/llm/gemini';
+import { getLlmClientForUser } from '@/lib/llm/client';
 import { buildReflectionPrompt } from '@/lib/llm/prompts';
 
 interface ReflectRequest {
@@ -22,7 +22,8 @@ export async function POST(request: Request) {
       return Response.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!isGeminiConfigured()) {
+    const llm = await getLlmClientForUser(userId, 'onboarding');
+    if (!llm) {
       return Response.json({ 
         error: 'AI service not configured',
         fallback: true 
@@ -40,7 +41,7 @@ export async function POST(request: Request) {
 
     // Generate AI reflection
     const prompt = buildReflectionPrompt(question, answer, stepContext || 'general');
-    const reflection = await callGeminiText(prompt);
+    const reflection = await llm.generateText(prompt);
 
     // Clean up the response
     const cleanReflection = reflection
@@ -0,0 +1,78 @@
+/**
+ * EmergentOS - User Preferences API
+ *
+ * GET /api/preferences - Returns time zone, working hours, calendar selection and focus policy
+ * PUT /api/preferences - Updates any of time zone, working hours, calendar selection, focus policy
+ *
+ * Saving a focus policy reconciles the user's focus holds right away.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { inngest } from '@/lib/inngest';
+import {
+  getUserPreferences,
+  saveUserPreferences,
+  validatePreferencesUpdate,
+  type UserPreferences,
+} from '@/lib/preferences';
+
+export async function GET() {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Return stored preferences (defaults filled in)
+    const preferences = await getUserPreferences(userId);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('[Preferences API] GET Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Parse and validate body
+    const body = await request.json().catch(() => null);
+    const validationError = validatePreferencesUpdate(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { timeZone, workingHours, calendars, focusPolicy } = body as Partial<UserPreferences>;
+
+    // 3. Merge into user_profiles.preferences
+    const preferences = await saveUserPreferences(userId, { timeZone, workingHours, calendars, focusPolicy });
+
+    // 4. Book or top up focus holds under the new policy
+    if (focusPolicy !== undefined) {
+      await inngest.send({
+        name: 'calendar/focus-holds.reconcile',
+        data: { userId, reason: 'policy' },
+      });
+    }
+
+    console.log(`[Preferences API] Updated for user ${userId}: ${preferences.timeZone}`);
+
+    return NextResponse.json({ success: true, preferences });
+  } catch (error) {
+    console.error('[Preferences API] PUT Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * EmergentOS - Sync Job Retry API
+ *
+ * POST /api/sync/jobs/[jobId]/retry
+ * Starts a new manual sync for a job that failed with a retryable error.
+ * Auth failures are not retryable; the user has to reconnect the provider.
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { supabase } from '@/lib/supabase';
+import { inngest } from '@/lib/inngest';
+import { getSyncJob } from '@/lib/sync-jobs';
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Load the failed job
+    const { jobId } = await params;
+    const job = await getSyncJob(userId, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+    if (!job.error) {
+      return NextResponse.json({ error: 'Only failed jobs can be retried' }, { status: 409 });
+    }
+    if (!job.error.retryable) {
+      return NextResponse.json(
+        { error: 'This failure is not retryable', reconnect: job.error.category === 'auth' },
+        { status: 409 }
+      );
+    }
+
+    // 3. The provider must still be connected
+    const { data: connection } = await supabase
+      .from('connections')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('provider', job.provider)
+      .eq('status', 'connected')
+      .maybeSingle();
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: `${job.provider} is not connected`, reconnect: true },
+        { status: 409 }
+      );
+    }
+
+    // 4. Create the retry job and send the Inngest event
+    const retryJobId = crypto.randomUUID();
+    const idempotencyKey = `manual-${userId}-${job.provider}-${Date.now()}`;
+
+    const { error: insertError } = await supabase.from('sync_jobs').insert({
+      id: retryJobId,
+      user_id: userId,
+      provider: job.provider,
+      trigger: 'manual',
+      idempotency_key: idempotencyKey,
+      status: 'pending',
+      retry_of: job.id,
+    });
+
+    if (insertError) {
+      console.error('[Sync Retry API] Insert error:', insertError);
+      return NextResponse.json({ error: 'Failed to create sync job' }, { status: 500 });
+    }
+
+    await inngest.send({
+      name: `${job.provider}/sync.requested`,
+      data: {
+        userId,
+        connectionId: connection.id,
+        trigger: 'manual',
+        idempotencyKey,
+        jobId: retryJobId,
+      },
+    });
+
+    return NextResponse.json({ success: true, jobId: retryJobId });
+  } catch (error) {
+    console.error('[Sync Retry API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
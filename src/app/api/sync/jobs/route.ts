@@ -0,0 +1,111 @@
+/**
+ * EmergentOS - Sync Job History API
+ *
+ * GET /api/sync/jobs
+ * Recent sync jobs with per-stage durations, item counts and errors.
+ * Supports query params:
+ *   provider=gmail|calendar|drive
+ *   trigger=connect|manual|auto|scheduled|date_boundary|push
+ *   status=pending|fetching|securing|persisting|analyzing|embedding|complete|error
+ *   from=, to=  (YYYY-MM-DD in UTC, or ISO timestamps; filters started_at, inclusive)
+ *   limit=N
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { SYNC_JOBS_MAX_PAGE_SIZE, SYNC_JOBS_PAGE_SIZE } from '@/lib/constants';
+import {
+  listSyncJobs,
+  SYNC_JOB_PROVIDERS,
+  SYNC_JOB_STATUSES,
+  SYNC_JOB_TRIGGERS,
+  type SyncJobProvider,
+  type SyncJobStatus,
+  type SyncJobTrigger,
+} from '@/lib/sync-jobs';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a from/to bound. Plain dates cover the whole UTC day.
+ */
+function parseBound(value: string | null, endOfDay: boolean): string | null | undefined {
+  if (!value) return undefined;
+  if (DATE_PATTERN.test(value)) {
+    return `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Parse and validate query parameters
+    const searchParams = request.nextUrl.searchParams;
+
+    const provider = searchParams.get('provider') || undefined;
+    if (provider && !SYNC_JOB_PROVIDERS.includes(provider as SyncJobProvider)) {
+      return NextResponse.json(
+        { error: `provider must be one of: ${SYNC_JOB_PROVIDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const trigger = searchParams.get('trigger') || undefined;
+    if (trigger && !SYNC_JOB_TRIGGERS.includes(trigger as SyncJobTrigger)) {
+      return NextResponse.json(
+        { error: `trigger must be one of: ${SYNC_JOB_TRIGGERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const status = searchParams.get('status') || undefined;
+    if (status && !SYNC_JOB_STATUSES.includes(status as SyncJobStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${SYNC_JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const from = parseBound(searchParams.get('from'), false);
+    const to = parseBound(searchParams.get('to'), true);
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'Invalid date format. Use YYYY-MM-DD or an ISO timestamp.' },
+        { status: 400 }
+      );
+    }
+    if (from && to && from > to) {
+      return NextResponse.json({ error: 'from must not be after to' }, { status: 400 });
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(limitParam)
+      ? SYNC_JOBS_PAGE_SIZE
+      : Math.min(Math.max(limitParam, 1), SYNC_JOBS_MAX_PAGE_SIZE);
+
+    // 3. Query jobs
+    const jobs = await listSyncJobs(userId, {
+      provider: provider as SyncJobProvider | undefined,
+      trigger: trigger as SyncJobTrigger | undefined,
+      status: status as SyncJobStatus | undefined,
+      from,
+      to,
+      limit,
+    });
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('[Sync Jobs API] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,416 @@
 'use client';
 
-import { Inbox, Mail, Calendar, FileText, ArrowRight, Sparkles } from 'lucide-react';
+/**
+ * EmergentOS - Unified Inbox
+ *
+ * Ranked feed of emails, upcoming events and recent documents from /api/inbox.
+ * Filterable by source, read state and date; paginated with cursors.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Inbox,
+  Mail,
+  Calendar,
+  FileText,
+  ArrowRight,
+  Sparkles,
+  AlertTriangle,
+  Star,
+  Flame,
+  UserCheck,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  X,
+} from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
+import { formatTimeAgo } from '@/lib/time';
+import { useSyncManager } from '@/lib/sync-manager';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type InboxSource = 'email' | 'event' | 'document';
+type ReadStatus = 'all' | 'read' | 'unread';
+type InboxSignal = 'briefing' | 'conflict' | 'important' | 'unread' | 'frequent_sender';
+
+interface InboxItem {
+  id: string;
+  source: InboxSource;
+  sourceId: string;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null;
+  occurredAt: string;
+  endsAt: string | null;
+  isRead: boolean | null;
+  url: string | null;
+  score: number;
+  signals: InboxSignal[];
+}
+
+// ============================================================================
+// Display Config
+// ============================================================================
+
+const SOURCE_CONFIG: Record<InboxSource, { icon: typeof Mail; label: string; color: string; bg: string; border: string }> = {
+  email: { icon: Mail, label: 'Emails', color: 'text-rose-400', bg: 'bg-rose-500/15', border: 'border-rose-500/20' },
+  event: { icon: Calendar, label: 'Events', color: 'text-sky-400', bg: 'bg-sky-500/15', border: 'border-sky-500/20' },
+  document: { icon: FileText, label: 'Documents', color: 'text-emerald-400', bg: 'bg-emerald-500/15', border: 'border-emerald-500/20' },
+};
+
+const SIGNAL_CONFIG: Record<InboxSignal, { icon: typeof Mail; label: string; className: string }> = {
+  briefing: { icon: Flame, label: 'In briefing', className: 'bg-red-500/15 text-red-400' },
+  conflict: { icon: AlertTriangle, label: 'Conflict', className: 'bg-amber-500/15 text-amber-400' },
+  important: { icon: Star, label: 'Important', className: 'bg-yellow-500/15 text-yellow-400' },
+  unread: { icon: Mail, label: 'Unread', className: 'bg-teal-500/15 text-teal-400' },
+  frequent_sender: { icon: UserCheck, label: 'Frequent contact', className: 'bg-violet-500/15 text-violet-400' },
+};
+
+const STATUS_OPTIONS: Array<{ value: ReadStatus; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'unread', label: 'Unread' },
+  { value: 'read', label: 'Read' },
+];
+
+function formatEventTime(start: string, end: string | null, timeZone: string): string {
+  const day = new Date(start).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const time = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+  return end ? `${day} · ${time(start)} – ${time(end)}` : `${day} · ${time(start)}`;
+}
+
+// ============================================================================
+// Page
+// ============================================================================
 
 export default function InboxPage() {
-  const sources = [
-    { icon: Mail, label: 'Emails', description: 'Important messages', color: 'text-rose-400', bg: 'bg-rose-500/15', border: 'border-rose-500/20' },
-    { icon: Calendar, label: 'Events', description: 'Upcoming schedule', color: 'text-sky-400', bg: 'bg-sky-500/15', border: 'border-sky-500/20' },
-    { icon: FileText, label: 'Documents', description: 'Recent files', color: 'text-emerald-400', bg: 'bg-emerald-500/15', border: 'border-emerald-500/20' },
-  ];
+  const { providers } = useSyncManager();
+  const hasConnections = Object.values(providers).some(p => p.status === 'connected');
+
+  const [source, setSource] = useState<InboxSource | 'all'>('all');
+  const [status, setStatus] = useState<ReadStatus>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [counts, setCounts] = useState<Record<InboxSource, number>>({ email: 0, event: 0, document: 0 });
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ============================================================================
+  // Fetch Feed
+  // ============================================================================
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams();
+    if (source !== 'all') params.set('source', source);
+    if (status !== 'all') params.set('status', status);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (cursor) params.set('cursor', cursor);
+
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
+
+    try {
+      const response = await fetch(`/api/inbox?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load inbox');
+      }
+
+      setItems(prev => cursor ? [...prev, ...data.items] : data.items);
+      setCounts(data.counts);
+      setNextCursor(data.nextCursor);
+      setTimeZone(data.timeZone);
+      setError(null);
+    } catch (err) {
+      console.error('[Inbox] Fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load inbox');
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, [source, status, from, to]);
+
+  useEffect(() => {
+    if (hasConnections) {
+      fetchPage(null);
+    }
+  }, [hasConnections, fetchPage]);
+
+  // Refresh after a sync completes
+  useEffect(() => {
+    const handleConnectionsUpdated = (event: Event) => {
+      const customEvent = event as CustomEvent;
+      if (customEvent.detail?.phase === 'complete') {
+        fetchPage(null);
+      }
+    };
+
+    window.addEventListener('eos:connections-updated', handleConnectionsUpdated);
+    return () => window.removeEventListener('eos:connections-updated', handleConnectionsUpdated);
+  }, [fetchPage]);
+
+  const totalCount = counts.email + counts.event + counts.document;
+  const hasDateFilter = Boolean(from || to);
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (!hasConnections) {
+    return <InboxEmptyState />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Unified Inbox</h1>
+          <p className="text-muted-foreground mt-1">
+            All your important items in one place, most pressing first
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fetchPage(null)}
+          disabled={isLoading}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex flex-wrap gap-2">
+          <FilterChip active={source === 'all'} onClick={() => setSource('all')}>
+            All <span className="text-muted-foreground">{totalCount}</span>
+          </FilterChip>
+          {(Object.keys(SOURCE_CONFIG) as InboxSource[]).map((key) => {
+            const config = SOURCE_CONFIG[key];
+            return (
+              <FilterChip key={key} active={source === key} onClick={() => setSource(key)}>
+                <config.icon className={cn('h-3.5 w-3.5', config.color)} />
+                {config.label} <span className="text-muted-foreground">{counts[key]}</span>
+              </FilterChip>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-1 rounded-lg border border-border p-0.5">
+          {STATUS_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setStatus(option.value)}
+              className={cn(
+                'px-2.5 py-1 text-xs rounded-md transition-colors',
+                status === option.value
+                  ? 'bg-secondary text-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="bg-background border border-border rounded-md px-2 py-1 text-xs text-foreground"
+            aria-label="From date"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="bg-background border border-border rounded-md px-2 py-1 text-xs text-foreground"
+            aria-label="To date"
+          />
+          {hasDateFilter && (
+            <button
+              onClick={() => { setFrom(''); setTo(''); }}
+              className="p-1 rounded hover:text-foreground"
+              aria-label="Clear dates"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status !== 'all' && (
+        <p className="text-xs text-muted-foreground -mt-3">
+          Read state applies to emails only; events and documents are hidden.
+        </p>
+      )}
+
+      {/* Feed */}
+      {isLoading ? (
+        <div className="space-y-3">
+          {[0, 1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20 w-full rounded-xl" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card className="p-6 flex items-center gap-3 border-red-500/20 bg-red-500/5">
+          <AlertTriangle className="h-5 w-5 text-red-400 shrink-0" />
+          <p className="text-sm text-red-400 flex-1">{error}</p>
+          <Button variant="outline" size="sm" onClick={() => fetchPage(null)}>
+            Retry
+          </Button>
+        </Card>
+      ) : items.length === 0 ? (
+        <Card className="p-10 flex flex-col items-center text-center">
+          <Inbox className="h-8 w-8 text-muted-foreground mb-3" />
+          <p className="text-sm text-foreground font-medium">Nothing here</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {hasDateFilter || status !== 'all' || source !== 'all'
+              ? 'No items match these filters.'
+              : 'New emails, upcoming meetings and edited documents will show up here.'}
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <InboxRow key={item.id} item={item} timeZone={timeZone} />
+          ))}
+
+          {nextCursor && (
+            <div className="flex justify-center pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fetchPage(nextCursor)}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore && <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-Components
+// ============================================================================
 
+function FilterChip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg border transition-colors',
+        active
+          ? 'bg-secondary border-border text-foreground'
+          : 'border-border/50 text-muted-foreground hover:text-foreground hover:bg-secondary/50'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function InboxRow({ item, timeZone }: { item: InboxItem; timeZone: string }) {
+  const config = SOURCE_CONFIG[item.source];
+
+  const content = (
+    <Card className={cn(
+      'p-4 flex gap-3 transition-colors hover:bg-secondary/30',
+      item.isRead === false && 'border-l-2 border-l-teal-500'
+    )}>
+      <div className={cn('w-9 h-9 rounded-lg flex items-center justify-center shrink-0 ring-1', config.bg, config.border)}>
+        <config.icon className={cn('h-4 w-4', config.color)} />
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-3">
+          <p className={cn(
+            'text-sm truncate',
+            item.isRead === false ? 'font-semibold text-foreground' : 'font-medium text-foreground'
+          )}>
+            {item.title}
+          </p>
+          <span className="text-[11px] text-muted-foreground shrink-0">
+            {item.source === 'event'
+              ? formatEventTime(item.occurredAt, item.endsAt, timeZone)
+              : formatTimeAgo(item.occurredAt)}
+          </span>
+        </div>
+
+        {item.subtitle && (
+          <p className="text-xs text-muted-foreground truncate mt-0.5">{item.subtitle}</p>
+        )}
+        {item.snippet && (
+          <p className="text-xs text-muted-foreground/80 line-clamp-2 mt-1">{item.snippet}</p>
+        )}
+
+        {item.signals.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {item.signals.map((signal) => {
+              const signalConfig = SIGNAL_CONFIG[signal];
+              return (
+                <span
+                  key={signal}
+                  className={cn('inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded', signalConfig.className)}
+                >
+                  <signalConfig.icon className="h-2.5 w-2.5" />
+                  {signalConfig.label}
+                </span>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {item.url && (
+        <ExternalLink className="h-3.5 w-3.5 text-muted-foreground shrink-0 mt-1" />
+      )}
+    </Card>
+  );
+
+  return item.url ? (
+    <a href={item.url} target="_blank" rel="noopener noreferrer" className="block">
+      {content}
+    </a>
+  ) : content;
+}
+
+function InboxEmptyState() {
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -23,7 +421,6 @@ export default function InboxPage() {
         </p>
       </div>
 
-      {/* Empty State */}
       <Card className="p-12">
         <div className="flex flex-col items-center justify-center text-center max-w-lg mx-auto">
           {/* Icon */}
@@ -33,35 +430,16 @@ export default function InboxPage() {
               <Inbox className="h-10 w-10 text-primary" />
             </div>
           </div>
-          
+
           {/* Title & Description */}
           <h2 className="text-xl font-bold text-foreground mb-2">
             Your Unified Inbox
           </h2>
           <p className="text-muted-foreground mb-8 leading-relaxed">
             Connect your Gmail, Calendar, and Drive to see all your important
-            items consolidated here. AI will help prioritize what matters most.
+            items consolidated here, ranked by what needs you most.
           </p>
-          
-          {/* Category Indicators */}
-          <div className="flex flex-wrap justify-center gap-3 mb-8">
-            {sources.map((source) => (
-              <div 
-                key={source.label}
-                className={cn(
-                  'flex items-center gap-2.5 px-4 py-2.5 rounded-xl border transition-all hover:scale-105',
-                  source.bg, source.border
-                )}
-              >
-                <source.icon className={cn('h-5 w-5', source.color)} />
-                <div className="text-left">
-                  <span className="text-sm font-medium text-foreground block">{source.label}</span>
-                  <span className="text-[10px] text-muted-foreground">{source.description}</span>
-                </div>
-              </div>
-            ))}
-          </div>
-          
+
           {/* CTA */}
           <Link href="/settings">
             <Button className="font-medium gap-2">
@@ -72,45 +450,6 @@ export default function InboxPage() {
           </Link>
         </div>
       </Card>
-
-      {/* Feature Preview */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <Card className="p-5 bg-card/50">
-          <div className="flex items-center gap-3 mb-3">
-            <div className="w-10 h-10 rounded-xl bg-rose-500/15 flex items-center justify-center ring-1 ring-rose-500/20">
-              <Mail className="h-5 w-5 text-rose-400" />
-            </div>
-            <h4 className="font-semibold text-foreground">Smart Email Triage</h4>
-          </div>
-          <p className="text-sm text-muted-foreground leading-relaxed">
-            AI-powered prioritization surfaces important emails first, with automated summaries and suggested actions.
-          </p>
-        </Card>
-        
-        <Card className="p-5 bg-card/50">
-          <div className="flex items-center gap-3 mb-3">
-            <div className="w-10 h-10 rounded-xl bg-sky-500/15 flex items-center justify-center ring-1 ring-sky-500/20">
-              <Calendar className="h-5 w-5 text-sky-400" />
-            </div>
-            <h4 className="font-semibold text-foreground">Event Insights</h4>
-          </div>
-          <p className="text-sm text-muted-foreground leading-relaxed">
-            See upcoming meetings with preparation context, attendee insights, and conflict detection.
-          </p>
-        </Card>
-        
-        <Card className="p-5 bg-card/50">
-          <div className="flex items-center gap-3 mb-3">
-            <div className="w-10 h-10 rounded-xl bg-emerald-500/15 flex items-center justify-center ring-1 ring-emerald-500/20">
-              <FileText className="h-5 w-5 text-emerald-400" />
-            </div>
-            <h4 className="font-semibold text-foreground">Document Context</h4>
-          </div>
-          <p className="text-sm text-muted-foreground leading-relaxed">
-            Recently modified documents surface automatically with AI-generated summaries and related emails.
-          </p>
-        </Card>
-        </div>
     </div>
   );
 }
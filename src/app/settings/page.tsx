@@ -27,11 +27,15 @@ import {
   Loader2,
   Trash2,
   Sparkles,
+  Globe,
+  RotateCcw,
+  RefreshCw,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ConnectGmail } from '@/components/ConnectGmail';
 import { ConnectCalendar } from '@/components/ConnectCalendar';
@@ -40,6 +44,8 @@ import { cn } from '@/lib/utils';
 import { useSyncManager, type ProviderKey } from '@/lib/sync-manager';
 import { toast } from 'sonner';
 import { formatTimeAgo } from '@/lib/time';
+import type { UserPreferences } from '@/lib/preferences';
+import type { SyncJobStatus, SyncJobSummary, SyncJobTrigger } from '@/lib/sync-jobs';
 
 // ============================================================================
 // Types
@@ -154,6 +160,678 @@ function ConnectionCard({
   );
 }
 
+// ============================================================================
+// Work Schedule Section
+// ============================================================================
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function WorkScheduleSection() {
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [timeZones] = useState<string[]>(() => Intl.supportedValuesOf('timeZone'));
+
+  useEffect(() => {
+    fetch('/api/preferences')
+      .then(res => res.json())
+      .then(data => setPreferences(data.preferences ?? null))
+      .catch(() => setPreferences(null));
+  }, []);
+
+  const toggleDay = (day: number) => {
+    setPreferences(prev => {
+      if (!prev) return prev;
+      const days = prev.workingHours.days.includes(day)
+        ? prev.workingHours.days.filter(d => d !== day)
+        : [...prev.workingHours.days, day].sort((a, b) => a - b);
+      return { ...prev, workingHours: { ...prev.workingHours, days } };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        // Calendar selection is saved separately by CalendarSelectionSection
+        body: JSON.stringify({
+          timeZone: preferences.timeZone,
+          workingHours: preferences.workingHours,
+          focusPolicy: preferences.focusPolicy,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save');
+      }
+
+      setPreferences(data.preferences);
+      toast.success('Schedule saved', {
+        description: 'Briefings and focus blocks will use your time zone from the next sync.',
+      });
+    } catch (error) {
+      toast.error('Failed to save schedule', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!preferences) {
+    return <div className="h-40 rounded-lg border border-border/30 bg-secondary/20 animate-pulse" />;
+  }
+
+  const browserTimeZone = getBrowserTimeZone();
+
+  return (
+    <div className="rounded-lg border border-border/30 divide-y divide-border/30">
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <Label htmlFor="time-zone" className="text-sm font-medium text-foreground">Time Zone</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Used for &quot;today&quot;, briefing delivery and focus blocks
+          </p>
+          {browserTimeZone !== preferences.timeZone && (
+            <button
+              type="button"
+              onClick={() => setPreferences({ ...preferences, timeZone: browserTimeZone })}
+              className="flex items-center gap-1 mt-1.5 text-[11px] text-sky-400 hover:text-sky-300"
+            >
+              <Globe className="h-3 w-3" />
+              Use this device&apos;s time zone ({browserTimeZone})
+            </button>
+          )}
+        </div>
+        <select
+          id="time-zone"
+          value={preferences.timeZone}
+          onChange={(e) => setPreferences({ ...preferences, timeZone: e.target.value })}
+          className="h-9 w-56 rounded-md border border-input bg-transparent px-2 text-sm text-foreground"
+        >
+          {!timeZones.includes(preferences.timeZone) && (
+            <option value={preferences.timeZone}>{preferences.timeZone}</option>
+          )}
+          {timeZones.map(tz => (
+            <option key={tz} value={tz} className="bg-background">{tz}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <Label className="text-sm font-medium text-foreground">Working Hours</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Focus blocks are only found inside these hours
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="time"
+            aria-label="Work day start"
+            value={preferences.workingHours.start}
+            onChange={(e) => setPreferences({
+              ...preferences,
+              workingHours: { ...preferences.workingHours, start: e.target.value },
+            })}
+            className="w-28"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="time"
+            aria-label="Work day end"
+            value={preferences.workingHours.end}
+            onChange={(e) => setPreferences({
+              ...preferences,
+              workingHours: { ...preferences.workingHours, end: e.target.value },
+            })}
+            className="w-28"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <Label htmlFor="auto-protect-focus" className="text-sm font-medium text-foreground">Protect Focus Time</Label>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Keep this many hours a week booked as &quot;Focus&quot; in your calendar; holds move when meetings land on them
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Input
+            type="number"
+            aria-label="Weekly focus hours"
+            min={1}
+            max={30}
+            value={preferences.focusPolicy.weeklyHours}
+            disabled={!preferences.focusPolicy.autoProtect}
+            onChange={(e) => setPreferences({
+              ...preferences,
+              focusPolicy: { ...preferences.focusPolicy, weeklyHours: Number(e.target.value) },
+            })}
+            className="w-20"
+          />
+          <span className="text-xs text-muted-foreground">h/week</span>
+          <Switch
+            id="auto-protect-focus"
+            checked={preferences.focusPolicy.autoProtect}
+            onCheckedChange={(checked) => setPreferences({
+              ...preferences,
+              focusPolicy: { ...preferences.focusPolicy, autoProtect: checked },
+            })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div className="flex gap-1.5">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={cn(
+                'h-8 w-10 rounded-md text-[11px] font-medium border transition-colors',
+                preferences.workingHours.days.includes(day)
+                  ? 'border-sky-500/40 bg-sky-500/10 text-sky-400'
+                  : 'border-border/30 text-muted-foreground hover:bg-secondary/30'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <Button size="sm" className="h-8 text-xs" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? <><Loader2 className="h-3 w-3 mr-1.5 animate-spin" />Saving</> : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Calendar Selection Section
+// ============================================================================
+
+interface CalendarOption {
+  id: string;
+  summary: string;
+  color: string | null;
+  primary: boolean;
+  selected: boolean;
+  includeInConflicts: boolean;
+}
+
+function CalendarSelectionSection() {
+  const { syncCalendar } = useSyncManager();
+  const [calendars, setCalendars] = useState<CalendarOption[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/calendar/calendars')
+      .then(async res => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'Failed to load calendars');
+        setCalendars(data.calendars ?? []);
+      })
+      .catch(error => setLoadError(error instanceof Error ? error.message : 'Failed to load calendars'));
+  }, []);
+
+  const updateCalendar = (id: string, update: Partial<CalendarOption>) => {
+    setCalendars(prev => prev?.map(c => (c.id === id ? { ...c, ...update } : c)) ?? prev);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!calendars) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          calendars: {
+            selected: calendars.filter(c => c.selected).map(c => c.id),
+            conflictExcluded: calendars.filter(c => !c.includeInConflicts).map(c => c.id),
+          },
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save');
+      }
+
+      setIsDirty(false);
+      toast.success('Calendars saved', {
+        description: 'Syncing your calendar selection now.',
+      });
+      void syncCalendar({ trigger: 'manual' });
+    } catch (error) {
+      toast.error('Failed to save calendars', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="flex items-center gap-1.5 p-4 rounded-lg border border-red-500/30 text-xs text-red-400">
+        <AlertTriangle className="h-3 w-3" />
+        {loadError}
+      </div>
+    );
+  }
+
+  if (!calendars) {
+    return <div className="h-24 rounded-lg border border-border/30 bg-secondary/20 animate-pulse" />;
+  }
+
+  return (
+    <div className="rounded-lg border border-border/30 divide-y divide-border/30">
+      <div className="grid grid-cols-[1fr_64px_80px] gap-4 px-4 py-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+        <span>Calendar</span>
+        <span className="text-center">Sync</span>
+        <span className="text-center">Conflicts</span>
+      </div>
+      {calendars.map(calendar => (
+        <div key={calendar.id} className="grid grid-cols-[1fr_64px_80px] items-center gap-4 px-4 py-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <span
+              className="h-2.5 w-2.5 rounded-full shrink-0 bg-sky-400"
+              style={calendar.color ? { backgroundColor: calendar.color } : undefined}
+            />
+            <span className="text-sm text-foreground truncate">{calendar.summary}</span>
+            {calendar.primary && (
+              <span className="text-[10px] text-muted-foreground shrink-0">Primary</span>
+            )}
+          </div>
+          <div className="flex justify-center">
+            <Switch
+              aria-label={`Sync ${calendar.summary}`}
+              checked={calendar.selected}
+              disabled={calendar.primary}
+              onCheckedChange={(checked) => updateCalendar(calendar.id, { selected: checked })}
+            />
+          </div>
+          <div className="flex justify-center">
+            <Switch
+              aria-label={`Detect conflicts on ${calendar.summary}`}
+              checked={calendar.includeInConflicts}
+              disabled={!calendar.selected}
+              onCheckedChange={(checked) => updateCalendar(calendar.id, { includeInConflicts: checked })}
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-4 p-4">
+        <p className="text-xs text-muted-foreground">
+          Turn off conflicts for calendars like holidays or team out-of-office
+        </p>
+        <Button size="sm" className="h-8 text-xs" onClick={handleSave} disabled={isSaving || !isDirty}>
+          {isSaving ? <><Loader2 className="h-3 w-3 mr-1.5 animate-spin" />Saving</> : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sync Activity Section
+// ============================================================================
+
+const PROVIDER_LABELS: Record<ProviderKey, string> = {
+  gmail: 'Gmail',
+  calendar: 'Google Calendar',
+  drive: 'Google Drive',
+};
+
+const TRIGGER_LABELS: Record<SyncJobTrigger, string> = {
+  connect: 'Connect',
+  manual: 'Manual',
+  auto: 'Auto',
+  scheduled: 'Scheduled',
+  date_boundary: 'New day',
+  push: 'Push',
+};
+
+const STAGE_STYLES: Partial<Record<SyncJobStatus, { label: string; bar: string }>> = {
+  pending: { label: 'Queued', bar: 'bg-slate-500/60' },
+  fetching: { label: 'Fetching', bar: 'bg-sky-500/70' },
+  securing: { label: 'Securing', bar: 'bg-violet-500/70' },
+  persisting: { label: 'Persisting', bar: 'bg-amber-500/70' },
+  analyzing: { label: 'Analyzing', bar: 'bg-indigo-500/70' },
+  embedding: { label: 'Embedding', bar: 'bg-emerald-500/70' },
+};
+
+const ACTIVITY_WINDOWS = [
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 7 * 24 },
+];
+
+/** Refresh interval while any listed job is still running */
+const ACTIVITY_POLL_MS = 3000;
+
+function isJobFinished(status: SyncJobStatus): boolean {
+  return status === 'complete' || status === 'partial' || status === 'error';
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '…';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function ReconnectButton({ provider }: { provider: ProviderKey }) {
+  const { onProviderConnected, startProviderSync, stopProviderSync } = useSyncManager();
+  const props = {
+    buttonVariant: 'outline' as const,
+    buttonSize: 'sm' as const,
+    showIcon: false,
+    label: 'Reconnect',
+    className: 'h-7 text-[11px] border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300',
+    onSyncStart: () => startProviderSync(provider),
+    onConnectionSuccess: () => { void onProviderConnected(provider); },
+    onConnectionError: () => stopProviderSync(provider),
+  };
+
+  if (provider === 'gmail') return <ConnectGmail {...props} />;
+  if (provider === 'calendar') return <ConnectCalendar {...props} />;
+  return <ConnectDrive {...props} />;
+}
+
+function SyncJobRow({
+  job,
+  onRetry,
+  isRetrying,
+}: {
+  job: SyncJobSummary;
+  onRetry: (jobId: string) => void;
+  isRetrying: boolean;
+}) {
+  const totalMs = job.stages.reduce((sum, s) => sum + (s.durationMs ?? 0), 0);
+  const isRunning = !isJobFinished(job.status);
+
+  return (
+    <div className="p-4 space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          {job.status === 'complete' && <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500 shrink-0" />}
+          {job.status === 'partial' && <AlertTriangle className="h-3.5 w-3.5 text-amber-500 shrink-0" />}
+          {job.status === 'error' && <XCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />}
+          {isRunning && <Loader2 className="h-3.5 w-3.5 text-amber-500 animate-spin shrink-0" />}
+          <span className="text-sm text-foreground">{PROVIDER_LABELS[job.provider]}</span>
+          <span className="text-[10px] text-muted-foreground px-1.5 py-0.5 rounded bg-secondary/50">
+            {TRIGGER_LABELS[job.trigger] ?? job.trigger}
+          </span>
+          {job.retryOf && (
+            <span className="text-[10px] text-muted-foreground flex items-center gap-0.5">
+              <RotateCcw className="h-2.5 w-2.5" />Retry
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 shrink-0 text-[10px] text-muted-foreground">
+          <span>{isRunning ? STAGE_STYLES[job.status]?.label ?? job.status : formatDuration(job.durationMs)}</span>
+          <span>{formatTimeAgo(job.startedAt)}</span>
+        </div>
+      </div>
+
+      {/* Stage durations */}
+      {job.stages.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-secondary/40">
+            {job.stages.map(stage => (
+              <div
+                key={stage.stage}
+                className={cn(
+                  STAGE_STYLES[stage.stage]?.bar,
+                  stage.durationMs === null && 'animate-pulse',
+                  job.failedStage === stage.stage && 'bg-red-500/70'
+                )}
+                style={{
+                  width: totalMs > 0 && stage.durationMs !== null
+                    ? `${Math.max((stage.durationMs / totalMs) * 100, 2)}%`
+                    : '8%',
+                }}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[10px] text-muted-foreground/80">
+            {job.stages.map(stage => (
+              <span key={stage.stage} className={cn(job.failedStage === stage.stage && 'text-red-400')}>
+                {STAGE_STYLES[stage.stage]?.label ?? stage.stage} {formatDuration(stage.durationMs)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Counts */}
+      {(job.status === 'complete' || job.status === 'partial') && (
+        <p className="text-[10px] text-muted-foreground">
+          {job.counts.fetched} fetched · {job.counts.inserted} new · {job.counts.updated} updated · {job.counts.deleted} removed · {job.counts.unchanged} unchanged
+          {job.counts.failed > 0 && <span className="text-amber-500"> · {job.counts.failed} failed</span>}
+        </p>
+      )}
+
+      {/* Per-item failures */}
+      {job.itemFailures && (
+        <p className="text-[10px] text-muted-foreground">
+          Item retries: {job.itemFailures.pending} pending · {job.itemFailures.resolved} recovered
+          {job.itemFailures.abandoned > 0 && (
+            <span className="text-red-400"> · {job.itemFailures.abandoned} could not be synced</span>
+          )}
+        </p>
+      )}
+
+      {/* Error */}
+      {job.error && (
+        <div className="flex items-center justify-between gap-3 p-2 rounded-md border border-red-500/20 bg-red-500/5">
+          <div className="flex items-start gap-1.5 min-w-0 text-[11px] text-red-400">
+            <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+            <span className="break-words">
+              {job.failedStage && <>Failed while {STAGE_STYLES[job.failedStage]?.label.toLowerCase() ?? job.failedStage}: </>}
+              {job.error.message}
+            </span>
+          </div>
+          {job.error.retryable ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-[11px] shrink-0"
+              onClick={() => onRetry(job.id)}
+              disabled={isRetrying}
+            >
+              {isRetrying
+                ? <><Loader2 className="h-3 w-3 mr-1 animate-spin" />Retrying</>
+                : <><RotateCcw className="h-3 w-3 mr-1" />Retry</>}
+            </Button>
+          ) : job.error.category === 'auth' ? (
+            <span className="text-[10px] text-red-400 shrink-0">Reconnect required</span>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SyncActivitySection() {
+  const { providers, refreshConnections } = useSyncManager();
+  const [jobs, setJobs] = useState<SyncJobSummary[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [providerFilter, setProviderFilter] = useState<ProviderKey | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'error' | 'partial' | 'complete'>('all');
+  const [windowFilter, setWindowFilter] = useState(ACTIVITY_WINDOWS[0].value);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    const hours = ACTIVITY_WINDOWS.find(w => w.value === windowFilter)?.hours ?? 24;
+    const params = new URLSearchParams({
+      limit: '25',
+      from: new Date(Date.now() - hours * 60 * 60 * 1000).toISOString(),
+    });
+    if (providerFilter !== 'all') params.set('provider', providerFilter);
+    if (statusFilter !== 'all') params.set('status', statusFilter);
+
+    try {
+      const res = await fetch(`/api/sync/jobs?${params}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to load sync activity');
+      setJobs(data.jobs ?? []);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load sync activity');
+    }
+  }, [providerFilter, statusFilter, windowFilter]);
+
+  useEffect(() => {
+    void fetchJobs();
+
+    const handleConnectionsUpdated = () => { void fetchJobs(); };
+    window.addEventListener('eos:connections-updated', handleConnectionsUpdated);
+    return () => window.removeEventListener('eos:connections-updated', handleConnectionsUpdated);
+  }, [fetchJobs]);
+
+  // Keep refreshing while a job is still running
+  const hasRunningJobs = jobs?.some(j => !isJobFinished(j.status)) ?? false;
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const timer = setTimeout(() => { void fetchJobs(); }, ACTIVITY_POLL_MS);
+    return () => clearTimeout(timer);
+  }, [hasRunningJobs, jobs, fetchJobs]);
+
+  const handleRetry = async (jobId: string) => {
+    setRetrying(jobId);
+
+    try {
+      const response = await fetch(`/api/sync/jobs/${jobId}/retry`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        if (data.reconnect) await refreshConnections();
+        throw new Error(data.error || 'Failed to retry');
+      }
+
+      toast.success('Sync restarted');
+      await fetchJobs();
+    } catch (error) {
+      toast.error('Failed to retry sync', {
+        description: error instanceof Error ? error.message : 'Please try again.',
+      });
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  // Providers whose connection is broken, or whose latest job failed on auth
+  const needsReconnect = (Object.keys(PROVIDER_LABELS) as ProviderKey[]).filter(provider => {
+    if (providers[provider].status === 'error') return true;
+    const latest = jobs?.find(j => j.provider === provider);
+    return providers[provider].status === 'connected' && latest?.error?.category === 'auth';
+  });
+
+  const selectClassName = 'h-8 rounded-md border border-input bg-transparent px-2 text-xs text-foreground';
+
+  return (
+    <div className="space-y-2">
+      {needsReconnect.map(provider => (
+        <div
+          key={provider}
+          className="flex items-center justify-between gap-4 p-3 rounded-lg border border-red-500/30 bg-red-500/5"
+        >
+          <div className="flex items-center gap-1.5 text-xs text-red-400">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+            <span>
+              {PROVIDER_LABELS[provider]} access expired or was revoked. Reconnect to resume syncing.
+            </span>
+          </div>
+          <ReconnectButton provider={provider} />
+        </div>
+      ))}
+
+      <div className="rounded-lg border border-border/30 divide-y divide-border/30">
+        <div className="flex items-center gap-2 p-3">
+          <select
+            aria-label="Filter by provider"
+            value={providerFilter}
+            onChange={(e) => setProviderFilter(e.target.value as ProviderKey | 'all')}
+            className={selectClassName}
+          >
+            <option value="all" className="bg-background">All providers</option>
+            {(Object.keys(PROVIDER_LABELS) as ProviderKey[]).map(p => (
+              <option key={p} value={p} className="bg-background">{PROVIDER_LABELS[p]}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Filter by status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'all' | 'error' | 'partial' | 'complete')}
+            className={selectClassName}
+          >
+            <option value="all" className="bg-background">All statuses</option>
+            <option value="error" className="bg-background">Failed</option>
+            <option value="partial" className="bg-background">Partial</option>
+            <option value="complete" className="bg-background">Completed</option>
+          </select>
+          <select
+            aria-label="Time window"
+            value={windowFilter}
+            onChange={(e) => setWindowFilter(e.target.value)}
+            className={selectClassName}
+          >
+            {ACTIVITY_WINDOWS.map(w => (
+              <option key={w.value} value={w.value} className="bg-background">{w.label}</option>
+            ))}
+          </select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 ml-auto text-xs"
+            onClick={() => { void fetchJobs(); }}
+            aria-label="Refresh sync activity"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        {loadError ? (
+          <div className="flex items-center gap-1.5 p-4 text-xs text-red-400">
+            <AlertTriangle className="h-3 w-3" />
+            {loadError}
+          </div>
+        ) : !jobs ? (
+          <div className="h-24 bg-secondary/20 animate-pulse" />
+        ) : jobs.length === 0 ? (
+          <p className="p-4 text-xs text-muted-foreground">No sync jobs in this window</p>
+        ) : (
+          jobs.map(job => (
+            <SyncJobRow
+              key={job.id}
+              job={job}
+              onRetry={handleRetry}
+              isRetrying={retrying === job.id}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Settings Page
 // ============================================================================
@@ -461,6 +1139,20 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          {providers.calendar.status === 'connected' && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Calendars</h3>
+              <CalendarSelectionSection />
+            </div>
+          )}
+
+          {Object.values(providers).some(p => p.status !== 'disconnected') && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Sync Activity</h3>
+              <SyncActivitySection />
+            </div>
+          )}
+
           {/* Connection Info */}
           <div className="p-4 rounded-lg border border-border/30 bg-secondary/10">
             <h4 className="text-xs font-medium text-foreground mb-2">About Connections</h4>
@@ -483,6 +1175,11 @@ export default function SettingsPage() {
 
         {/* Preferences Tab */}
         <TabsContent value="preferences" className="space-y-5 pt-6">
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-foreground">Schedule</h3>
+            <WorkScheduleSection />
+          </div>
+
           <div className="space-y-3">
             <h3 className="text-sm font-medium text-foreground">Notifications</h3>
             <div className="rounded-lg border border-border/30 divide-y divide-border/30">
@@ -490,7 +1187,7 @@ export default function SettingsPage() {
                 <div>
                   <Label htmlFor="daily-briefing" className="text-sm font-medium text-foreground cursor-pointer">Daily Briefing</Label>
                   <p className="text-xs text-muted-foreground mt-0.5">
-                    Receive your AI briefing every morning at 6 AM UTC
+                    Receive your AI briefing every morning at 6 AM in your time zone
                   </p>
                 </div>
                 <Switch id="daily-briefing" defaultChecked />
@@ -14,7 +14,7 @@ interface SecurityStatusProps {
  * 
  * States:
  * - fetching: Retrieving emails from Gmail via Nango
- * - securing: Running mock DLP scan (2-second delay)
+ * - securing: Running DLP scan (Nightfall or local detector)
  */
 export function SecurityStatus({ status }: SecurityStatusProps) {
   const isFetching = status === 'fetching';
@@ -5,6 +5,7 @@
  * 
  * AI-powered chat with streaming responses from /api/ai/chat
  * Uses SSE (Server-Sent Events) for real-time streaming.
+ * Conversations are saved as sessions; the active one is restored on reload.
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react';
@@ -25,6 +26,10 @@ import {
   Minimize2,
   Loader2,
   AlertCircle,
+  History,
+  Pencil,
+  Trash2,
+  Check,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import type { ChatMessage, ChatSource } from './types';
@@ -35,6 +40,14 @@ interface OmniPanelProps {
   onClose: () => void;
 }
 
+interface ChatSessionSummary {
+  id: string;
+  title: string;
+  updatedAt: string;
+}
+
+const ACTIVE_SESSION_KEY = 'emergent-chat-session';
+
 const QUICK_ACTIONS = [
   { icon: Mail, label: 'Summarize emails', query: 'Summarize my recent important emails', color: 'text-rose-400' },
   { icon: Calendar, label: 'Today\'s schedule', query: 'What\'s on my schedule today?', color: 'text-sky-400' },
@@ -47,6 +60,11 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
   const [inputValue, setInputValue] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionTitle, setSessionTitle] = useState<string | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
   
   const inputRef = useRef<HTMLInputElement>(null);
   const expandedInputRef = useRef<HTMLTextAreaElement>(null);
@@ -76,6 +94,70 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
     }
   }, [isOpen, isExpanded]);
 
+  // ============================================================================
+  // Sessions
+  // ============================================================================
+
+  const setActiveSession = useCallback((session: { id: string; title: string } | null) => {
+    setSessionId(session?.id ?? null);
+    setSessionTitle(session?.title ?? null);
+    if (session) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, session.id);
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+    }
+  }, []);
+
+  const loadSession = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/ai/chat/sessions/${id}`);
+      if (response.status === 404) {
+        setActiveSession(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load conversation');
+      }
+
+      const data = await response.json();
+      setMessages(data.messages.map((msg: Omit<ChatMessage, 'createdAt'> & { createdAt: string }) => ({
+        ...msg,
+        createdAt: new Date(msg.createdAt),
+      })));
+      setActiveSession(data.session);
+      setShowSessions(false);
+      setError(null);
+    } catch (err) {
+      console.error('[OmniPanel] Session load error:', err);
+      toast.error('Could not load conversation');
+    }
+  }, [setActiveSession]);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoadingSessions(true);
+    try {
+      const response = await fetch('/api/ai/chat/sessions');
+      if (!response.ok) {
+        throw new Error('Failed to load conversations');
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (err) {
+      console.error('[OmniPanel] Sessions load error:', err);
+      toast.error('Could not load conversations');
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  }, []);
+
+  // Restore the last active session after a reload
+  useEffect(() => {
+    const savedSessionId = localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (savedSessionId) {
+      void loadSession(savedSessionId);
+    }
+  }, [loadSession]);
+
   // ============================================================================
   // Cleanup on unmount
   // ============================================================================
@@ -133,7 +215,7 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
       const response = await fetch('/api/ai/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: text }),
+        body: JSON.stringify({ message: text, sessionId }),
         signal: abortControllerRef.current.signal,
       });
 
@@ -170,6 +252,10 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
 
             try {
               const parsed = JSON.parse(data);
+
+              if (parsed.session) {
+                setActiveSession(parsed.session);
+              }
               
               if (parsed.text) {
                 accumulatedContent += parsed.text;
@@ -220,7 +306,7 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
       setIsStreaming(false);
       abortControllerRef.current = null;
     }
-  }, [isStreaming, isExpanded, hasConnections]);
+  }, [isStreaming, isExpanded, hasConnections, sessionId, setActiveSession]);
 
   // ============================================================================
   // Handlers
@@ -239,6 +325,53 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
     }
     setMessages([]);
     setError(null);
+    setShowSessions(false);
+    setActiveSession(null);
+  };
+
+  const toggleSessions = () => {
+    if (!showSessions) {
+      void loadSessions();
+    }
+    setShowSessions(!showSessions);
+  };
+
+  const renameSession = async (id: string, title: string) => {
+    try {
+      const response = await fetch(`/api/ai/chat/sessions/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        throw new Error('Rename failed');
+      }
+      const data = await response.json();
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, title: data.session.title } : s));
+      if (id === sessionId) {
+        setSessionTitle(data.session.title);
+      }
+    } catch (err) {
+      console.error('[OmniPanel] Rename error:', err);
+      toast.error('Could not rename conversation');
+    }
+  };
+
+  const deleteSession = async (id: string) => {
+    try {
+      const response = await fetch(`/api/ai/chat/sessions/${id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error('Delete failed');
+      }
+      setSessions(prev => prev.filter(s => s.id !== id));
+      if (id === sessionId) {
+        setMessages([]);
+        setActiveSession(null);
+      }
+    } catch (err) {
+      console.error('[OmniPanel] Delete error:', err);
+      toast.error('Could not delete conversation');
+    }
   };
 
   const handleQuickAction = (query: string) => {
@@ -267,12 +400,25 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
             </div>
             <div>
               <h2 className="font-medium text-sm text-foreground">Assistant</h2>
-              <p className="text-[10px] text-muted-foreground">
-                {hasConnections ? 'AI-powered help' : 'Connect data sources to chat'}
+              <p className="text-[10px] text-muted-foreground truncate max-w-[180px]">
+                {!hasConnections ? 'Connect data sources to chat' : sessionTitle || 'AI-powered help'}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleSessions}
+              disabled={isStreaming}
+              className={cn(
+                'h-7 w-7 p-0 text-muted-foreground hover:text-foreground',
+                showSessions && 'text-foreground bg-secondary'
+              )}
+              title="Conversations"
+            >
+              <History className="h-3.5 w-3.5" />
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -296,7 +442,16 @@ export function OmniPanel({ isOpen, onClose }: OmniPanelProps) {
 
         {/* Messages Area */}
         <div className="h-[340px] overflow-y-auto px-4 py-4 eos-scrollbar">
-          {messages.length === 0 ? (
+          {showSessions ? (
+            <SessionList
+              sessions={sessions}
+              activeSessionId={sessionId}
+              isLoading={isLoadingSessions}
+              onSelect={loadSession}
+              onRename={renameSession}
+              onDelete={deleteSession}
+            />
+          ) : messages.length === 0 ? (
             <EmptyChat 
               hasConnections={hasConnections} 
               onQuickAction={handleQuickAction}
@@ -464,6 +619,121 @@ function MessageBubble({ message }: { message: ChatMessage }) {
   );
 }
 
+function SessionList({
+  sessions,
+  activeSessionId,
+  isLoading,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string | null;
+  isLoading: boolean;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const submitRename = (id: string) => {
+    if (editingTitle.trim()) {
+      onRename(id, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  if (isLoading && sessions.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center px-4">
+        <History className="h-6 w-6 text-muted-foreground mb-3" />
+        <p className="text-xs text-muted-foreground">No saved conversations yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className={cn(
+            'group flex items-center gap-2 px-2.5 py-2 rounded-lg border transition-colors',
+            session.id === activeSessionId
+              ? 'bg-secondary border-border'
+              : 'border-transparent hover:bg-secondary/50'
+          )}
+        >
+          {editingId === session.id ? (
+            <>
+              <input
+                autoFocus
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitRename(session.id);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 bg-background border border-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:border-teal-500/50"
+              />
+              <button
+                onClick={() => submitRename(session.id)}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                title="Save"
+              >
+                <Check className="h-3 w-3" />
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => onSelect(session.id)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className="text-xs text-foreground truncate">{session.title}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {new Date(session.updatedAt).toLocaleString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </p>
+              </button>
+              <button
+                onClick={() => {
+                  setEditingId(session.id);
+                  setEditingTitle(session.title);
+                }}
+                className="p-1 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Rename"
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => onDelete(session.id)}
+                className="p-1 text-muted-foreground hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function EmptyChat({ 
   hasConnections, 
   onQuickAction 
@@ -17,10 +17,14 @@ import {
   Trash2,
   AlertTriangle,
   CalendarDays,
-  RefreshCw
+  RefreshCw,
+  Users,
+  Loader2,
+  Search
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import type { MeetingSlot, MeetingSlotSearch } from '@/lib/meeting-slots';
 
 interface CalendarEvent {
   id: string;
@@ -49,6 +53,8 @@ interface CalendarModalProps {
   initialDate?: Date | null;
 }
 
+const SLOT_DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
 const HOUR_HEIGHT = 56;
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
 
@@ -97,6 +103,8 @@ export function CalendarModal({
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showSlotFinder, setShowSlotFinder] = useState(false);
+  const [pickedSlot, setPickedSlot] = useState<MeetingSlot | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   const handleRefreshConflicts = async () => {
@@ -154,6 +162,31 @@ export function CalendarModal({
   const openNewEventForm = () => {
     setEditingEvent(null);
     setFormData({ title: '', startTime: '09:00', endTime: '10:00', location: '', description: '' });
+    setShowSlotFinder(false);
+    setPickedSlot(null);
+    setShowEventForm(true);
+  };
+
+  const openSlotFinder = () => {
+    setShowEventForm(false);
+    setPickedSlot(null);
+    setShowSlotFinder(true);
+  };
+
+  // Jump to the slot's day and start a new event there
+  const handlePickSlot = (slot: MeetingSlot, attendees: string[]) => {
+    const start = new Date(slot.start);
+    setSelectedDate(start);
+    setPickedSlot(slot);
+    setEditingEvent(null);
+    setFormData({
+      title: '',
+      startTime: start.toTimeString().slice(0, 5),
+      endTime: new Date(slot.end).toTimeString().slice(0, 5),
+      location: '',
+      description: `With ${attendees.join(', ')}`,
+    });
+    setShowSlotFinder(false);
     setShowEventForm(true);
   };
 
@@ -350,6 +383,18 @@ export function CalendarModal({
                   <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
                 </Button>
               )}
+              {/* Find a Time - Icon Button */}
+              {isConnected && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={openSlotFinder}
+                  className="h-8 w-8 rounded-lg bg-sky-500/10 hover:bg-sky-500/20 text-sky-500 hover:text-sky-400 transition-colors"
+                  title="Find a Time"
+                >
+                  <Users className="h-4 w-4" />
+                </Button>
+              )}
               {/* New Event - Icon Button */}
             <Button 
                 variant="ghost"
@@ -435,6 +480,25 @@ export function CalendarModal({
                   </div>
                 )}
                 
+                {/* Picked meeting slot */}
+                {pickedSlot && new Date(pickedSlot.start).toDateString() === selectedDate.toDateString() && (() => {
+                  const start = new Date(pickedSlot.start);
+                  const end = new Date(pickedSlot.end);
+                  const startMins = start.getHours() * 60 + start.getMinutes();
+                  const endMins = end.getHours() * 60 + end.getMinutes();
+                  return (
+                    <div
+                      className="absolute z-10 rounded-lg border-2 border-dashed border-sky-500/60 bg-sky-500/10 pointer-events-none"
+                      style={{
+                        top: (startMins / 60) * HOUR_HEIGHT,
+                        height: Math.max(((endMins - startMins) / 60) * HOUR_HEIGHT, 28),
+                        left: TIME_GUTTER,
+                        width: `calc(100% - ${TIME_GUTTER + 8}px)`,
+                      }}
+                    />
+                  );
+                })()}
+
                 {/* Events */}
                 {overlappingGroups.map((group) => 
                   group.map((event, idx) => {
@@ -488,6 +552,11 @@ export function CalendarModal({
             )}
           </div>
 
+          {/* Meeting Slot Finder Sidebar */}
+          {showSlotFinder && (
+            <MeetingSlotFinder onPick={handlePickSlot} onClose={() => setShowSlotFinder(false)} />
+          )}
+
           {/* Event Form Sidebar */}
           {showEventForm && (
             <div className="w-80 border-l border-border/50 p-4 bg-secondary/30 overflow-y-auto eos-scrollbar-thin">
@@ -617,3 +686,147 @@ export function CalendarModal({
     </Dialog>
   );
 }
+
+// ============================================================================
+// Meeting Slot Finder
+// ============================================================================
+
+function formatSlot(slot: MeetingSlot, timeZone: string): string {
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+  return `${day} · ${time(start)} – ${time(end)}`;
+}
+
+function MeetingSlotFinder({
+  onPick,
+  onClose,
+}: {
+  onPick: (slot: MeetingSlot, attendees: string[]) => void;
+  onClose: () => void;
+}) {
+  const [attendeeInput, setAttendeeInput] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [isSearching, setIsSearching] = useState(false);
+  const [search, setSearch] = useState<MeetingSlotSearch | null>(null);
+  const [attendees, setAttendees] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const emails = attendeeInput.split(/[\s,;]+/).map(a => a.trim()).filter(Boolean);
+    if (emails.length === 0) {
+      setError('Add at least one attendee email');
+      return;
+    }
+
+    setError(null);
+    setIsSearching(true);
+    try {
+      const response = await fetch('/api/calendar/meeting-slots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attendees: emails, durationMinutes }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to find times');
+      setSearch(data as MeetingSlotSearch);
+      setAttendees(emails);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find times');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="w-80 border-l border-border/50 p-4 bg-secondary/30 overflow-y-auto eos-scrollbar-thin">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-sm text-foreground">Find a Time</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-7 w-7 p-0 rounded-md hover:bg-secondary text-muted-foreground hover:text-foreground"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <form onSubmit={handleSearch} className="space-y-4">
+        <div>
+          <Label htmlFor="slot-attendees" className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Users className="h-3 w-3" /> Attendees
+          </Label>
+          <Textarea
+            id="slot-attendees"
+            value={attendeeInput}
+            onChange={(e) => setAttendeeInput(e.target.value)}
+            placeholder="name@company.com, another@company.com"
+            className="mt-1.5 text-sm resize-none"
+            rows={2}
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Clock className="h-3 w-3" /> Duration
+          </Label>
+          <select
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            className="mt-1.5 w-full h-9 px-3 rounded-md border border-border bg-background text-xs text-foreground focus:border-ring focus:outline-none focus:ring-1 focus:ring-ring transition-colors"
+          >
+            {SLOT_DURATION_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes} min` : `${minutes / 60} hr${minutes > 60 ? 's' : ''}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Button
+          type="submit"
+          size="sm"
+          disabled={isSearching}
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white font-medium h-8 text-xs gap-1.5"
+        >
+          {isSearching ? <Loader2 className="h-3 w-3 animate-spin" /> : <Search className="h-3 w-3" />}
+          Search next 7 days
+        </Button>
+      </form>
+
+      {error && <p className="mt-3 text-xs text-red-500">{error}</p>}
+
+      {search && (
+        <div className="mt-5 pt-4 border-t border-border/50 space-y-2">
+          {search.unavailable.length > 0 && (
+            <p className="text-[11px] text-amber-500">
+              Can&apos;t see {search.unavailable.map(a => a.email).join(', ')}; ranked without their calendar.
+            </p>
+          )}
+          {search.slots.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No shared free time in working hours. Try a shorter meeting.</p>
+          ) : (
+            search.slots.map(slot => (
+              <button
+                key={slot.start}
+                type="button"
+                onClick={() => onPick(slot, attendees)}
+                className="w-full text-left rounded-lg border border-border/40 bg-background/40 px-3 py-2 hover:border-sky-500/40 hover:bg-sky-500/5 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-medium text-foreground">{formatSlot(slot, search.timeZone)}</span>
+                  <span className="text-[10px] text-sky-400 font-semibold">{slot.score}</span>
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-0.5">{slot.reasons.join(' · ')}</p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -44,7 +44,7 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useSyncManager, type ProviderKey } from '@/lib/sync-manager';
-import { getCurrentUTCDate, formatTimeAgo, formatTimeBlock } from '@/lib/time';
+import { formatTimeAgo, formatTimeBlock } from '@/lib/time';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 
 // ============================================================================
@@ -55,7 +55,7 @@ interface BriefingContent {
   executiveSummary: string;
   briefingScore?: number;
   briefingVerdict?: 'CLEAR' | 'MANAGEABLE' | 'BUSY' | 'OVERLOADED';
-  topPriority: {
+  topPriority?: {  // Missing from briefings stored before server-side validation
     item: string;
     reason: string;
     suggestedAction: string;
@@ -111,6 +111,7 @@ interface Briefing {
   briefing_date: string;
   content: BriefingContent;
   generated_at: string;
+  time_zone: string;  // User's IANA time zone, for formatting time blocks
 }
 
 // ============================================================================
@@ -165,10 +166,10 @@ export function DailyBriefingWidget() {
     }
 
     try {
-      const today = getCurrentUTCDate();
+      // "today" is resolved server-side in the user's time zone
       // CRITICAL: Add cache-busting timestamp to prevent stale data
       const cacheBuster = Date.now();
-      const response = await fetch(`/api/ai/briefing/${today}?_t=${cacheBuster}`, {
+      const response = await fetch(`/api/ai/briefing/today?_t=${cacheBuster}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache',
@@ -184,6 +185,7 @@ export function DailyBriefingWidget() {
             briefing_date: data.briefingDate,
             content: data.content,
             generated_at: data.generatedAt,
+            time_zone: data.timeZone || 'UTC',
           });
           setError(null);
         } else {
@@ -220,7 +222,9 @@ export function DailyBriefingWidget() {
       if (response.ok) {
         await fetchBriefing();
       } else {
-        setError('Failed to generate briefing');
+        // Over the daily AI budget: show the server's message
+        const data = await response.json().catch(() => ({}));
+        setError(data.budgetExceeded ? data.error : 'Failed to generate briefing');
       }
     } catch (err) {
       console.error('[DailyBriefing] Generate error:', err);
@@ -455,7 +459,7 @@ export function DailyBriefingWidget() {
               </div>
 
               {/* Top Priority */}
-              {content.topPriority && (
+              {content.topPriority?.item && (
                 <div className="bg-gradient-to-r from-amber-500/10 to-transparent rounded-lg px-4 py-2.5 border-l-2 border-amber-500 shrink-0">
                   <div className="flex items-center gap-1.5 mb-1">
                     <Target className="w-3.5 h-3.5 text-amber-500" />
@@ -494,7 +498,7 @@ export function DailyBriefingWidget() {
                   <div className="flex flex-wrap gap-1.5">
                     {content.scheduleInsight.freeBlocks.slice(0, 3).map((block, idx) => (
                       <span key={idx} className="text-[11px] px-2 py-0.5 rounded bg-emerald-500/10 text-emerald-500 font-medium">
-                        {formatTimeBlock(block)}
+                        {formatTimeBlock(block, briefing.time_zone)}
                       </span>
                     ))}
                   </div>
@@ -875,7 +879,7 @@ function BriefingDetailModal({
           </div>
 
           {/* Top Priority */}
-          {content.topPriority && (
+          {content.topPriority?.item && (
             <div className="p-6 bg-gradient-to-br from-amber-500/5 to-orange-500/5 rounded-2xl border border-amber-500/20 shadow-lg">
               <h4 className="text-base font-semibold text-foreground mb-3 flex items-center gap-2">
                 <Target className="w-5 h-5 text-amber-500" />
@@ -953,7 +957,7 @@ function BriefingDetailModal({
                   <div className="flex flex-wrap gap-2">
                     {content.scheduleInsight.freeBlocks.map((block, idx) => (
                       <span key={idx} className="text-xs px-2.5 py-1.5 rounded-lg bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border border-emerald-500/20">
-                        {formatTimeBlock(block)}
+                        {formatTimeBlock(block, briefing.time_zone)}
                       </span>
                     ))}
                   </div>
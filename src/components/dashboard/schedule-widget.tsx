@@ -5,6 +5,8 @@
  * 
  * Displays today's calendar events from /api/calendar/events
  * Shows conflicts, locations, meeting times, and calendar insights.
+ * Lists invites awaiting a response and meetings key attendees declined
+ * (/api/calendar/rsvp).
  * Enhanced with analysis summary display and calendar view modal.
  */
 
@@ -26,6 +28,8 @@ import {
   TrendingDown,
   Minus,
   Brain,
+  MailQuestion,
+  UserX,
 } from 'lucide-react';
 import { useUser } from '@clerk/nextjs';
 import Link from 'next/link';
@@ -49,12 +53,32 @@ interface CalendarEvent {
   location: string | null;
   attendees: Array<{
     email: string;
-    displayName?: string;
+    displayName?: string | null;
     responseStatus: string;
+    organizer?: boolean;
+    self?: boolean;
+    optional?: boolean;
   }>;
+  self_response_status?: 'needsAction' | 'declined' | 'tentative' | 'accepted';
   organizer: string | null;
   has_conflict: boolean;
   conflict_with: string[];
+  calendar_id?: string;
+  color?: string | null;
+}
+
+interface RsvpEvent {
+  event_id: string;
+  title: string;
+  start_time: string;
+  is_all_day: boolean;
+  organizer: string | null;
+  declined?: Array<{ email: string; displayName: string | null; organizer: boolean }>;
+}
+
+interface RsvpData {
+  awaitingResponse: RsvpEvent[];
+  keyAttendeeDeclines: RsvpEvent[];
 }
 
 // ============================================================================
@@ -68,6 +92,7 @@ export function ScheduleWidget() {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [allEvents, setAllEvents] = useState<CalendarEvent[]>([]); // For calendar modal
   const [insight, setInsight] = useState<CalendarInsight | null>(null);
+  const [rsvp, setRsvp] = useState<RsvpData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isInsightsModalOpen, setIsInsightsModalOpen] = useState(false);
@@ -83,6 +108,12 @@ export function ScheduleWidget() {
     setIsCalendarModalOpen(true);
   }, []);
 
+  // Handler to open calendar modal on an invite's date
+  const handleRsvpClick = useCallback((event: RsvpEvent) => {
+    setSelectedEventDate(new Date(event.start_time));
+    setIsCalendarModalOpen(true);
+  }, []);
+
   // Calculate unique conflict PAIRS (not events with conflicts)
   // Each scheduling conflict involves 2 events, so we count unique pairs
   // NOTE: Must be called before any early returns to comply with React hooks rules
@@ -128,6 +159,12 @@ export function ScheduleWidget() {
         const allData = await allResponse.json();
         setAllEvents(allData.events || []);
       }
+
+      // Pending invites and key-attendee declines
+      const rsvpResponse = await fetch('/api/calendar/rsvp');
+      if (rsvpResponse.ok) {
+        setRsvp(await rsvpResponse.json());
+      }
     } catch (err) {
       console.error('[ScheduleWidget] Fetch error:', err);
       setError('Failed to load events');
@@ -224,6 +261,8 @@ export function ScheduleWidget() {
 
   const healthIndicator = getHealthIndicator();
 
+  const hasRsvpItems = !!rsvp && (rsvp.awaitingResponse.length > 0 || rsvp.keyAttendeeDeclines.length > 0);
+
     return (
     <>
       <Card className="flex flex-col h-full overflow-hidden border bg-card shadow-sm transition-all duration-200 hover:shadow-md">
@@ -369,10 +408,15 @@ export function ScheduleWidget() {
             <LoadingState />
           ) : error ? (
             <ErrorState message={error} onRetry={fetchEvents} />
-          ) : events.length === 0 ? (
+          ) : events.length === 0 && !hasRsvpItems ? (
             <EmptyState />
           ) : (
             <div className="pb-4 space-y-1.5">
+              {/* Awaiting Response / Key Attendee Declines */}
+              {rsvp && hasRsvpItems && (
+                <RsvpSection rsvp={rsvp} onSelect={handleRsvpClick} />
+              )}
+
               {/* Upcoming Events */}
               {upcomingEvents.map((event) => (
                 <EventCard key={event.id} event={event} isPast={false} onClick={() => handleEventClick(event)} />
@@ -477,6 +521,14 @@ function EventCard({ event, isPast, onClick }: { event: CalendarEvent; isPast: b
         {/* Content */}
       <div className="flex-1 min-w-0 pl-2">
         <div className="flex items-center gap-2">
+          {/* Source calendar (shown for calendars other than primary) */}
+          {event.calendar_id && event.calendar_id !== 'primary' && event.color && (
+            <span
+              className="h-2 w-2 rounded-full shrink-0"
+              style={{ backgroundColor: event.color }}
+              aria-hidden="true"
+            />
+          )}
             <h4 className={cn(
               'text-sm font-medium truncate',
             isPast ? 'text-muted-foreground line-through decoration-muted-foreground/50' : 'text-foreground'
@@ -494,6 +546,16 @@ function EventCard({ event, isPast, onClick }: { event: CalendarEvent; isPast: b
               Conflict
               </span>
             )}
+            {event.self_response_status === 'needsAction' && !isPast && (
+            <span className="shrink-0 inline-flex items-center px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider bg-amber-500/15 text-amber-600 dark:text-amber-400">
+              RSVP
+              </span>
+            )}
+            {event.self_response_status === 'declined' && (
+            <span className="shrink-0 inline-flex items-center px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider bg-secondary text-muted-foreground">
+              Declined
+              </span>
+            )}
           </div>
 
           {/* Meta Info */}
@@ -546,6 +608,72 @@ function EventCard({ event, isPast, onClick }: { event: CalendarEvent; isPast: b
   );
 }
 
+function RsvpSection({ rsvp, onSelect }: { rsvp: RsvpData; onSelect: (event: RsvpEvent) => void }) {
+  const formatWhen = (event: RsvpEvent) => {
+    const start = new Date(event.start_time);
+    const day = start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+    return event.is_all_day ? day : `${day}, ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  return (
+    <div className="mb-3 space-y-3 rounded-xl border border-amber-500/20 bg-amber-500/5 p-3">
+      {rsvp.awaitingResponse.length > 0 && (
+        <div>
+          <p className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-wider text-amber-600 dark:text-amber-400 mb-1.5">
+            <MailQuestion className="w-3.5 h-3.5" />
+            Awaiting your response ({rsvp.awaitingResponse.length})
+          </p>
+          <div className="space-y-1">
+            {rsvp.awaitingResponse.map((event) => (
+              <button
+                key={event.event_id}
+                onClick={() => onSelect(event)}
+                className="w-full flex items-center justify-between gap-3 rounded-lg px-2 py-1.5 text-left hover:bg-secondary/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-foreground truncate">{event.title}</p>
+                  {event.organizer && (
+                    <p className="text-[10px] text-muted-foreground truncate">from {event.organizer}</p>
+                  )}
+                </div>
+                <span className="text-[10px] font-medium text-muted-foreground shrink-0">{formatWhen(event)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rsvp.keyAttendeeDeclines.length > 0 && (
+        <div>
+          <p className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-wider text-red-500 mb-1.5">
+            <UserX className="w-3.5 h-3.5" />
+            Key attendees declined ({rsvp.keyAttendeeDeclines.length})
+          </p>
+          <div className="space-y-1">
+            {rsvp.keyAttendeeDeclines.map((event) => (
+              <button
+                key={event.event_id}
+                onClick={() => onSelect(event)}
+                className="w-full flex items-center justify-between gap-3 rounded-lg px-2 py-1.5 text-left hover:bg-secondary/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-foreground truncate">{event.title}</p>
+                  <p className="text-[10px] text-muted-foreground truncate">
+                    {(event.declined || [])
+                      .map((a) => `${a.displayName || a.email}${a.organizer ? ' (organizer)' : ''}`)
+                      .join(', ')}
+                  </p>
+                </div>
+                <span className="text-[10px] font-medium text-muted-foreground shrink-0">{formatWhen(event)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ScheduleLoadingSkeleton() {
     return (
       <Card className="p-5 h-full">
@@ -6,14 +6,17 @@
  * Displays AI-generated calendar analysis including:
  * - Executive summary
  * - Urgent actions
- * - Conflict resolutions
+ * - Conflict resolutions (preview, apply to Google Calendar, undo)
+ * - Recurring meeting audit
  * - Delegation opportunities
  * - Focus time protection
  * - Weekly insights
  */
 
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { 
   X,
   AlertTriangle, 
@@ -31,6 +34,9 @@ import {
   Brain,
   Activity,
   Info,
+  Repeat,
+  Loader2,
+  Undo2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
@@ -58,6 +64,50 @@ interface ConflictResolution {
   priority?: 'HIGH' | 'MEDIUM' | 'LOW';
 }
 
+type CalendarActionType = 'decline' | 'reschedule' | 'shorten';
+
+interface CalendarActionChange {
+  field: 'response' | 'note' | 'start' | 'end';
+  from: string | null;
+  to: string | null;
+}
+
+interface CalendarActionPreview {
+  action: CalendarActionType;
+  title: string;
+  keepTitle: string;
+  changes: CalendarActionChange[];
+  notifiesGuests: boolean;
+  newConflicts: string[];
+}
+
+interface CalendarActionSummary {
+  id: string;
+  action: CalendarActionType;
+  undoUntil: string | null;
+  canUndo: boolean;
+}
+
+interface RecurringMeetingAction {
+  series: string;
+  action: 'DECLINE_SERIES' | 'SHORTEN' | 'REDUCE_FREQUENCY' | 'DELEGATE' | 'KEEP';
+  reason: string;
+  hoursSavedPerQuarter?: number;
+}
+
+interface RecurringSeries {
+  title: string;
+  recurrence: string[];
+  organizedByUser: boolean;
+  attendeeCount: number;
+  quarterHours: number;
+  upcomingCount: number;
+  occurrencesInWindow: number;
+  conflictCount: number;
+  lastSkippedAt: string | null;
+  lastSkippedReason: 'declined' | 'cancelled' | null;
+}
+
 interface DelegationOpportunity {
   meeting: string;
   reason: string;
@@ -101,6 +151,7 @@ interface CalendarInsightContent {
   verdict?: 'OPTIMAL' | 'GOOD' | 'CONCERNING' | 'CRITICAL';
   urgentActions: UrgentAction[];
   conflictResolutions: ConflictResolution[];
+  recurringMeetingActions?: RecurringMeetingAction[];
   delegationOpportunities?: DelegationOpportunity[];
   focusTimeProtection: FocusTimeProtection;
   weeklyInsights: WeeklyInsights;
@@ -117,6 +168,8 @@ export interface CalendarInsight {
   healthScore?: number;
   verdict?: string;
   generatedAt: string;
+  timeZone?: string;  // User's IANA time zone, for formatting time blocks
+  recurringSeries?: RecurringSeries[];  // Recurring meeting audit, costliest first
 }
 
 interface SuggestionsModalProps {
@@ -245,7 +298,16 @@ export function SuggestionsModal({ isOpen, onClose, insight }: SuggestionsModalP
 
               {/* Conflict Resolutions */}
               {content.conflictResolutions && content.conflictResolutions.length > 0 && (
-                <ConflictResolutionsSection conflicts={content.conflictResolutions} />
+                <ConflictResolutionsSection conflicts={content.conflictResolutions} timeZone={insight?.timeZone} />
+              )}
+
+              {/* Recurring Meetings */}
+              {insight?.recurringSeries && insight.recurringSeries.length > 0 && (
+                <RecurringMeetingsSection
+                  series={insight.recurringSeries}
+                  actions={content.recurringMeetingActions || []}
+                  timeZone={insight.timeZone}
+                />
               )}
 
               {/* Delegation Opportunities */}
@@ -255,7 +317,7 @@ export function SuggestionsModal({ isOpen, onClose, insight }: SuggestionsModalP
 
               {/* Focus Time Protection */}
               {content.focusTimeProtection && (
-                <FocusTimeSection protection={content.focusTimeProtection} />
+                <FocusTimeSection protection={content.focusTimeProtection} timeZone={insight?.timeZone} />
               )}
 
               {/* Personalized Insights (if onboarding completed) */}
@@ -463,7 +525,7 @@ function UrgentActionsSection({ actions }: { actions: UrgentAction[] }) {
   );
 }
 
-function ConflictResolutionsSection({ conflicts }: { conflicts: ConflictResolution[] }) {
+function ConflictResolutionsSection({ conflicts, timeZone }: { conflicts: ConflictResolution[]; timeZone?: string }) {
   return (
     <div>
       <h4 className="text-base font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -533,6 +595,10 @@ function ConflictResolutionsSection({ conflicts }: { conflicts: ConflictResoluti
                 {conflict.suggestedAction}
               </span>
             </div>
+
+            {conflict.keepEvent && conflict.moveEvent && (
+              <ConflictActionPanel conflict={conflict} timeZone={timeZone} />
+            )}
           </div>
         ))}
       </div>
@@ -540,6 +606,272 @@ function ConflictResolutionsSection({ conflicts }: { conflicts: ConflictResoluti
   );
 }
 
+const CONFLICT_ACTION_LABELS: Record<CalendarActionType, string> = {
+  decline: 'Decline',
+  reschedule: 'Reschedule',
+  shorten: 'Shorten',
+};
+
+const CHANGE_FIELD_LABELS: Record<CalendarActionChange['field'], string> = {
+  response: 'Your RSVP',
+  note: 'Note to organizer',
+  start: 'Starts',
+  end: 'Ends',
+};
+
+function formatChangeValue(change: CalendarActionChange, value: string | null, timeZone?: string): string {
+  if (!value) return '—';
+  if (change.field === 'start' || change.field === 'end') {
+    return new Date(value).toLocaleString('en-US', {
+      weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone,
+    });
+  }
+  return value;
+}
+
+type ConflictActionState =
+  | { step: 'idle' }
+  | { step: 'previewing' }
+  | { step: 'preview'; preview: CalendarActionPreview }
+  | { step: 'applying'; preview: CalendarActionPreview }
+  | { step: 'applied'; action: CalendarActionSummary }
+  | { step: 'undoing'; action: CalendarActionSummary }
+  | { step: 'undone' };
+
+/**
+ * Preview, apply and undo a resolution on Google Calendar
+ */
+function ConflictActionPanel({ conflict, timeZone }: { conflict: ConflictResolution; timeZone?: string }) {
+  const [state, setState] = useState<ConflictActionState>({ step: 'idle' });
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolution = {
+    keepEvent: conflict.keepEvent,
+    moveEvent: conflict.moveEvent,
+    suggestedAction: conflict.suggestedAction,
+  };
+
+  // Hide Undo once the window closes
+  const undoUntil = state.step === 'applied' ? state.action.undoUntil : null;
+  useEffect(() => {
+    if (!undoUntil) return;
+    const timer = setTimeout(() => {
+      setState((current) => current.step === 'applied'
+        ? { step: 'applied', action: { ...current.action, canUndo: false } }
+        : current);
+    }, Math.max(0, new Date(undoUntil).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [undoUntil]);
+
+  const handlePreview = async () => {
+    setError(null);
+    setState({ step: 'previewing' });
+    try {
+      const response = await fetch('/api/calendar/actions/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to preview change');
+
+      const preview = data.preview as CalendarActionPreview;
+      setNote(preview.changes.find((c) => c.field === 'note')?.to ?? null);
+      setState({ step: 'preview', preview });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview change');
+      setState({ step: 'idle' });
+    }
+  };
+
+  const handleApply = async (preview: CalendarActionPreview) => {
+    setError(null);
+    setState({ step: 'applying', preview });
+    try {
+      const response = await fetch('/api/calendar/actions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          resolution,
+          action: preview.action,
+          ...(preview.action === 'decline' ? { note: note ?? '' } : {}),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to apply change');
+      setState({ step: 'applied', action: data.action });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply change');
+      setState({ step: 'preview', preview });
+    }
+  };
+
+  const handleUndo = async (action: CalendarActionSummary) => {
+    setError(null);
+    setState({ step: 'undoing', action });
+    try {
+      const response = await fetch(`/api/calendar/actions/${action.id}/undo`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to undo change');
+      setState({ step: 'undone' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo change');
+      setState({ step: 'applied', action });
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border/50">
+      {(state.step === 'idle' || state.step === 'previewing') && (
+        <Button variant="outline" size="sm" onClick={handlePreview} disabled={state.step === 'previewing'}>
+          {state.step === 'previewing' ? <Loader2 className="animate-spin" /> : <Calendar />}
+          Fix in Google Calendar
+        </Button>
+      )}
+
+      {(state.step === 'preview' || state.step === 'applying') && (
+        <div className="space-y-3">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            {CONFLICT_ACTION_LABELS[state.preview.action]} &ldquo;{state.preview.title}&rdquo;
+          </p>
+          <div className="space-y-1.5">
+            {state.preview.changes.filter((c) => c.field !== 'note').map((change) => (
+              <div key={change.field} className="flex items-center gap-2 text-sm">
+                <span className="w-24 shrink-0 text-muted-foreground">{CHANGE_FIELD_LABELS[change.field]}</span>
+                <span className="text-muted-foreground line-through">{formatChangeValue(change, change.from, timeZone)}</span>
+                <ArrowRight className="w-3 h-3 text-muted-foreground shrink-0" />
+                <span className="font-medium text-foreground">{formatChangeValue(change, change.to, timeZone)}</span>
+              </div>
+            ))}
+          </div>
+          {state.preview.action === 'decline' && (
+            <Textarea
+              value={note ?? ''}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note to the organizer (optional)"
+              className="text-sm min-h-16"
+              disabled={state.step === 'applying'}
+            />
+          )}
+          {state.preview.newConflicts.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              The new time overlaps {state.preview.newConflicts.join(', ')}.
+            </p>
+          )}
+          {state.preview.notifiesGuests && (
+            <p className="text-xs text-muted-foreground">Google Calendar will notify the other guests.</p>
+          )}
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={() => handleApply(state.preview)} disabled={state.step === 'applying'}>
+              {state.step === 'applying' ? <Loader2 className="animate-spin" /> : <CheckCircle />}
+              Apply
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setState({ step: 'idle' })} disabled={state.step === 'applying'}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(state.step === 'applied' || state.step === 'undoing') && (
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1.5 text-sm text-emerald-600 dark:text-emerald-400">
+            <CheckCircle className="w-4 h-4" />
+            Updated in Google Calendar
+          </span>
+          {state.action.canUndo && (
+            <Button variant="ghost" size="sm" onClick={() => handleUndo(state.action)} disabled={state.step === 'undoing'}>
+              {state.step === 'undoing' ? <Loader2 className="animate-spin" /> : <Undo2 />}
+              Undo
+            </Button>
+          )}
+        </div>
+      )}
+
+      {state.step === 'undone' && (
+        <span className="text-sm text-muted-foreground">Change undone. The event is back as it was.</span>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+const RECURRING_ACTION_LABELS: Record<RecurringMeetingAction['action'], string> = {
+  DECLINE_SERIES: 'Decline series',
+  SHORTEN: 'Shorten',
+  REDUCE_FREQUENCY: 'Meet less often',
+  DELEGATE: 'Delegate',
+  KEEP: 'Keep',
+};
+
+function RecurringMeetingsSection({
+  series,
+  actions,
+  timeZone,
+}: {
+  series: RecurringSeries[];
+  actions: RecurringMeetingAction[];
+  timeZone?: string;
+}) {
+  const actionBySeries = new Map(actions.map((a) => [a.series, a]));
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Repeat className="w-4 h-4 text-muted-foreground" />
+        Recurring Meetings
+        <span className="text-xs font-normal text-muted-foreground">next quarter</span>
+      </h4>
+      <div className="space-y-3">
+        {series.map((s, i) => {
+          const action = actionBySeries.get(s.title);
+          return (
+            <div key={i} className="p-4 bg-card rounded-xl border shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm text-foreground truncate">{s.title}</p>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs text-muted-foreground">
+                    <span>{s.upcomingCount} occurrences</span>
+                    <span>{s.attendeeCount} attendees</span>
+                    {s.occurrencesInWindow > 0 && (
+                      <span className={cn(s.conflictCount > 0 && 'text-red-500')}>
+                        Conflicts {s.conflictCount}/{s.occurrencesInWindow}
+                      </span>
+                    )}
+                    {s.lastSkippedAt && (
+                      <span>
+                        Last {s.lastSkippedReason === 'declined' ? 'declined' : 'skipped'}{' '}
+                        {new Date(s.lastSkippedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <span className="text-lg font-bold text-foreground shrink-0">
+                  {s.quarterHours.toFixed(1)}<span className="text-xs font-medium text-muted-foreground ml-0.5">h</span>
+                </span>
+              </div>
+              {action && action.action !== 'KEEP' && (
+                <div className="mt-3 pt-3 border-t border-border/50">
+                  <div className="flex items-center gap-1.5 text-xs text-foreground font-medium">
+                    <ArrowRight className="w-3.5 h-3.5" />
+                    <span>{RECURRING_ACTION_LABELS[action.action]}</span>
+                    {action.hoursSavedPerQuarter ? (
+                      <span className="text-emerald-500">saves {action.hoursSavedPerQuarter.toFixed(1)}h</span>
+                    ) : null}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 leading-relaxed">{action.reason}</p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function DelegationSection({ opportunities }: { opportunities: DelegationOpportunity[] }) {
   return (
     <div>
@@ -570,7 +902,7 @@ function DelegationSection({ opportunities }: { opportunities: DelegationOpportu
   );
 }
 
-function FocusTimeSection({ protection }: { protection: FocusTimeProtection }) {
+function FocusTimeSection({ protection, timeZone }: { protection: FocusTimeProtection; timeZone?: string }) {
   return (
     <div>
       <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
@@ -591,9 +923,7 @@ function FocusTimeSection({ protection }: { protection: FocusTimeProtection }) {
             <p className="text-xs font-medium text-foreground mb-2">Suggested blocks to protect:</p>
             <div className="flex flex-wrap gap-2">
               {protection.suggestedBlocks.map((block, i) => (
-                <span key={i} className="text-xs px-2.5 py-1 rounded-md bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 font-medium border border-emerald-500/20">
-                  {formatTimeBlock(block)}
-                </span>
+                <FocusBlockChip key={i} block={block} timeZone={timeZone} />
               ))}
             </div>
           </div>
@@ -616,6 +946,62 @@ function FocusTimeSection({ protection }: { protection: FocusTimeProtection }) {
   );
 }
 
+/**
+ * A suggested "ISO - ISO" block with a "Protect" action that books it as a
+ * Focus hold. Blocks the model didn't give as a range can't be protected.
+ */
+function FocusBlockChip({ block, timeZone }: { block: string; timeZone?: string }) {
+  const [state, setState] = useState<'idle' | 'protecting' | 'protected'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const [start, end] = block.split(' - ');
+  const canProtect = Boolean(start && end) && !isNaN(Date.parse(start)) && !isNaN(Date.parse(end));
+
+  const handleProtect = async () => {
+    setError(null);
+    setState('protecting');
+    try {
+      const response = await fetch('/api/calendar/focus-holds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ start, end }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to protect block');
+      setState('protected');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to protect block');
+      setState('idle');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="flex items-center gap-1.5 text-xs pl-2.5 pr-1 py-1 rounded-md bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 font-medium border border-emerald-500/20">
+        {formatTimeBlock(block, timeZone)}
+        {canProtect && state !== 'protected' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 px-1.5 text-xs"
+            onClick={handleProtect}
+            disabled={state === 'protecting'}
+          >
+            {state === 'protecting' ? <Loader2 className="animate-spin" /> : 'Protect'}
+          </Button>
+        )}
+        {state === 'protected' && (
+          <span className="flex items-center gap-1 pr-1.5">
+            <Shield className="w-3 h-3" />
+            Protected
+          </span>
+        )}
+      </span>
+      {error && <p className="text-xs text-red-500 max-w-56">{error}</p>}
+    </div>
+  );
+}
+
 function PersonalizedInsightsSection({ insights }: { insights: PersonalizedInsight[] }) {
   // SIMPLIFIED: All categories use violet (AI theme) with subtle variations
   const categoryConfig = {
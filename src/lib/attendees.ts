@@ -0,0 +1,78 @@
+/**
+ * EmergentOS - Calendar Attendees
+ *
+ * Typed attendee model for calendar_events.attendees and RSVP helpers.
+ * Google returns attendees with responseStatus/organizer/self flags; they are
+ * normalized here at sync time and re-parsed defensively when read back.
+ */
+
+import type { CalendarAttendee } from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { CalendarAttendee };
+
+export type ResponseStatus = CalendarAttendee['responseStatus'];
+
+const RESPONSE_STATUSES: ResponseStatus[] = ['needsAction', 'declined', 'tentative', 'accepted'];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isResponseStatus(value: unknown): value is ResponseStatus {
+  return typeof value === 'string' && (RESPONSE_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Normalize attendees from the Google API or a stored JSONB value.
+ * Entries without an email are dropped.
+ */
+export function parseAttendees(raw: unknown): CalendarAttendee[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object' && typeof a.email === 'string')
+    .map((a) => ({
+      email: a.email as string,
+      displayName: typeof a.displayName === 'string' ? a.displayName : null,
+      responseStatus: isResponseStatus(a.responseStatus) ? a.responseStatus : 'needsAction',
+      organizer: a.organizer === true,
+      self: a.self === true,
+      optional: a.optional === true,
+      resource: a.resource === true,
+    }));
+}
+
+// ============================================================================
+// RSVP
+// ============================================================================
+
+/**
+ * The user's own response. Events without a self attendee (no guests, or the
+ * user's own calendar entries) count as accepted.
+ */
+export function getSelfResponse(attendees: CalendarAttendee[]): ResponseStatus {
+  return attendees.find((a) => a.self)?.responseStatus ?? 'accepted';
+}
+
+/**
+ * Attendees whose absence matters: the organizer and required guests,
+ * excluding the user and rooms
+ */
+export function getKeyAttendees(attendees: CalendarAttendee[]): CalendarAttendee[] {
+  return attendees.filter((a) => !a.self && !a.resource && (a.organizer || !a.optional));
+}
+
+export function getDeclinedKeyAttendees(attendees: CalendarAttendee[]): CalendarAttendee[] {
+  return getKeyAttendees(attendees).filter((a) => a.responseStatus === 'declined');
+}
+
+/**
+ * Whether the event occupies the user's time (conflicts, focus blocks, back-to-back)
+ */
+export function isAttending(event: { self_response_status?: string | null }): boolean {
+  return event.self_response_status !== 'declined';
+}
@@ -0,0 +1,685 @@
+/**
+ * EmergentOS - Calendar Conflict Actions
+ *
+ * Applies a conflict resolution from the calendar analysis to Google Calendar:
+ * decline the event with a note, move it, or end it where the kept event
+ * starts. Each change is previewed first, recorded in calendar_actions with
+ * the event's original fields, and can be undone for
+ * CALENDAR_ACTION_UNDO_WINDOW_MINUTES. Writes need the calendar.events scope;
+ * connections granted only calendar.readonly fail with a 403 (reconnect).
+ */
+
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { supabase } from './supabase';
+import { calendarEventsEndpoint, getCalendarConnectionId } from './calendars';
+import { isAttending } from './attendees';
+import { formatErrorMessage } from './errors';
+import { isItemGone } from './sync-item-failures';
+import { resyncCalendarEvents } from './inngest/calendar-sync';
+import {
+  CALENDAR_ACTION_HISTORY_LIMIT,
+  CALENDAR_ACTION_MIN_DURATION_MINUTES,
+  CALENDAR_ACTION_NOTE_MAX_LENGTH,
+  CALENDAR_ACTION_UNDO_WINDOW_MINUTES,
+} from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CalendarActionType = 'decline' | 'reschedule' | 'shorten';
+
+export type CalendarActionStatus = 'pending' | 'applied' | 'failed' | 'undone';
+
+export const CALENDAR_ACTION_TYPES: CalendarActionType[] = ['decline', 'reschedule', 'shorten'];
+
+/**
+ * A conflictResolutions entry from calendar_insights.content
+ */
+export interface ConflictResolutionInput {
+  keepEvent: string;
+  moveEvent: string;
+  suggestedAction: string;   // RESCHEDULE | DELEGATE | DECLINE | SHORTEN
+}
+
+export interface CalendarActionRequest {
+  resolution: ConflictResolutionInput;
+  action?: CalendarActionType;   // Defaults from resolution.suggestedAction
+  note?: string;                 // Decline only; defaults to a polite conflict note
+  start?: string;                // Reschedule only (ISO); defaults to when the kept event ends
+}
+
+export interface CalendarActionChange {
+  field: 'response' | 'note' | 'start' | 'end';
+  from: string | null;
+  to: string | null;
+}
+
+export interface CalendarActionPreview {
+  action: CalendarActionType;
+  eventId: string;
+  calendarId: string;
+  title: string;
+  keepTitle: string;
+  changes: CalendarActionChange[];
+  notifiesGuests: boolean;     // Google emails the other guests about the change
+  newConflicts: string[];      // Titles of events overlapping the new time
+}
+
+export interface CalendarActionSummary {
+  id: string;
+  action: CalendarActionType;
+  eventId: string;
+  title: string;
+  changes: CalendarActionChange[];
+  status: CalendarActionStatus;
+  error: string | null;
+  createdAt: string;
+  appliedAt: string | null;
+  undoUntil: string | null;
+  undoneAt: string | null;
+  canUndo: boolean;
+}
+
+interface GoogleEventTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+interface GoogleEventAttendee {
+  email: string;
+  self?: boolean;
+  responseStatus?: string;
+  comment?: string;
+  [key: string]: unknown;
+}
+
+interface GoogleEvent {
+  id: string;
+  status?: string;
+  start: GoogleEventTime;
+  end: GoogleEventTime;
+  attendees?: GoogleEventAttendee[];
+  organizer?: { email?: string; self?: boolean };
+}
+
+/**
+ * The event fields an action changes. Stored as calendar_actions.before and
+ * .after; undo writes `before` back.
+ */
+interface EventFields {
+  start?: GoogleEventTime;
+  end?: GoogleEventTime;
+  responseStatus?: string;
+  comment?: string | null;
+}
+
+type SendUpdates = 'all' | 'none';
+
+interface StoredEvent {
+  event_id: string;
+  calendar_id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  is_all_day: boolean;
+  conflict_with: string[] | null;
+}
+
+interface CalendarActionPlan {
+  preview: CalendarActionPreview;
+  nangoConnectionId: string;
+  event: GoogleEvent;
+  before: EventFields;
+  after: EventFields;
+  note: string | null;
+  sendUpdates: SendUpdates;
+}
+
+interface CalendarActionRow {
+  id: string;
+  event_id: string;
+  calendar_id: string;
+  event_title: string;
+  action: CalendarActionType;
+  before: EventFields;
+  changes: CalendarActionChange[];
+  send_updates: SendUpdates;
+  status: CalendarActionStatus;
+  error_message: string | null;
+  created_at: string;
+  applied_at: string | null;
+  undo_until: string | null;
+  undone_at: string | null;
+}
+
+const CALENDAR_ACTION_COLUMNS =
+  'id, event_id, calendar_id, event_title, action, before, changes, send_updates, status, error_message, ' +
+  'created_at, applied_at, undo_until, undone_at';
+
+/** What each suggestedAction does when the user doesn't pick another action */
+const DEFAULT_ACTIONS: Record<string, CalendarActionType> = {
+  RESCHEDULE: 'reschedule',
+  SHORTEN: 'shorten',
+  DECLINE: 'decline',
+  DELEGATE: 'decline',   // Google has no delegation; decline and say who covers
+};
+
+const DEFAULT_DECLINE_NOTE = "Sorry, I have a conflict at this time and can't attend.";
+const DEFAULT_DELEGATE_NOTE = "I have a conflict at this time, so I'll ask a colleague to attend in my place.";
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+const CALENDAR_ACTION_REJECTED = 'CALENDAR_ACTION_REJECTED';
+
+function reject(message: string): never {
+  throw Object.assign(new Error(message), { code: CALENDAR_ACTION_REJECTED });
+}
+
+/**
+ * True for errors the user can act on (stale conflict, not the organizer,
+ * undo window closed); the message is safe to show
+ */
+export function isCalendarActionRejectedError(error: unknown): boolean {
+  return (error as { code?: string })?.code === CALENDAR_ACTION_REJECTED;
+}
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+/**
+ * Validate a preview/apply request body, or null when it is malformed
+ */
+export function parseCalendarActionRequest(body: unknown): CalendarActionRequest | null {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  const resolution = (raw.resolution ?? {}) as Record<string, unknown>;
+
+  if (
+    typeof resolution.keepEvent !== 'string' || !resolution.keepEvent ||
+    typeof resolution.moveEvent !== 'string' || !resolution.moveEvent ||
+    typeof resolution.suggestedAction !== 'string'
+  ) {
+    return null;
+  }
+  if (raw.action !== undefined && !CALENDAR_ACTION_TYPES.includes(raw.action as CalendarActionType)) return null;
+  if (raw.note !== undefined && typeof raw.note !== 'string') return null;
+  if (raw.start !== undefined && typeof raw.start !== 'string') return null;
+
+  return {
+    resolution: {
+      keepEvent: resolution.keepEvent,
+      moveEvent: resolution.moveEvent,
+      suggestedAction: resolution.suggestedAction,
+    },
+    action: raw.action as CalendarActionType | undefined,
+    note: raw.note as string | undefined,
+    start: raw.start as string | undefined,
+  };
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+async function requireCalendarConnectionId(userId: string): Promise<string> {
+  const nangoConnectionId = await getCalendarConnectionId(userId);
+  if (!nangoConnectionId) reject('Google Calendar is not connected');
+  return nangoConnectionId;
+}
+
+/**
+ * The upcoming occurrences the resolution refers to: the first event titled
+ * moveEvent that still conflicts with an event titled keepEvent
+ */
+async function findConflictPair(
+  userId: string,
+  resolution: ConflictResolutionInput
+): Promise<{ move: StoredEvent; keep: StoredEvent }> {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('event_id, calendar_id, title, start_time, end_time, is_all_day, conflict_with')
+    .eq('user_id', userId)
+    .eq('has_conflict', true)
+    .in('title', [resolution.moveEvent, resolution.keepEvent])
+    .gte('end_time', new Date().toISOString())
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch conflicting events: ${error.message}`);
+  }
+
+  const events = (data || []) as StoredEvent[];
+  for (const move of events.filter((e) => e.title === resolution.moveEvent)) {
+    const keep = events.find((e) =>
+      e.title === resolution.keepEvent &&
+      e.event_id !== move.event_id &&
+      (move.conflict_with || []).includes(e.event_id)
+    );
+    if (keep) return { move, keep };
+  }
+
+  reject('These events no longer conflict. Refresh your calendar insights.');
+}
+
+/**
+ * Titles of attended, timed events overlapping a time range
+ */
+async function findOverlappingTitles(userId: string, eventId: string, start: Date, end: Date): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('event_id, title, is_all_day, self_response_status')
+    .eq('user_id', userId)
+    .lt('start_time', end.toISOString())
+    .gt('end_time', start.toISOString());
+
+  if (error) {
+    console.error('[Calendar Actions] Overlap lookup error:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter((e) => e.event_id !== eventId && !e.is_all_day && isAttending(e))
+    .map((e) => e.title);
+}
+
+// ============================================================================
+// API Calls
+// ============================================================================
+
+function eventEndpoint(calendarId: string, eventId: string): string {
+  return `${calendarEventsEndpoint(calendarId)}/${encodeURIComponent(eventId)}`;
+}
+
+/**
+ * The live event; actions are planned against Google, not the stored copy
+ */
+async function fetchEvent(nangoConnectionId: string, calendarId: string, eventId: string): Promise<GoogleEvent> {
+  try {
+    const response = await nangoProxy<GoogleEvent>({
+      method: 'GET',
+      endpoint: eventEndpoint(calendarId, eventId),
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+    });
+
+    if (response.data.status === 'cancelled') reject('This event has been cancelled');
+    return response.data;
+  } catch (error) {
+    if (isItemGone(error)) reject('This event no longer exists');
+    throw error;
+  }
+}
+
+async function patchEvent(
+  nangoConnectionId: string,
+  calendarId: string,
+  event: GoogleEvent,
+  fields: EventFields,
+  sendUpdates: SendUpdates
+): Promise<void> {
+  await nangoProxy({
+    method: 'PATCH',
+    endpoint: eventEndpoint(calendarId, event.id),
+    providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+    connectionId: nangoConnectionId,
+    params: { sendUpdates },
+    data: toPatchBody(event, fields),
+  });
+}
+
+/**
+ * Events PATCH body. Attendees are replaced as a whole, so the live list is
+ * sent with only the user's own entry changed.
+ */
+function toPatchBody(event: GoogleEvent, fields: EventFields): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  if (fields.start) body.start = fields.start;
+  if (fields.end) body.end = fields.end;
+
+  if (fields.responseStatus !== undefined) {
+    body.attendees = (event.attendees || []).map((attendee) => {
+      if (!attendee.self) return attendee;
+
+      const updated: GoogleEventAttendee = { ...attendee, responseStatus: fields.responseStatus };
+      if (fields.comment) updated.comment = fields.comment;
+      else delete updated.comment;
+      return updated;
+    });
+  }
+
+  return body;
+}
+
+/**
+ * Refetch the changed event so calendar_events, conflict flags and embeddings
+ * reflect it before the next sync. Failures are left to that sync.
+ */
+async function refreshStoredEvent(userId: string, nangoConnectionId: string, calendarId: string, eventId: string): Promise<void> {
+  try {
+    const { data: stored } = await supabase
+      .from('calendar_events')
+      .select('color')
+      .eq('user_id', userId)
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    await resyncCalendarEvents(userId, nangoConnectionId, [
+      { itemId: eventId, context: { calendar_id: calendarId, color: stored?.color ?? null } },
+    ]);
+  } catch (error) {
+    console.warn(`[Calendar Actions] Failed to refresh event ${eventId}, next sync will pick it up:`, error);
+  }
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function planDecline(
+  request: CalendarActionRequest,
+  event: GoogleEvent
+): Pick<CalendarActionPlan, 'before' | 'after' | 'note' | 'sendUpdates'> & { changes: CalendarActionChange[] } {
+  const self = event.attendees?.find((a) => a.self);
+  if (event.organizer?.self) {
+    reject("You organize this event, so it can't be declined. Reschedule or shorten it instead.");
+  }
+  if (!self) reject("You aren't a guest of this event, so there is nothing to decline");
+
+  const defaultNote = request.resolution.suggestedAction === 'DELEGATE' ? DEFAULT_DELEGATE_NOTE : DEFAULT_DECLINE_NOTE;
+  const note = (request.note ?? defaultNote).trim().slice(0, CALENDAR_ACTION_NOTE_MAX_LENGTH) || null;
+  const before = { responseStatus: self.responseStatus || 'needsAction', comment: self.comment || null };
+
+  const changes: CalendarActionChange[] = [{ field: 'response', from: before.responseStatus, to: 'declined' }];
+  if (note !== before.comment) {
+    changes.push({ field: 'note', from: before.comment, to: note });
+  }
+
+  return {
+    before,
+    after: { responseStatus: 'declined', comment: note },
+    note,
+    sendUpdates: 'all',
+    changes,
+  };
+}
+
+function planTimeChange(
+  request: CalendarActionRequest,
+  action: 'reschedule' | 'shorten',
+  event: GoogleEvent,
+  keep: StoredEvent
+): Pick<CalendarActionPlan, 'before' | 'after'> & { changes: CalendarActionChange[]; newStart: Date; newEnd: Date } {
+  if (!event.start.dateTime || !event.end.dateTime) {
+    reject("All-day events can't be moved or shortened");
+  }
+  if (!event.organizer?.self) {
+    reject("Only the organizer can change this event's time. Decline it instead.");
+  }
+
+  const start = new Date(event.start.dateTime);
+  const end = new Date(event.end.dateTime);
+
+  if (action === 'shorten') {
+    const newEnd = new Date(keep.start_time);
+    if (newEnd <= start) {
+      reject("This event starts after the one you're keeping, so shortening it won't help. Reschedule it instead.");
+    }
+    if (newEnd.getTime() - start.getTime() < CALENDAR_ACTION_MIN_DURATION_MINUTES * 60 * 1000) {
+      reject(`Shortening would leave less than ${CALENDAR_ACTION_MIN_DURATION_MINUTES} minutes. Reschedule it instead.`);
+    }
+
+    return {
+      before: { end: event.end },
+      after: { end: { dateTime: newEnd.toISOString(), timeZone: event.end.timeZone } },
+      changes: [{ field: 'end', from: end.toISOString(), to: newEnd.toISOString() }],
+      newStart: start,
+      newEnd,
+    };
+  }
+
+  const newStart = new Date(request.start ?? keep.end_time);
+  if (Number.isNaN(newStart.getTime()) || newStart.getTime() <= Date.now()) {
+    reject('Choose a new start time in the future');
+  }
+  const newEnd = new Date(newStart.getTime() + (end.getTime() - start.getTime()));
+
+  return {
+    before: { start: event.start, end: event.end },
+    after: {
+      start: { dateTime: newStart.toISOString(), timeZone: event.start.timeZone },
+      end: { dateTime: newEnd.toISOString(), timeZone: event.end.timeZone },
+    },
+    changes: [
+      { field: 'start', from: start.toISOString(), to: newStart.toISOString() },
+      { field: 'end', from: end.toISOString(), to: newEnd.toISOString() },
+    ],
+    newStart,
+    newEnd,
+  };
+}
+
+/**
+ * Resolve the events, read the live event and work out the change
+ */
+async function planCalendarAction(userId: string, request: CalendarActionRequest): Promise<CalendarActionPlan> {
+  const nangoConnectionId = await requireCalendarConnectionId(userId);
+  const { move, keep } = await findConflictPair(userId, request.resolution);
+  const action = request.action ?? DEFAULT_ACTIONS[request.resolution.suggestedAction] ?? 'decline';
+  const event = await fetchEvent(nangoConnectionId, move.calendar_id, move.event_id);
+
+  const preview: CalendarActionPreview = {
+    action,
+    eventId: move.event_id,
+    calendarId: move.calendar_id,
+    title: move.title,
+    keepTitle: keep.title,
+    changes: [],
+    notifiesGuests: false,
+    newConflicts: [],
+  };
+
+  if (action === 'decline') {
+    const { changes, ...plan } = planDecline(request, event);
+    return {
+      preview: { ...preview, changes, notifiesGuests: true },
+      nangoConnectionId,
+      event,
+      ...plan,
+    };
+  }
+
+  const { changes, newStart, newEnd, before, after } = planTimeChange(request, action, event, keep);
+  const hasGuests = (event.attendees || []).some((a) => !a.self && !a.resource);
+
+  return {
+    preview: {
+      ...preview,
+      changes,
+      notifiesGuests: hasGuests,
+      newConflicts: action === 'reschedule'
+        ? await findOverlappingTitles(userId, move.event_id, newStart, newEnd)
+        : [],
+    },
+    nangoConnectionId,
+    event,
+    before,
+    after,
+    note: null,
+    sendUpdates: hasGuests ? 'all' : 'none',
+  };
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function toSummary(row: CalendarActionRow): CalendarActionSummary {
+  return {
+    id: row.id,
+    action: row.action,
+    eventId: row.event_id,
+    title: row.event_title,
+    changes: row.changes || [],
+    status: row.status,
+    error: row.error_message,
+    createdAt: row.created_at,
+    appliedAt: row.applied_at,
+    undoUntil: row.undo_until,
+    undoneAt: row.undone_at,
+    canUndo: row.status === 'applied' && !!row.undo_until && new Date(row.undo_until).getTime() > Date.now(),
+  };
+}
+
+/**
+ * What applying the request would change, without writing anything
+ */
+export async function previewCalendarAction(userId: string, request: CalendarActionRequest): Promise<CalendarActionPreview> {
+  const plan = await planCalendarAction(userId, request);
+  return plan.preview;
+}
+
+/**
+ * Write the change to Google Calendar. The audit row is created first and
+ * marked applied or failed, so every attempted write is on record.
+ */
+export async function applyCalendarAction(userId: string, request: CalendarActionRequest): Promise<CalendarActionSummary> {
+  const plan = await planCalendarAction(userId, request);
+  const { preview } = plan;
+
+  const { data: row, error: insertError } = await supabase
+    .from('calendar_actions')
+    .insert({
+      user_id: userId,
+      event_id: preview.eventId,
+      calendar_id: preview.calendarId,
+      event_title: preview.title,
+      keep_event_title: preview.keepTitle,
+      action: preview.action,
+      suggested_action: request.resolution.suggestedAction,
+      note: plan.note,
+      before: plan.before,
+      after: plan.after,
+      changes: preview.changes,
+      send_updates: plan.sendUpdates,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (insertError || !row) {
+    throw new Error(`Failed to record calendar action: ${insertError?.message}`);
+  }
+
+  try {
+    await patchEvent(plan.nangoConnectionId, preview.calendarId, plan.event, plan.after, plan.sendUpdates);
+  } catch (error) {
+    await supabase
+      .from('calendar_actions')
+      .update({ status: 'failed', error_message: formatErrorMessage(error) })
+      .eq('id', row.id);
+    throw error;
+  }
+
+  const appliedAt = new Date();
+  const { data: applied, error: updateError } = await supabase
+    .from('calendar_actions')
+    .update({
+      status: 'applied',
+      applied_at: appliedAt.toISOString(),
+      undo_until: new Date(appliedAt.getTime() + CALENDAR_ACTION_UNDO_WINDOW_MINUTES * 60 * 1000).toISOString(),
+    })
+    .eq('id', row.id)
+    .select(CALENDAR_ACTION_COLUMNS)
+    .single();
+
+  if (updateError || !applied) {
+    throw new Error(`Failed to record applied calendar action ${row.id}: ${updateError?.message}`);
+  }
+
+  console.log(`[Calendar Actions] ${preview.action} applied to event ${preview.eventId} for user ${userId}`);
+  await refreshStoredEvent(userId, plan.nangoConnectionId, preview.calendarId, preview.eventId);
+
+  return toSummary(applied as unknown as CalendarActionRow);
+}
+
+/**
+ * Restore the event's original fields. Returns null when the action doesn't
+ * exist or belongs to another user.
+ */
+export async function undoCalendarAction(userId: string, actionId: string): Promise<CalendarActionSummary | null> {
+  const { data, error } = await supabase
+    .from('calendar_actions')
+    .select(CALENDAR_ACTION_COLUMNS)
+    .eq('id', actionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar action: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const row = data as unknown as CalendarActionRow;
+  if (row.status === 'undone') reject('This change has already been undone');
+  if (row.status !== 'applied') reject('This change was never applied');
+  if (!row.undo_until || new Date(row.undo_until).getTime() <= Date.now()) {
+    reject('The undo window for this change has closed');
+  }
+
+  const nangoConnectionId = await requireCalendarConnectionId(userId);
+
+  // Claim the row before touching Google so concurrent undos can't both patch the event
+  const { data: undone, error: claimError } = await supabase
+    .from('calendar_actions')
+    .update({ status: 'undone', undone_at: new Date().toISOString() })
+    .eq('id', row.id)
+    .eq('status', 'applied')
+    .select(CALENDAR_ACTION_COLUMNS)
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to record undo of calendar action ${row.id}: ${claimError.message}`);
+  }
+  if (!undone) reject('This change has already been undone');
+
+  try {
+    const event = await fetchEvent(nangoConnectionId, row.calendar_id, row.event_id);
+    await patchEvent(nangoConnectionId, row.calendar_id, event, row.before, row.send_updates);
+  } catch (error) {
+    // Release the claim so the user can retry within the window
+    await supabase
+      .from('calendar_actions')
+      .update({ status: 'applied', undone_at: null })
+      .eq('id', row.id)
+      .eq('status', 'undone');
+    throw error;
+  }
+
+  console.log(`[Calendar Actions] ${row.action} on event ${row.event_id} undone for user ${userId}`);
+  await refreshStoredEvent(userId, nangoConnectionId, row.calendar_id, row.event_id);
+
+  return toSummary(undone as unknown as CalendarActionRow);
+}
+
+/**
+ * The user's most recent actions, newest first
+ */
+export async function listCalendarActions(userId: string): Promise<CalendarActionSummary[]> {
+  const { data, error } = await supabase
+    .from('calendar_actions')
+    .select(CALENDAR_ACTION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(CALENDAR_ACTION_HISTORY_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar actions: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as CalendarActionRow[]).map(toSummary);
+}
@@ -0,0 +1,238 @@
+/**
+ * EmergentOS - Calendar Watch Channels
+ *
+ * Google Calendar push notifications (events.watch). One channel per synced
+ * calendar (the calendars in calendar_sync_state, primary always), stored in
+ * connections.metadata.watch_channels with their IDs in watch_channel_ids for
+ * the webhook lookup. Notifications hit /api/calendar/webhook, which checks
+ * the channel token and queues a 'push' sync.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { supabase } from './supabase';
+import { calendarEventsEndpoint, getCalendarSyncState, PRIMARY_CALENDAR_ID } from './calendars';
+import { CALENDAR_WATCH_TTL_SECONDS } from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Stored in connections.metadata.watch_channels
+ */
+export interface CalendarWatchChannel {
+  id: string;               // Channel ID we chose (X-Goog-Channel-ID)
+  calendar_id: string;      // Calendar whose events the channel watches
+  resource_id: string;      // Google's resource ID, needed to stop the channel
+  token: string;            // Shared secret echoed back as X-Goog-Channel-Token
+  expires_at: string;       // ISO timestamp
+  address: string;          // Webhook URL the channel delivers to
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Public HTTPS URL of /api/calendar/webhook. Google only delivers to HTTPS
+ * endpoints, so push is disabled when this is unset (e.g. local development).
+ */
+export function getCalendarWebhookUrl(): string | null {
+  const url = process.env.CALENDAR_WEBHOOK_URL;
+  return url && url.startsWith('https://') ? url : null;
+}
+
+/**
+ * Channels stored on a connection's metadata. A channel from before
+ * per-calendar watches (metadata.watch_channel) reads as primary's.
+ */
+export function getWatchChannels(metadata: Record<string, unknown> | null | undefined): CalendarWatchChannel[] {
+  const stored = Array.isArray(metadata?.watch_channels) ? metadata.watch_channels as CalendarWatchChannel[] : [];
+  const legacy = metadata?.watch_channel as CalendarWatchChannel | undefined;
+  const channels = legacy && !metadata?.watch_channels
+    ? [{ ...legacy, calendar_id: legacy.calendar_id ?? PRIMARY_CALENDAR_ID }]
+    : stored;
+  return channels.filter((channel) => channel?.id && channel.token && channel.calendar_id);
+}
+
+/**
+ * Calendars that should have a channel: every synced calendar, primary always
+ */
+export function getWatchedCalendarIds(metadata: Record<string, unknown> | null | undefined): string[] {
+  return Array.from(new Set([PRIMARY_CALENDAR_ID, ...Object.keys(getCalendarSyncState(metadata))]));
+}
+
+/**
+ * Calendars whose channel is missing, expires before renewBefore or delivers
+ * to another address, and channels on calendars no longer synced
+ */
+export function getDueWatches(
+  metadata: Record<string, unknown> | null | undefined,
+  address: string,
+  renewBefore: number
+): { calendarIds: string[]; stale: CalendarWatchChannel[] } {
+  const channels = getWatchChannels(metadata);
+  const watched = getWatchedCalendarIds(metadata);
+  // A legacy channel isn't in watch_channel_ids, so the webhook can't find it until replaced
+  const legacy = !Array.isArray(metadata?.watch_channels);
+
+  const calendarIds = watched.filter((calendarId) => {
+    const channel = channels.find((c) => c.calendar_id === calendarId);
+    return legacy || !channel || channel.address !== address || new Date(channel.expires_at).getTime() < renewBefore;
+  });
+  const stale = channels.filter((channel) => !watched.includes(channel.calendar_id));
+
+  return { calendarIds, stale };
+}
+
+/**
+ * Constant-time comparison of the notification token with the stored one
+ */
+export function isValidChannelToken(channel: CalendarWatchChannel, token: string | null): boolean {
+  if (!token) return false;
+  const expected = Buffer.from(channel.token);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ============================================================================
+// API Calls
+// ============================================================================
+
+/**
+ * Open a watch channel on a calendar
+ */
+export async function startCalendarWatch(
+  nangoConnectionId: string,
+  calendarId: string,
+  address: string
+): Promise<CalendarWatchChannel> {
+  const id = randomUUID();
+  const token = randomBytes(24).toString('hex');
+
+  const response = await nangoProxy<{ resourceId: string; expiration?: string }>({
+    method: 'POST',
+    endpoint: `${calendarEventsEndpoint(calendarId)}/watch`,
+    providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+    connectionId: nangoConnectionId,
+    data: {
+      id,
+      type: 'web_hook',
+      address,
+      token,
+      params: { ttl: String(CALENDAR_WATCH_TTL_SECONDS) },
+    },
+  });
+
+  // Google may shorten the requested TTL; expiration is epoch milliseconds
+  const expiration = Number(response.data?.expiration);
+  const expiresAt = Number.isFinite(expiration) && expiration > 0
+    ? new Date(expiration)
+    : new Date(Date.now() + CALENDAR_WATCH_TTL_SECONDS * 1000);
+
+  return {
+    id,
+    calendar_id: calendarId,
+    resource_id: response.data?.resourceId,
+    token,
+    expires_at: expiresAt.toISOString(),
+    address,
+  };
+}
+
+/**
+ * Stop a watch channel. Channels that already expired return 404, which is ignored.
+ */
+export async function stopCalendarWatch(nangoConnectionId: string, channel: CalendarWatchChannel): Promise<void> {
+  try {
+    await nangoProxy({
+      method: 'POST',
+      endpoint: '/calendar/v3/channels/stop',
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+      data: { id: channel.id, resourceId: channel.resource_id },
+    });
+  } catch (error) {
+    const errorObj = error as { status?: number; response?: { status?: number } };
+    if ((errorObj.status ?? errorObj.response?.status) !== 404) {
+      console.warn(`[Calendar Watch] Failed to stop channel ${channel.id}:`, error);
+    }
+  }
+}
+
+// ============================================================================
+// Renewal
+// ============================================================================
+
+/**
+ * Open channels for the connection's due calendars (see getDueWatches), store
+ * them in metadata and stop the ones they replace or that watch calendars no
+ * longer synced. A calendar whose channel fails to open keeps its old one.
+ * Used by the renewal cron and after each sync (new calendars get a channel
+ * right away). Returns the channels opened.
+ */
+export async function renewCalendarWatches(
+  connection: { id: string; connection_id: string; metadata: Record<string, unknown> | null },
+  address: string,
+  renewBefore: number
+): Promise<CalendarWatchChannel[]> {
+  // Read current metadata: calendar_sync_state may have changed since the caller loaded it
+  const { data: current } = await supabase
+    .from('connections')
+    .select('metadata')
+    .eq('id', connection.id)
+    .single();
+
+  const metadata = (current?.metadata || connection.metadata) as Record<string, unknown> | null;
+  const { calendarIds, stale } = getDueWatches(metadata, address, renewBefore);
+  if (calendarIds.length === 0 && stale.length === 0) return [];
+
+  const opened: CalendarWatchChannel[] = [];
+  for (const calendarId of calendarIds) {
+    try {
+      opened.push(await startCalendarWatch(connection.connection_id, calendarId, address));
+    } catch (error) {
+      console.warn(`[Calendar Watch] Failed to open channel on ${calendarId} for connection ${connection.id}:`, error);
+    }
+  }
+
+  const renewedIds = new Set(opened.map((channel) => channel.calendar_id));
+  const previous = getWatchChannels(metadata);
+  const replaced = previous.filter((channel) => renewedIds.has(channel.calendar_id));
+  const channels = [
+    ...previous.filter((channel) => !renewedIds.has(channel.calendar_id) && !stale.includes(channel)),
+    ...opened,
+  ];
+
+  // Re-read right before writing so concurrent writes (e.g. error_reason) are not overwritten
+  const { data: latest } = await supabase
+    .from('connections')
+    .select('metadata')
+    .eq('id', connection.id)
+    .single();
+
+  const nextMetadata: Record<string, unknown> = {
+    ...(latest?.metadata || metadata),
+    watch_channels: channels,
+    watch_channel_ids: channels.map((channel) => channel.id),
+  };
+  delete nextMetadata.watch_channel;
+
+  const { error } = await supabase
+    .from('connections')
+    .update({ metadata: nextMetadata, updated_at: new Date().toISOString() })
+    .eq('id', connection.id);
+
+  if (error) {
+    // Without their stored tokens the new channels' notifications would be rejected
+    await Promise.all(opened.map((channel) => stopCalendarWatch(connection.connection_id, channel)));
+    throw new Error(`Failed to store watch channels: ${error.message}`);
+  }
+
+  await Promise.all([...replaced, ...stale].map((channel) => stopCalendarWatch(connection.connection_id, channel)));
+
+  console.log(`[Calendar Watch] Opened ${opened.length} of ${calendarIds.length} channel(s), stopped ${replaced.length + stale.length} for connection ${connection.id}`);
+  return opened;
+}
@@ -0,0 +1,211 @@
+/**
+ * EmergentOS - Calendars
+ *
+ * Calendar list, per-calendar delta state and conflict flag refresh for
+ * multi-calendar sync. The primary calendar is always stored as 'primary';
+ * other calendars keep their Google calendar ID.
+ */
+
+import { supabase } from './supabase';
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { detectConflicts } from './helpers';
+import { isAttending } from './attendees';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const PRIMARY_CALENDAR_ID = 'primary';
+
+export interface CalendarListEntry {
+  id: string;               // 'primary' for the user's own calendar
+  summary: string;
+  color: string | null;     // Calendar background color (hex)
+  primary: boolean;
+  accessRole: string;       // owner | writer | reader | freeBusyReader
+}
+
+/**
+ * Per-calendar delta state, stored in connections.metadata.calendar_sync_state
+ */
+export type CalendarSyncState = Record<string, { updated_min: string }>;
+
+export interface ConflictRefreshResult {
+  eventsProcessed: number;
+  eventsUpdated: number;
+  errors: number;
+  conflicting: Array<{ event_id: string; title: string }>;
+}
+
+interface GoogleCalendarListItem {
+  id: string;
+  summary?: string;
+  summaryOverride?: string;
+  backgroundColor?: string;
+  primary?: boolean;
+  accessRole?: string;
+  deleted?: boolean;
+}
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+/**
+ * Nango connection ID of the user's connected calendar, or null
+ */
+export async function getCalendarConnectionId(userId: string): Promise<string | null> {
+  const { data: connection } = await supabase
+    .from('connections')
+    .select('connection_id')
+    .eq('user_id', userId)
+    .eq('provider', 'calendar')
+    .eq('status', 'connected')
+    .maybeSingle();
+
+  return connection?.connection_id ?? null;
+}
+
+// ============================================================================
+// Calendar List
+// ============================================================================
+
+/**
+ * Fetch the user's calendar list, primary first
+ */
+export async function fetchCalendarList(nangoConnectionId: string): Promise<CalendarListEntry[]> {
+  const items: GoogleCalendarListItem[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const params: Record<string, string | number> = { maxResults: 250 };
+    if (pageToken) {
+      params.pageToken = pageToken;
+    }
+
+    const response = await nangoProxy<{ items?: GoogleCalendarListItem[]; nextPageToken?: string }>({
+      method: 'GET',
+      endpoint: '/calendar/v3/users/me/calendarList',
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+      params,
+    });
+
+    items.push(...(response.data?.items || []));
+    pageToken = response.data?.nextPageToken || null;
+  } while (pageToken);
+
+  return items
+    .filter((item) => !item.deleted)
+    .map((item) => ({
+      id: item.primary ? PRIMARY_CALENDAR_ID : item.id,
+      summary: item.summaryOverride || item.summary || item.id,
+      color: item.backgroundColor || null,
+      primary: Boolean(item.primary),
+      accessRole: item.accessRole || 'reader',
+    }))
+    .sort((a, b) => Number(b.primary) - Number(a.primary));
+}
+
+/**
+ * Calendars to sync: the selected ones that still exist, primary first.
+ * Primary is always synced, even if the list lookup failed.
+ */
+export function resolveSyncCalendars(list: CalendarListEntry[], selected: string[]): CalendarListEntry[] {
+  const wanted = new Set([PRIMARY_CALENDAR_ID, ...selected]);
+  const calendars = list.filter((calendar) => wanted.has(calendar.id));
+
+  if (!calendars.some((calendar) => calendar.primary)) {
+    calendars.unshift({ id: PRIMARY_CALENDAR_ID, summary: 'Primary', color: null, primary: true, accessRole: 'owner' });
+  }
+  return calendars;
+}
+
+/**
+ * Events endpoint for a calendar ID (IDs contain '@' and '#')
+ */
+export function calendarEventsEndpoint(calendarId: string): string {
+  return `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`;
+}
+
+/**
+ * Read per-calendar delta state from connection metadata
+ */
+export function getCalendarSyncState(metadata: Record<string, unknown> | null | undefined): CalendarSyncState {
+  const state = metadata?.calendar_sync_state;
+  return state && typeof state === 'object' ? { ...(state as CalendarSyncState) } : {};
+}
+
+// ============================================================================
+// Conflict Flags
+// ============================================================================
+
+/**
+ * Recompute has_conflict/conflict_with for all of a user's events.
+ * Events on excluded calendars, events the user declined and focus holds
+ * (moved or released by focus-holds.ts instead) never conflict and are not
+ * considered.
+ */
+export async function refreshConflictFlags(
+  userId: string,
+  excludedCalendarIds: string[] = []
+): Promise<ConflictRefreshResult> {
+  const { data: events, error } = await supabase
+    .from('calendar_events')
+    .select('id, event_id, calendar_id, title, start_time, end_time, self_response_status, focus_hold, has_conflict, conflict_with')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch events for conflict detection: ${error.message}`);
+  }
+
+  // Stored flags, so only events whose conflicts changed are written
+  const storedFlags = new Map(
+    (events || []).map((e) => [e.id as string, `${e.has_conflict}:${[...(e.conflict_with || [])].sort().join(',')}`])
+  );
+
+  const excluded = new Set(excludedCalendarIds);
+  const isCandidate = (e: { calendar_id: string; self_response_status: string; focus_hold: boolean }) =>
+    !excluded.has(e.calendar_id) && isAttending(e) && !e.focus_hold;
+
+  const withConflicts = [
+    ...detectConflicts((events || []).filter(isCandidate)),
+    ...(events || [])
+      .filter((e) => !isCandidate(e))
+      .map((e) => ({ ...e, has_conflict: false, conflict_with: [] as string[] })),
+  ];
+
+  let eventsUpdated = 0;
+  let errors = 0;
+
+  for (const event of withConflicts) {
+    if (storedFlags.get(event.id) === `${event.has_conflict}:${[...event.conflict_with].sort().join(',')}`) {
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('calendar_events')
+      .update({
+        has_conflict: event.has_conflict,
+        conflict_with: event.conflict_with,
+      })
+      .eq('id', event.id);
+
+    if (updateError) {
+      console.error(`[Calendars] Conflict update error for event ${event.event_id}:`, updateError);
+      errors++;
+    } else {
+      eventsUpdated++;
+    }
+  }
+
+  return {
+    eventsProcessed: withConflicts.length,
+    eventsUpdated,
+    errors,
+    conflicting: withConflicts
+      .filter((e) => e.has_conflict)
+      .map((e) => ({ event_id: e.event_id, title: e.title })),
+  };
+}
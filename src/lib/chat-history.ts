@@ -0,0 +1,219 @@
+/**
+ * EmergentOS - Chat History
+ *
+ * Persistence for Omni-Panel sessions (chat_sessions / chat_messages).
+ * Assistant turns are stored as generated, PII tokens included; callers
+ * re-hydrate them for display with the vault.
+ */
+
+import { supabase } from './supabase';
+import { CHAT_HISTORY_MAX_MESSAGES, CHAT_SESSION_TITLE_MAX_LENGTH, CHAT_SESSIONS_LIST_LIMIT } from './constants';
+import type { ChatMessage, ChatSession } from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatHistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Derive a session title from the opening question
+ */
+export function buildSessionTitle(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  return singleLine.length > CHAT_SESSION_TITLE_MAX_LENGTH
+    ? singleLine.substring(0, CHAT_SESSION_TITLE_MAX_LENGTH - 3) + '...'
+    : singleLine;
+}
+
+export async function createChatSession(userId: string, title: string): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({ user_id: userId, title: buildSessionTitle(title) })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create chat session: ${error?.message}`);
+  }
+
+  return data as ChatSession;
+}
+
+/**
+ * Get a session owned by the user (null if missing or owned by someone else)
+ */
+export async function getChatSession(userId: string, sessionId: string): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .single();
+
+  // PGRST116 = no rows; 22P02 = malformed UUID
+  if (error && error.code !== 'PGRST116' && error.code !== '22P02') {
+    throw new Error(`Failed to fetch chat session: ${error.message}`);
+  }
+
+  return (data as ChatSession) || null;
+}
+
+/**
+ * List the user's sessions, most recently active first
+ */
+export async function listChatSessions(userId: string): Promise<ChatSession[]> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(CHAT_SESSIONS_LIST_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to list chat sessions: ${error.message}`);
+  }
+
+  return (data || []) as ChatSession[];
+}
+
+/**
+ * Rename a session. Returns null if the session does not exist.
+ */
+export async function renameChatSession(
+  userId: string,
+  sessionId: string,
+  title: string
+): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .update({ title: buildSessionTitle(title) })
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle();
+
+  if (error && error.code !== '22P02') {
+    throw new Error(`Failed to rename chat session: ${error.message}`);
+  }
+
+  return (data as ChatSession) || null;
+}
+
+/**
+ * Delete a session and (via ON DELETE CASCADE) its messages.
+ * Returns false if the session does not exist.
+ */
+export async function deleteChatSession(userId: string, sessionId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error && error.code !== '22P02') {
+    throw new Error(`Failed to delete chat session: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * All messages in a session, oldest first
+ */
+export async function getChatMessages(userId: string, sessionId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch chat messages: ${error.message}`);
+  }
+
+  return (data || []) as ChatMessage[];
+}
+
+/**
+ * Make stored turns replayable: providers (Gemini) reject history that doesn't
+ * alternate user/assistant or doesn't open with a user turn. A user turn whose
+ * reply never got saved (provider error, client disconnect) is dropped, as is
+ * an assistant turn the history limit cut from its question.
+ */
+function toAlternatingTurns(turns: ChatHistoryTurn[]): ChatHistoryTurn[] {
+  const alternating: ChatHistoryTurn[] = [];
+
+  for (const turn of turns) {
+    const previous = alternating[alternating.length - 1];
+    if (!previous && turn.role !== 'user') continue;
+    if (previous?.role === turn.role) {
+      alternating[alternating.length - 1] = turn;  // Keep the later turn of a repeated role
+    } else {
+      alternating.push(turn);
+    }
+  }
+
+  // The new message follows, so an unanswered trailing question is dropped too
+  if (alternating[alternating.length - 1]?.role === 'user') alternating.pop();
+  return alternating;
+}
+
+/**
+ * Most recent turns of a session, oldest first, for the model's conversation
+ * history. Always alternates user/assistant, starting with a user turn.
+ */
+export async function getChatHistory(userId: string, sessionId: string): Promise<ChatHistoryTurn[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('role, content')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .in('role', ['user', 'assistant'])
+    .order('created_at', { ascending: false })
+    .limit(CHAT_HISTORY_MAX_MESSAGES);
+
+  if (error) {
+    throw new Error(`Failed to fetch chat history: ${error.message}`);
+  }
+
+  return toAlternatingTurns(((data || []) as ChatHistoryTurn[]).reverse());
+}
+
+/**
+ * Append a turn and bump the session's updated_at
+ */
+export async function saveChatMessage(
+  userId: string,
+  sessionId: string,
+  role: ChatHistoryTurn['role'],
+  content: string,
+  sources: unknown[] = []
+): Promise<void> {
+  const { error } = await supabase
+    .from('chat_messages')
+    .insert({ user_id: userId, session_id: sessionId, role, content, sources });
+
+  if (error) {
+    throw new Error(`Failed to save chat message: ${error.message}`);
+  }
+
+  await supabase
+    .from('chat_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('user_id', userId);
+}
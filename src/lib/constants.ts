@@ -42,6 +42,25 @@ export const STUCK_JOB_THRESHOLD_HOURS = 24;
 /** Auto-sync interval in milliseconds (10 minutes) */
 export const AUTO_SYNC_INTERVAL_MS = 10 * 60 * 1000;
 
+/** How often the client refreshes connection status to pick up server-side syncs */
+export const SYNC_STATUS_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/** Minutes between scheduled server-side syncs (must match SCHEDULED_SYNC_CRON) */
+export const SCHEDULED_SYNC_INTERVAL_MINUTES = 10;
+
+/** At most one scheduled sync run per user per this period (Inngest throttle) */
+export const SCHEDULED_SYNC_USER_THROTTLE_PERIOD = '10m';
+
+/** Providers synced within this many minutes (manual or push sync) are skipped by the scheduler */
+export const SCHEDULED_SYNC_MIN_GAP_MINUTES = 5;
+
+/** Jobs still running after this many minutes are treated as stuck and don't block a scheduled sync */
+export const SCHEDULED_SYNC_IN_FLIGHT_MINUTES = 30;
+
+/** Wait between checks for scheduled jobs to finish, and the number of checks (~3 minutes) */
+export const SCHEDULED_SYNC_POLL_INTERVAL = '15s';
+export const SCHEDULED_SYNC_MAX_POLLS = 12;
+
 /** Polling interval for sync completion check */
 export const SYNC_POLL_INTERVAL_MS = 500;
 
@@ -54,6 +73,16 @@ export const MAX_QUEUE_LENGTH = 3;
 /** Window for deduplicating identical sync requests */
 export const DEDUP_WINDOW_MS = 2000;
 
+/** Wait before each retry of items that failed in a sync (1 min, 5 min, 30 min) */
+export const SYNC_ITEM_RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000];
+
+/** Pending item failures read per page (PostgREST returns at most 1000 rows per request) */
+export const SYNC_ITEM_FAILURE_PAGE_SIZE = 1000;
+
+/** Default and maximum page size for the sync job history API */
+export const SYNC_JOBS_PAGE_SIZE = 50;
+export const SYNC_JOBS_MAX_PAGE_SIZE = 200;
+
 /** Minutes before an event to trigger imminent notification (client-side) */
 export const IMMINENT_EVENT_THRESHOLD_MINUTES = 30;
 
@@ -71,6 +100,110 @@ export const IMMINENT_EVENT_THRESHOLD_MINUTES = 30;
 export const IMMINENT_REANALYSIS_WINDOW_START_MINUTES = 20;
 export const IMMINENT_REANALYSIS_WINDOW_END_MINUTES = 30;
 
+// ============================================================================
+// Calendar Push Notifications
+// ============================================================================
+
+/** Requested lifetime of a Calendar watch channel (7 days, Google's maximum) */
+export const CALENDAR_WATCH_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Channels expiring within this many hours are renewed by the cron */
+export const CALENDAR_WATCH_RENEW_BEFORE_HOURS = 24;
+
+// ============================================================================
+// Calendar Selection
+// ============================================================================
+
+/** Maximum calendars a user can select for sync */
+export const MAX_SELECTED_CALENDARS = 25;
+
+// ============================================================================
+// Attendee RSVP
+// ============================================================================
+
+/** Days ahead scanned for pending invites and key-attendee declines */
+export const RSVP_LOOKAHEAD_DAYS = 14;
+
+// ============================================================================
+// Conflict Resolution Actions
+// ============================================================================
+
+/** Minutes after applying a resolution during which it can be undone */
+export const CALENDAR_ACTION_UNDO_WINDOW_MINUTES = 10;
+
+/** Shortest event a SHORTEN resolution may leave */
+export const CALENDAR_ACTION_MIN_DURATION_MINUTES = 15;
+
+/** Maximum length of the note sent with a decline */
+export const CALENDAR_ACTION_NOTE_MAX_LENGTH = 500;
+
+/** Applied actions returned by the audit API */
+export const CALENDAR_ACTION_HISTORY_LIMIT = 20;
+
+// ============================================================================
+// Focus Holds
+// ============================================================================
+
+/** Title of the busy events EmergentOS books to protect focus time */
+export const FOCUS_HOLD_TITLE = 'Focus';
+
+/** Private extended property that tags an event as an EmergentOS focus hold */
+export const FOCUS_HOLD_PROPERTY = 'emergentosFocusHold';
+
+/** Shortest hold that can be booked with "protect this block" */
+export const FOCUS_HOLD_MIN_MINUTES = 30;
+
+/** Longest single hold booked by auto-protect (longer free blocks are trimmed) */
+export const FOCUS_HOLD_MAX_HOURS = 3;
+
+/** Default weekly focus hours kept by auto-protect */
+export const FOCUS_HOLD_DEFAULT_WEEKLY_HOURS = 10;
+
+/** Upper bound on the auto-protect weekly target */
+export const FOCUS_HOLD_MAX_WEEKLY_HOURS = 30;
+
+// ============================================================================
+// Meeting Slot Finder
+// ============================================================================
+
+/** Days searched when the request gives no end of window */
+export const SLOT_FINDER_DEFAULT_DAYS = 7;
+
+/** Longest window that can be searched (days) */
+export const SLOT_FINDER_MAX_DAYS = 14;
+
+/** Attendees per search (Google freeBusy accepts 50 calendars per query) */
+export const SLOT_FINDER_MAX_ATTENDEES = 20;
+
+/** Allowed meeting durations (minutes) */
+export const SLOT_FINDER_MIN_DURATION_MINUTES = 15;
+export const SLOT_FINDER_MAX_DURATION_MINUTES = 240;
+
+/** Candidate start times fall on this grid (minutes) */
+export const SLOT_FINDER_STEP_MINUTES = 15;
+
+/** Ranked slots returned */
+export const SLOT_FINDER_MAX_RESULTS = 8;
+
+/** Slots returned per day, so the options spread across the week */
+export const SLOT_FINDER_MAX_PER_DAY = 2;
+
+// ============================================================================
+// Recurring Meeting Audit
+// ============================================================================
+
+/** Days ahead counted as "next quarter" for series hours */
+export const RECURRING_AUDIT_HORIZON_DAYS = 90;
+
+/** Days back searched for the last skipped or declined occurrence */
+export const RECURRING_AUDIT_LOOKBACK_DAYS = 90;
+
+/** Hours before a series is re-audited against Google */
+export const RECURRING_AUDIT_REFRESH_HOURS = 24;
+
+/** Maximum series included in the calendar analysis prompt */
+export const RECURRING_AUDIT_PROMPT_LIMIT = 15;
+
 // ============================================================================
 // DLP Settings
 // ============================================================================
@@ -88,10 +221,10 @@ export const DLP_RETRY_DELAYS_MS = [2000, 4000, 8000];
 // Embedding Settings
 // ============================================================================
 
-/** OpenAI embedding model */
+/** Default embedding model (EMBEDDING_MODEL env overrides) */
 export const EMBEDDING_MODEL = 'text-embedding-3-small';
 
-/** Embedding vector dimension */
+/** Default embedding vector dimension (EMBEDDING_DIMENSION env overrides) */
 export const EMBEDDING_DIMENSION = 1536;
 
 /** Number of items per embedding batch */
@@ -100,11 +233,58 @@ export const EMBEDDING_BATCH_SIZE = 100;
 /** Maximum content length for embedding (characters) */
 export const MAX_CONTENT_LENGTH = 8000;
 
+/** Chunk size for long documents (characters, below MAX_CONTENT_LENGTH) */
+export const EMBEDDING_CHUNK_SIZE = 4000;
+
+/** Overlap between consecutive chunks (characters) */
+export const EMBEDDING_CHUNK_OVERLAP = 400;
+
+/** Changed source IDs embedded per Inngest step (bounds step duration on large backlogs) */
+export const EMBEDDING_SYNC_CHUNK_SIZE = 500;
+
+/** Source rows loaded per query when embedding changed IDs */
+export const EMBEDDING_SOURCE_PAGE_SIZE = 200;
+
+/** Maximum re-embedding steps per user run (the next cron run picks up the rest) */
+export const EMBEDDING_REEMBED_MAX_CHUNKS = 100;
+
+// ============================================================================
+// Email Bodies & Threads
+// ============================================================================
+
+/** Cleaned body kept per email in body_preview (characters) */
+export const EMAIL_BODY_MAX_CHARS = 2000;
+
+/** Maximum messages returned for one thread */
+export const EMAIL_THREAD_MAX_MESSAGES = 50;
+
+/** Earlier thread messages included per thread in briefing prompts */
+export const EMAIL_THREAD_CONTEXT_MESSAGES = 4;
+
+/** Thread transcript length used as chat context (characters) */
+export const EMAIL_THREAD_TRANSCRIPT_MAX_CHARS = 4000;
+
+// ============================================================================
+// Drive Content Extraction
+// ============================================================================
+
+/** Files larger than this are not downloaded (bytes) */
+export const DRIVE_EXTRACT_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Extracted text kept per document (characters) */
+export const DRIVE_CONTENT_MAX_CHARS = 50000;
+
+/** Length of drive_documents.content_preview (characters) */
+export const DRIVE_CONTENT_PREVIEW_LENGTH = 1000;
+
+/** Files extracted per Inngest step */
+export const DRIVE_EXTRACT_BATCH_SIZE = 5;
+
 // ============================================================================
 // LLM Settings
 // ============================================================================
 
-/** Gemini model to use */
+/** Model used by the Gemini adapter (the OpenAI-compatible adapter uses LLM_API_MODEL) */
 export const LLM_MODEL = 'gemini-2.0-flash';
 
 /** Temperature for deterministic JSON output */
@@ -113,12 +293,53 @@ export const LLM_JSON_TEMPERATURE = 0;
 /** Temperature for chat responses */
 export const LLM_CHAT_TEMPERATURE = 0.7;
 
+/** Prior chat messages sent to the model as conversation history */
+export const CHAT_HISTORY_MAX_MESSAGES = 20;
+
+/** Maximum length of a chat session title */
+export const CHAT_SESSION_TITLE_MAX_LENGTH = 80;
+
+/** Maximum chat sessions returned by the session list */
+export const CHAT_SESSIONS_LIST_LIMIT = 50;
+
 /** Maximum retry attempts for LLM API */
 export const LLM_MAX_RETRIES = 3;
 
 /** Retry delays for LLM API (exponential backoff) */
 export const LLM_RETRY_DELAYS_MS = [2000, 4000, 8000];
 
+/** Re-prompts with the validation errors before falling back to a safe default */
+export const LLM_REPAIR_MAX_ATTEMPTS = 1;
+
+/** Validation errors quoted in a repair prompt */
+export const LLM_REPAIR_MAX_ERRORS = 20;
+
+// ============================================================================
+// LLM Metering
+// ============================================================================
+
+/** Daily LLM spend per user (USD, user's local day); LLM_DAILY_BUDGET_USD and user_profiles.llm_daily_budget_usd override it */
+export const LLM_DEFAULT_DAILY_BUDGET_USD = 2;
+
+/**
+ * Price per million tokens (USD) by model. Unlisted models (e.g. self-hosted)
+ * are recorded at zero cost, so they never reach a budget.
+ */
+export const LLM_MODEL_PRICING_PER_MTOK: Record<string, { input: number; output: number }> = {
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+};
+
+/** Analysis and briefing prompts state the current time rounded down to this step, so unchanged data produces an identical prompt */
+export const LLM_PROMPT_TIME_STEP_MINUTES = 5;
+
+/** Lifetime of llm_response_cache rows (prompts carry the time step, so older entries can't match anyway) */
+export const LLM_RESPONSE_CACHE_TTL_MINUTES = 10;
+
 // ============================================================================
 // API Concurrency
 // ============================================================================
@@ -126,32 +347,69 @@ export const LLM_RETRY_DELAYS_MS = [2000, 4000, 8000];
 /** Maximum concurrent Gmail API requests */
 export const GMAIL_FETCH_CONCURRENCY = 10;
 
+/** Records per page when reading Gmail history for delta sync */
+export const GMAIL_HISTORY_PAGE_SIZE = 500;
+
+/** Messages fetched, scanned and stored per Inngest step during Gmail sync */
+export const GMAIL_SYNC_BATCH_SIZE = 100;
+
 /** Maximum concurrent Calendar API requests */
 export const CALENDAR_FETCH_CONCURRENCY = 10;
 
 /** Maximum concurrent Drive API requests */
 export const DRIVE_FETCH_CONCURRENCY = 10;
 
+/** Token bucket refill window: each connection may start *_FETCH_CONCURRENCY requests per window */
+export const NANGO_PROXY_REFILL_WINDOW_MS = 1000;
+
+/** Maximum retries for rate-limited, quota, server and network errors */
+export const NANGO_PROXY_MAX_RETRIES = 5;
+
+/** Base and maximum delay for jittered exponential backoff */
+export const NANGO_PROXY_BASE_DELAY_MS = 1000;
+export const NANGO_PROXY_MAX_DELAY_MS = 60000;
+
 // ============================================================================
 // Cron Schedules (UTC)
 // ============================================================================
 
-/** Morning briefing generation time */
-export const MORNING_BRIEFING_CRON = '0 6 * * *';
+/** Morning briefing check - hourly, each user is picked up at their local briefing hour */
+export const MORNING_BRIEFING_CRON = '0 * * * *';
+
+/** Local hour (user's time zone) at which the morning briefing is generated */
+export const MORNING_BRIEFING_LOCAL_HOUR = 6;
 
 /** Data cleanup time */
 export const CLEANUP_CRON = '0 3 * * *';
 
+/** Calendar watch channel renewal check - every 6 hours */
+export const CALENDAR_WATCH_RENEWAL_CRON = '0 */6 * * *';
+
+/** Scheduled sync of every connected user - every 10 minutes */
+export const SCHEDULED_SYNC_CRON = '*/10 * * * *';
+
+/** Re-embedding check (users with embeddings from an old model) - hourly */
+export const EMBEDDING_REEMBED_CRON = '30 * * * *';
+
+/** Focus hold top-up (auto-protect rolls its 7-day window forward) - daily */
+export const FOCUS_HOLD_CRON = '0 4 * * *';
+
 // ============================================================================
 // Work Day Settings (for focus block detection)
 // ============================================================================
 
-/** Work day start hour (UTC) */
+/** Default time zone until the user sets one in preferences */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/** Default work day start hour (user's local time) */
 export const WORK_DAY_START_HOUR = 9;
 
-/** Work day end hour (UTC) */
+/** Default work day end hour (user's local time) */
 export const WORK_DAY_END_HOUR = 18;
 
+/** Default work days (0 = Sunday) */
+export const WORK_DAYS = [1, 2, 3, 4, 5];
+
 /** Minimum hours for a focus block */
 export const MIN_FOCUS_BLOCK_HOURS = 2;
 
@@ -160,3 +418,36 @@ export const MAX_BACK_TO_BACK_GAP_MINUTES = 15;
 
 /** Minimum sequence length for back-to-back warning */
 export const MIN_BACK_TO_BACK_SEQUENCE = 3;
+
+// ============================================================================
+// Unified Inbox
+// ============================================================================
+
+/** Days of email and document history in the default inbox window */
+export const INBOX_LOOKBACK_DAYS = 14;
+
+/** Days of upcoming events in the default inbox window */
+export const INBOX_LOOKAHEAD_DAYS = 7;
+
+/** Maximum rows loaded per source before ranking */
+export const INBOX_MAX_CANDIDATES_PER_SOURCE = 500;
+
+/** Maximum recent emails sampled for sender frequency */
+export const INBOX_SENDER_FREQUENCY_SAMPLE = 2000;
+
+/** Default and maximum page size */
+export const INBOX_PAGE_SIZE = 25;
+export const INBOX_MAX_PAGE_SIZE = 100;
+
+/** Ranking weights (see src/lib/inbox.ts) */
+export const INBOX_WEIGHTS = {
+  briefingUrgent: 40,     // Mentioned in today's briefing urgentAttention
+  conflict: 35,           // Event overlaps another event
+  important: 30,          // Gmail IMPORTANT label
+  unread: 15,
+  senderFrequencyMax: 20, // Frequent correspondents (log-scaled)
+  recencyMax: 25,         // Decays with distance from now
+};
+
+/** Hours for the recency score to halve */
+export const INBOX_RECENCY_HALF_LIFE_HOURS = 24;
@@ -0,0 +1,143 @@
+/**
+ * EmergentOS - Local DLP Detector
+ *
+ * Regex + checksum detector used when Nightfall is not configured.
+ * Covers emails, phone numbers, card numbers (Luhn), SSNs and common API key formats.
+ */
+
+import type { DlpDetectionType, DlpScanner, DlpTextFinding } from './types';
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Optional country code, then 3-4 digit groups separated by space, dot or dash
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g;
+
+// 13-19 digits, optionally grouped with spaces or dashes
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+const SSN_PATTERN = /\b(\d{3})-(\d{2})-(\d{4})\b/g;
+
+const API_KEY_PATTERNS: RegExp[] = [
+  /\bAKIA[0-9A-Z]{16}\b/g,                       // AWS access key ID
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,                  // Google API key
+  /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}\b/g,        // OpenAI
+  /\bgh[pousr]_[A-Za-z0-9]{36}\b/g,              // GitHub token
+  /\bxox[abpr]-[A-Za-z0-9-]{10,}\b/g,            // Slack token
+  /\b(?:sk|rk)_live_[A-Za-z0-9]{24,}\b/g,        // Stripe secret key
+];
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * Luhn checksum for card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * SSA rules: area 000, 666 and 900-999 are never issued; group 00 and serial 0000 are invalid
+ */
+function isValidSsn(area: string, group: string, serial: string): boolean {
+  const areaNum = parseInt(area, 10);
+  if (areaNum === 0 || areaNum === 666 || areaNum >= 900) return false;
+  if (group === '00') return false;
+  if (serial === '0000') return false;
+  return true;
+}
+
+/**
+ * True when a match is a slice of a longer digit run (e.g. a non-Luhn card number)
+ */
+function isPartOfLongerNumber(match: RegExpExecArray): boolean {
+  const before = match.input.substring(Math.max(0, match.index - 2), match.index);
+  const after = match.input.substring(match.index + match[0].length, match.index + match[0].length + 2);
+  return /\d[\s.-]?$/.test(before) || /^[\s.-]?\d/.test(after);
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+function collect(
+  text: string,
+  pattern: RegExp,
+  type: DlpDetectionType,
+  accept: (match: RegExpExecArray) => boolean = () => true
+): DlpTextFinding[] {
+  const findings: DlpTextFinding[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    if (accept(match)) {
+      findings.push({
+        type,
+        value: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Detect PII and secrets in a single string.
+ * Detectors run in priority order; a lower-priority match overlapping an
+ * accepted one is dropped (e.g. a card number is not also reported as a phone).
+ */
+export function detectLocally(text: string): DlpTextFinding[] {
+  if (!text) return [];
+
+  const candidates: DlpTextFinding[] = [
+    ...API_KEY_PATTERNS.flatMap((p) => collect(text, p, 'API_KEY')),
+    ...collect(text, CARD_PATTERN, 'CREDIT_CARD_NUMBER', (m) => passesLuhn(m[0].replace(/[ -]/g, ''))),
+    ...collect(text, SSN_PATTERN, 'US_SOCIAL_SECURITY_NUMBER', (m) => isValidSsn(m[1], m[2], m[3])),
+    ...collect(text, EMAIL_PATTERN, 'EMAIL_ADDRESS'),
+    ...collect(text, PHONE_PATTERN, 'PHONE_NUMBER', (m) => {
+      const digitCount = m[0].replace(/\D/g, '').length;
+      return digitCount >= 10 && digitCount <= 15 && !isPartOfLongerNumber(m);
+    }),
+  ];
+
+  const accepted: DlpTextFinding[] = [];
+  for (const candidate of candidates) {
+    const overlaps = accepted.some((a) => candidate.start < a.end && candidate.end > a.start);
+    if (!overlaps) {
+      accepted.push(candidate);
+    }
+  }
+
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Local scanner - synchronous under the hood, never throws
+ */
+export const localScanner: DlpScanner = {
+  name: 'local',
+  async scanTexts(texts: string[]): Promise<DlpTextFinding[][]> {
+    return texts.map(detectLocally);
+  },
+};
@@ -0,0 +1,120 @@
+/**
+ * EmergentOS - Nightfall DLP Client
+ *
+ * Minimal HTTP client for the Nightfall v3 text scan endpoint.
+ * Any service exposing the same request/response contract can be used via NIGHTFALL_API_URL.
+ */
+
+import { DLP_DETECTION_TYPES, type DlpDetectionType, type DlpScanner, type DlpTextFinding } from './types';
+
+const NIGHTFALL_API_URL = process.env.NIGHTFALL_API_URL || 'https://api.nightfall.ai/v3/scan';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface NightfallFinding {
+  finding: string;
+  detector: { name: string; uuid?: string };
+  confidence: string;
+  location: {
+    byteRange: { start: number; end: number };
+    codepointRange: { start: number; end: number };
+  };
+}
+
+interface NightfallScanResponse {
+  findings: NightfallFinding[][];
+  redactedPayload?: string[];
+}
+
+// ============================================================================
+// Request Building
+// ============================================================================
+
+/**
+ * Inline detection policy - one rule, one built-in detector per type.
+ * Detector displayName is set to our type so findings map back directly.
+ */
+function buildPolicy() {
+  return {
+    detectionRules: [
+      {
+        name: 'EmergentOS PII',
+        logicalOp: 'ANY',
+        detectors: DLP_DETECTION_TYPES.map((type) => ({
+          detectorType: 'NIGHTFALL_DETECTOR',
+          nightfallDetector: type,
+          displayName: type,
+          minNumFindings: 1,
+          minConfidence: 'LIKELY',
+        })),
+      },
+    ],
+  };
+}
+
+/**
+ * Convert a Unicode codepoint offset to a JavaScript (UTF-16) string index
+ */
+function codepointToIndex(text: string, codepoint: number): number {
+  let index = 0;
+  for (let cp = 0; cp < codepoint && index < text.length; cp++) {
+    const code = text.charCodeAt(index);
+    index += code >= 0xd800 && code <= 0xdbff ? 2 : 1;
+  }
+  return index;
+}
+
+function toTextFinding(text: string, finding: NightfallFinding): DlpTextFinding | null {
+  const type = finding.detector.name as DlpDetectionType;
+  if (!DLP_DETECTION_TYPES.includes(type)) return null;
+
+  const start = codepointToIndex(text, finding.location.codepointRange.start);
+  const end = codepointToIndex(text, finding.location.codepointRange.end);
+
+  return { type, value: text.substring(start, end) || finding.finding, start, end };
+}
+
+// ============================================================================
+// Scanner
+// ============================================================================
+
+/**
+ * Create a Nightfall-backed scanner.
+ * Errors carry the HTTP status so classifyError() can decide on retry.
+ */
+export function createNightfallScanner(apiKey: string): DlpScanner {
+  return {
+    name: 'nightfall',
+    async scanTexts(texts: string[]): Promise<DlpTextFinding[][]> {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(NIGHTFALL_API_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({ payload: texts, policy: buildPolicy() }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw Object.assign(
+          new Error(`Nightfall scan failed (${response.status}): ${detail.substring(0, 200)}`),
+          { status: response.status }
+        );
+      }
+
+      const data = (await response.json()) as NightfallScanResponse;
+
+      return texts.map((text, i) =>
+        (data.findings?.[i] || [])
+          .map((f) => toTextFinding(text, f))
+          .filter((f): f is DlpTextFinding => f !== null)
+      );
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * EmergentOS - DLP Scan Stage
+ *
+ * Batched DLP scanning per Section 7.1 STEP 8:
+ * - Batch size: DLP_BATCH_SIZE items per request
+ * - Retry with exponential backoff (DLP_RETRY_DELAYS_MS)
+ * - Graceful failure: a failed batch is reported as 'error', never fails the sync
+ */
+
+import { classifyError, formatErrorMessage } from '../errors';
+import { DLP_BATCH_SIZE, DLP_MAX_RETRIES, DLP_RETRY_DELAYS_MS } from '../constants';
+import { createNightfallScanner } from './nightfall';
+import { localScanner } from './local';
+import type {
+  DlpFinding,
+  DlpScanItem,
+  DlpScanResult,
+  DlpScanner,
+  DlpScanSummary,
+  DlpTextFinding,
+} from './types';
+
+// Nightfall when configured, otherwise the local regex/checksum detector
+const defaultScanner: DlpScanner = process.env.NIGHTFALL_API_KEY
+  ? createNightfallScanner(process.env.NIGHTFALL_API_KEY)
+  : localScanner;
+
+/**
+ * Get the configured DLP scanner
+ */
+export function getDlpScanner(): DlpScanner {
+  return defaultScanner;
+}
+
+// ============================================================================
+// Batch Scanning
+// ============================================================================
+
+/**
+ * Call the scanner, retrying retryable errors with DLP_RETRY_DELAYS_MS backoff
+ */
+async function scanWithRetry(scanner: DlpScanner, texts: string[]): Promise<DlpTextFinding[][]> {
+  for (let attempt = 0; attempt < DLP_MAX_RETRIES; attempt++) {
+    try {
+      return await scanner.scanTexts(texts);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (classified.retryable && attempt < DLP_MAX_RETRIES - 1) {
+        console.warn(`[DLP] ${classified.category} error, retrying in ${DLP_RETRY_DELAYS_MS[attempt]}ms`);
+        await new Promise((r) => setTimeout(r, DLP_RETRY_DELAYS_MS[attempt]));
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw new Error('Max retries exceeded for DLP scan');
+}
+
+/**
+ * Scan items in batches of DLP_BATCH_SIZE.
+ * Returns one result per item, in input order.
+ */
+export async function scanItems(
+  items: DlpScanItem[],
+  scanner: DlpScanner = defaultScanner
+): Promise<DlpScanResult[]> {
+  const results: DlpScanResult[] = [];
+
+  for (let i = 0; i < items.length; i += DLP_BATCH_SIZE) {
+    const batch = items.slice(i, i + DLP_BATCH_SIZE);
+
+    // Flatten non-empty fields into payload strings, remembering their origin
+    const texts: string[] = [];
+    const origins: Array<{ itemIndex: number; field: string }> = [];
+    batch.forEach((item, itemIndex) => {
+      for (const [field, value] of Object.entries(item.fields)) {
+        if (value) {
+          texts.push(value);
+          origins.push({ itemIndex, field });
+        }
+      }
+    });
+
+    try {
+      const textFindings = await scanWithRetry(scanner, texts);
+
+      const findingsPerItem: DlpFinding[][] = batch.map(() => []);
+      textFindings.forEach((findings, textIndex) => {
+        const { itemIndex, field } = origins[textIndex];
+        findingsPerItem[itemIndex].push(...findings.map((f) => ({ ...f, field })));
+      });
+
+      batch.forEach((item, itemIndex) => {
+        const findings = findingsPerItem[itemIndex];
+        results.push({
+          id: item.id,
+          outcome: findings.length > 0 ? 'flagged' : 'clean',
+          findings,
+        });
+      });
+    } catch (error) {
+      const message = formatErrorMessage(error);
+      console.warn(`[DLP] Batch ${i / DLP_BATCH_SIZE + 1} failed, continuing without verification: ${message}`);
+      results.push(...batch.map((item) => ({
+        id: item.id,
+        outcome: 'error' as const,
+        findings: [],
+        error: message,
+      })));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Aggregate scan results for logging
+ */
+export function summarizeDlpResults(
+  results: DlpScanResult[],
+  scanner: DlpScanner = defaultScanner
+): DlpScanSummary {
+  const summary: DlpScanSummary = {
+    scanner: scanner.name,
+    clean: 0,
+    flagged: 0,
+    errored: 0,
+    findingsByType: {},
+  };
+
+  for (const result of results) {
+    if (result.outcome === 'clean') summary.clean++;
+    else if (result.outcome === 'flagged') summary.flagged++;
+    else summary.errored++;
+
+    for (const finding of result.findings) {
+      summary.findingsByType[finding.type] = (summary.findingsByType[finding.type] || 0) + 1;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,95 @@
+/**
+ * EmergentOS - DLP Type Definitions
+ *
+ * Shared types for the DLP scanning stage of the sync pipelines (Section 7, STEP 8).
+ */
+
+// ============================================================================
+// Detection Types
+// ============================================================================
+
+/**
+ * PII / secret categories we detect.
+ * Names match Nightfall's built-in detector identifiers.
+ */
+export type DlpDetectionType =
+  | 'EMAIL_ADDRESS'
+  | 'PHONE_NUMBER'
+  | 'CREDIT_CARD_NUMBER'
+  | 'US_SOCIAL_SECURITY_NUMBER'
+  | 'API_KEY';
+
+export const DLP_DETECTION_TYPES: DlpDetectionType[] = [
+  'EMAIL_ADDRESS',
+  'PHONE_NUMBER',
+  'CREDIT_CARD_NUMBER',
+  'US_SOCIAL_SECURITY_NUMBER',
+  'API_KEY',
+];
+
+/**
+ * A single match inside one text payload.
+ * start/end are JavaScript string indices (UTF-16), end exclusive.
+ */
+export interface DlpTextFinding {
+  type: DlpDetectionType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A finding attributed to a field of a scanned item
+ */
+export interface DlpFinding extends DlpTextFinding {
+  field: string;
+}
+
+// ============================================================================
+// Scanner Interface
+// ============================================================================
+
+/**
+ * Pluggable scanner backend.
+ * Receives a batch of text payloads and returns findings per payload (same order).
+ * Implementations throw on transport errors so the caller can retry.
+ */
+export interface DlpScanner {
+  name: 'nightfall' | 'local';
+  scanTexts(texts: string[]): Promise<DlpTextFinding[][]>;
+}
+
+// ============================================================================
+// Item-level Scan
+// ============================================================================
+
+/**
+ * An item to scan (email, event, document) with the text fields to inspect
+ */
+export interface DlpScanItem {
+  id: string;
+  fields: Record<string, string | null | undefined>;
+}
+
+/**
+ * Scan outcome per item:
+ * - clean: scan completed with no findings (eligible for security_verified)
+ * - flagged: scan completed and found PII / secrets
+ * - error: scan could not be completed after retries
+ */
+export type DlpOutcome = 'clean' | 'flagged' | 'error';
+
+export interface DlpScanResult {
+  id: string;
+  outcome: DlpOutcome;
+  findings: DlpFinding[];
+  error?: string;
+}
+
+export interface DlpScanSummary {
+  scanner: DlpScanner['name'];
+  clean: number;
+  flagged: number;
+  errored: number;
+  findingsByType: Partial<Record<DlpDetectionType, number>>;
+}
@@ -0,0 +1,365 @@
+/**
+ * EmergentOS - PII Tokenization Vault
+ *
+ * Replaces DLP findings with stable tokens (e.g. [EMAIL_3f2a]) before data is
+ * persisted, embedded or sent to the LLM, and re-hydrates LLM output server-side.
+ * Originals are stored AES-256-GCM encrypted in pii_vault.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { supabase } from '../supabase';
+import type { DlpDetectionType, DlpScanItem, DlpScanResult } from './types';
+
+// 32-byte key, base64 encoded. Tokenization is disabled without it.
+const vaultKey = (() => {
+  const raw = process.env.PII_VAULT_KEY;
+  if (!raw) return null;
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    console.warn('[PII Vault] PII_VAULT_KEY must be 32 bytes (base64), tokenization disabled');
+    return null;
+  }
+  return key;
+})();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenizedItem {
+  id: string;
+  fields: Record<string, string | null>;
+  verified: boolean;  // Scan completed and no untokenized findings remain
+}
+
+// ============================================================================
+// Token Format
+// ============================================================================
+
+const TOKEN_PREFIXES: Record<DlpDetectionType, string> = {
+  EMAIL_ADDRESS: 'EMAIL',
+  PHONE_NUMBER: 'PHONE',
+  CREDIT_CARD_NUMBER: 'CARD',
+  US_SOCIAL_SECURITY_NUMBER: 'SSN',
+  API_KEY: 'SECRET',
+};
+
+/** Hash lengths tried in order when a shorter token collides with another value */
+const TOKEN_HASH_LENGTHS = [4, 6, 8, 12, 16];
+
+const TOKEN_PATTERN = /\[(?:EMAIL|PHONE|CARD|SSN|SECRET)_[0-9a-f]{4,16}\]/g;
+
+/**
+ * Check if the vault is configured
+ */
+export function isPiiVaultConfigured(): boolean {
+  return vaultKey !== null;
+}
+
+/**
+ * Normalize a value so formatting variants map to the same token
+ */
+function normalizeValue(type: DlpDetectionType, value: string): string {
+  switch (type) {
+    case 'EMAIL_ADDRESS':
+      return value.trim().toLowerCase();
+    case 'PHONE_NUMBER':
+    case 'CREDIT_CARD_NUMBER':
+    case 'US_SOCIAL_SECURITY_NUMBER':
+      return value.replace(/\D/g, '');
+    default:
+      return value.trim();
+  }
+}
+
+/**
+ * Candidate tokens for a value, shortest first.
+ * Keyed HMAC so tokens cannot be reversed by hashing guesses.
+ */
+function candidateTokens(userId: string, type: DlpDetectionType, normalized: string): string[] {
+  const digest = createHmac('sha256', vaultKey!)
+    .update(`${userId}:${type}:${normalized}`)
+    .digest('hex');
+  return TOKEN_HASH_LENGTHS.map((len) => `[${TOKEN_PREFIXES[type]}_${digest.substring(0, len)}]`);
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+function encrypt(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', vaultKey!, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ['v1', iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+function decrypt(payload: string): string | null {
+  try {
+    const [version, iv, tag, ciphertext] = payload.split(':');
+    if (version !== 'v1') return null;
+    const decipher = createDecipheriv('aes-256-gcm', vaultKey!, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Resolve (and register) tokens for a set of findings.
+ * Returns a map of `${type}:${normalized}` → token.
+ */
+async function resolveTokens(
+  userId: string,
+  values: Array<{ type: DlpDetectionType; value: string }>
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  const pending = new Map<string, { type: DlpDetectionType; value: string; normalized: string; candidates: string[] }>();
+
+  for (const { type, value } of values) {
+    const normalized = normalizeValue(type, value);
+    const key = `${type}:${normalized}`;
+    if (!pending.has(key)) {
+      pending.set(key, { type, value, normalized, candidates: candidateTokens(userId, type, normalized) });
+    }
+  }
+
+  if (pending.size === 0) return resolved;
+
+  // Look up every candidate token already in the vault
+  const allCandidates = Array.from(pending.values()).flatMap((p) => p.candidates);
+  const existing = new Map<string, string | null>();
+  for (let i = 0; i < allCandidates.length; i += 500) {
+    const { data, error } = await supabase
+      .from('pii_vault')
+      .select('token, original_value, detection_type')
+      .eq('user_id', userId)
+      .in('token', allCandidates.slice(i, i + 500));
+
+    if (error) {
+      throw new Error(`Failed to read pii_vault: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const original = decrypt(row.original_value);
+      existing.set(row.token, original === null ? null : normalizeValue(row.detection_type as DlpDetectionType, original));
+    }
+  }
+
+  const inserts: Array<{ user_id: string; token: string; original_value: string; detection_type: string }> = [];
+  const claimed = new Set<string>();
+
+  for (const [key, entry] of pending) {
+    // First candidate that is free or already maps to this value
+    const token = entry.candidates.find((t) =>
+      existing.has(t) ? existing.get(t) === entry.normalized : !claimed.has(t)
+    );
+
+    if (!token) {
+      throw new Error(`Unable to allocate PII token for ${entry.type}`);
+    }
+
+    if (!existing.has(token)) {
+      claimed.add(token);
+      inserts.push({
+        user_id: userId,
+        token,
+        original_value: encrypt(entry.value),
+        detection_type: entry.type,
+      });
+    }
+
+    resolved.set(key, token);
+  }
+
+  if (inserts.length > 0) {
+    const { error } = await supabase
+      .from('pii_vault')
+      .upsert(inserts, { onConflict: 'user_id,token', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to write pii_vault: ${error.message}`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Tokenize DLP findings in the given fields of scanned items.
+ *
+ * Only `fields` are rewritten; findings in any other scanned field leave the
+ * item unverified. Without a vault key, text passes through unchanged and only
+ * clean items are verified.
+ */
+export async function tokenizeItems(
+  userId: string,
+  items: DlpScanItem[],
+  results: DlpScanResult[],
+  fields: string[]
+): Promise<TokenizedItem[]> {
+  const resultById = new Map(results.map((r) => [r.id, r]));
+
+  const passthrough = (item: DlpScanItem, verified: boolean): TokenizedItem => ({
+    id: item.id,
+    fields: Object.fromEntries(fields.map((f) => [f, item.fields[f] ?? null])),
+    verified,
+  });
+
+  if (!vaultKey) {
+    return items.map((item) => passthrough(item, resultById.get(item.id)?.outcome === 'clean'));
+  }
+
+  const tokenizable = results.flatMap((r) => r.findings.filter((f) => fields.includes(f.field)));
+
+  let tokens: Map<string, string>;
+  try {
+    tokens = await resolveTokens(userId, tokenizable);
+  } catch (error) {
+    // Graceful failure: persist without redaction, flagged items stay unverified
+    console.error('[PII Vault] Tokenization failed, continuing without redaction:', error);
+    return items.map((item) => passthrough(item, resultById.get(item.id)?.outcome === 'clean'));
+  }
+
+  return items.map((item) => {
+    const result = resultById.get(item.id);
+    if (!result || result.outcome === 'error') {
+      return passthrough(item, false);
+    }
+
+    const tokenizedFields: Record<string, string | null> = {};
+    for (const field of fields) {
+      const text = item.fields[field] ?? null;
+      const fieldFindings = result.findings
+        .filter((f) => f.field === field)
+        .sort((a, b) => b.start - a.start);  // Replace from the end so offsets stay valid
+
+      let tokenized = text;
+      if (tokenized) {
+        for (const finding of fieldFindings) {
+          const token = tokens.get(`${finding.type}:${normalizeValue(finding.type, finding.value)}`);
+          if (token) {
+            tokenized = tokenized.substring(0, finding.start) + token + tokenized.substring(finding.end);
+          }
+        }
+      }
+      tokenizedFields[field] = tokenized;
+    }
+
+    return {
+      id: item.id,
+      fields: tokenizedFields,
+      verified: result.findings.every((f) => fields.includes(f.field)),
+    };
+  });
+}
+
+// ============================================================================
+// Unverified Rows
+// ============================================================================
+
+/**
+ * Null the tokenized fields of rows whose scan never came back clean. Those
+ * fields may hold the original text (stored during a scanner or vault outage),
+ * so they are kept out of LLM prompts and embeddings until a later sync
+ * rescans the row.
+ */
+export function withholdUnverified<T extends { security_verified?: boolean | null }>(
+  rows: T[],
+  fields: ReadonlyArray<keyof T>
+): T[] {
+  return rows.map((row) => row.security_verified
+    ? row
+    : { ...row, ...Object.fromEntries(fields.map((field) => [field, null])) });
+}
+
+// ============================================================================
+// Detokenization
+// ============================================================================
+
+/**
+ * Extract vault tokens from text
+ */
+export function findTokens(text: string): string[] {
+  return Array.from(new Set(text.match(TOKEN_PATTERN) || []));
+}
+
+/**
+ * Load originals for the tokens present in the given texts
+ */
+export async function loadTokenMap(userId: string, texts: string[]): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  if (!vaultKey) return map;
+
+  const tokens = Array.from(new Set(texts.flatMap(findTokens)));
+  if (tokens.length === 0) return map;
+
+  for (let i = 0; i < tokens.length; i += 500) {
+    const { data, error } = await supabase
+      .from('pii_vault')
+      .select('token, original_value')
+      .eq('user_id', userId)
+      .in('token', tokens.slice(i, i + 500));
+
+    if (error) {
+      console.error('[PII Vault] Token lookup error:', error);
+      continue;
+    }
+
+    for (const row of data || []) {
+      const original = decrypt(row.original_value);
+      if (original !== null) {
+        map.set(row.token, original);
+      }
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Replace known tokens in text (unknown tokens are left as-is)
+ */
+export function replaceTokens(text: string, tokenMap: Map<string, string>): string {
+  if (tokenMap.size === 0) return text;
+  return text.replace(TOKEN_PATTERN, (token) => tokenMap.get(token) ?? token);
+}
+
+/**
+ * Re-hydrate tokens in a string
+ */
+export async function detokenizeText(userId: string, text: string): Promise<string> {
+  const tokenMap = await loadTokenMap(userId, [text]);
+  return replaceTokens(text, tokenMap);
+}
+
+/**
+ * Re-hydrate tokens in every string of a JSON value (briefings, insights)
+ */
+export async function detokenizeDeep<T>(userId: string, value: T): Promise<T> {
+  const serialized = JSON.stringify(value);
+  if (serialized === undefined) return value;
+
+  const tokenMap = await loadTokenMap(userId, [serialized]);
+  if (tokenMap.size === 0) return value;
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') return replaceTokens(node, tokenMap);
+    if (Array.isArray(node)) return node.map(walk);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([k, v]) => [k, walk(v)]));
+    }
+    return node;
+  };
+
+  return walk(value) as T;
+}
@@ -0,0 +1,165 @@
+/**
+ * EmergentOS - Drive Content Extraction
+ *
+ * Text extraction for Drive files: Google Docs/Sheets/Slides via the export
+ * endpoint, uploaded PDF/DOCX/plain-text files via download.
+ * Content is capped at DRIVE_CONTENT_MAX_CHARS.
+ */
+
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { DRIVE_CONTENT_MAX_CHARS, DRIVE_EXTRACT_MAX_BYTES } from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExtractionStatus = 'extracted' | 'truncated' | 'unsupported' | 'too_large' | 'error';
+
+export interface ExtractableFile {
+  id: string;
+  mimeType: string;
+  modifiedTime: string | null;
+  md5Checksum: string | null;
+  size: number | null;
+}
+
+export interface ExtractionResult {
+  status: ExtractionStatus;
+  text: string | null;
+  error?: string;
+}
+
+/**
+ * Previous extraction state stored on drive_documents
+ */
+export interface StoredExtraction {
+  extraction_status: string | null;
+  extracted_md5_checksum: string | null;
+  extracted_modified_at: string | null;
+}
+
+// Google-native types → export format
+const EXPORT_MIME_TYPES: Record<string, string> = {
+  'application/vnd.google-apps.document': 'text/plain',
+  'application/vnd.google-apps.spreadsheet': 'text/csv',
+  'application/vnd.google-apps.presentation': 'text/plain',
+};
+
+const PDF_MIME_TYPE = 'application/pdf';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+
+// ============================================================================
+// Change Detection
+// ============================================================================
+
+/**
+ * Whether this file type can be extracted at all
+ */
+export function isExtractable(mimeType: string): boolean {
+  return mimeType in EXPORT_MIME_TYPES ||
+    mimeType === PDF_MIME_TYPE ||
+    mimeType === DOCX_MIME_TYPE ||
+    TEXT_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Whether the file changed since its content was last extracted.
+ * Uploaded files carry md5Checksum; Google-native files only have modifiedTime.
+ * Failed extractions are retried on the next sync.
+ */
+export function needsExtraction(file: ExtractableFile, stored: StoredExtraction | null): boolean {
+  if (!isExtractable(file.mimeType)) return false;
+  if (!stored || !stored.extraction_status || stored.extraction_status === 'error') return true;
+
+  if (file.md5Checksum) {
+    return file.md5Checksum !== stored.extracted_md5_checksum;
+  }
+
+  if (!file.modifiedTime || !stored.extracted_modified_at) return true;
+  return new Date(file.modifiedTime).getTime() !== new Date(stored.extracted_modified_at).getTime();
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Collapse layout whitespace left by exports and PDF text runs
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+async function downloadFile(connectionId: string, endpoint: string, params?: Record<string, string>): Promise<Buffer> {
+  const response = await nangoProxy({
+    method: 'GET',
+    endpoint,
+    providerConfigKey: PROVIDER_CONFIG_KEYS.drive,
+    connectionId,
+    params,
+    responseType: 'arraybuffer',
+  });
+  return Buffer.from(response.data as ArrayBuffer);
+}
+
+async function extractPdfText(data: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+/**
+ * Fetch a file and extract its text.
+ * Never throws: failures are reported as status 'error'.
+ */
+export async function extractFileContent(connectionId: string, file: ExtractableFile): Promise<ExtractionResult> {
+  if (!isExtractable(file.mimeType)) {
+    return { status: 'unsupported', text: null };
+  }
+
+  if (file.size !== null && file.size > DRIVE_EXTRACT_MAX_BYTES) {
+    return { status: 'too_large', text: null };
+  }
+
+  try {
+    let text: string;
+    const exportMimeType = EXPORT_MIME_TYPES[file.mimeType];
+
+    if (exportMimeType) {
+      const data = await downloadFile(connectionId, `/drive/v3/files/${file.id}/export`, { mimeType: exportMimeType });
+      text = data.toString('utf8');
+    } else {
+      const data = await downloadFile(connectionId, `/drive/v3/files/${file.id}`, { alt: 'media' });
+      if (data.length > DRIVE_EXTRACT_MAX_BYTES) {
+        return { status: 'too_large', text: null };
+      }
+
+      if (file.mimeType === PDF_MIME_TYPE) {
+        text = await extractPdfText(data);
+      } else if (file.mimeType === DOCX_MIME_TYPE) {
+        text = (await mammoth.extractRawText({ buffer: data })).value;
+      } else {
+        text = data.toString('utf8');
+      }
+    }
+
+    const normalized = normalizeText(text);
+    if (normalized.length > DRIVE_CONTENT_MAX_CHARS) {
+      return { status: 'truncated', text: normalized.substring(0, DRIVE_CONTENT_MAX_CHARS) };
+    }
+    return { status: 'extracted', text: normalized };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Drive Content] Extraction failed for ${file.id} (${file.mimeType}): ${message}`);
+    return { status: 'error', text: null, error: message };
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * EmergentOS - Email Body Extraction
+ *
+ * Decodes Gmail MIME payloads (format: 'full') into a cleaned plain-text body:
+ * text/plain preferred, text/html through stripHtml as a fallback, with quoted
+ * replies and signatures removed.
+ */
+
+import { stripHtml, decodeHtmlEntities } from './helpers';
+import { EMAIL_BODY_MAX_CHARS } from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GmailMessagePart {
+  mimeType?: string;
+  filename?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: { size?: number; data?: string; attachmentId?: string };
+  parts?: GmailMessagePart[];
+}
+
+// ============================================================================
+// MIME Decoding
+// ============================================================================
+
+function getPartHeader(part: GmailMessagePart, name: string): string {
+  return part.headers?.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value || '';
+}
+
+function isAttachment(part: GmailMessagePart): boolean {
+  return Boolean(part.filename) || /^\s*attachment/i.test(getPartHeader(part, 'Content-Disposition'));
+}
+
+/**
+ * Decode a part's base64url body using the charset from its Content-Type
+ */
+function decodePartBody(part: GmailMessagePart): string {
+  const data = part.body?.data;
+  if (!data) return '';
+
+  const bytes = Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  const charset = getPartHeader(part, 'Content-Type').match(/charset="?([^";\s]+)"?/i)?.[1] || 'utf-8';
+
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * First inline (non-attachment) part of the given type, depth-first.
+ * Forwarded messages (message/rfc822) are not descended into.
+ */
+function findInlinePart(part: GmailMessagePart, mimeType: string): GmailMessagePart | null {
+  if (isAttachment(part)) return null;
+  if (part.mimeType === mimeType && part.body?.data) return part;
+  if (part.mimeType === 'message/rfc822') return null;
+
+  for (const child of part.parts || []) {
+    const found = findInlinePart(child, mimeType);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Convert an HTML body to plain text, keeping line structure for quote detection
+ */
+export function htmlToText(html: string): string {
+  // Gmail/Outlook quote and signature containers sit at the end of the body
+  const cutAt = html.search(/<div[^>]+class="?(?:gmail_quote|gmail_signature)|<blockquote|<div[^>]+id="?(?:divRplyFwdMsg|appendonsend)/i);
+  const body = cutAt >= 0 ? html.substring(0, cutAt) : html;
+
+  return body
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, '\n')
+    .split('\n')
+    .map((line) => decodeHtmlEntities(stripHtml(line)))
+    .join('\n');
+}
+
+// ============================================================================
+// Quote & Signature Stripping
+// ============================================================================
+
+const QUOTE_HEADER_PATTERNS = [
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}\s*$/,                              // Outlook separator
+  /^On\s.+wrote:\s*$/i,                       // Gmail/Apple attribution
+  /^Le\s.+a écrit\s?:\s*$/i,
+  /^Am\s.+schrieb.*:\s*$/i,
+];
+
+const SIGNATURE_PATTERNS = [
+  /^--\s?$/,                                  // RFC 3676 delimiter
+  /^Sent from my\s/i,
+  /^Sent from Mail for\s/i,
+  /^Get Outlook for\s/i,
+];
+
+/**
+ * Whether line `i` starts an Outlook-style header block ("From: ..." then "Sent:"/"Date:")
+ */
+function isOutlookHeader(lines: string[], i: number): boolean {
+  if (!/^\*?From:\*?\s/i.test(lines[i])) return false;
+  return lines.slice(i + 1, i + 5).some((l) => /^\*?(Sent|Date):\*?\s/i.test(l));
+}
+
+/**
+ * Remove quoted replies and signatures from a plain-text body
+ */
+export function cleanEmailBody(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map((l) => l.trimEnd());
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Two-line attribution: "On Mon, Jan 1, 2026 at 9:00 AM Jane Doe" / "<jane@x.com> wrote:"
+    const joined = i + 1 < lines.length ? `${trimmed} ${lines[i + 1].trim()}` : trimmed;
+
+    if (
+      QUOTE_HEADER_PATTERNS.some((p) => p.test(trimmed)) ||
+      (/^On\s/i.test(trimmed) && /wrote:\s*$/i.test(joined)) ||
+      isOutlookHeader(lines, i) ||
+      SIGNATURE_PATTERNS.some((p) => p.test(line))
+    ) {
+      break;
+    }
+
+    if (trimmed.startsWith('>')) continue;
+    kept.push(line);
+  }
+
+  return kept
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extract the cleaned body of a Gmail message payload.
+ * Returns null when the message has no readable text.
+ */
+export function extractEmailBody(payload: GmailMessagePart | undefined): string | null {
+  if (!payload) return null;
+
+  const plainPart = findInlinePart(payload, 'text/plain');
+  const htmlPart = plainPart ? null : findInlinePart(payload, 'text/html');
+
+  const raw = plainPart
+    ? decodePartBody(plainPart)
+    : htmlPart
+      ? htmlToText(decodePartBody(htmlPart))
+      : '';
+
+  const cleaned = cleanEmailBody(raw);
+  if (!cleaned) return null;
+
+  return cleaned.length > EMAIL_BODY_MAX_CHARS
+    ? cleaned.substring(0, EMAIL_BODY_MAX_CHARS)
+    : cleaned;
+}
@@ -0,0 +1,213 @@
+/**
+ * EmergentOS - Email Threads
+ *
+ * Rebuilds conversations from emails.thread_id for the thread API, briefing
+ * prompts and chat context. Bodies are returned as stored (PII tokenized);
+ * prompt context leaves out bodies that never passed a DLP scan.
+ */
+
+import { supabase } from './supabase';
+import { withholdUnverified } from './dlp/vault';
+import {
+  EMAIL_THREAD_CONTEXT_MESSAGES,
+  EMAIL_THREAD_MAX_MESSAGES,
+  EMAIL_THREAD_TRANSCRIPT_MAX_CHARS,
+} from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EmailThreadMessage {
+  message_id: string;
+  thread_id: string | null;
+  sender: string;
+  subject: string;
+  snippet: string | null;
+  body_preview: string | null;
+  received_at: string;
+  is_read: boolean | null;
+  security_verified: boolean | null;
+}
+
+export interface EmailThread {
+  threadId: string;
+  subject: string;
+  participants: string[];
+  messageCount: number;
+  lastMessageAt: string;
+  messages: EmailThreadMessage[];  // Oldest first
+}
+
+/**
+ * Earlier message summarized for prompts
+ */
+export interface EarlierThreadMessage {
+  sender: string;
+  received_at: string;
+  body: string;
+}
+
+const THREAD_MESSAGE_COLUMNS = 'message_id, thread_id, sender, subject, snippet, body_preview, received_at, is_read, security_verified';
+
+// ============================================================================
+// Thread Loading
+// ============================================================================
+
+/**
+ * Load a thread (latest EMAIL_THREAD_MAX_MESSAGES messages). Null if the user has no such thread.
+ */
+export async function getEmailThread(userId: string, threadId: string): Promise<EmailThread | null> {
+  const { data, error } = await supabase
+    .from('emails')
+    .select(THREAD_MESSAGE_COLUMNS)
+    .eq('user_id', userId)
+    .eq('thread_id', threadId)
+    .order('received_at', { ascending: false })
+    .limit(EMAIL_THREAD_MAX_MESSAGES);
+
+  if (error) {
+    throw new Error(`Failed to fetch thread: ${error.message}`);
+  }
+
+  const messages = ((data || []) as EmailThreadMessage[]).reverse();
+  if (messages.length === 0) return null;
+
+  return {
+    threadId,
+    // Replies carry "Re:" prefixes; the first message has the original subject
+    subject: messages[0].subject,
+    participants: Array.from(new Set(messages.map((m) => m.sender))),
+    messageCount: messages.length,
+    lastMessageAt: messages[messages.length - 1].received_at,
+    messages,
+  };
+}
+
+/**
+ * Load all stored messages for a set of threads, grouped by thread (oldest
+ * first), for prompt context
+ */
+export async function getThreadMessages(
+  userId: string,
+  threadIds: string[]
+): Promise<Map<string, EmailThreadMessage[]>> {
+  const threads = new Map<string, EmailThreadMessage[]>();
+  const uniqueIds = Array.from(new Set(threadIds.filter(Boolean)));
+  if (uniqueIds.length === 0) return threads;
+
+  for (let i = 0; i < uniqueIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('emails')
+      .select(THREAD_MESSAGE_COLUMNS)
+      .eq('user_id', userId)
+      .in('thread_id', uniqueIds.slice(i, i + 200))
+      .order('received_at', { ascending: true });
+
+    if (error) {
+      console.error('[Email Threads] Thread lookup error:', error);
+      continue;
+    }
+
+    // Only used for prompt context, so unscanned bodies are withheld
+    for (const message of withholdUnverified((data || []) as EmailThreadMessage[], ['snippet', 'body_preview'])) {
+      const list = threads.get(message.thread_id!) || [];
+      list.push(message);
+      threads.set(message.thread_id!, list);
+    }
+  }
+
+  return threads;
+}
+
+// ============================================================================
+// Prompt Context
+// ============================================================================
+
+/**
+ * Attach the messages that came before each email's thread window, so the
+ * briefing sees the conversation and not just the newest reply.
+ * Only the latest email of each thread carries `earlier_messages`.
+ */
+export async function attachThreadHistory<T extends { message_id: string; thread_id?: string | null; received_at: string }>(
+  userId: string,
+  emails: T[]
+): Promise<Array<T & { earlier_messages?: EarlierThreadMessage[] }>> {
+  const threads = await getThreadMessages(userId, emails.map((e) => e.thread_id || ''));
+  const inWindow = new Set(emails.map((e) => e.message_id));
+
+  // Latest email per thread
+  const latestByThread = new Map<string, T>();
+  for (const email of emails) {
+    if (!email.thread_id) continue;
+    const current = latestByThread.get(email.thread_id);
+    if (!current || email.received_at > current.received_at) {
+      latestByThread.set(email.thread_id, email);
+    }
+  }
+
+  return emails.map((email) => {
+    if (!email.thread_id || latestByThread.get(email.thread_id) !== email) return email;
+
+    const earlier = (threads.get(email.thread_id) || [])
+      .filter((m) => !inWindow.has(m.message_id))
+      .slice(-EMAIL_THREAD_CONTEXT_MESSAGES)
+      .map((m) => ({
+        sender: m.sender,
+        received_at: m.received_at,
+        body: m.body_preview || m.snippet || '',
+      }));
+
+    return earlier.length > 0 ? { ...email, earlier_messages: earlier } : email;
+  });
+}
+
+/**
+ * Render a thread as plain text, keeping the newest messages that fit in maxChars
+ */
+export function buildThreadTranscript(
+  messages: EmailThreadMessage[],
+  maxChars: number = EMAIL_THREAD_TRANSCRIPT_MAX_CHARS
+): string {
+  const blocks: string[] = [];
+  let length = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    const block = `From: ${m.sender}\nDate: ${m.received_at}\n\n${m.body_preview || m.snippet || ''}`;
+    if (length + block.length > maxChars && blocks.length > 0) break;
+    blocks.unshift(block.substring(0, maxChars));
+    length += block.length;
+  }
+
+  const omitted = messages.length - blocks.length;
+  const header = `Thread: ${messages[0]?.subject || ''} (${messages.length} messages${omitted > 0 ? `, ${omitted} earlier omitted` : ''})`;
+  return [header, ...blocks].join('\n\n---\n\n');
+}
+
+/**
+ * Replace email search hits with their whole thread (one entry per thread)
+ */
+export async function expandEmailThreads<T extends { sourceType: string; content: string; metadata: Record<string, unknown> }>(
+  userId: string,
+  results: T[]
+): Promise<T[]> {
+  const threadIds = results
+    .filter((r) => r.sourceType === 'email' && typeof r.metadata.thread_id === 'string')
+    .map((r) => r.metadata.thread_id as string);
+  if (threadIds.length === 0) return results;
+
+  const threads = await getThreadMessages(userId, threadIds);
+  const seen = new Set<string>();
+
+  return results.flatMap((result) => {
+    const threadId = result.sourceType === 'email' ? result.metadata.thread_id : undefined;
+    if (typeof threadId !== 'string') return [result];
+    if (seen.has(threadId)) return [];
+    seen.add(threadId);
+
+    const messages = threads.get(threadId) || [];
+    if (messages.length < 2) return [result];
+    return [{ ...result, content: buildThreadTranscript(messages) }];
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * EmergentOS - Hashing Embedding Provider
+ *
+ * Deterministic feature-hashing embeddings for offline development and tests:
+ * no network, no API key, same text always gives the same vector. Words and
+ * word pairs are hashed into signed buckets and the vector is L2-normalized,
+ * so texts sharing vocabulary land close together. Not a semantic model.
+ */
+
+import type { EmbeddingProvider } from './types';
+
+const HASHING_MODEL = 'hashing-v1';
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashText(text: string, dimension: number): number[] {
+  const vector = new Array<number>(dimension).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimension] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Create a hashing provider producing `dimension`-long vectors
+ */
+export function createHashingEmbeddingProvider(dimension: number): EmbeddingProvider {
+  return {
+    name: 'hashing',
+    model: HASHING_MODEL,
+    dimension,
+
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((text) => hashText(text, dimension));
+    },
+  };
+}
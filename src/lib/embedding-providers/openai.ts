@@ -0,0 +1,52 @@
+/**
+ * EmergentOS - OpenAI Embedding Provider
+ *
+ * OpenAI embeddings API, or any server exposing the same /embeddings contract
+ * (Ollama, LM Studio, vLLM, text-embeddings-inference) via a base URL.
+ */
+
+import OpenAI from 'openai';
+import type { EmbeddingProvider } from './types';
+
+interface OpenAIEmbeddingOptions {
+  apiKey: string;
+  model: string;
+  dimension: number;
+  baseURL?: string;   // Set for OpenAI-compatible servers
+}
+
+/**
+ * Create an OpenAI (or OpenAI-compatible) embedding provider.
+ * Compatible servers get no `dimensions` parameter (most don't support it);
+ * their vectors are checked against the configured dimension instead.
+ */
+export function createOpenAIEmbeddingProvider(options: OpenAIEmbeddingOptions): EmbeddingProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  const isCompatible = Boolean(options.baseURL);
+
+  return {
+    name: isCompatible ? 'openai-compatible' : 'openai',
+    model: options.model,
+    dimension: options.dimension,
+
+    async embed(texts: string[]): Promise<number[][]> {
+      const response = await client.embeddings.create({
+        model: options.model,
+        input: texts,
+        ...(isCompatible ? {} : { dimensions: options.dimension }),
+      });
+
+      // Some servers don't keep input order; index is part of the contract
+      const vectors = [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+
+      const mismatch = vectors.find((v) => v.length !== options.dimension);
+      if (mismatch) {
+        throw new Error(
+          `Embedding model ${options.model} returned ${mismatch.length} dimensions, expected ${options.dimension} (set EMBEDDING_DIMENSION)`
+        );
+      }
+
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * EmergentOS - Embedding Provider Types
+ *
+ * Shared interface for the embedding backends used by the sync pipelines and
+ * hybrid search.
+ */
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+/**
+ * Pluggable embedding backend.
+ * Receives a batch of texts and returns one vector per text (same order), each
+ * `dimension` long. Implementations throw on transport errors.
+ *
+ * model + dimension identify the vector space: stored embeddings record both,
+ * and only embeddings from the same space are compared.
+ */
+export interface EmbeddingProvider {
+  name: 'openai' | 'openai-compatible' | 'hashing';
+  model: string;
+  dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = EmbeddingProvider['name'];
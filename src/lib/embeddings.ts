@@ -1,23 +1,75 @@
 /**
  * EmergentOS - Embedding Generation
  * 
- * OpenAI embeddings for semantic search per Section 16.5.
+ * Embeddings for semantic search per Section 16.5. The backend is an
+ * EmbeddingProvider (OpenAI, an OpenAI-compatible server, or the offline
+ * hashing provider); each stored embedding records the provider's model and
+ * dimension, and search only compares embeddings from the current one.
  */
 
-import OpenAI from 'openai';
 import { supabase } from './supabase';
-import { calculateContentHash } from './helpers';
+import { calculateContentHash, chunkText } from './helpers';
+import { withholdUnverified } from './dlp/vault';
+import { createOpenAIEmbeddingProvider } from './embedding-providers/openai';
+import { createHashingEmbeddingProvider } from './embedding-providers/hashing';
+import type { EmbeddingProvider, EmbeddingProviderName } from './embedding-providers/types';
 import {
   EMBEDDING_MODEL,
   EMBEDDING_DIMENSION,
   EMBEDDING_BATCH_SIZE,
+  EMBEDDING_CHUNK_SIZE,
+  EMBEDDING_CHUNK_OVERLAP,
+  EMBEDDING_SOURCE_PAGE_SIZE,
+  EMBEDDING_SYNC_CHUNK_SIZE,
   MAX_CONTENT_LENGTH,
 } from './constants';
 
-// Initialize OpenAI client
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
-  : null;
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+/**
+ * EMBEDDING_PROVIDER picks the backend explicitly; otherwise OpenAI when
+ * OPENAI_API_KEY is set, an OpenAI-compatible server when EMBEDDING_API_URL
+ * is set, and none (embeddings and semantic search disabled) without either.
+ * EMBEDDING_MODEL / EMBEDDING_DIMENSION override the model defaults.
+ */
+function createDefaultProvider(): EmbeddingProvider | null {
+  const name = (process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined)
+    || (process.env.OPENAI_API_KEY ? 'openai' : process.env.EMBEDDING_API_URL ? 'openai-compatible' : null);
+  const dimension = process.env.EMBEDDING_DIMENSION
+    ? parseInt(process.env.EMBEDDING_DIMENSION, 10)
+    : EMBEDDING_DIMENSION;
+  const model = process.env.EMBEDDING_MODEL || EMBEDDING_MODEL;
+
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) return null;
+      return createOpenAIEmbeddingProvider({ apiKey: process.env.OPENAI_API_KEY, model, dimension });
+    case 'openai-compatible':
+      if (!process.env.EMBEDDING_API_URL) return null;
+      return createOpenAIEmbeddingProvider({
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: process.env.EMBEDDING_API_KEY || 'not-needed',
+        baseURL: process.env.EMBEDDING_API_URL,
+        model,
+        dimension,
+      });
+    case 'hashing':
+      return createHashingEmbeddingProvider(dimension);
+    default:
+      return null;
+  }
+}
+
+const defaultProvider = createDefaultProvider();
+
+/**
+ * Get the configured embedding provider, or null when embeddings are disabled
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  return defaultProvider;
+}
 
 // ============================================================================
 // Types
@@ -30,6 +82,30 @@ export interface EmbeddingInput {
   metadata?: Record<string, unknown>;
 }
 
+/** Synced sources, embedded incrementally by the provider syncs */
+export type SyncedSourceType = 'email' | 'calendar' | 'drive';
+
+/**
+ * One embedding step of a sync: changed sources to (re-)embed and removed
+ * sources whose embeddings are deleted
+ */
+export interface EmbeddingChunk {
+  embedIds: string[];
+  deleteIds: string[];
+}
+
+export interface EmbeddingUpdateResult {
+  inserted: number;
+  skipped: number;
+  deleted: number;
+}
+
+export interface ReembedChunkResult {
+  processed: number;
+  reembedded: number;
+  lastId: string | null;   // Cursor for the next chunk; null when nothing was left
+}
+
 export interface SearchResult {
   sourceType: 'email' | 'calendar' | 'drive' | 'briefing';
   sourceId: string;
@@ -44,9 +120,11 @@ export interface SearchResult {
 
 interface Email {
   message_id: string;
+  thread_id?: string | null;
   sender: string;
   subject: string;
   snippet: string | null;
+  body_preview?: string | null;
   received_at: string;
 }
 
@@ -65,6 +143,7 @@ interface DriveDocument {
   mime_type: string;
   modified_at: string | null;
   content_preview: string | null;
+  content_text?: string | null;
 }
 
 // ============================================================================
@@ -73,14 +152,16 @@ interface DriveDocument {
 
 /**
  * Generate embeddings for content and upsert to database.
- * Handles batching, deduplication via content_hash, and rate limits.
+ * Handles batching, skipping sources whose stored content_hash is unchanged,
+ * and rate limits.
  */
 export async function generateAndStoreEmbeddings(
   userId: string,
-  inputs: EmbeddingInput[]
+  inputs: EmbeddingInput[],
+  provider: EmbeddingProvider | null = defaultProvider
 ): Promise<{ inserted: number; skipped: number }> {
-  if (!openai) {
-    console.warn('[Embeddings] OPENAI_API_KEY not configured, skipping');
+  if (!provider) {
+    console.warn('[Embeddings] No embedding provider configured, skipping');
     return { inserted: 0, skipped: inputs.length };
   }
 
@@ -104,26 +185,29 @@ export async function generateAndStoreEmbeddings(
       })
     );
 
-    // Check for existing embeddings with same content_hash (skip unchanged)
+    // Skip sources whose stored embedding has the same content_hash in the same model
+    // (looked up by source, so identical content in two sources still gets two embeddings)
     const { data: existing } = await supabase
       .from('embeddings')
-      .select('content_hash')
+      .select('source_type, source_id, content_hash, embedding_model, embedding_dimension')
       .eq('user_id', userId)
-      .in('content_hash', preparedBatch.map((p) => p.contentHash));
+      .in('source_type', Array.from(new Set(preparedBatch.map((p) => p.sourceType))))
+      .in('source_id', preparedBatch.map((p) => p.sourceId));
 
-    const existingHashes = new Set(existing?.map((e) => e.content_hash) || []);
-    const toEmbed = preparedBatch.filter((p) => !existingHashes.has(p.contentHash));
+    const existingHashes = new Set(
+      (existing || [])
+        .filter((e) => e.embedding_model === provider.model && e.embedding_dimension === provider.dimension)
+        .map((e) => `${e.source_type}:${e.source_id}:${e.content_hash}`)
+    );
+    const toEmbed = preparedBatch.filter(
+      (p) => !existingHashes.has(`${p.sourceType}:${p.sourceId}:${p.contentHash}`)
+    );
     skipped += preparedBatch.length - toEmbed.length;
 
     if (toEmbed.length === 0) continue;
 
     try {
-      // Call OpenAI Embeddings API
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: toEmbed.map((p) => p.content),
-        dimensions: EMBEDDING_DIMENSION,
-      });
+      const vectors = await provider.embed(toEmbed.map((p) => p.content));
 
       // Map embeddings back to inputs
       const records = toEmbed.map((input, idx) => ({
@@ -131,7 +215,9 @@ export async function generateAndStoreEmbeddings(
         source_type: input.sourceType,
         source_id: input.sourceId,
         content: input.content,
-        embedding: `[${response.data[idx].embedding.join(',')}]`, // pgvector format
+        embedding: toPgVector(vectors[idx]),
+        embedding_model: provider.model,
+        embedding_dimension: provider.dimension,
         metadata: input.metadata || {},
         content_hash: input.contentHash,
       }));
@@ -147,7 +233,7 @@ export async function generateAndStoreEmbeddings(
         inserted += records.length;
       }
     } catch (error) {
-      console.error('[Embeddings] OpenAI API error:', error);
+      console.error(`[Embeddings] ${provider.name} provider error:`, error);
       // Continue with next batch on error
     }
   }
@@ -155,6 +241,13 @@ export async function generateAndStoreEmbeddings(
   return { inserted, skipped };
 }
 
+/**
+ * pgvector text format
+ */
+function toPgVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
 // ============================================================================
 // Prepare Functions (per source type)
 // ============================================================================
@@ -167,8 +260,10 @@ export function prepareEmailEmbeddings(emails: Email[]): EmbeddingInput[] {
   return emails.map((email) => ({
     sourceType: 'email',
     sourceId: email.message_id,  // Gmail message ID
-    content: `From: ${email.sender}\nSubject: ${email.subject}\n\n${email.snippet || ''}`,
+    content: `From: ${email.sender}\nSubject: ${email.subject}\n\n${email.body_preview || email.snippet || ''}`,
     metadata: {
+      message_id: email.message_id,
+      thread_id: email.thread_id ?? null,
       sender: email.sender,
       subject: email.subject,
       received_at: email.received_at,
@@ -194,21 +289,329 @@ export function prepareCalendarEmbeddings(events: CalendarEvent[]): EmbeddingInp
   }));
 }
 
+/**
+ * Source ID for a document chunk. The first chunk keeps the plain document_id.
+ */
+function driveChunkSourceId(documentId: string, chunkIndex: number): string {
+  return chunkIndex === 0 ? documentId : `${documentId}#${chunkIndex}`;
+}
+
 /**
  * Prepare embedding inputs from drive documents.
+ * Extracted content is split into EMBEDDING_CHUNK_SIZE chunks, one embedding each.
  * CRITICAL: Uses document_id (Google Drive ID), NOT database UUID
  */
 export function prepareDriveEmbeddings(documents: DriveDocument[]): EmbeddingInput[] {
-  return documents.map((doc) => ({
-    sourceType: 'drive',
-    sourceId: doc.document_id,  // Google Drive document ID
-    content: `${doc.name}\n${doc.content_preview || ''}`,
-    metadata: {
+  return documents.flatMap((doc): EmbeddingInput[] => {
+    const baseMetadata = {
+      document_id: doc.document_id,
       name: doc.name,
       mime_type: doc.mime_type,
       modified_at: doc.modified_at,
-    },
-  }));
+    };
+
+    const chunks = doc.content_text
+      ? chunkText(doc.content_text, EMBEDDING_CHUNK_SIZE, EMBEDDING_CHUNK_OVERLAP)
+      : [];
+
+    // No extracted content: embed the name and preview only
+    if (chunks.length === 0) {
+      return [{
+        sourceType: 'drive',
+        sourceId: doc.document_id,  // Google Drive document ID
+        content: `${doc.name}\n${doc.content_preview || ''}`,
+        metadata: { ...baseMetadata, chunk_index: 0, chunk_count: 1 },
+      }];
+    }
+
+    return chunks.map((chunk, index) => ({
+      sourceType: 'drive',
+      sourceId: driveChunkSourceId(doc.document_id, index),
+      content: chunks.length > 1
+        ? `${doc.name} (part ${index + 1} of ${chunks.length})\n${chunk.text}`
+        : `${doc.name}\n${chunk.text}`,
+      metadata: {
+        ...baseMetadata,
+        chunk_index: index,
+        chunk_count: chunks.length,
+        char_start: chunk.start,
+        char_end: chunk.end,
+      },
+    }));
+  });
+}
+
+/**
+ * Delete chunk embeddings beyond each document's current chunk count
+ * (left behind when a document shrinks or loses its content). Only the
+ * documents in `inputs` are looked at.
+ */
+export async function deleteStaleDriveChunks(userId: string, inputs: EmbeddingInput[]): Promise<number> {
+  const chunkCounts = new Map<string, number>();
+  for (const input of inputs) {
+    if (input.sourceType !== 'drive') continue;
+    const documentId = input.metadata?.document_id as string | undefined;
+    if (documentId) {
+      chunkCounts.set(documentId, (input.metadata?.chunk_count as number | undefined) ?? 1);
+    }
+  }
+  if (chunkCounts.size === 0) return 0;
+
+  const documentIds = Array.from(chunkCounts.keys());
+  const chunkIds: string[] = [];
+
+  for (let i = 0; i < documentIds.length; i += EMBEDDING_SOURCE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('embeddings')
+      .select('source_id')
+      .eq('user_id', userId)
+      .eq('source_type', 'drive')
+      .in('metadata->>document_id', documentIds.slice(i, i + EMBEDDING_SOURCE_PAGE_SIZE))
+      .like('source_id', '%#%');
+
+    if (error) {
+      console.error('[Embeddings] Stale chunk lookup error:', error);
+      return 0;
+    }
+    chunkIds.push(...(data || []).map((row) => row.source_id as string));
+  }
+
+  const stale = chunkIds
+    .filter((sourceId) => {
+      const separator = sourceId.lastIndexOf('#');
+      const count = chunkCounts.get(sourceId.substring(0, separator));
+      return count !== undefined && parseInt(sourceId.substring(separator + 1), 10) >= count;
+    });
+
+  for (let i = 0; i < stale.length; i += 100) {
+    const { error: deleteError } = await supabase
+      .from('embeddings')
+      .delete()
+      .eq('user_id', userId)
+      .eq('source_type', 'drive')
+      .in('source_id', stale.slice(i, i + 100));
+
+    if (deleteError) {
+      console.error('[Embeddings] Stale chunk delete error:', deleteError);
+    }
+  }
+
+  return stale.length;
+}
+
+// ============================================================================
+// Incremental Sync Embeddings
+// ============================================================================
+
+/**
+ * Split a sync's changes into embedding steps of at most `size` changed
+ * sources. Deletions ride along with the first step.
+ */
+export function planEmbeddingChunks(
+  embedIds: string[],
+  deleteIds: string[],
+  size: number = EMBEDDING_SYNC_CHUNK_SIZE
+): EmbeddingChunk[] {
+  const chunks: EmbeddingChunk[] = [];
+
+  for (let i = 0; i < embedIds.length; i += size) {
+    chunks.push({ embedIds: embedIds.slice(i, i + size), deleteIds: [] });
+  }
+
+  if (deleteIds.length > 0) {
+    if (chunks.length === 0) chunks.push({ embedIds: [], deleteIds });
+    else chunks[0].deleteIds = deleteIds;
+  }
+
+  return chunks;
+}
+
+/**
+ * Apply one embedding step: delete the embeddings of removed sources, then
+ * load and (re-)embed the changed ones. Only the given IDs are touched.
+ */
+export async function updateSourceEmbeddings(
+  userId: string,
+  sourceType: SyncedSourceType,
+  chunk: EmbeddingChunk
+): Promise<EmbeddingUpdateResult> {
+  const deleted = await deleteSourceEmbeddings(userId, sourceType, chunk.deleteIds);
+  if (chunk.embedIds.length === 0) {
+    return { inserted: 0, skipped: 0, deleted };
+  }
+
+  const inputs = await loadEmbeddingInputs(userId, sourceType, chunk.embedIds);
+  const result = await generateAndStoreEmbeddings(userId, inputs);
+
+  let staleDeleted = 0;
+  if (sourceType === 'drive') {
+    staleDeleted = await deleteStaleDriveChunks(userId, inputs);
+  }
+
+  return { ...result, deleted: deleted + staleDeleted };
+}
+
+/**
+ * Delete the embeddings of removed sources (all chunks, for documents)
+ */
+export async function deleteSourceEmbeddings(
+  userId: string,
+  sourceType: SyncedSourceType,
+  sourceIds: string[]
+): Promise<number> {
+  let deleted = 0;
+
+  for (let i = 0; i < sourceIds.length; i += EMBEDDING_SOURCE_PAGE_SIZE) {
+    const ids = sourceIds.slice(i, i + EMBEDDING_SOURCE_PAGE_SIZE);
+    const { count, error } = await supabase
+      .from('embeddings')
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .eq('source_type', sourceType)
+      .in(sourceType === 'drive' ? 'metadata->>document_id' : 'source_id', ids);
+
+    if (error) {
+      // Don't throw - an orphaned embedding is removed by delete_orphaned_embeddings()
+      console.error(`[Embeddings] Delete error for removed ${sourceType} sources:`, error);
+      continue;
+    }
+    deleted += count || 0;
+  }
+
+  return deleted;
+}
+
+/**
+ * Load changed source rows and turn them into embedding inputs. Tokenized
+ * fields of rows that never passed a DLP scan are left out until a rescan.
+ */
+async function loadEmbeddingInputs(
+  userId: string,
+  sourceType: SyncedSourceType,
+  sourceIds: string[]
+): Promise<EmbeddingInput[]> {
+  const inputs: EmbeddingInput[] = [];
+
+  for (let i = 0; i < sourceIds.length; i += EMBEDDING_SOURCE_PAGE_SIZE) {
+    const ids = sourceIds.slice(i, i + EMBEDDING_SOURCE_PAGE_SIZE);
+
+    if (sourceType === 'email') {
+      const { data } = await supabase
+        .from('emails')
+        .select('message_id, thread_id, sender, subject, snippet, body_preview, received_at, security_verified')
+        .eq('user_id', userId)
+        .in('message_id', ids);
+      inputs.push(...prepareEmailEmbeddings(withholdUnverified(data || [], ['snippet', 'body_preview'])));
+    } else if (sourceType === 'calendar') {
+      const { data } = await supabase
+        .from('calendar_events')
+        .select('event_id, title, description, start_time, end_time, location, security_verified')
+        .eq('user_id', userId)
+        .in('event_id', ids);
+      inputs.push(...prepareCalendarEmbeddings(withholdUnverified(data || [], ['description'])));
+    } else {
+      const { data } = await supabase
+        .from('drive_documents')
+        .select('document_id, name, mime_type, modified_at, content_preview, content_text, security_verified')
+        .eq('user_id', userId)
+        .in('document_id', ids);
+      inputs.push(...prepareDriveEmbeddings(withholdUnverified(data || [], ['content_preview', 'content_text'])));
+    }
+  }
+
+  return inputs;
+}
+
+// ============================================================================
+// Re-Embedding
+// ============================================================================
+
+/**
+ * Re-embed up to `limit` of a user's embeddings that are not in the current
+ * provider's vector space, in id order after `afterId`. The stored content is
+ * re-embedded in place, so sources don't need to be reloaded. Rows that fail
+ * are passed over (the next run retries them).
+ */
+export async function reembedOutdatedEmbeddings(
+  userId: string,
+  afterId: string | null,
+  limit: number = EMBEDDING_SYNC_CHUNK_SIZE,
+  provider: EmbeddingProvider | null = defaultProvider
+): Promise<ReembedChunkResult> {
+  if (!provider) {
+    return { processed: 0, reembedded: 0, lastId: null };
+  }
+
+  let query = supabase
+    .from('embeddings')
+    .select('id, content')
+    .eq('user_id', userId)
+    .or(`embedding_model.neq."${provider.model}",embedding_dimension.neq.${provider.dimension}`)
+    .order('id')
+    .limit(limit);
+  if (afterId) query = query.gt('id', afterId);
+
+  const { data: rows, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load outdated embeddings: ${error.message}`);
+  }
+  if (!rows || rows.length === 0) {
+    return { processed: 0, reembedded: 0, lastId: null };
+  }
+
+  let reembedded = 0;
+
+  for (let i = 0; i < rows.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = rows.slice(i, i + EMBEDDING_BATCH_SIZE);
+
+    let vectors: number[][];
+    try {
+      vectors = await provider.embed(batch.map((row) => row.content as string));
+    } catch (error) {
+      console.error(`[Embeddings] ${provider.name} provider error during re-embedding:`, error);
+      continue;
+    }
+
+    for (const [idx, row] of batch.entries()) {
+      const { error: updateError } = await supabase
+        .from('embeddings')
+        .update({
+          embedding: toPgVector(vectors[idx]),
+          embedding_model: provider.model,
+          embedding_dimension: provider.dimension,
+        })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error(`[Embeddings] Re-embedding update error for ${row.id}:`, updateError);
+      } else {
+        reembedded++;
+      }
+    }
+  }
+
+  return { processed: rows.length, reembedded, lastId: rows[rows.length - 1].id as string };
+}
+
+/**
+ * Number of a user's embeddings outside the current provider's vector space
+ */
+export async function countOutdatedEmbeddings(
+  userId: string,
+  provider: EmbeddingProvider | null = defaultProvider
+): Promise<number> {
+  if (!provider) return 0;
+
+  const { count, error } = await supabase
+    .from('embeddings')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .or(`embedding_model.neq."${provider.model}",embedding_dimension.neq.${provider.dimension}`);
+
+  if (error) {
+    throw new Error(`Failed to count outdated embeddings: ${error.message}`);
+  }
+  return count || 0;
 }
 
 // ============================================================================
@@ -224,23 +627,22 @@ export async function hybridSearch(
   query: string,
   limit: number = 10
 ): Promise<SearchResult[]> {
-  if (!openai) {
-    console.warn('[Embeddings] OPENAI_API_KEY not configured, search unavailable');
+  const provider = defaultProvider;
+  if (!provider) {
+    console.warn('[Embeddings] No embedding provider configured, search unavailable');
     return [];
   }
 
   // 1. Generate query embedding
-  const embeddingResponse = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: query,
-    dimensions: EMBEDDING_DIMENSION,
-  });
-  const queryEmbedding = embeddingResponse.data[0].embedding;
+  const [queryEmbedding] = await provider.embed([query]);
 
-  // 2. Semantic search (vector similarity)
+  // 2. Semantic search (vector similarity), only against embeddings in the query's vector space
+  // (rows still on an old model are skipped until the re-embedding job migrates them)
   const { data: semanticResults } = await supabase.rpc('match_embeddings', {
-    query_embedding: queryEmbedding,
+    query_embedding: toPgVector(queryEmbedding),
     match_user_id: userId,
+    match_model: provider.model,
+    match_dimension: provider.dimension,
     match_count: limit * 2,  // Fetch more for RRF merging
   });
 
@@ -23,6 +23,15 @@ export function classifyError(error: unknown): ClassifiedError {
   const status = errorObj.status || (typeof errorObj.code === 'number' ? errorObj.code : undefined);
   const code = typeof errorObj.code === 'string' ? errorObj.code : undefined;
   
+  // Google reports per-user rate limits and quota exhaustion as 403 - back off, don't reconnect
+  if (isGoogleQuotaError(error)) {
+    return {
+      retryable: true,
+      category: 'rate_limit',
+      action: 'backoff',
+    };
+  }
+  
   // Auth errors - need user to reconnect
   if (status === 401 || status === 403) {
     return {
@@ -76,6 +85,50 @@ export function classifyError(error: unknown): ClassifiedError {
   };
 }
 
+/**
+ * Google usage-limit reasons (errors[].reason) that mean "slow down", not "no access"
+ */
+const GOOGLE_QUOTA_REASONS = [
+  'rateLimitExceeded',
+  'userRateLimitExceeded',
+  'quotaExceeded',
+  'dailyLimitExceeded',
+];
+
+interface GoogleErrorBody {
+  error?: {
+    status?: string;
+    errors?: Array<{ domain?: string; reason?: string }>;
+  };
+}
+
+/**
+ * Check if an error is a Google API rate-limit or quota error (403 or 429
+ * with a usageLimits reason, or RESOURCE_EXHAUSTED)
+ */
+export function isGoogleQuotaError(error: unknown): boolean {
+  const body = (error as { response?: { data?: GoogleErrorBody } })?.response?.data?.error;
+  if (!body) return false;
+
+  return body.status === 'RESOURCE_EXHAUSTED' ||
+    (body.errors || []).some((e) => e.domain === 'usageLimits' || GOOGLE_QUOTA_REASONS.includes(e.reason || ''));
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), if any
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { response?: { headers?: Record<string, unknown> } })?.response?.headers;
+  const value = headers?.['retry-after'];
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
 /**
  * Format an error for logging/storage
  */
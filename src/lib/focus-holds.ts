@@ -0,0 +1,584 @@
+/**
+ * EmergentOS - Focus Holds
+ *
+ * Reserves focus blocks as busy "Focus" events on the user's primary
+ * calendar, one at a time ("protect this block") or through the auto-protect
+ * policy, which keeps preferences.focusPolicy.weeklyHours of holds booked over
+ * the next 7 days. Holds carry a private extended property, so sync flags them
+ * as focus_hold and they never count as meetings or conflicts. When a meeting
+ * lands on a hold, reconcile moves it to the nearest free block that fits, or
+ * releases it when there is none.
+ */
+
+import { supabase } from './supabase';
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { calendarEventsEndpoint, getCalendarConnectionId, PRIMARY_CALENDAR_ID } from './calendars';
+import { identifyFocusBlocks, type CalendarEvent } from './helpers';
+import { isAttending } from './attendees';
+import { isItemGone } from './sync-item-failures';
+import { getUserPreferences, toWorkSchedule, type UserPreferences } from './preferences';
+import { daysFromNowUTC } from './time';
+import { resyncCalendarEvents } from './inngest/calendar-sync';
+import {
+  FOCUS_HOLD_MAX_HOURS,
+  FOCUS_HOLD_MIN_MINUTES,
+  FOCUS_HOLD_PROPERTY,
+  FOCUS_HOLD_TITLE,
+  MIN_FOCUS_BLOCK_HOURS,
+} from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FocusHoldSource = 'manual' | 'auto';
+
+export type FocusHoldStatus = 'active' | 'released';
+
+export type FocusHoldReleaseReason = 'conflict' | 'deleted' | 'user';
+
+export interface FocusHold {
+  id: string;
+  eventId: string;
+  start: string;
+  end: string;
+  source: FocusHoldSource;
+  status: FocusHoldStatus;
+  releaseReason: FocusHoldReleaseReason | null;
+  moveCount: number;
+}
+
+export interface FocusHoldReconcileResult {
+  checked: number;    // Active holds looked at
+  moved: number;      // Moved off a meeting to another free block
+  released: number;   // Deleted: no free block left, or removed in Google Calendar
+  booked: number;     // New holds booked by auto-protect
+}
+
+interface FocusHoldRow {
+  id: string;
+  event_id: string;
+  calendar_id: string;
+  start_time: string;
+  end_time: string;
+  source: FocusHoldSource;
+  status: FocusHoldStatus;
+  release_reason: FocusHoldReleaseReason | null;
+  move_count: number;
+}
+
+interface StoredEvent {
+  event_id: string;
+  calendar_id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  is_all_day: boolean;
+  self_response_status: string;
+  focus_hold: boolean;
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+const FOCUS_HOLD_COLUMNS =
+  'id, event_id, calendar_id, start_time, end_time, source, status, release_reason, move_count';
+
+const FOCUS_HOLD_DESCRIPTION =
+  'Focus time protected by EmergentOS. It moves or is released automatically when a meeting needs this time.';
+
+/** Days ahead loaded for placement (identifyFocusBlocks covers 7 local days) */
+const PLACEMENT_WINDOW_DAYS = 8;
+
+const SLOT_STEP_MS = 15 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+const FOCUS_HOLD_REJECTED = 'FOCUS_HOLD_REJECTED';
+
+function reject(message: string): never {
+  throw Object.assign(new Error(message), { code: FOCUS_HOLD_REJECTED });
+}
+
+/**
+ * True for errors the user can act on (block taken, too short); the message
+ * is safe to show
+ */
+export function isFocusHoldRejectedError(error: unknown): boolean {
+  return (error as { code?: string })?.code === FOCUS_HOLD_REJECTED;
+}
+
+// ============================================================================
+// Time Slots
+// ============================================================================
+
+function ceilToSlotStep(date: Date): Date {
+  return new Date(Math.ceil(date.getTime() / SLOT_STEP_MS) * SLOT_STEP_MS);
+}
+
+function overlaps(a: TimeSlot, b: TimeSlot): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+function holdSlot(hold: FocusHoldRow): TimeSlot {
+  return { start: new Date(hold.start_time), end: new Date(hold.end_time) };
+}
+
+function slotHours(slot: TimeSlot): number {
+  return (slot.end.getTime() - slot.start.getTime()) / HOUR_MS;
+}
+
+/**
+ * Events that occupy the user's time: attended, timed and not on a calendar
+ * excluded from conflicts (holidays). Focus holds are returned separately.
+ */
+function toMeetingSlots(events: StoredEvent[], preferences: UserPreferences): TimeSlot[] {
+  const excluded = new Set(preferences.calendars.conflictExcluded);
+  return events
+    .filter((e) => !e.focus_hold && !e.is_all_day && isAttending(e) && !excluded.has(e.calendar_id))
+    .map((e) => ({ start: new Date(e.start_time), end: new Date(e.end_time) }));
+}
+
+/**
+ * Free blocks in working hours over the next 7 days, with both meetings and
+ * the given holds counted as busy. Today's blocks start no earlier than now.
+ */
+function findFreeSlots(meetings: TimeSlot[], holds: TimeSlot[], preferences: UserPreferences, now: Date): TimeSlot[] {
+  const busy: CalendarEvent[] = [...meetings, ...holds].map((slot, i) => ({
+    event_id: `busy-${i}`,
+    title: '',
+    start_time: slot.start.toISOString(),
+    end_time: slot.end.toISOString(),
+    is_all_day: false,
+    has_conflict: false,
+    conflict_with: [],
+  }));
+
+  const earliest = ceilToSlotStep(now);
+  return identifyFocusBlocks(busy, now, toWorkSchedule(preferences))
+    .map((block) => ({
+      start: new Date(Math.max(new Date(block.startTimeUTC).getTime(), earliest.getTime())),
+      end: new Date(block.endTimeUTC),
+    }))
+    .filter((slot) => slot.end > slot.start);
+}
+
+// ============================================================================
+// Database Access
+// ============================================================================
+
+function toFocusHold(row: FocusHoldRow): FocusHold {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    start: row.start_time,
+    end: row.end_time,
+    source: row.source,
+    status: row.status,
+    releaseReason: row.release_reason,
+    moveCount: row.move_count,
+  };
+}
+
+async function getActiveHoldRows(userId: string): Promise<FocusHoldRow[]> {
+  const { data, error } = await supabase
+    .from('focus_holds')
+    .select(FOCUS_HOLD_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .gt('end_time', new Date().toISOString())
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch focus holds: ${error.message}`);
+  }
+  return (data || []) as FocusHoldRow[];
+}
+
+async function getUpcomingEvents(userId: string): Promise<StoredEvent[]> {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('event_id, calendar_id, title, start_time, end_time, is_all_day, self_response_status, focus_hold')
+    .eq('user_id', userId)
+    .gt('end_time', new Date().toISOString())
+    .lt('start_time', daysFromNowUTC(PLACEMENT_WINDOW_DAYS).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch events for focus holds: ${error.message}`);
+  }
+  return (data || []) as StoredEvent[];
+}
+
+async function updateHoldRow(holdId: string, update: Record<string, unknown>): Promise<FocusHoldRow> {
+  const { data, error } = await supabase
+    .from('focus_holds')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', holdId)
+    .select(FOCUS_HOLD_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update focus hold ${holdId}: ${error?.message}`);
+  }
+  return data as FocusHoldRow;
+}
+
+// ============================================================================
+// API Calls
+// ============================================================================
+
+function holdEndpoint(eventId?: string): string {
+  const endpoint = calendarEventsEndpoint(PRIMARY_CALENDAR_ID);
+  return eventId ? `${endpoint}/${encodeURIComponent(eventId)}` : endpoint;
+}
+
+async function insertHoldEvent(nangoConnectionId: string, slot: TimeSlot): Promise<string> {
+  const response = await nangoProxy<{ id: string }>({
+    method: 'POST',
+    endpoint: holdEndpoint(),
+    providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+    connectionId: nangoConnectionId,
+    data: {
+      summary: FOCUS_HOLD_TITLE,
+      description: FOCUS_HOLD_DESCRIPTION,
+      start: { dateTime: slot.start.toISOString() },
+      end: { dateTime: slot.end.toISOString() },
+      transparency: 'opaque',
+      reminders: { useDefault: false },
+      extendedProperties: { private: { [FOCUS_HOLD_PROPERTY]: 'true' } },
+    },
+  });
+  return response.data.id;
+}
+
+async function moveHoldEvent(nangoConnectionId: string, eventId: string, slot: TimeSlot): Promise<void> {
+  await nangoProxy({
+    method: 'PATCH',
+    endpoint: holdEndpoint(eventId),
+    providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+    connectionId: nangoConnectionId,
+    data: {
+      start: { dateTime: slot.start.toISOString() },
+      end: { dateTime: slot.end.toISOString() },
+    },
+  });
+}
+
+/**
+ * Delete the hold's event; one already deleted in Google Calendar is fine
+ */
+async function deleteHoldEvent(nangoConnectionId: string, eventId: string): Promise<void> {
+  try {
+    await nangoProxy({
+      method: 'DELETE',
+      endpoint: holdEndpoint(eventId),
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+    });
+  } catch (error) {
+    if (!isItemGone(error)) throw error;
+  }
+}
+
+/**
+ * Whether a hold missing from calendar_events still exists in Google
+ * (e.g. its sync failed) rather than having been deleted by the user
+ */
+async function holdEventExists(nangoConnectionId: string, eventId: string): Promise<boolean> {
+  try {
+    const response = await nangoProxy<{ status?: string }>({
+      method: 'GET',
+      endpoint: holdEndpoint(eventId),
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+    });
+    return response.data.status !== 'cancelled';
+  } catch (error) {
+    if (isItemGone(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Refetch changed holds into calendar_events so the dashboard and conflict
+ * flags see them before the next sync. Failures are left to that sync.
+ */
+async function refreshHoldEvents(userId: string, nangoConnectionId: string, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) return;
+
+  try {
+    const { data: primary } = await supabase
+      .from('calendar_events')
+      .select('color')
+      .eq('user_id', userId)
+      .eq('calendar_id', PRIMARY_CALENDAR_ID)
+      .not('color', 'is', null)
+      .limit(1)
+      .maybeSingle();
+
+    await resyncCalendarEvents(userId, nangoConnectionId, eventIds.map((eventId) => ({
+      itemId: eventId,
+      context: { calendar_id: PRIMARY_CALENDAR_ID, color: primary?.color ?? null },
+    })));
+  } catch (error) {
+    console.warn('[Focus Holds] Failed to refresh hold events, next sync will pick them up:', error);
+  }
+}
+
+// ============================================================================
+// Booking
+// ============================================================================
+
+async function bookHold(
+  userId: string,
+  nangoConnectionId: string,
+  slot: TimeSlot,
+  source: FocusHoldSource
+): Promise<FocusHoldRow> {
+  const eventId = await insertHoldEvent(nangoConnectionId, slot);
+
+  const { data, error } = await supabase
+    .from('focus_holds')
+    .insert({
+      user_id: userId,
+      event_id: eventId,
+      calendar_id: PRIMARY_CALENDAR_ID,
+      start_time: slot.start.toISOString(),
+      end_time: slot.end.toISOString(),
+      source,
+    })
+    .select(FOCUS_HOLD_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    // Without a row the hold can't be managed, so don't leave it on the calendar
+    await deleteHoldEvent(nangoConnectionId, eventId).catch(() => undefined);
+    throw new Error(`Failed to record focus hold: ${error?.message}`);
+  }
+
+  console.log(`[Focus Holds] Booked ${source} hold ${eventId} (${slotHours(slot).toFixed(1)}h) for user ${userId}`);
+  return data as FocusHoldRow;
+}
+
+/**
+ * Validate a "protect this block" request body: { start, end } as ISO strings
+ */
+export function parseFocusHoldRequest(body: unknown): TimeSlot | null {
+  const { start, end } = (body ?? {}) as { start?: unknown; end?: unknown };
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+
+  const slot = { start: new Date(start), end: new Date(end) };
+  if (isNaN(slot.start.getTime()) || isNaN(slot.end.getTime()) || slot.end <= slot.start) return null;
+  return slot;
+}
+
+/**
+ * Protect a block ("protect this block"). The block must be free of meetings
+ * and other holds; a block already under way starts now.
+ */
+export async function createFocusHold(userId: string, start: Date, end: Date): Promise<FocusHold> {
+  const nangoConnectionId = await getCalendarConnectionId(userId);
+  if (!nangoConnectionId) reject('Google Calendar is not connected');
+
+  const slot = { start: new Date(Math.max(start.getTime(), ceilToSlotStep(new Date()).getTime())), end };
+  if (slot.end.getTime() - slot.start.getTime() < FOCUS_HOLD_MIN_MINUTES * 60 * 1000) {
+    reject(`Focus blocks must be at least ${FOCUS_HOLD_MIN_MINUTES} minutes and still ahead`);
+  }
+
+  const [preferences, events, holds] = await Promise.all([
+    getUserPreferences(userId),
+    getUpcomingEvents(userId),
+    getActiveHoldRows(userId),
+  ]);
+
+  if (holds.some((hold) => overlaps(holdSlot(hold), slot))) {
+    reject('This block is already protected');
+  }
+  if (toMeetingSlots(events, preferences).some((meeting) => overlaps(meeting, slot))) {
+    reject('A meeting now overlaps this block. Refresh your calendar insights.');
+  }
+
+  const row = await bookHold(userId, nangoConnectionId, slot, 'manual');
+  await refreshHoldEvents(userId, nangoConnectionId, [row.event_id]);
+  return toFocusHold(row);
+}
+
+/**
+ * Release a hold and delete its event. Returns null when the hold doesn't
+ * exist or belongs to another user.
+ */
+export async function releaseFocusHold(userId: string, holdId: string): Promise<FocusHold | null> {
+  const { data, error } = await supabase
+    .from('focus_holds')
+    .select(FOCUS_HOLD_COLUMNS)
+    .eq('id', holdId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch focus hold: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const hold = data as FocusHoldRow;
+  if (hold.status === 'released') return toFocusHold(hold);
+
+  const nangoConnectionId = await getCalendarConnectionId(userId);
+  if (!nangoConnectionId) reject('Google Calendar is not connected');
+
+  await deleteHoldEvent(nangoConnectionId, hold.event_id);
+  const released = await updateHoldRow(hold.id, { status: 'released', release_reason: 'user' });
+  await refreshHoldEvents(userId, nangoConnectionId, [hold.event_id]);
+
+  return toFocusHold(released);
+}
+
+/**
+ * The user's upcoming active holds, soonest first
+ */
+export async function listFocusHolds(userId: string): Promise<FocusHold[]> {
+  return (await getActiveHoldRows(userId)).map(toFocusHold);
+}
+
+// ============================================================================
+// Reconcile
+// ============================================================================
+
+/**
+ * The free slot closest to where the hold was, at the hold's length
+ */
+function findMoveTarget(hold: TimeSlot, freeSlots: TimeSlot[]): TimeSlot | null {
+  const durationMs = hold.end.getTime() - hold.start.getTime();
+  let best: TimeSlot | null = null;
+  let bestDistance = Infinity;
+
+  for (const free of freeSlots) {
+    const start = ceilToSlotStep(free.start);
+    if (free.end.getTime() - start.getTime() < durationMs) continue;
+
+    // The start within this slot closest to the original start, on a quarter hour
+    const latestStart = Math.floor((free.end.getTime() - durationMs) / SLOT_STEP_MS) * SLOT_STEP_MS;
+    const startMs = Math.min(Math.max(ceilToSlotStep(hold.start).getTime(), start.getTime()), latestStart);
+    const candidate = { start: new Date(startMs), end: new Date(startMs + durationMs) };
+
+    const distance = Math.abs(candidate.start.getTime() - hold.start.getTime());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Bring a user's holds in line with their calendar:
+ *  1. Holds deleted in Google Calendar are marked released; holds the user
+ *     dragged to another time keep their new time.
+ *  2. Holds a meeting now overlaps move to the nearest free block of the same
+ *     length, or are released when none is left.
+ *  3. With auto-protect on, free blocks are booked (earliest first) until the
+ *     policy's weekly hours are held.
+ */
+export async function reconcileFocusHolds(userId: string): Promise<FocusHoldReconcileResult> {
+  const result: FocusHoldReconcileResult = { checked: 0, moved: 0, released: 0, booked: 0 };
+
+  const nangoConnectionId = await getCalendarConnectionId(userId);
+  if (!nangoConnectionId) return result;
+
+  const [preferences, events, storedHolds] = await Promise.all([
+    getUserPreferences(userId),
+    getUpcomingEvents(userId),
+    getActiveHoldRows(userId),
+  ]);
+
+  const now = new Date();
+  const meetings = toMeetingSlots(events, preferences);
+  const storedEvents = new Map(events.map((e) => [e.event_id, e]));
+  const changedEventIds: string[] = [];
+  const holds: FocusHoldRow[] = [];
+
+  // STEP 1: Follow edits made in Google Calendar
+  for (const stored of storedHolds) {
+    result.checked++;
+    const event = storedEvents.get(stored.event_id);
+
+    if (!event) {
+      if (await holdEventExists(nangoConnectionId, stored.event_id)) {
+        holds.push(stored);
+      } else {
+        await updateHoldRow(stored.id, { status: 'released', release_reason: 'deleted' });
+        result.released++;
+      }
+      continue;
+    }
+
+    const start = new Date(event.start_time);
+    const end = new Date(event.end_time);
+    const movedByUser =
+      start.getTime() !== new Date(stored.start_time).getTime() || end.getTime() !== new Date(stored.end_time).getTime();
+    holds.push(movedByUser
+      ? await updateHoldRow(stored.id, { start_time: start.toISOString(), end_time: end.toISOString() })
+      : stored);
+  }
+
+  // STEP 2: Move or release holds that meetings now overlap
+  for (let i = 0; i < holds.length; i++) {
+    const hold = holds[i];
+    const slot = holdSlot(hold);
+    if (!meetings.some((meeting) => overlaps(meeting, slot))) continue;
+
+    const otherHolds = holds.filter((_, j) => j !== i).map(holdSlot);
+    const target = findMoveTarget(slot, findFreeSlots(meetings, otherHolds, preferences, now));
+
+    if (target) {
+      await moveHoldEvent(nangoConnectionId, hold.event_id, target);
+      holds[i] = await updateHoldRow(hold.id, {
+        start_time: target.start.toISOString(),
+        end_time: target.end.toISOString(),
+        move_count: hold.move_count + 1,
+      });
+      result.moved++;
+      console.log(`[Focus Holds] Moved hold ${hold.event_id} off a meeting to ${target.start.toISOString()} for user ${userId}`);
+    } else {
+      await deleteHoldEvent(nangoConnectionId, hold.event_id);
+      await updateHoldRow(hold.id, { status: 'released', release_reason: 'conflict' });
+      holds.splice(i--, 1);
+      result.released++;
+      console.log(`[Focus Holds] Released hold ${hold.event_id} (no free block left) for user ${userId}`);
+    }
+    changedEventIds.push(hold.event_id);
+  }
+
+  // STEP 3: Top up to the auto-protect target
+  if (preferences.focusPolicy.autoProtect) {
+    let missingHours = preferences.focusPolicy.weeklyHours - holds.reduce((sum, hold) => sum + slotHours(holdSlot(hold)), 0);
+
+    for (const free of findFreeSlots(meetings, holds.map(holdSlot), preferences, now)) {
+      if (missingHours <= 0) break;
+
+      const start = ceilToSlotStep(free.start);
+      const availableHours = (free.end.getTime() - start.getTime()) / HOUR_MS;
+      if (availableHours < MIN_FOCUS_BLOCK_HOURS) continue;
+
+      // At least a full focus block, at most FOCUS_HOLD_MAX_HOURS, in quarter hours
+      const hours = Math.min(availableHours, FOCUS_HOLD_MAX_HOURS, Math.max(missingHours, MIN_FOCUS_BLOCK_HOURS));
+      const slot = { start, end: new Date(start.getTime() + Math.floor((hours * HOUR_MS) / SLOT_STEP_MS) * SLOT_STEP_MS) };
+
+      const row = await bookHold(userId, nangoConnectionId, slot, 'auto');
+      holds.push(row);
+      changedEventIds.push(row.event_id);
+      missingHours -= slotHours(slot);
+      result.booked++;
+    }
+  }
+
+  await refreshHoldEvents(userId, nangoConnectionId, changedEventIds);
+  return result;
+}
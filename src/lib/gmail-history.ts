@@ -0,0 +1,192 @@
+/**
+ * EmergentOS - Gmail History
+ *
+ * Incremental Gmail sync via users.history.list. The mailbox historyId is kept
+ * in connections.metadata.history_id; each sync reads the changes since that
+ * point and reduces them to messages to fetch, messages to delete and label
+ * changes to apply to the emails table.
+ */
+
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { GMAIL_HISTORY_PAGE_SIZE } from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface GmailHistoryMessage {
+  id: string;
+  threadId?: string;
+  labelIds?: string[];
+}
+
+interface GmailHistoryRecord {
+  id: string;
+  messagesAdded?: Array<{ message: GmailHistoryMessage }>;
+  messagesDeleted?: Array<{ message: GmailHistoryMessage }>;
+  labelsAdded?: Array<{ message: GmailHistoryMessage; labelIds: string[] }>;
+  labelsRemoved?: Array<{ message: GmailHistoryMessage; labelIds: string[] }>;
+}
+
+export interface GmailLabelChange {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Net effect of a history range
+ */
+export interface GmailHistoryDelta {
+  historyId: string;
+  addedIds: string[];                                  // New inbox messages to fetch in full
+  deletedIds: string[];                                // Permanently deleted messages
+  labelChanges: Record<string, GmailLabelChange>;      // Label edits on other messages
+}
+
+export const INBOX_LABEL = 'INBOX';
+export const UNREAD_LABEL = 'UNREAD';
+
+// ============================================================================
+// API Calls
+// ============================================================================
+
+/**
+ * Current mailbox historyId, read before a full listing so that changes made
+ * during the listing are picked up by the next delta.
+ */
+export async function getMailboxHistoryId(connectionId: string): Promise<string> {
+  const response = await nangoProxy<{ historyId?: string }>({
+    method: 'GET',
+    endpoint: '/gmail/v1/users/me/profile',
+    providerConfigKey: PROVIDER_CONFIG_KEYS.gmail,
+    connectionId,
+  });
+
+  return String(response.data?.historyId);
+}
+
+/**
+ * Whether history.list rejected the start ID. Gmail keeps roughly a week of
+ * history; older (or otherwise invalid) start IDs return 404.
+ */
+export function isHistoryExpired(error: unknown): boolean {
+  const errorObj = error as { status?: number; response?: { status?: number } };
+  return (errorObj.status ?? errorObj.response?.status) === 404;
+}
+
+/**
+ * Fetch and reduce all history records since startHistoryId.
+ * Throws on API errors; callers check isHistoryExpired to fall back to a full resync.
+ */
+export async function fetchGmailHistory(connectionId: string, startHistoryId: string): Promise<GmailHistoryDelta> {
+  const records: GmailHistoryRecord[] = [];
+  let historyId = startHistoryId;
+  let pageToken: string | null = null;
+
+  do {
+    const params: Record<string, string | number> = {
+      startHistoryId,
+      maxResults: GMAIL_HISTORY_PAGE_SIZE,
+    };
+    if (pageToken) {
+      params.pageToken = pageToken;
+    }
+
+    const response = await nangoProxy<{ history?: GmailHistoryRecord[]; historyId?: string; nextPageToken?: string }>({
+      method: 'GET',
+      endpoint: '/gmail/v1/users/me/history',
+      providerConfigKey: PROVIDER_CONFIG_KEYS.gmail,
+      connectionId,
+      params,
+    });
+
+    records.push(...(response.data?.history || []));
+    historyId = response.data?.historyId ? String(response.data.historyId) : historyId;
+    pageToken = response.data?.nextPageToken || null;
+  } while (pageToken);
+
+  return { historyId, ...reduceHistory(records) };
+}
+
+// ============================================================================
+// Reduction
+// ============================================================================
+
+/**
+ * Collapse history records (oldest first) into their net effect.
+ * A message added then deleted in the same range is only deleted; label
+ * edits that cancel out are dropped.
+ */
+export function reduceHistory(records: GmailHistoryRecord[]): Omit<GmailHistoryDelta, 'historyId'> {
+  const added = new Set<string>();
+  const deleted = new Set<string>();
+  const labels = new Map<string, { added: Set<string>; removed: Set<string> }>();
+
+  const labelChange = (messageId: string) => {
+    let change = labels.get(messageId);
+    if (!change) {
+      change = { added: new Set(), removed: new Set() };
+      labels.set(messageId, change);
+    }
+    return change;
+  };
+
+  for (const record of records) {
+    for (const { message } of record.messagesAdded || []) {
+      // Sent mail, drafts and chats also produce messagesAdded; only inbox mail is synced
+      if (!message.labelIds?.includes(INBOX_LABEL)) continue;
+      added.add(message.id);
+      deleted.delete(message.id);
+    }
+
+    for (const { message } of record.messagesDeleted || []) {
+      deleted.add(message.id);
+      added.delete(message.id);
+      labels.delete(message.id);
+    }
+
+    for (const { message, labelIds } of record.labelsAdded || []) {
+      if (deleted.has(message.id)) continue;
+      const change = labelChange(message.id);
+      for (const label of labelIds) {
+        change.added.add(label);
+        change.removed.delete(label);
+      }
+    }
+
+    for (const { message, labelIds } of record.labelsRemoved || []) {
+      if (deleted.has(message.id)) continue;
+      const change = labelChange(message.id);
+      for (const label of labelIds) {
+        change.removed.add(label);
+        change.added.delete(label);
+      }
+    }
+  }
+
+  const labelChanges: Record<string, GmailLabelChange> = {};
+  for (const [messageId, change] of labels) {
+    // Newly added messages are fetched in full, which already carries their labels
+    if (added.has(messageId)) continue;
+    if (change.added.size === 0 && change.removed.size === 0) continue;
+    labelChanges[messageId] = { added: Array.from(change.added), removed: Array.from(change.removed) };
+  }
+
+  return {
+    addedIds: Array.from(added),
+    deletedIds: Array.from(deleted),
+    labelChanges,
+  };
+}
+
+/**
+ * Apply a label change to a stored label list
+ */
+export function applyLabelChange(labels: string[], change: GmailLabelChange): string[] {
+  const result = labels.filter((label) => !change.removed.includes(label));
+  for (const label of change.added) {
+    if (!result.includes(label)) result.push(label);
+  }
+  return result;
+}
@@ -5,12 +5,16 @@
  */
 
 import {
+  DEFAULT_TIME_ZONE,
   WORK_DAY_START_HOUR,
   WORK_DAY_END_HOUR,
+  WORK_DAYS,
   MIN_FOCUS_BLOCK_HOURS,
   MAX_BACK_TO_BACK_GAP_MINUTES,
   MIN_BACK_TO_BACK_SEQUENCE,
 } from './constants';
+import { getDateInZone, getZonedParts, startOfDayInZone, zonedTimeToUtc } from './time';
+import { isAttending, type CalendarAttendee, type ResponseStatus } from './attendees';
 
 // ============================================================================
 // Types
@@ -24,14 +28,16 @@ export interface CalendarEvent {
   end_time: string;
   is_all_day: boolean;
   location?: string | null;
-  attendees?: unknown[];
+  attendees?: CalendarAttendee[];
+  self_response_status?: ResponseStatus;
   organizer?: string | null;
+  recurring_event_id?: string | null;
   has_conflict: boolean;
   conflict_with: string[];
 }
 
 export interface FocusBlock {
-  dateUTC: string;
+  date: string;            // YYYY-MM-DD in the user's time zone
   startTimeUTC: string;
   endTimeUTC: string;
   durationHours: number;
@@ -43,6 +49,23 @@ export interface BackToBackSequence {
   severity: 'WARNING' | 'CRITICAL';
 }
 
+/**
+ * A user's working schedule (see toWorkSchedule in preferences.ts)
+ */
+export interface WorkSchedule {
+  timeZone: string;
+  startMinutes: number;  // Minutes after local midnight
+  endMinutes: number;
+  days: number[];        // 0 = Sunday
+}
+
+export const DEFAULT_WORK_SCHEDULE: WorkSchedule = {
+  timeZone: DEFAULT_TIME_ZONE,
+  startMinutes: WORK_DAY_START_HOUR * 60,
+  endMinutes: WORK_DAY_END_HOUR * 60,
+  days: WORK_DAYS,
+};
+
 export interface ConflictInfo {
   eventA: { event_id: string; title: string; start_time: string; end_time: string };
   eventB: { event_id: string; title: string; start_time: string; end_time: string };
@@ -165,34 +188,30 @@ export function getConflictDetails(events: CalendarEvent[]): ConflictInfo[] {
 // ============================================================================
 
 /**
- * Identify available focus blocks (2+ hours) within work days
+ * Identify available focus blocks (2+ hours) within the user's working hours
+ * for the next 7 local days
  */
 export function identifyFocusBlocks(
   events: CalendarEvent[],
-  now: Date = new Date()
+  now: Date = new Date(),
+  schedule: WorkSchedule = DEFAULT_WORK_SCHEDULE
 ): FocusBlock[] {
   const focusBlocks: FocusBlock[] = [];
+  const today = getZonedParts(now, schedule.timeZone);
   
   for (let d = 0; d < 7; d++) {
-    // Calculate day boundaries in UTC
-    const dayStart = new Date(Date.UTC(
-      now.getUTCFullYear(),
-      now.getUTCMonth(),
-      now.getUTCDate() + d,
-      WORK_DAY_START_HOUR, 0, 0, 0
-    ));
-    
-    const dayEnd = new Date(Date.UTC(
-      now.getUTCFullYear(),
-      now.getUTCMonth(),
-      now.getUTCDate() + d,
-      WORK_DAY_END_HOUR, 0, 0, 0
-    ));
+    // Skip non-working days
+    if (!schedule.days.includes((today.weekday + d) % 7)) continue;
+
+    // Calculate working-hour boundaries in the user's time zone
+    const dayStart = zonedTimeToUtc(today.year, today.month, today.day + d, 0, schedule.startMinutes, schedule.timeZone);
+    const dayEnd = zonedTimeToUtc(today.year, today.month, today.day + d, 0, schedule.endMinutes, schedule.timeZone);
     
-    const dateUTC = dayStart.toISOString().split('T')[0];
+    const date = getDateInZone(dayStart, schedule.timeZone);
     
-    // Filter events that OVERLAP with work day
+    // Filter events that OVERLAP with work day (declined events leave the time free)
     const dayEvents = events
+      .filter((e) => isAttending(e))
       .filter((e) => {
         const start = new Date(e.start_time);
         const end = new Date(e.end_time);
@@ -219,7 +238,7 @@ export function identifyFocusBlocks(
       
       if (gapHours >= MIN_FOCUS_BLOCK_HOURS) {
         focusBlocks.push({
-          dateUTC,
+          date,
           startTimeUTC: currentTime.toISOString(),
           endTimeUTC: effectiveStart.toISOString(),
           durationHours: Math.round(gapHours * 10) / 10,
@@ -239,7 +258,7 @@ export function identifyFocusBlocks(
       
       if (remainingHours >= MIN_FOCUS_BLOCK_HOURS) {
         focusBlocks.push({
-          dateUTC,
+          date,
           startTimeUTC: currentTime.toISOString(),
           endTimeUTC: dayEnd.toISOString(),
           durationHours: Math.round(remainingHours * 10) / 10,
@@ -256,31 +275,36 @@ export function identifyFocusBlocks(
 // ============================================================================
 
 /**
- * Identify sequences of back-to-back meetings
+ * Identify sequences of back-to-back meetings.
+ * All-day and declined events are ignored and sequences never span a local midnight.
  */
 export function identifyBackToBackMeetings(
-  events: CalendarEvent[]
+  events: CalendarEvent[],
+  timeZone: string = DEFAULT_TIME_ZONE
 ): BackToBackSequence[] {
   const sequences: BackToBackSequence[] = [];
   
-  const sortedEvents = [...events].sort(
-    (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
-  );
+  const sortedEvents = events
+    .filter((e) => !e.is_all_day && isAttending(e))
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
   
   let currentSequence: CalendarEvent[] = [];
+  let sequenceDayEnd = 0;
   
   for (const event of sortedEvents) {
+    const currentStart = new Date(event.start_time);
+
     if (currentSequence.length === 0) {
       currentSequence.push(event);
+      sequenceDayEnd = startOfDayInZone(currentStart, timeZone, 1).getTime();
       continue;
     }
     
     const lastEvent = currentSequence[currentSequence.length - 1];
     const lastEnd = new Date(lastEvent.end_time);
-    const currentStart = new Date(event.start_time);
     const gapMinutes = (currentStart.getTime() - lastEnd.getTime()) / (1000 * 60);
     
-    if (gapMinutes <= MAX_BACK_TO_BACK_GAP_MINUTES) {
+    if (gapMinutes <= MAX_BACK_TO_BACK_GAP_MINUTES && currentStart.getTime() < sequenceDayEnd) {
       currentSequence.push(event);
     } else {
       // End current sequence
@@ -288,6 +312,7 @@ export function identifyBackToBackMeetings(
         sequences.push(buildSequence(currentSequence));
       }
       currentSequence = [event];
+      sequenceDayEnd = startOfDayInZone(currentStart, timeZone, 1).getTime();
     }
   }
   
@@ -346,6 +371,56 @@ export function decodeHtmlEntities(text: string): string {
     .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
 }
 
+// ============================================================================
+// Text Chunking
+// ============================================================================
+
+export interface TextChunk {
+  text: string;
+  start: number;  // Offset of the chunk in the source text
+  end: number;
+}
+
+/**
+ * Split text into overlapping chunks of at most `size` characters,
+ * preferring paragraph, line, then word boundaries
+ */
+export function chunkText(text: string, size: number, overlap: number): TextChunk[] {
+  if (text.length <= size) {
+    return text.trim() ? [{ text, start: 0, end: text.length }] : [];
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+
+    if (end < text.length) {
+      // Break at the last boundary in the second half of the window
+      const window = text.substring(start, end);
+      const minBreak = Math.floor(size / 2);
+      for (const boundary of ['\n\n', '\n', ' ']) {
+        const index = window.lastIndexOf(boundary);
+        if (index >= minBreak) {
+          end = start + index + boundary.length;
+          break;
+        }
+      }
+    }
+
+    const chunk = text.substring(start, end);
+    if (chunk.trim()) {
+      chunks.push({ text: chunk, start, end });
+    }
+
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
 // ============================================================================
 // Content Hash
 // ============================================================================
@@ -0,0 +1,421 @@
+/**
+ * EmergentOS - Unified Inbox
+ *
+ * Merges emails, upcoming calendar events and recently modified Drive
+ * documents into one feed, ranked by signals the pipelines already compute.
+ * Items are returned tokenized; the API re-hydrates the page it serves.
+ */
+
+import { supabase } from './supabase';
+import {
+  DATA_RETENTION_DAYS,
+  INBOX_LOOKAHEAD_DAYS,
+  INBOX_LOOKBACK_DAYS,
+  INBOX_MAX_CANDIDATES_PER_SOURCE,
+  INBOX_RECENCY_HALF_LIFE_HOURS,
+  INBOX_SENDER_FREQUENCY_SAMPLE,
+  INBOX_WEIGHTS,
+} from './constants';
+import { endOfDayInZone, getCurrentDateInZone, zonedTimeToUtc } from './time';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type InboxSource = 'email' | 'event' | 'document';
+
+export type InboxReadStatus = 'all' | 'read' | 'unread';
+
+export type InboxSignal = 'briefing' | 'conflict' | 'important' | 'unread' | 'frequent_sender';
+
+export interface InboxItem {
+  id: string;              // `${source}:${row id}`, unique across sources
+  source: InboxSource;
+  sourceId: string;        // Gmail message / Calendar event / Drive file ID
+  title: string;
+  subtitle: string | null; // Sender, location or folder
+  snippet: string | null;
+  occurredAt: string;      // Received, start or modified time
+  endsAt: string | null;   // Events only
+  isRead: boolean | null;  // Emails only
+  url: string | null;
+  score: number;
+  signals: InboxSignal[];
+}
+
+export interface InboxFilters {
+  sources: InboxSource[];
+  status: InboxReadStatus;
+  from: string | null;     // YYYY-MM-DD, user's local date
+  to: string | null;       // YYYY-MM-DD, user's local date (inclusive)
+}
+
+export interface InboxPage {
+  items: InboxItem[];
+  nextCursor: string | null;
+  counts: Record<InboxSource, number>;  // Matches per source, ignoring the source filter
+}
+
+export const INBOX_SOURCES: InboxSource[] = ['email', 'event', 'document'];
+
+interface InboxCursor {
+  asOf: string;    // Reference time for recency, fixed across pages
+  score: number;
+  occurredAt: string;
+  id: string;
+}
+
+interface UrgentMention {
+  source: InboxSource;
+  text: string;
+}
+
+// Briefing urgentAttention types → inbox sources
+const URGENT_TYPE_TO_SOURCE: Record<string, InboxSource> = {
+  EMAIL: 'email',
+  MEETING: 'event',
+  CONFLICT: 'event',
+  DOCUMENT: 'document',
+};
+
+/** Titles too short or generic to match against briefing text */
+const MIN_MENTION_LENGTH = 4;
+
+// ============================================================================
+// Cursors
+// ============================================================================
+
+export function encodeInboxCursor(cursor: InboxCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the query string (null if malformed)
+ */
+export function decodeInboxCursor(raw: string): InboxCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (
+      typeof parsed.asOf === 'string' && !isNaN(Date.parse(parsed.asOf)) &&
+      typeof parsed.score === 'number' &&
+      typeof parsed.occurredAt === 'string' &&
+      typeof parsed.id === 'string'
+    ) {
+      return parsed as InboxCursor;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * Feed order: score, then most recent, then ID for a stable tiebreak
+ */
+function compareItems(
+  a: Pick<InboxItem, 'score' | 'occurredAt' | 'id'>,
+  b: Pick<InboxItem, 'score' | 'occurredAt' | 'id'>
+): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.occurredAt !== b.occurredAt) return a.occurredAt < b.occurredAt ? 1 : -1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// ============================================================================
+// Ranking Signals
+// ============================================================================
+
+/**
+ * Normalize a From header to its address so "Jane <j@x.com>" and "j@x.com" match
+ */
+export function normalizeSender(sender: string): string {
+  const match = sender.match(/<([^>]+)>/);
+  return (match ? match[1] : sender).trim().toLowerCase();
+}
+
+/**
+ * Log-scaled score for how often the user hears from a sender.
+ * One-off senders score 0; 16+ messages score the maximum.
+ */
+function senderFrequencyScore(count: number): number {
+  if (count <= 1) return 0;
+  return Math.min(INBOX_WEIGHTS.senderFrequencyMax, (INBOX_WEIGHTS.senderFrequencyMax * Math.log2(count)) / 4);
+}
+
+/**
+ * Score that halves every INBOX_RECENCY_HALF_LIFE_HOURS away from `asOf`
+ */
+function recencyScore(distanceMs: number): number {
+  const hours = Math.max(0, distanceMs) / (60 * 60 * 1000);
+  return INBOX_WEIGHTS.recencyMax * Math.pow(0.5, hours / INBOX_RECENCY_HALF_LIFE_HOURS);
+}
+
+/**
+ * Whether a briefing urgentAttention entry refers to this item's title
+ */
+function isMentioned(mentions: UrgentMention[], source: InboxSource, title: string): boolean {
+  const needle = title.trim().toLowerCase();
+  if (needle.length < MIN_MENTION_LENGTH || needle === '(no subject)') return false;
+  return mentions.some((m) => m.source === source && m.text.includes(needle));
+}
+
+/**
+ * Extract urgentAttention entries from a stored briefing
+ */
+function parseUrgentMentions(content: unknown): UrgentMention[] {
+  const urgent = (content as { urgentAttention?: unknown } | null)?.urgentAttention;
+  if (!Array.isArray(urgent)) return [];
+
+  return urgent.flatMap((entry) => {
+    const { type, item, action } = (entry || {}) as Record<string, unknown>;
+    const source = typeof type === 'string' ? URGENT_TYPE_TO_SOURCE[type] : undefined;
+    if (!source || typeof item !== 'string') return [];
+    return [{ source, text: `${item} ${typeof action === 'string' ? action : ''}`.toLowerCase() }];
+  });
+}
+
+// ============================================================================
+// Date Ranges
+// ============================================================================
+
+/**
+ * Convert a YYYY-MM-DD local date to its start (or end) instant
+ */
+function localDateBoundary(date: string, timeZone: string, end: boolean): Date {
+  const [year, month, day] = date.split('-').map((n) => parseInt(n, 10));
+  const start = zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+  return end ? endOfDayInZone(start, timeZone) : start;
+}
+
+// ============================================================================
+// Feed
+// ============================================================================
+
+type ScoredItem = Omit<InboxItem, 'score' | 'signals'> & { signals: InboxSignal[]; rawScore: number };
+
+/**
+ * Build one page of the ranked inbox
+ */
+export async function getInboxPage(
+  userId: string,
+  filters: InboxFilters,
+  timeZone: string,
+  limit: number,
+  cursor: InboxCursor | null
+): Promise<InboxPage> {
+  const asOf = cursor ? new Date(cursor.asOf) : new Date();
+  const asOfMs = asOf.getTime();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  // Explicit dates apply to every source; otherwise each source has its own window
+  const rangeStart = filters.from ? localDateBoundary(filters.from, timeZone, false).toISOString() : null;
+  const rangeEnd = filters.to ? localDateBoundary(filters.to, timeZone, true).toISOString() : null;
+  const hasRange = rangeStart !== null || rangeEnd !== null;
+
+  // Read state only exists for emails
+  const includeNonEmail = filters.status === 'all';
+
+  // 1. Load candidates
+  let emailQuery = supabase
+    .from('emails')
+    .select('id, message_id, thread_id, sender, subject, snippet, received_at, is_read, labels')
+    .eq('user_id', userId)
+    .order('received_at', { ascending: false })
+    .limit(INBOX_MAX_CANDIDATES_PER_SOURCE);
+  if (hasRange) {
+    if (rangeStart) emailQuery = emailQuery.gte('received_at', rangeStart);
+    if (rangeEnd) emailQuery = emailQuery.lte('received_at', rangeEnd);
+  } else {
+    emailQuery = emailQuery.gte('received_at', new Date(asOfMs - INBOX_LOOKBACK_DAYS * dayMs).toISOString());
+  }
+  if (filters.status !== 'all') {
+    emailQuery = emailQuery.eq('is_read', filters.status === 'read');
+  }
+
+  let eventQuery = supabase
+    .from('calendar_events')
+    .select('id, event_id, title, description, start_time, end_time, location, has_conflict')
+    .eq('user_id', userId)
+    .order('start_time', { ascending: true })
+    .limit(INBOX_MAX_CANDIDATES_PER_SOURCE);
+  if (hasRange) {
+    if (rangeStart) eventQuery = eventQuery.gte('start_time', rangeStart);
+    if (rangeEnd) eventQuery = eventQuery.lte('start_time', rangeEnd);
+  } else {
+    // Upcoming, including meetings already in progress
+    eventQuery = eventQuery
+      .gte('end_time', asOf.toISOString())
+      .lte('start_time', new Date(asOfMs + INBOX_LOOKAHEAD_DAYS * dayMs).toISOString());
+  }
+
+  let documentQuery = supabase
+    .from('drive_documents')
+    .select('id, document_id, name, folder_path, modified_at, web_view_link, content_preview')
+    .eq('user_id', userId)
+    .not('modified_at', 'is', null)
+    .order('modified_at', { ascending: false })
+    .limit(INBOX_MAX_CANDIDATES_PER_SOURCE);
+  if (hasRange) {
+    if (rangeStart) documentQuery = documentQuery.gte('modified_at', rangeStart);
+    if (rangeEnd) documentQuery = documentQuery.lte('modified_at', rangeEnd);
+  } else {
+    documentQuery = documentQuery.gte('modified_at', new Date(asOfMs - INBOX_LOOKBACK_DAYS * dayMs).toISOString());
+  }
+
+  const [emailsResult, eventsResult, documentsResult, sendersResult, briefingResult] = await Promise.all([
+    emailQuery,
+    includeNonEmail ? eventQuery : Promise.resolve({ data: [], error: null }),
+    includeNonEmail ? documentQuery : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('emails')
+      .select('sender')
+      .eq('user_id', userId)
+      .gte('received_at', new Date(asOfMs - DATA_RETENTION_DAYS * dayMs).toISOString())
+      .limit(INBOX_SENDER_FREQUENCY_SAMPLE),
+    supabase
+      .from('briefings')
+      .select('content')
+      .eq('user_id', userId)
+      .eq('briefing_date', getCurrentDateInZone(timeZone))
+      .maybeSingle(),
+  ]);
+
+  for (const [name, result] of [
+    ['emails', emailsResult],
+    ['calendar_events', eventsResult],
+    ['drive_documents', documentsResult],
+  ] as const) {
+    if (result.error) {
+      throw new Error(`Failed to load ${name}: ${result.error.message}`);
+    }
+  }
+
+  // Ranking context (missing signals degrade to zero rather than failing the feed)
+  const senderCounts = new Map<string, number>();
+  for (const row of sendersResult.data || []) {
+    const key = normalizeSender(row.sender);
+    senderCounts.set(key, (senderCounts.get(key) || 0) + 1);
+  }
+  const mentions = parseUrgentMentions(briefingResult.data?.content);
+
+  // 2. Score
+  const scored: ScoredItem[] = [];
+
+  for (const email of emailsResult.data || []) {
+    const signals: InboxSignal[] = [];
+    let score = recencyScore(asOfMs - new Date(email.received_at).getTime());
+
+    const labels: string[] = Array.isArray(email.labels) ? email.labels : [];
+    if (labels.includes('IMPORTANT')) {
+      score += INBOX_WEIGHTS.important;
+      signals.push('important');
+    }
+    if (email.is_read === false) {
+      score += INBOX_WEIGHTS.unread;
+      signals.push('unread');
+    }
+    const frequency = senderFrequencyScore(senderCounts.get(normalizeSender(email.sender)) || 0);
+    if (frequency > 0) {
+      score += frequency;
+      if (frequency >= INBOX_WEIGHTS.senderFrequencyMax / 2) signals.push('frequent_sender');
+    }
+    if (isMentioned(mentions, 'email', email.subject)) {
+      score += INBOX_WEIGHTS.briefingUrgent;
+      signals.push('briefing');
+    }
+
+    scored.push({
+      id: `email:${email.id}`,
+      source: 'email',
+      sourceId: email.message_id,
+      title: email.subject,
+      subtitle: email.sender,
+      snippet: email.snippet,
+      occurredAt: new Date(email.received_at).toISOString(),
+      endsAt: null,
+      isRead: email.is_read ?? null,
+      url: `https://mail.google.com/mail/u/0/#all/${email.thread_id || email.message_id}`,
+      signals,
+      rawScore: score,
+    });
+  }
+
+  for (const event of eventsResult.data || []) {
+    const signals: InboxSignal[] = [];
+    // Distance from now in either direction; in-progress meetings score as "now"
+    const start = new Date(event.start_time).getTime();
+    const end = new Date(event.end_time).getTime();
+    const distance = start > asOfMs ? start - asOfMs : end < asOfMs ? asOfMs - end : 0;
+    let score = recencyScore(distance);
+
+    if (event.has_conflict) {
+      score += INBOX_WEIGHTS.conflict;
+      signals.push('conflict');
+    }
+    if (isMentioned(mentions, 'event', event.title)) {
+      score += INBOX_WEIGHTS.briefingUrgent;
+      signals.push('briefing');
+    }
+
+    scored.push({
+      id: `event:${event.id}`,
+      source: 'event',
+      sourceId: event.event_id,
+      title: event.title,
+      subtitle: event.location,
+      snippet: event.description ? event.description.substring(0, 200) : null,
+      occurredAt: new Date(event.start_time).toISOString(),
+      endsAt: new Date(event.end_time).toISOString(),
+      isRead: null,
+      url: null,
+      signals,
+      rawScore: score,
+    });
+  }
+
+  for (const doc of documentsResult.data || []) {
+    const signals: InboxSignal[] = [];
+    let score = recencyScore(asOfMs - new Date(doc.modified_at).getTime());
+
+    if (isMentioned(mentions, 'document', doc.name)) {
+      score += INBOX_WEIGHTS.briefingUrgent;
+      signals.push('briefing');
+    }
+
+    scored.push({
+      id: `document:${doc.id}`,
+      source: 'document',
+      sourceId: doc.document_id,
+      title: doc.name,
+      subtitle: doc.folder_path,
+      snippet: doc.content_preview ? doc.content_preview.substring(0, 200) : null,
+      occurredAt: new Date(doc.modified_at).toISOString(),
+      endsAt: null,
+      isRead: null,
+      url: doc.web_view_link,
+      signals,
+      rawScore: score,
+    });
+  }
+
+  // 3. Rank, count and paginate
+  const ranked: InboxItem[] = scored
+    .map(({ rawScore, ...item }) => ({ ...item, score: Math.round(rawScore * 100) / 100 }))
+    .sort(compareItems);
+
+  const counts: Record<InboxSource, number> = { email: 0, event: 0, document: 0 };
+  for (const item of ranked) counts[item.source]++;
+
+  const matching = ranked.filter((item) => filters.sources.includes(item.source));
+  const remaining = cursor
+    ? matching.filter((item) => compareItems(item, cursor) > 0)
+    : matching;
+
+  const items = remaining.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextCursor = remaining.length > limit && last
+    ? encodeInboxCursor({ asOf: asOf.toISOString(), score: last.score, occurredAt: last.occurredAt, id: last.id })
+    : null;
+
+  return { items, nextCursor, counts };
+}
@@ -23,16 +23,69 @@ export type SyncRequestedEvent = {
   data: {
     userId: string;
     connectionId: string;
-    trigger: 'connect' | 'manual' | 'auto' | 'date_boundary';
+    trigger: 'connect' | 'manual' | 'auto' | 'scheduled' | 'date_boundary' | 'push';
     idempotencyKey: string;
     jobId: string;
   };
 };
 
+/**
+ * Sent by a sync that finished 'partial'; retries its failed items
+ */
+export type SyncItemsRetryRequestedEvent = {
+  name: 'sync/items.retry-requested';
+  data: {
+    jobId: string;
+    userId: string;
+    provider: 'gmail' | 'calendar' | 'drive';
+  };
+};
+
+/**
+ * Sent by the scheduled sync cron for each user with a connected source
+ */
+export type ScheduledSyncRequestedEvent = {
+  name: 'sync/scheduled.requested';
+  data: {
+    userId: string;
+    trigger: 'scheduled' | 'date_boundary';
+    scheduledAt: string;   // Cron tick (ISO), part of the job idempotency keys
+  };
+};
+
+/**
+ * Sent by the re-embedding cron for each user with embeddings from another model
+ */
+export type EmbeddingsReembedRequestedEvent = {
+  name: 'embeddings/reembed.requested';
+  data: {
+    userId: string;
+    model: string;       // Target model (the configured provider's)
+    dimension: number;
+  };
+};
+
+/**
+ * Sent after calendar syncs, focus policy changes and by the daily focus-hold
+ * cron; moves or releases holds that meetings now overlap and tops up
+ * auto-protect
+ */
+export type FocusHoldsReconcileEvent = {
+  name: 'calendar/focus-holds.reconcile';
+  data: {
+    userId: string;
+    reason: 'sync' | 'policy' | 'scheduled';
+  };
+};
+
 export type Events = {
   'gmail/sync.requested': SyncRequestedEvent['data'];
   'calendar/sync.requested': SyncRequestedEvent['data'];
   'drive/sync.requested': SyncRequestedEvent['data'];
+  'sync/items.retry-requested': SyncItemsRetryRequestedEvent['data'];
+  'sync/scheduled.requested': ScheduledSyncRequestedEvent['data'];
+  'embeddings/reembed.requested': EmbeddingsReembedRequestedEvent['data'];
+  'calendar/focus-holds.reconcile': FocusHoldsReconcileEvent['data'];
 };
 
 export default inngest;
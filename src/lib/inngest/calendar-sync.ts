@@ -6,13 +6,43 @@
 
 import { inngest } from '../inngest';
 import { supabase } from '../supabase';
-import { nango, PROVIDER_CONFIG_KEYS } from '../nango';
-import { daysAgoUTC, daysFromNowUTC, startOfDayUTC } from '../time';
-import { stripHtml, detectConflicts, identifyFocusBlocks, getConflictDetails } from '../helpers';
+import { PROVIDER_CONFIG_KEYS } from '../nango';
+import { nangoProxy } from '../nango-proxy';
+import { daysAgoUTC, daysFromNowUTC, startOfDayInZone } from '../time';
+import { stripHtml, identifyFocusBlocks, getConflictDetails } from '../helpers';
 import { classifyError, formatErrorMessage } from '../errors';
-import { generateAndStoreEmbeddings, prepareCalendarEmbeddings } from '../embeddings';
-import { callGeminiWithSchema, CALENDAR_ANALYSIS_SCHEMA, isGeminiConfigured } from '../llm/gemini';
+import { isBackgroundTrigger, markSyncJobFailed } from '../sync-jobs';
+import { diffByContentHash, getChangedIds, hasChanges, hashContent, toChangeSet } from '../sync-diff';
+import {
+  isItemGone,
+  recordItemFailures,
+  toItemFailure,
+  upsertIsolatingFailures,
+  type ItemRetryResult,
+  type SyncItemFailure,
+} from '../sync-item-failures';
+import { planEmbeddingChunks, updateSourceEmbeddings } from '../embeddings';
+import { scanItems, summarizeDlpResults } from '../dlp/scanner';
+import { tokenizeItems, withholdUnverified, type TokenizedItem } from '../dlp/vault';
+import { getLlmClientForUser } from '../llm/client';
+import { CALENDAR_ANALYSIS_SCHEMA, type CalendarAnalysisContent } from '../llm/schemas';
+import { generateStructured } from '../llm/validation';
+import { buildFallbackCalendarAnalysis } from '../llm/fallbacks';
+import type { LlmClient } from '../llm/types';
 import { buildCalendarAnalysisPrompt, type UserProfileContext } from '../llm/prompts';
+import { getUserPreferences, parseUserPreferences, toWorkSchedule } from '../preferences';
+import { getCalendarWebhookUrl, renewCalendarWatches } from '../calendar-watch';
+import { getRecurringMeetingAudit, refreshRecurringAudit } from '../recurring-meetings';
+import { getSelfResponse, parseAttendees, type CalendarAttendee, type ResponseStatus } from '../attendees';
+import {
+  calendarEventsEndpoint,
+  fetchCalendarList,
+  getCalendarSyncState,
+  PRIMARY_CALENDAR_ID,
+  refreshConflictFlags,
+  resolveSyncCalendars,
+  type CalendarSyncState,
+} from '../calendars';
 import {
   CALENDAR_PAST_DAYS,
   CALENDAR_FUTURE_DAYS,
@@ -20,6 +50,7 @@ import {
   CALENDAR_ANALYSIS_FUTURE_DAYS,
   IMMINENT_REANALYSIS_WINDOW_START_MINUTES,
   IMMINENT_REANALYSIS_WINDOW_END_MINUTES,
+  FOCUS_HOLD_PROPERTY,
 } from '../constants';
 
 // ============================================================================
@@ -39,24 +70,39 @@ interface GoogleCalendarEvent {
     responseStatus?: string;
     organizer?: boolean;
     self?: boolean;
+    optional?: boolean;
+    resource?: boolean;
   }>;
   organizer?: { email?: string };
   status: 'confirmed' | 'cancelled' | 'tentative';
+  recurringEventId?: string;  // Set on instances of a recurring series (singleEvents=true)
+  extendedProperties?: { private?: Record<string, string> };
 }
 
 interface ParsedEvent {
   event_id: string;
+  calendar_id: string;
+  color: string | null;
   title: string;
   description: string | null;
   start_time: string;
   end_time: string;
   is_all_day: boolean;
   location: string | null;
-  attendees: unknown[];
+  attendees: CalendarAttendee[];
+  self_response_status: ResponseStatus;
   organizer: string | null;
+  recurring_event_id: string | null;
+  focus_hold: boolean;   // Tagged as an EmergentOS focus hold (never changes for an event)
   status: string;
 }
 
+/** Fields whose change counts as an edit ('status' only routes cancellations) */
+const EVENT_HASH_FIELDS: ReadonlyArray<keyof ParsedEvent> = [
+  'event_id', 'calendar_id', 'color', 'title', 'description', 'start_time', 'end_time', 'is_all_day',
+  'location', 'attendees', 'self_response_status', 'organizer', 'recurring_event_id',
+];
+
 interface CalendarChangeDetection {
   dataChanged: boolean;
   timeChanged: boolean;
@@ -72,6 +118,10 @@ export const processCalendarSync = inngest.createFunction(
     id: 'process-calendar-sync',
     name: 'Process Calendar Sync',
     retries: 3,
+    // Record the failure once retries are exhausted so the job doesn't stay stuck mid-stage
+    onFailure: async ({ event, error }) => {
+      await markSyncJobFailed(event.data.event.data.jobId, error);
+    },
   },
   { event: 'calendar/sync.requested' },
   async ({ event, step }) => {
@@ -79,6 +129,9 @@ export const processCalendarSync = inngest.createFunction(
 
     console.log(`[Calendar Sync] Starting for user ${userId}, trigger: ${trigger}, jobId: ${jobId}`);
 
+    // Auto, scheduled and push syncs skip analysis when nothing changed
+    const isBackgroundSync = isBackgroundTrigger(trigger);
+
     // STEP 1: IDEMPOTENCY CHECK
     const existingJob = await step.run('check-idempotency', async () => {
       if (!idempotencyKey) return null;
@@ -87,7 +140,7 @@ export const processCalendarSync = inngest.createFunction(
         .from('sync_jobs')
         .select('id, status')
         .eq('idempotency_key', idempotencyKey)
-        .eq('status', 'complete')
+        .in('status', ['complete', 'partial'])
         .single();
 
       return data;
@@ -137,149 +190,121 @@ export const processCalendarSync = inngest.createFunction(
     });
 
     const lastSyncAt = connection.last_sync_at ? new Date(connection.last_sync_at) : null;
-    
-    // Determine sync type based on lastSyncAt (NOT syncToken - doesn't work with singleEvents=true)
-    const isDeltaSync = !!lastSyncAt;
-    console.log(`[Calendar Sync] Sync type: ${isDeltaSync ? 'DELTA (updatedMin)' : 'INITIAL'}, lastSyncAt: ${lastSyncAt?.toISOString() || 'NULL'}`);
 
-    // STEP 5: FETCH CALENDAR EVENTS
-    // NOTE: Google Calendar API does NOT return syncToken when singleEvents=true
-    // So we use updatedMin (time-based delta sync) instead of syncToken
-    // wasDeltaSync tracks if we used updatedMin (delta) vs full time window (initial)
-    const { events: allEvents, wasDeltaSync } = await step.run('fetch-events', async () => {
-      const nangoConnectionId = connection.connection_id;
-      const events: GoogleCalendarEvent[] = [];
-      let pageToken: string | null = null;
+    // Each calendar keeps its own updatedMin (NOT syncToken - doesn't work with singleEvents=true)
+    const previousSyncState = getCalendarSyncState(connection.metadata);
+    console.log(`[Calendar Sync] lastSyncAt: ${lastSyncAt?.toISOString() || 'NULL'}, calendars with delta state: ${Object.keys(previousSyncState).length}`);
 
-      console.log(`[Calendar Sync] fetch-events: isDeltaSync = ${isDeltaSync}, lastSyncAt = ${lastSyncAt?.toISOString() || 'NEVER'}, connectionId = ${connectionId}`);
+    // STEP 5: RESOLVE CALENDARS (selected in Settings, primary always included)
+    // Without the list (transient error, quota) only primary syncs; other calendars keep their events
+    const { calendars, calendarListAvailable } = await step.run('fetch-calendar-list', async () => {
+      const { calendars: selection } = await getUserPreferences(userId);
 
       try {
-        // Time window: 7 days back, 30 days forward
-        const timeMin = daysAgoUTC(CALENDAR_PAST_DAYS).toISOString();
-        const timeMax = daysFromNowUTC(CALENDAR_FUTURE_DAYS).toISOString();
-
-        if (isDeltaSync) {
-          // DELTA SYNC: Use updatedMin to get only events modified since last sync
-          // This works WITH singleEvents=true (unlike syncToken)
-          const updatedMin = lastSyncAt!.toISOString();
-          
-          console.log(`[Calendar Sync] DELTA sync: updatedMin=${updatedMin}, timeMin=${timeMin}, timeMax=${timeMax}`);
-
-          do {
-            const params: Record<string, string | number> = {
-              timeMin,
-              timeMax,
-              updatedMin,  // Only events updated after last sync
-              singleEvents: 'true',
-              orderBy: 'startTime',
-              maxResults: 250,
-              showDeleted: 'true',  // Include cancelled events for deletion detection
-            };
-            if (pageToken) {
-              params.pageToken = pageToken;
-            }
-
-            const response = await nango.proxy({
-              method: 'GET',
-              endpoint: '/calendar/v3/calendars/primary/events',
-              providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
-              connectionId: nangoConnectionId,
-              params,
-            });
-
-            const items = response.data?.items || [];
-            events.push(...items);
-            
-            // Log each event's status for debugging
-            if (items.length > 0) {
-              console.log(`[Calendar Sync] DELTA page: ${items.length} events, statuses: ${items.map((e: GoogleCalendarEvent) => `${e.id}:${e.status}`).join(', ')}`);
-            }
-            
-            pageToken = response.data?.nextPageToken || null;
-            console.log(`[Calendar Sync] DELTA page complete: items=${items.length}, hasMorePages=${!!pageToken}`);
-          } while (pageToken);
-
-          console.log(`[Calendar Sync] DELTA sync completed: ${events.length} changed events since ${updatedMin}`);
-          
-          // Log breakdown of event statuses
-          const confirmed = events.filter(e => e.status === 'confirmed').length;
-          const cancelled = events.filter(e => e.status === 'cancelled').length;
-          const tentative = events.filter(e => e.status === 'tentative').length;
-          console.log(`[Calendar Sync] DELTA sync breakdown: confirmed=${confirmed}, cancelled=${cancelled}, tentative=${tentative}`);
-          
-          return { events, wasDeltaSync: true };
-        } else {
-          // INITIAL SYNC: Fetch all events in time window
-          console.log(`[Calendar Sync] INITIAL sync: timeMin=${timeMin}, timeMax=${timeMax}`);
-
-          do {
-            const params: Record<string, string | number> = {
-              timeMin,
-              timeMax,
-              singleEvents: 'true',
-              orderBy: 'startTime',
-              maxResults: 250,
-            };
-            if (pageToken) {
-              params.pageToken = pageToken;
-            }
-
-            const response = await nango.proxy({
-              method: 'GET',
-              endpoint: '/calendar/v3/calendars/primary/events',
-              providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
-              connectionId: nangoConnectionId,
-              params,
-            });
-
-            events.push(...(response.data?.items || []));
-            pageToken = response.data?.nextPageToken || null;
-            
-            console.log(`[Calendar Sync] INITIAL page: items=${response.data?.items?.length || 0}, hasMorePages=${!!pageToken}`);
-          } while (pageToken);
-
-          console.log(`[Calendar Sync] INITIAL sync completed: ${events.length} total events in time window`);
-          return { events, wasDeltaSync: false };
-        }
+        const list = await fetchCalendarList(connection.connection_id);
+        return { calendars: resolveSyncCalendars(list, selection.selected), calendarListAvailable: true };
       } catch (error) {
-        const classified = classifyError(error);
-        if (classified.action === 'reconnect') {
-          await supabase
-            .from('connections')
-            .update({
-              status: 'error',
-              metadata: { ...connection.metadata, error_reason: 'Token expired or revoked' },
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', connectionId);
-
-          await supabase
-            .from('sync_jobs')
-            .update({
-              status: 'error',
-              error_message: formatErrorMessage(error),
-              error_retryable: false,
-              completed_at: new Date().toISOString(),
-            })
-            .eq('id', jobId);
-
-          throw new Error('Auth error - user must reconnect');
+        // Auth errors resurface (and are handled) when fetching primary events
+        console.warn('[Calendar Sync] calendarList unavailable, syncing primary only:', formatErrorMessage(error));
+        return { calendars: resolveSyncCalendars([], []), calendarListAvailable: false };
+      }
+    });
+
+    console.log(`[Calendar Sync] Syncing ${calendars.length} calendar(s): ${calendars.map((c) => c.summary).join(', ')}`);
+
+    // STEP 5b: FETCH CALENDAR EVENTS
+    // NOTE: Google Calendar API does NOT return syncToken when singleEvents=true
+    // So we use updatedMin (time-based delta sync) per calendar instead of syncToken.
+    // A calendar without delta state (newly selected, or first sync) gets the full time window.
+    const { events: allEvents, wasDeltaSync, syncState, failedCalendarIds } = await step.run('fetch-events', async () => {
+      const nangoConnectionId = connection.connection_id;
+      const events: Array<GoogleCalendarEvent & { calendar_id: string; color: string | null }> = [];
+      const nextState: CalendarSyncState = {};
+      const failed: string[] = [];
+      let deltaCalendars = 0;
+
+      // Time window: 7 days back, 30 days forward
+      const timeMin = daysAgoUTC(CALENDAR_PAST_DAYS).toISOString();
+      const timeMax = daysFromNowUTC(CALENDAR_FUTURE_DAYS).toISOString();
+
+      for (const calendar of calendars) {
+        // Connections synced before multi-calendar support only have last_sync_at
+        const updatedMin = previousSyncState[calendar.id]?.updated_min
+          ?? (calendar.primary && lastSyncAt ? lastSyncAt.toISOString() : null);
+        const fetchedAt = new Date().toISOString();
+
+        try {
+          const items = await fetchCalendarEvents(nangoConnectionId, calendar.id, timeMin, timeMax, updatedMin);
+          events.push(...items.map((e) => ({ ...e, calendar_id: calendar.id, color: calendar.color })));
+          nextState[calendar.id] = { updated_min: fetchedAt };
+          if (updatedMin) deltaCalendars++;
+
+          console.log(`[Calendar Sync] ${updatedMin ? 'DELTA' : 'INITIAL'} ${calendar.summary}: ${items.length} events${updatedMin ? ` since ${updatedMin}` : ''}`);
+        } catch (error) {
+          const classified = classifyError(error);
+          if (classified.action === 'reconnect' && calendar.primary) {
+            await supabase
+              .from('connections')
+              .update({
+                status: 'error',
+                metadata: { ...connection.metadata, error_reason: 'Token expired or revoked' },
+                updated_at: new Date().toISOString(),
+              })
+              .eq('id', connectionId);
+
+            await supabase
+              .from('sync_jobs')
+              .update({
+                status: 'error',
+                error_message: formatErrorMessage(error),
+                error_retryable: false,
+                error_category: 'auth',
+                completed_at: new Date().toISOString(),
+              })
+              .eq('id', jobId);
+
+            throw new Error('Auth error - user must reconnect');
+          }
+          if (calendar.primary) throw error;
+
+          // Shared calendars can lose access independently; keep their events and state until next sync
+          console.warn(`[Calendar Sync] Skipping calendar ${calendar.summary}: ${formatErrorMessage(error)}`);
+          failed.push(calendar.id);
+          if (previousSyncState[calendar.id]) {
+            nextState[calendar.id] = previousSyncState[calendar.id];
+          }
         }
-        throw error;
       }
+
+      // Log breakdown of event statuses
+      const confirmed = events.filter(e => e.status === 'confirmed').length;
+      const cancelled = events.filter(e => e.status === 'cancelled').length;
+      const tentative = events.filter(e => e.status === 'tentative').length;
+      console.log(`[Calendar Sync] Fetch breakdown: confirmed=${confirmed}, cancelled=${cancelled}, tentative=${tentative}`);
+
+      return {
+        events,
+        wasDeltaSync: deltaCalendars > 0 && deltaCalendars === calendars.length - failed.length,
+        syncState: nextState,
+        failedCalendarIds: failed,
+      };
     });
 
     // STEP 6: PARSE EVENTS
-    const parsedEvents = allEvents.map(parseEvent);
+    // An event can appear on several calendars (e.g. own + team); keep one row, preferring
+    // an active copy and the earlier (higher-priority) calendar
+    const parsedEvents = dedupeCalendarEvents(allEvents.map(parseEvent));
 
-    // CRITICAL DEBUG: Log sync type and events received - this helps diagnose update detection issues
+    // CRITICAL DEBUG: Log sync type and events received - this helps diagnose sync issues
     console.log(`[Calendar Sync] ======== SYNC SUMMARY ========`);
     console.log(`[Calendar Sync] Sync type: ${wasDeltaSync ? 'DELTA (only changes)' : 'INITIAL (all events)'}`);
     console.log(`[Calendar Sync] Events from Google: ${allEvents.length}, Parsed: ${parsedEvents.length}`);
-    console.log(`[Calendar Sync] wasDeltaSync = ${wasDeltaSync} (CRITICAL for update detection)`);
+    if (failedCalendarIds.length > 0) {
+      console.log(`[Calendar Sync] Calendars skipped this run: ${failedCalendarIds.join(', ')}`);
+    }
     console.log(`[Calendar Sync] ==============================`);
 
-    // STEP 7-8: UPDATE STATUS → 'securing' (DLP placeholder)
+    // STEP 7: UPDATE STATUS → 'securing'
     await step.run('update-status-securing', async () => {
       await supabase
         .from('sync_jobs')
@@ -287,6 +312,24 @@ export const processCalendarSync = inngest.createFunction(
         .eq('id', jobId);
     });
 
+    // STEP 8: DLP SCAN + PII TOKENIZATION (cancelled events are deleted, no need to scan them)
+    const tokenizedEvents = await step.run('dlp-scan', async () => {
+      const scanInputs = parsedEvents
+        .filter((e) => e.status !== 'cancelled')
+        .map((e) => ({
+          id: e.event_id,
+          fields: { title: e.title, description: e.description, location: e.location },
+        }));
+      const results = await scanItems(scanInputs);
+
+      const summary = summarizeDlpResults(results);
+      console.log(`[Calendar Sync] DLP (${summary.scanner}): clean=${summary.clean}, flagged=${summary.flagged}, errored=${summary.errored}, findings=${JSON.stringify(summary.findingsByType)}`);
+
+      return tokenizeItems(userId, scanInputs, results, ['description']);
+    });
+
+    const tokenizedById = new Map(tokenizedEvents.map((t) => [t.id, t]));
+
     // STEP 9: UPDATE STATUS → 'persisting'
     await step.run('update-status-persisting', async () => {
       await supabase
@@ -295,12 +338,8 @@ export const processCalendarSync = inngest.createFunction(
         .eq('id', jobId);
     });
 
-    // STEP 10-11: PERSIST WITH DELETION
-    // CRITICAL: Pass wasDeltaSync explicitly to avoid closure capture issues with Inngest steps
-    const { itemsInserted, itemsDeleted, itemsUpdated } = await step.run('persist-events', async () => {
-      // Capture wasDeltaSync value at the start of this step for reliable access
-      const isDeltaSync = wasDeltaSync;
-      
+    // STEP 10-11: PERSIST WITH DELETION (only new and edited events are written)
+    const { changes, persistFailures } = await step.run('persist-events', async () => {
       // Separate active and cancelled events
       const activeEvents = parsedEvents.filter((e) => e.status !== 'cancelled');
       const cancelledEventIds = parsedEvents
@@ -314,150 +353,117 @@ export const processCalendarSync = inngest.createFunction(
         console.log(`[Calendar Sync] Cancelled event IDs to delete: ${cancelledEventIds.join(', ')}`);
       }
 
-      // Count before
-      const { count: beforeCount } = await supabase
-        .from('calendar_events')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
-
       // Delete cancelled events WITH PROPER ERROR CHECKING
-      let deleted = 0;
-      if (cancelledEventIds.length > 0) {
-        console.log(`[Calendar Sync] Attempting to delete ${cancelledEventIds.length} cancelled events for user ${userId}`);
-        
-        const { count, error: deleteError } = await supabase
+      // Only the row attributed to the reporting calendar is removed: an event cancelled on
+      // one calendar may still be live on another
+      const removedEventIds: string[] = [];
+      const cancelledByCalendar = new Map<string, string[]>();
+      for (const event of parsedEvents.filter((e) => e.status === 'cancelled')) {
+        cancelledByCalendar.set(event.calendar_id, [...(cancelledByCalendar.get(event.calendar_id) || []), event.event_id]);
+      }
+
+      for (const [calendarId, eventIds] of cancelledByCalendar) {
+        console.log(`[Calendar Sync] Attempting to delete ${eventIds.length} cancelled events on ${calendarId} for user ${userId}`);
+
+        const { data: deletedRows, error: deleteError } = await supabase
           .from('calendar_events')
-          .delete({ count: 'exact' })
+          .delete()
           .eq('user_id', userId)
-          .in('event_id', cancelledEventIds);
+          .eq('calendar_id', calendarId)
+          .in('event_id', eventIds)
+          .select('event_id');
 
         if (deleteError) {
           console.error('[Calendar Sync] CRITICAL: Delete calendar_events error:', deleteError);
           throw new Error(`Failed to delete cancelled events: ${deleteError.message}`);
         }
 
-        deleted = count || 0;
-        console.log(`[Calendar Sync] Successfully deleted ${deleted} events from calendar_events table`);
-
-        // Also delete their embeddings WITH ERROR CHECKING
-        const { error: embeddingDeleteError, count: embeddingsDeleted } = await supabase
-          .from('embeddings')
-          .delete({ count: 'exact' })
-          .eq('user_id', userId)
-          .eq('source_type', 'calendar')
-          .in('source_id', cancelledEventIds);
-
-        if (embeddingDeleteError) {
-          console.error('[Calendar Sync] WARNING: Delete embeddings error:', embeddingDeleteError);
-          // Don't throw - embeddings are secondary, but log the error
-        } else {
-          console.log(`[Calendar Sync] Successfully deleted ${embeddingsDeleted || 0} embeddings for cancelled events`);
-        }
+        removedEventIds.push(...(deletedRows || []).map((row) => row.event_id as string));
       }
 
-      // Add user_id to events
-      // IMPORTANT: Remove 'status' field as it's not in the database schema
-      // (status is only used for filtering cancelled events above)
-      const eventsWithUserId = activeEvents.map((e) => {
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { status, ...eventWithoutStatus } = e;
-        return {
-          ...eventWithoutStatus,
-          user_id: userId,
-          security_verified: true,
-          // Set initial conflict flags (will be recalculated after upsert)
-          has_conflict: false,
-          conflict_with: [],
-        };
-      });
-
-      // STEP 1: UPSERT new/updated events first (without conflict detection)
-      if (eventsWithUserId.length > 0) {
-        const upsertBatchSize = 100;
-        for (let i = 0; i < eventsWithUserId.length; i += upsertBatchSize) {
-          const batch = eventsWithUserId.slice(i, i + upsertBatchSize);
-          const { error } = await supabase
+      // Delete events from calendars that are no longer selected (failed calendars keep theirs).
+      // Skipped when the calendar list was unavailable: unsynced calendars may still be selected.
+      const keptCalendarIds = new Set(calendars.map((c) => c.id));
+      const { data: storedCalendars } = calendarListAvailable
+        ? await supabase
             .from('calendar_events')
-            .upsert(batch, { onConflict: 'user_id,event_id' });
+            .select('calendar_id')
+            .eq('user_id', userId)
+        : { data: [] };
 
-          if (error) {
-            console.error('[Calendar Sync] UPSERT error:', error);
-            throw new Error(`Calendar UPSERT failed: ${error.message}`);
-          }
+      const deselectedCalendarIds = Array.from(new Set((storedCalendars || []).map((row) => row.calendar_id as string)))
+        .filter((calendarId) => !keptCalendarIds.has(calendarId));
+
+      for (const calendarId of deselectedCalendarIds) {
+        const { data: deletedRows, error: deleteError } = await supabase
+          .from('calendar_events')
+          .delete()
+          .eq('user_id', userId)
+          .eq('calendar_id', calendarId)
+          .select('event_id');
+
+        if (deleteError) {
+          console.error(`[Calendar Sync] Delete error for deselected calendar ${calendarId}:`, deleteError);
+          continue;
         }
-      }
 
-      // STEP 2: Fetch ALL events from database for this user to detect conflicts globally
-      const { data: allUserEvents, error: fetchAllError } = await supabase
-        .from('calendar_events')
-        .select('id, event_id, start_time, end_time')
-        .eq('user_id', userId);
+        console.log(`[Calendar Sync] Removed ${deletedRows?.length || 0} events from deselected calendar ${calendarId}`);
+        removedEventIds.push(...(deletedRows || []).map((row) => row.event_id as string));
+      }
 
-      if (fetchAllError) {
-        console.error('[Calendar Sync] Fetch all events error:', fetchAllError);
-        throw new Error(`Failed to fetch all events: ${fetchAllError.message}`);
+      // Their embeddings are deleted in the embedding step
+      const deleted = removedEventIds.length;
+      if (deleted > 0) {
+        console.log(`[Calendar Sync] Successfully deleted ${deleted} events from calendar_events table`);
       }
 
-      // STEP 3: Detect conflicts across ALL user events
-      const allEventsWithConflicts = detectConflicts(allUserEvents || []);
-      
-      console.log(`[Calendar Sync] Conflict detection: total events=${allEventsWithConflicts.length}, conflicts found=${allEventsWithConflicts.filter(e => e.has_conflict).length}`);
+      // STEP 1: DIFF against stored content hashes, then UPSERT new/edited events (without conflict detection)
+      // Rows that fail are recorded for retry; the calendar's updatedMin moves on without them
+      const eventsWithUserId = await toEventRows(userId, activeEvents, tokenizedById);
+      const diff = await diffByContentHash('calendar_events', userId, 'event_id', eventsWithUserId, (row) => row.event_id);
 
-      // STEP 4: Update conflict flags for ALL events (batch update)
-      for (const event of allEventsWithConflicts) {
-        const { error: updateError } = await supabase
-          .from('calendar_events')
-          .update({ 
-            has_conflict: event.has_conflict, 
-            conflict_with: event.conflict_with 
-          })
-          .eq('id', event.id);
-
-        if (updateError) {
-          console.error(`[Calendar Sync] Conflict update error for event ${event.event_id}:`, updateError);
-        }
-      }
+      const failures = (await upsertIsolatingFailures(
+        'calendar_events',
+        diff.changedRows,
+        'user_id,event_id',
+        (row) => row.event_id
+      )).map((failure) => ({ ...failure, context: eventRetryContext(activeEvents, failure.itemId) }));
 
-      // Count after
-      const { count: afterCount } = await supabase
-        .from('calendar_events')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+      const changeSet = toChangeSet(diff, failures, removedEventIds);
 
-      const inserted = Math.max(0, (afterCount || 0) - (beforeCount || 0));
+      // STEP 2-4: Detect conflicts across ALL user events and update flags, when anything moved
+      // (calendars excluded in Settings, e.g. holidays, never conflict)
+      if (hasChanges(changeSet)) {
+        const { calendars: calendarPreferences } = await getUserPreferences(userId);
+        const conflictResult = await refreshConflictFlags(userId, calendarPreferences.conflictExcluded);
 
-      // CRITICAL FIX: Properly detect updates during delta sync
-      // For delta sync: Google ONLY returns CHANGED events (new, modified, or cancelled).
-      // If we received active events and count didn't increase, they MUST be updates.
-      // For initial sync: We cannot reliably detect updates, so default to 0.
-      
-      // DEBUG: Log all the values used in calculation
-      console.log(`[Calendar Sync] persist-events calculation: isDeltaSync=${isDeltaSync}, activeEvents.length=${activeEvents.length}, inserted=${inserted}, beforeCount=${beforeCount}, afterCount=${afterCount}`);
-      
-      // ROBUST UPDATE DETECTION:
-      // During delta sync, Google returns ONLY changed events:
-      // - New events → will be inserted (count increases)
-      // - Modified events → will be upserted (count stays same)
-      // - Cancelled events → handled separately above
-      // Therefore: updated = activeEvents.length - inserted (for delta sync)
-      const updated = isDeltaSync
-        ? Math.max(0, activeEvents.length - inserted)
-        : 0;
-
-      console.log(`[Calendar Sync] persist-events result: itemsInserted=${inserted}, itemsUpdated=${updated}, itemsDeleted=${deleted}`);
+        console.log(`[Calendar Sync] Conflict detection: total events=${conflictResult.eventsProcessed}, flags updated=${conflictResult.eventsUpdated}, conflicts found=${conflictResult.conflicting.length}, excluded calendars=${calendarPreferences.conflictExcluded.length}`);
+      }
+
+      console.log(`[Calendar Sync] persist-events result: inserted=${changeSet.inserted.length}, updated=${changeSet.updated.length}, unchanged=${changeSet.unchanged.length}, deleted=${deleted}`);
 
       return {
-        itemsInserted: inserted,
-        itemsDeleted: deleted,
-        itemsUpdated: updated,
+        changes: changeSet,
+        persistFailures: failures,
       };
     });
 
-    console.log(`[Calendar Sync] Items inserted: ${itemsInserted}, updated: ${itemsUpdated}, deleted: ${itemsDeleted}`);
+    console.log(`[Calendar Sync] Items inserted: ${changes.inserted.length}, updated: ${changes.updated.length}, deleted: ${changes.deleted.length}`);
+
+    // STEP 11b: RECURRING MEETING AUDIT (new series, and daily refresh of the rest)
+    await step.run('audit-recurring-series', async () => {
+      try {
+        const audit = await refreshRecurringAudit(userId, connection.connection_id);
+        console.log(`[Calendar Sync] Recurring audit: series=${audit.seriesCount}, audited=${audit.audited}, removed=${audit.removed}, errors=${audit.errors}`);
+      } catch (error) {
+        console.error('[Calendar Sync] Recurring audit error:', error);
+        // Don't fail the sync for audit errors
+      }
+    });
 
     // STEP 12: CALCULATE TIME-BASED CHANGES
     const changeResult = await step.run('calculate-changes', async () => {
-      return calculateCalendarDataChanged(userId, lastSyncAt, itemsInserted, itemsDeleted, itemsUpdated);
+      return calculateCalendarDataChanged(userId, lastSyncAt, changes.inserted.length, changes.deleted.length, changes.updated.length);
     });
 
     console.log(`[Calendar Sync] Change detection: dataChanged=${changeResult.dataChanged}, timeChanged=${changeResult.timeChanged}, reason=${changeResult.reason}`);
@@ -469,19 +475,20 @@ export const processCalendarSync = inngest.createFunction(
         .update({ status: 'analyzing' })
         .eq('id', jobId);
 
-      // Skip analysis only if auto-sync AND no changes (data or time)
-      if (trigger === 'auto' && !changeResult.dataChanged && !changeResult.timeChanged) {
+      // Skip analysis only if background sync (auto/push) AND no changes (data or time)
+      if (isBackgroundSync && !changeResult.dataChanged && !changeResult.timeChanged) {
         console.log(`[Calendar Sync] Skipping analysis: ${changeResult.reason}`);
         return;
       }
 
-      if (!isGeminiConfigured()) {
-        console.warn('[Calendar Sync] GEMINI_API_KEY not configured, skipping analysis');
+      const llm = await getLlmClientForUser(userId, 'calendar_analysis');
+      if (!llm) {
+        console.warn('[Calendar Sync] LLM provider not configured, skipping analysis');
         return;
       }
 
       try {
-        const analysisResult = await runCalendarAnalysis(userId);
+        const analysisResult = await runCalendarAnalysis(userId, llm);
 
         // UPSERT into calendar_insights with enhanced fields
         await supabase
@@ -505,42 +512,52 @@ export const processCalendarSync = inngest.createFunction(
       }
     });
 
-    // STEP 13: CONDITIONAL EMBEDDING GENERATION
-    const embeddingResult = await step.run('generate-embeddings', async () => {
+    // STEP 13: INCREMENTAL EMBEDDINGS (new/edited events embedded, removed ones deleted)
+    await step.run('update-status-embedding', async () => {
       await supabase
         .from('sync_jobs')
         .update({ status: 'embedding' })
         .eq('id', jobId);
+    });
 
-      // Skip if auto-sync with no data changes
-      if (trigger === 'auto' && !changeResult.dataChanged) {
-        console.log('[Calendar Sync] Skipping embeddings - no data changes on auto-sync');
-        return { inserted: 0, skipped: 0 };
-      }
-
-      // Fetch ALL events for user to embed
-      const { data: allStoredEvents } = await supabase
-        .from('calendar_events')
-        .select('event_id, title, description, start_time, end_time, location')
-        .eq('user_id', userId);
+    // One step per chunk so a large backlog (initial sync) doesn't outlive a step
+    const embeddingChunks = planEmbeddingChunks(getChangedIds(changes), changes.deleted);
+    const embeddingResult = { inserted: 0, skipped: 0, deleted: 0 };
 
-      if (!allStoredEvents || allStoredEvents.length === 0) {
-        return { inserted: 0, skipped: 0 };
-      }
+    if (embeddingChunks.length === 0) {
+      console.log(`[Calendar Sync] Skipping embeddings - no content changes on ${trigger} sync`);
+    }
 
-      const inputs = prepareCalendarEmbeddings(allStoredEvents);
-      return generateAndStoreEmbeddings(userId, inputs);
-    });
+    for (const [index, chunk] of embeddingChunks.entries()) {
+      const result = await step.run(`generate-embeddings-${index}`, async () => {
+        return updateSourceEmbeddings(userId, 'calendar', chunk);
+      });
+      embeddingResult.inserted += result.inserted;
+      embeddingResult.skipped += result.skipped;
+      embeddingResult.deleted += result.deleted;
+    }
 
-    console.log(`[Calendar Sync] Embeddings - inserted: ${embeddingResult.inserted}, skipped: ${embeddingResult.skipped}`);
+    console.log(`[Calendar Sync] Embeddings - inserted: ${embeddingResult.inserted}, skipped: ${embeddingResult.skipped}, deleted: ${embeddingResult.deleted}`);
 
-    // STEP 14: UPDATE CONNECTION (last_sync_at timestamp)
+    // STEP 14: UPDATE CONNECTION (last_sync_at + per-calendar updatedMin)
     // NOTE: No syncToken storage needed - we use updatedMin (time-based) approach
     await step.run('update-connection', async () => {
+      // Re-read metadata so a concurrent watch-channel renewal is not overwritten
+      const { data: current } = await supabase
+        .from('connections')
+        .select('metadata')
+        .eq('id', connectionId)
+        .single();
+
       const { error: updateError } = await supabase
         .from('connections')
         .update({
           last_sync_at: new Date().toISOString(),
+          metadata: {
+            ...(current?.metadata || connection.metadata),
+            // Calendars skipped for lack of a calendar list keep their delta state
+            calendar_sync_state: calendarListAvailable ? syncState : { ...previousSyncState, ...syncState },
+          },
           updated_at: new Date().toISOString(),
         })
         .eq('id', connectionId);
@@ -550,33 +567,75 @@ export const processCalendarSync = inngest.createFunction(
         throw new Error(`Failed to update connection: ${updateError.message}`);
       }
       
-      console.log(`[Calendar Sync] Connection last_sync_at updated successfully`);
+      console.log(`[Calendar Sync] Connection last_sync_at and calendar_sync_state updated successfully`);
+    });
+
+    // STEP 14b: OPEN PUSH CHANNELS on calendars without one (first sync, newly selected calendars);
+    // the renewal cron keeps them alive afterwards
+    await step.run('ensure-watch-channel', async () => {
+      const address = getCalendarWebhookUrl();
+      if (!address) return;
+
+      try {
+        await renewCalendarWatches(connection, address, Date.now());
+      } catch (error) {
+        // The renewal cron retries; don't fail the sync
+        console.warn('[Calendar Sync] Failed to open watch channel:', error);
+      }
+    });
+
+    // STEP 14c: RECORD FAILED ITEMS
+    const itemsFailed = await step.run('record-item-failures', async () => {
+      await recordItemFailures({ jobId, userId, provider: 'calendar' }, persistFailures);
+      if (persistFailures.length > 0) {
+        console.warn(`[Calendar Sync] ${persistFailures.length} event(s) failed, queued for retry`);
+      }
+      return persistFailures.length;
     });
 
-    // STEP 15: MARK JOB COMPLETE
+    // STEP 15: MARK JOB COMPLETE (partial when items failed)
     await step.run('complete-job', async () => {
       await supabase
         .from('sync_jobs')
         .update({
-          status: 'complete',
+          status: itemsFailed > 0 ? 'partial' : 'complete',
           items_fetched: allEvents.length,
-          items_inserted: itemsInserted,
-          items_updated: itemsUpdated,
-          items_deleted: itemsDeleted,
+          items_inserted: changes.inserted.length,
+          items_updated: changes.updated.length,
+          items_deleted: changes.deleted.length,
+          items_unchanged: changes.unchanged.length,
+          items_failed: itemsFailed,
           time_changed: changeResult.timeChanged,
           completed_at: new Date().toISOString(),
         })
         .eq('id', jobId);
     });
 
+    // Move or release focus holds that new or moved meetings now overlap
+    if (hasChanges(changes)) {
+      await step.sendEvent('reconcile-focus-holds', {
+        name: 'calendar/focus-holds.reconcile',
+        data: { userId, reason: 'sync' },
+      });
+    }
+
+    if (itemsFailed > 0) {
+      await step.sendEvent('request-item-retry', {
+        name: 'sync/items.retry-requested',
+        data: { jobId, userId, provider: 'calendar' },
+      });
+    }
+
     console.log(`[Calendar Sync] Completed for user ${userId}`);
 
     return {
       success: true,
       itemsFetched: allEvents.length,
-      itemsInserted,
-      itemsUpdated,
-      itemsDeleted,
+      itemsInserted: changes.inserted.length,
+      itemsUpdated: changes.updated.length,
+      itemsDeleted: changes.deleted.length,
+      itemsUnchanged: changes.unchanged.length,
+      itemsFailed,
       dataChanged: changeResult.dataChanged,
       timeChanged: changeResult.timeChanged,
       embeddingsInserted: embeddingResult.inserted,
@@ -584,11 +643,183 @@ export const processCalendarSync = inngest.createFunction(
   }
 );
 
+// ============================================================================
+// Failed-Item Retry
+// ============================================================================
+
+/**
+ * Refetch and store individual events for retry-sync-items. Events cancelled
+ * or deleted meanwhile are removed and count as resolved.
+ */
+export async function resyncCalendarEvents(
+  userId: string,
+  nangoConnectionId: string,
+  items: Array<{ itemId: string; context: Record<string, unknown> }>
+): Promise<ItemRetryResult> {
+  const events: ParsedEvent[] = [];
+  const failures: SyncItemFailure[] = [];
+  const gone: Array<{ eventId: string; calendarId: string }> = [];
+
+  for (const { itemId, context } of items) {
+    const calendarId = typeof context.calendar_id === 'string' ? context.calendar_id : PRIMARY_CALENDAR_ID;
+    const color = typeof context.color === 'string' ? context.color : null;
+
+    try {
+      const response = await nangoProxy({
+        method: 'GET',
+        endpoint: `${calendarEventsEndpoint(calendarId)}/${encodeURIComponent(itemId)}`,
+        providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+        connectionId: nangoConnectionId,
+      });
+      const event = parseEvent({ ...(response.data as GoogleCalendarEvent), calendar_id: calendarId, color });
+
+      if (event.status === 'cancelled') gone.push({ eventId: itemId, calendarId });
+      else events.push(event);
+    } catch (error) {
+      if (isItemGone(error)) gone.push({ eventId: itemId, calendarId });
+      else failures.push(toItemFailure(itemId, 'fetch', error, context));
+    }
+  }
+
+  // Only the row attributed to the failed calendar is removed, as in persist-events
+  const goneIds: string[] = [];
+  const removedIds: string[] = [];
+  for (const { eventId, calendarId } of gone) {
+    const { data: deletedRows } = await supabase
+      .from('calendar_events')
+      .delete()
+      .eq('user_id', userId)
+      .eq('calendar_id', calendarId)
+      .eq('event_id', eventId)
+      .select('event_id');
+
+    if (deletedRows && deletedRows.length > 0) removedIds.push(eventId);
+    goneIds.push(eventId);
+  }
+
+  const scanInputs = events.map((e) => ({
+    id: e.event_id,
+    fields: { title: e.title, description: e.description, location: e.location },
+  }));
+  const tokenized = await tokenizeItems(userId, scanInputs, await scanItems(scanInputs), ['description']);
+
+  const rows = await toEventRows(userId, events, new Map(tokenized.map((t) => [t.id, t])));
+  const persistFailures = (await upsertIsolatingFailures('calendar_events', rows, 'user_id,event_id', (row) => row.event_id))
+    .map((failure) => ({ ...failure, context: eventRetryContext(events, failure.itemId) }));
+  const failedIds = new Set(persistFailures.map((f) => f.itemId));
+  const storedIds = rows.map((row) => row.event_id).filter((id) => !failedIds.has(id));
+
+  if (storedIds.length > 0 || goneIds.length > 0) {
+    const { calendars: calendarPreferences } = await getUserPreferences(userId);
+    await refreshConflictFlags(userId, calendarPreferences.conflictExcluded);
+  }
+
+  if (storedIds.length > 0 || removedIds.length > 0) {
+    await updateSourceEmbeddings(userId, 'calendar', { embedIds: storedIds, deleteIds: removedIds });
+  }
+
+  return {
+    resolvedIds: [...goneIds, ...storedIds],
+    failures: [...failures, ...persistFailures],
+  };
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function parseEvent(event: GoogleCalendarEvent): ParsedEvent {
+/**
+ * Rows for calendar_events with DLP-tokenized descriptions and the content
+ * hash of the fetched event.
+ * 'status' is dropped: it is not a column, only used to filter cancelled events.
+ */
+async function toEventRows(userId: string, events: ParsedEvent[], tokenizedById: Map<string, TokenizedItem>) {
+  return Promise.all(events.map(async (e) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { status, ...eventWithoutStatus } = e;
+    const tokenized = tokenizedById.get(e.event_id);
+    return {
+      ...eventWithoutStatus,
+      description: tokenized ? tokenized.fields.description : e.description,
+      user_id: userId,
+      security_verified: tokenized?.verified ?? false,
+      content_hash: await hashContent(e, EVENT_HASH_FIELDS, tokenized?.verified ?? false),
+      // Set initial conflict flags (will be recalculated after upsert)
+      has_conflict: false,
+      conflict_with: [],
+    };
+  }));
+}
+
+/**
+ * What retry-sync-items needs to refetch a failed event
+ */
+function eventRetryContext(events: ParsedEvent[], eventId: string): Record<string, unknown> {
+  const event = events.find((e) => e.event_id === eventId);
+  return { calendar_id: event?.calendar_id ?? PRIMARY_CALENDAR_ID, color: event?.color ?? null };
+}
+
+/**
+ * Fetch one calendar's events in the sync window (paginated).
+ * With updatedMin, only events changed since then are returned, including cancelled ones.
+ */
+async function fetchCalendarEvents(
+  nangoConnectionId: string,
+  calendarId: string,
+  timeMin: string,
+  timeMax: string,
+  updatedMin: string | null
+): Promise<GoogleCalendarEvent[]> {
+  const events: GoogleCalendarEvent[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const params: Record<string, string | number> = {
+      timeMin,
+      timeMax,
+      singleEvents: 'true',
+      orderBy: 'startTime',
+      maxResults: 250,
+    };
+    if (updatedMin) {
+      params.updatedMin = updatedMin;   // Only events updated after last sync
+      params.showDeleted = 'true';      // Include cancelled events for deletion detection
+    }
+    if (pageToken) {
+      params.pageToken = pageToken;
+    }
+
+    const response = await nangoProxy<{ items?: GoogleCalendarEvent[]; nextPageToken?: string }>({
+      method: 'GET',
+      endpoint: calendarEventsEndpoint(calendarId),
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+      params,
+    });
+
+    events.push(...(response.data?.items || []));
+    pageToken = response.data?.nextPageToken || null;
+  } while (pageToken);
+
+  return events;
+}
+
+/**
+ * Keep one entry per event_id across calendars: an active copy wins over a
+ * cancelled one, otherwise the first (higher-priority) calendar wins
+ */
+function dedupeCalendarEvents(events: ParsedEvent[]): ParsedEvent[] {
+  const byId = new Map<string, ParsedEvent>();
+  for (const event of events) {
+    const existing = byId.get(event.event_id);
+    if (!existing || (existing.status === 'cancelled' && event.status !== 'cancelled')) {
+      byId.set(event.event_id, event);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+function parseEvent(event: GoogleCalendarEvent & { calendar_id: string; color: string | null }): ParsedEvent {
   // All-day event: end.date is EXCLUSIVE
   const isAllDay = !event.end.dateTime;
 
@@ -611,17 +842,23 @@ function parseEvent(event: GoogleCalendarEvent): ParsedEvent {
 
   // Sanitize HTML in description
   const description = event.description ? stripHtml(event.description) : null;
+  const attendees = parseAttendees(event.attendees);
 
   return {
     event_id: event.id,
+    calendar_id: event.calendar_id,
+    color: event.color,
     title: event.summary || '(No title)',
     description,
     start_time: startTime,
     end_time: endTime,
     is_all_day: isAllDay,
     location: event.location || null,
-    attendees: event.attendees || [],
+    attendees,
+    self_response_status: getSelfResponse(attendees),
     organizer: event.organizer?.email || null,
+    recurring_event_id: event.recurringEventId || null,
+    focus_hold: event.extendedProperties?.private?.[FOCUS_HOLD_PROPERTY] === 'true',
     status: event.status,
   };
 }
@@ -634,19 +871,20 @@ async function calculateCalendarDataChanged(
   itemsUpdated: number = 0
 ): Promise<CalendarChangeDetection> {
   const now = new Date();
-  const todayStartUTC = startOfDayUTC(now);
 
   // Helper to check if any data changes occurred (inserts, deletes, OR updates)
   const hasDataChanges = itemsInserted > 0 || itemsDeleted > 0 || itemsUpdated > 0;
 
-  // 1. Check if date boundary crossed since last sync
+  // 1. Check if date boundary crossed since last sync (in the user's time zone)
   if (lastSyncAt) {
-    const lastSyncDayUTC = startOfDayUTC(lastSyncAt);
-    if (todayStartUTC.getTime() > lastSyncDayUTC.getTime()) {
+    const { timeZone } = await getUserPreferences(userId);
+    const todayStart = startOfDayInZone(now, timeZone);
+    const lastSyncDayStart = startOfDayInZone(lastSyncAt, timeZone);
+    if (todayStart.getTime() > lastSyncDayStart.getTime()) {
       return {
         dataChanged: hasDataChanges,
         timeChanged: true,
-        reason: 'Date boundary crossed - new calendar day in UTC',
+        reason: `Date boundary crossed - new calendar day in ${timeZone}`,
       };
     }
   }
@@ -722,8 +960,8 @@ async function calculateCalendarDataChanged(
   };
 }
 
-async function runCalendarAnalysis(userId: string): Promise<{
-  content: Record<string, unknown>;
+async function runCalendarAnalysis(userId: string, llm: LlmClient): Promise<{
+  content: CalendarAnalysisContent;
   conflicts_count: number;
   focus_time_hours: number;
   meeting_hours: number;
@@ -746,7 +984,7 @@ async function runCalendarAnalysis(userId: string): Promise<{
   // Fetch user profile for personalization
   const { data: userProfile } = await supabase
     .from('user_profiles')
-    .select('onboarding_status, onboarding_answers, ai_assessment')
+    .select('onboarding_status, onboarding_answers, ai_assessment, preferences')
     .eq('user_id', userId)
     .single();
 
@@ -759,7 +997,8 @@ async function runCalendarAnalysis(userId: string): Promise<{
 
   console.log(`[Calendar Sync] Analysis personalization: hasOnboarding=${profileContext.hasOnboarding}`);
 
-  const calendarEvents = (events || []).map((e) => ({
+  // Focus holds are protected focus time, not meetings
+  const calendarEvents = withholdUnverified(events || [], ['description']).filter((e) => !e.focus_hold).map((e) => ({
     event_id: e.event_id,
     title: e.title,
     description: e.description,
@@ -767,44 +1006,44 @@ async function runCalendarAnalysis(userId: string): Promise<{
     end_time: e.end_time,
     is_all_day: e.is_all_day,
     location: e.location,
-    attendees: e.attendees as unknown[],
+    attendees: parseAttendees(e.attendees),
+    self_response_status: e.self_response_status,
     organizer: e.organizer,
+    recurring_event_id: e.recurring_event_id,
     has_conflict: e.has_conflict,
     conflict_with: e.conflict_with || [],
   }));
 
-  // Get conflict details and focus blocks
+  // Get conflict details, focus blocks and the recurring meeting audit
   const conflicts = getConflictDetails(calendarEvents);
-  const focusBlocks = identifyFocusBlocks(calendarEvents, new Date());
-
-  // Build prompt with user profile context and call Gemini with structured schema
-  const prompt = buildCalendarAnalysisPrompt(calendarEvents, conflicts, focusBlocks, profileContext);
-
-  // Use structured output schema for reliable JSON extraction
-  const responseText = await callGeminiWithSchema(prompt, CALENDAR_ANALYSIS_SCHEMA);
-
-  // Parse response (schema enforcement guarantees valid JSON)
-  let content: Record<string, unknown>;
-  try {
-    content = JSON.parse(responseText);
-  } catch {
-    console.error('[Calendar Sync] Failed to parse analysis response despite schema:', responseText);
-    content = { error: 'Failed to parse analysis', raw: responseText };
-  }
-
-  // Extract metrics from structured output
-  const metrics = (content.metrics || {}) as Record<string, number>;
-  const healthScore = (content.healthScore as number) || 50;
-  const verdict = (content.verdict as string) || 'MODERATE';
-
-  console.log(`[Calendar Sync] Analysis complete: healthScore=${healthScore}, verdict=${verdict}`);
+  const preferences = parseUserPreferences(userProfile?.preferences);
+  const focusBlocks = identifyFocusBlocks(calendarEvents, new Date(), toWorkSchedule(preferences));
+  const recurringSeries = await getRecurringMeetingAudit(userId);
+
+  // Build prompt with user profile context and call the LLM with structured schema
+  const prompt = buildCalendarAnalysisPrompt(calendarEvents, conflicts, focusBlocks, profileContext, preferences.timeZone, recurringSeries);
+
+  // Structured output, validated and repaired; a typed fallback if repair fails
+  const { content, outcome } = await generateStructured(
+    llm,
+    prompt,
+    CALENDAR_ANALYSIS_SCHEMA,
+    () => buildFallbackCalendarAnalysis({
+      events: calendarEvents,
+      conflictCount: conflicts.length,
+      focusHours: focusBlocks.reduce((sum, b) => sum + b.durationHours, 0),
+    }),
+    'Calendar Sync'
+  );
+
+  console.log(`[Calendar Sync] Analysis complete (${outcome}): healthScore=${content.healthScore}, verdict=${content.verdict}`);
 
   return {
     content,
-    conflicts_count: metrics.conflictCount ?? conflicts.length,
-    focus_time_hours: metrics.focusHoursAvailable ?? focusBlocks.reduce((sum, b) => sum + b.durationHours, 0),
-    meeting_hours: metrics.meetingHoursTotal ?? 0,
-    health_score: healthScore,
-    verdict,
+    conflicts_count: content.metrics.conflictCount,
+    focus_time_hours: content.metrics.focusHoursAvailable,
+    meeting_hours: content.metrics.meetingHoursTotal,
+    health_score: content.healthScore,
+    verdict: content.verdict,
   };
 }
@@ -1,17 +1,31 @@
 /**
  * EmergentOS - Daily Briefing & Insights Cron
  * 
- * Generates morning briefings AND calendar insights for all users at 6 AM UTC.
+ * Generates morning briefings AND calendar insights for each user at
+ * MORNING_BRIEFING_LOCAL_HOUR in their own time zone (cron runs hourly).
  * Per Section 10.2.
  */
 
 import { inngest } from '../inngest';
 import { supabase } from '../supabase';
-import { getCurrentUTCDate, daysAgoUTC, daysFromNowUTC, startOfDayUTC, endOfDayUTC } from '../time';
-import { callGeminiJSON, isGeminiConfigured } from '../llm/gemini';
+import { daysAgoUTC, daysFromNowUTC, getCurrentDateInZone, getZonedParts, startOfDayInZone, endOfDayInZone } from '../time';
+import { getLlmClientForUser } from '../llm/client';
 import { buildBriefingPrompt, buildCalendarAnalysisPrompt } from '../llm/prompts';
-import { MORNING_BRIEFING_CRON, CALENDAR_ANALYSIS_PAST_DAYS, CALENDAR_ANALYSIS_FUTURE_DAYS } from '../constants';
+import { BRIEFING_SCHEMA, CALENDAR_ANALYSIS_SCHEMA, type BriefingContent, type CalendarAnalysisContent } from '../llm/schemas';
+import { generateStructured } from '../llm/validation';
+import { buildFallbackBriefing, buildFallbackCalendarAnalysis } from '../llm/fallbacks';
+import {
+  MORNING_BRIEFING_CRON,
+  MORNING_BRIEFING_LOCAL_HOUR,
+  CALENDAR_ANALYSIS_PAST_DAYS,
+  CALENDAR_ANALYSIS_FUTURE_DAYS,
+} from '../constants';
 import { getConflictDetails, identifyFocusBlocks, type CalendarEvent } from '../helpers';
+import { getUserPreferences, getUserTimeZones, toWorkSchedule } from '../preferences';
+import { attachThreadHistory, type EarlierThreadMessage } from '../email-threads';
+import { withholdUnverified } from '../dlp/vault';
+import { getRecurringMeetingAudit } from '../recurring-meetings';
+import { parseAttendees, type CalendarAttendee, type ResponseStatus } from '../attendees';
 
 // ============================================================================
 // Types
@@ -50,11 +64,11 @@ export const generateDailyBriefingCron = inngest.createFunction(
     id: 'generate-daily-briefing-cron',
     name: 'Daily Morning Briefing & Insights',
   },
-  { cron: MORNING_BRIEFING_CRON },  // 6 AM UTC
+  { cron: MORNING_BRIEFING_CRON },  // Hourly
   async ({ step }) => {
     console.log('[Daily Cron] Starting daily briefing & insights generation');
 
-    // Get all users with at least one connected source, including provider info
+    // Get users with at least one connected source whose local time is the briefing hour
     const usersWithProviders = await step.run('get-active-users', async () => {
       const { data } = await supabase
         .from('connections')
@@ -70,13 +84,18 @@ export const generateDailyBriefingCron = inngest.createFunction(
         userProviders.get(conn.user_id)!.add(conn.provider);
       }
 
-      return Array.from(userProviders.entries()).map(([userId, providers]) => ({
-        userId,
-        hasCalendar: providers.has('calendar'),
-      }));
+      const timeZones = await getUserTimeZones(Array.from(userProviders.keys()));
+      const now = new Date();
+
+      return Array.from(userProviders.entries())
+        .filter(([userId]) => getZonedParts(now, timeZones.get(userId)!).hour === MORNING_BRIEFING_LOCAL_HOUR)
+        .map(([userId, providers]) => ({
+          userId,
+          hasCalendar: providers.has('calendar'),
+        }));
     });
 
-    console.log(`[Daily Cron] Found ${usersWithProviders.length} users with connections`);
+    console.log(`[Daily Cron] Found ${usersWithProviders.length} users at their briefing hour`);
 
     // Generate briefing AND insights for each user
     const results: DailyGenerationResult[] = [];
@@ -170,45 +189,53 @@ export async function generateBriefingForUser(
   };
 
   // 2. If no sources connected, delete today's briefing and return
+  // Briefings are keyed by the user's local date
+  const { timeZone } = await getUserPreferences(userId);
+  const today = getCurrentDateInZone(timeZone);
   if (!connectedSources.gmail && !connectedSources.calendar && !connectedSources.drive) {
-    const todayUTC = getCurrentUTCDate();
     await supabase
       .from('briefings')
       .delete()
       .eq('user_id', userId)
-      .eq('briefing_date', todayUTC);
+      .eq('briefing_date', today);
 
     console.log(`[Briefing] No connected sources for ${userId}, deleted today's briefing`);
     return { userId, success: true };
   }
 
-  // 3. Check if Gemini is configured
-  if (!isGeminiConfigured()) {
-    console.warn(`[Briefing] GEMINI_API_KEY not configured, skipping for ${userId}`);
-    return { userId, success: false, error: 'GEMINI_API_KEY not configured' };
+  // 3. Check the user's LLM provider is configured
+  const llm = await getLlmClientForUser(userId, 'briefing');
+  if (!llm) {
+    console.warn(`[Briefing] LLM provider not configured, skipping for ${userId}`);
+    return { userId, success: false, error: 'LLM provider not configured' };
   }
 
   // 4. Fetch data from connected sources
   const now = new Date();
-  const todayStartUTC = startOfDayUTC(now);
-  const tomorrowEndUTC = endOfDayUTC(new Date(now.getTime() + 24 * 60 * 60 * 1000));
-  const yesterdayStartUTC = daysAgoUTC(1);
+  const todayStartUTC = startOfDayInZone(now, timeZone);
+  const tomorrowEndUTC = endOfDayInZone(now, timeZone, 1);
+  const yesterdayStartUTC = startOfDayInZone(now, timeZone, -1);
 
   // Emails from last 24 hours
   let emails: Array<{
+    message_id: string;
+    thread_id: string | null;
     sender: string;
     subject: string;
     snippet: string | null;
+    body_preview: string | null;
     received_at: string;
+    earlier_messages?: EarlierThreadMessage[];
   }> = [];
   if (connectedSources.gmail) {
     const { data } = await supabase
       .from('emails')
-      .select('sender, subject, snippet, received_at')
+      .select('message_id, thread_id, sender, subject, snippet, body_preview, received_at, security_verified')
       .eq('user_id', userId)
       .gte('received_at', yesterdayStartUTC.toISOString())
       .order('received_at', { ascending: false });
-    emails = data || [];
+    // Whole conversations, not just the newest reply; unscanned text stays out of the prompt
+    emails = await attachThreadHistory(userId, withholdUnverified(data || [], ['snippet', 'body_preview']));
   }
 
   // Calendar events for today and tomorrow
@@ -220,7 +247,8 @@ export async function generateBriefingForUser(
     end_time: string;
     is_all_day: boolean;
     location: string | null;
-    attendees: unknown[];
+    attendees: CalendarAttendee[];
+    self_response_status: ResponseStatus;
     organizer: string | null;
     has_conflict: boolean;
     conflict_with: string[];
@@ -228,12 +256,13 @@ export async function generateBriefingForUser(
   if (connectedSources.calendar) {
     const { data } = await supabase
       .from('calendar_events')
-      .select('event_id, title, description, start_time, end_time, is_all_day, location, attendees, organizer, has_conflict, conflict_with')
+      .select('event_id, title, description, start_time, end_time, is_all_day, location, attendees, self_response_status, organizer, has_conflict, conflict_with, security_verified')
       .eq('user_id', userId)
+      .eq('focus_hold', false)   // Focus holds aren't meetings
       .lte('start_time', tomorrowEndUTC.toISOString())
       .gte('end_time', todayStartUTC.toISOString())
       .order('start_time', { ascending: true });
-    events = data || [];
+    events = withholdUnverified(data || [], ['description']).map((e) => ({ ...e, attendees: parseAttendees(e.attendees) }));
   }
 
   // Recent documents
@@ -252,25 +281,34 @@ export async function generateBriefingForUser(
     documents = data || [];
   }
 
-  // 5. Build prompt and call Gemini
-  const prompt = buildBriefingPrompt(emails, events, documents, connectedSources);
+  // 5. Build prompt and call the LLM
+  const prompt = buildBriefingPrompt(emails, events, documents, connectedSources, undefined, timeZone);
 
-  let content: Record<string, unknown>;
+  let content: BriefingContent;
   try {
-    const responseText = await callGeminiJSON(prompt);
-    content = JSON.parse(responseText);
+    ({ content } = await generateStructured(
+      llm,
+      prompt,
+      BRIEFING_SCHEMA,
+      () => buildFallbackBriefing({
+        emailCount: emails.length,
+        eventCount: events.length,
+        conflictCount: events.filter((e) => e.has_conflict).length,
+        documentCount: documents.length,
+      }),
+      'Briefing'
+    ));
   } catch (error) {
-    console.error(`[Briefing] Gemini error for ${userId}:`, error);
+    console.error(`[Briefing] ${llm.name} error for ${userId}:`, error);
     return { userId, success: false, error: error instanceof Error ? error.message : 'LLM error' };
   }
 
   // 6. UPSERT into briefings table
-  const todayUTC = getCurrentUTCDate();
   const { data: briefing, error } = await supabase
     .from('briefings')
     .upsert({
       user_id: userId,
-      briefing_date: todayUTC,
+      briefing_date: today,
       content,
       generated_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -310,10 +348,11 @@ export async function generateCalendarInsightsForUser(
     return { userId, success: true, insightsGenerated: false };
   }
 
-  // 2. Check if Gemini is configured
-  if (!isGeminiConfigured()) {
-    console.warn(`[Insights] GEMINI_API_KEY not configured, skipping for ${userId}`);
-    return { userId, success: false, error: 'GEMINI_API_KEY not configured' };
+  // 2. Check the user's LLM provider is configured
+  const llm = await getLlmClientForUser(userId, 'calendar_analysis');
+  if (!llm) {
+    console.warn(`[Insights] LLM provider not configured, skipping for ${userId}`);
+    return { userId, success: false, error: 'LLM provider not configured' };
   }
 
   // 3. Fetch events in analysis window (7 days past, 14 days future)
@@ -333,8 +372,8 @@ export async function generateCalendarInsightsForUser(
     return { userId, success: true, insightsGenerated: false };
   }
 
-  // 4. Map to CalendarEvent format
-  const calendarEvents: CalendarEvent[] = events.map((e) => ({
+  // 4. Map to CalendarEvent format (focus holds are protected focus time, not meetings)
+  const calendarEvents: CalendarEvent[] = withholdUnverified(events, ['description']).filter((e) => !e.focus_hold).map((e) => ({
     event_id: e.event_id,
     title: e.title,
     description: e.description,
@@ -342,33 +381,45 @@ export async function generateCalendarInsightsForUser(
     end_time: e.end_time,
     is_all_day: e.is_all_day,
     location: e.location,
-    attendees: e.attendees as unknown[],
+    attendees: parseAttendees(e.attendees),
+    self_response_status: e.self_response_status,
     organizer: e.organizer,
+    recurring_event_id: e.recurring_event_id,
     has_conflict: e.has_conflict,
     conflict_with: e.conflict_with || [],
   }));
 
-  // 5. Get conflict details and focus blocks
+  // 5. Get conflict details, focus blocks and the recurring meeting audit
+  const preferences = await getUserPreferences(userId);
   const conflicts = getConflictDetails(calendarEvents);
-  const focusBlocks = identifyFocusBlocks(calendarEvents, new Date());
+  const focusBlocks = identifyFocusBlocks(calendarEvents, new Date(), toWorkSchedule(preferences));
+  const recurringSeries = await getRecurringMeetingAudit(userId);
 
-  // 6. Build prompt and call Gemini
-  const prompt = buildCalendarAnalysisPrompt(calendarEvents, conflicts, focusBlocks);
+  // 6. Build prompt and call the LLM
+  const prompt = buildCalendarAnalysisPrompt(calendarEvents, conflicts, focusBlocks, undefined, preferences.timeZone, recurringSeries);
 
-  let content: Record<string, unknown>;
+  let content: CalendarAnalysisContent;
   try {
-    const responseText = await callGeminiJSON(prompt);
-    content = JSON.parse(responseText);
+    ({ content } = await generateStructured(
+      llm,
+      prompt,
+      CALENDAR_ANALYSIS_SCHEMA,
+      () => buildFallbackCalendarAnalysis({
+        events: calendarEvents,
+        conflictCount: conflicts.length,
+        focusHours: focusBlocks.reduce((sum, b) => sum + b.durationHours, 0),
+      }),
+      'Insights'
+    ));
   } catch (error) {
-    console.error(`[Insights] Gemini error for ${userId}:`, error);
+    console.error(`[Insights] ${llm.name} error for ${userId}:`, error);
     return { userId, success: false, error: error instanceof Error ? error.message : 'LLM error' };
   }
 
   // 7. Extract metrics from response
-  const metrics = (content.metrics || {}) as Record<string, number>;
-  const conflictsCount = metrics.conflictCount ?? conflicts.length;
-  const focusTimeHours = metrics.focusHoursAvailable ?? focusBlocks.reduce((sum, b) => sum + b.durationHours, 0);
-  const meetingHours = metrics.meetingHoursTotal ?? 0;
+  const conflictsCount = content.metrics.conflictCount;
+  const focusTimeHours = content.metrics.focusHoursAvailable;
+  const meetingHours = content.metrics.meetingHoursTotal;
 
   // 8. UPSERT into calendar_insights table
   const { error: upsertError } = await supabase
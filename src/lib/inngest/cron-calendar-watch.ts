@@ -0,0 +1,92 @@
+/**
+ * EmergentOS - Calendar Watch Renewal Cron
+ *
+ * Keeps a Google Calendar push channel open on every synced calendar of each
+ * connection. Channels that are missing, expiring, or pointing at an old
+ * webhook URL are replaced, and channels on calendars no longer synced are
+ * stopped (see renewCalendarWatches).
+ */
+
+import { inngest } from '../inngest';
+import { supabase } from '../supabase';
+import { getCalendarWebhookUrl, getDueWatches, renewCalendarWatches } from '../calendar-watch';
+import { CALENDAR_WATCH_RENEWAL_CRON, CALENDAR_WATCH_RENEW_BEFORE_HOURS } from '../constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface WatchRenewalResult {
+  connectionId: string;
+  renewed: boolean;
+  opened?: number;
+  error?: string;
+}
+
+function getRenewBefore(): number {
+  return Date.now() + CALENDAR_WATCH_RENEW_BEFORE_HOURS * 60 * 60 * 1000;
+}
+
+// ============================================================================
+// Renewal Cron Function
+// ============================================================================
+
+export const renewCalendarWatchesCron = inngest.createFunction(
+  {
+    id: 'renew-calendar-watches-cron',
+    name: 'Calendar Watch Channel Renewal',
+  },
+  { cron: CALENDAR_WATCH_RENEWAL_CRON },  // Every 6 hours
+  async ({ step }) => {
+    const address = getCalendarWebhookUrl();
+    if (!address) {
+      console.log('[Calendar Watch Cron] CALENDAR_WEBHOOK_URL not configured, push notifications disabled');
+      return { skipped: true, renewed: 0 };
+    }
+
+    // Connections with a channel missing, expiring soon, on another address, or on a deselected calendar
+    const dueConnections = await step.run('get-due-connections', async () => {
+      const { data, error } = await supabase
+        .from('connections')
+        .select('id, connection_id, metadata')
+        .eq('provider', 'calendar')
+        .eq('status', 'connected');
+
+      if (error) {
+        throw new Error(`Failed to fetch calendar connections: ${error.message}`);
+      }
+
+      return (data || []).filter((connection) => {
+        const due = getDueWatches(connection.metadata, address, getRenewBefore());
+        return due.calendarIds.length > 0 || due.stale.length > 0;
+      });
+    });
+
+    console.log(`[Calendar Watch Cron] ${dueConnections.length} channels to renew`);
+
+    const results: WatchRenewalResult[] = [];
+
+    for (const connection of dueConnections) {
+      const result = await step.run(`renew-${connection.id}`, async (): Promise<WatchRenewalResult> => {
+        try {
+          const opened = await renewCalendarWatches(connection, address, getRenewBefore());
+          return { connectionId: connection.id, renewed: true, opened: opened.length };
+        } catch (error) {
+          console.error(`[Calendar Watch Cron] Renewal failed for connection ${connection.id}:`, error);
+          return {
+            connectionId: connection.id,
+            renewed: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+        }
+      });
+
+      results.push(result);
+    }
+
+    const renewed = results.filter((r) => r.renewed).length;
+    console.log(`[Calendar Watch Cron] Complete - renewed: ${renewed}/${results.length}`);
+
+    return { skipped: false, renewed, results };
+  }
+);
@@ -143,7 +143,23 @@ export const cleanupOldDataCron = inngest.createFunction(
       }
     });
 
-    const totalDeleted = emailsDeleted + eventsDeleted + docsDeleted + briefingsDeleted + syncJobsDeleted + orphanedDeleted;
+    // Step 7: Delete expired LLM response cache entries (the llm_usage ledger is kept for cost reporting)
+    const cacheEntriesDeleted = await step.run('cleanup-llm-response-cache', async () => {
+      const { count, error } = await supabase
+        .from('llm_response_cache')
+        .delete({ count: 'exact' })
+        .lt('expires_at', new Date().toISOString());
+
+      if (error) {
+        console.error('[Cleanup] Error deleting LLM response cache:', error);
+        return 0;
+      }
+
+      console.log(`[Cleanup] Deleted ${count || 0} expired LLM cache entries`);
+      return count || 0;
+    });
+
+    const totalDeleted = emailsDeleted + eventsDeleted + docsDeleted + briefingsDeleted + syncJobsDeleted + orphanedDeleted + cacheEntriesDeleted;
 
     console.log(`[Cleanup Cron] Complete - Total deleted: ${totalDeleted}`);
 
@@ -154,6 +170,7 @@ export const cleanupOldDataCron = inngest.createFunction(
       briefingsDeleted,
       syncJobsDeleted,
       orphanedDeleted,
+      cacheEntriesDeleted,
       totalDeleted,
     };
   }
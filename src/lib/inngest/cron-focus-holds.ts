@@ -0,0 +1,94 @@
+/**
+ * EmergentOS - Focus Hold Reconcile
+ *
+ * Keeps focus holds in line with the user's calendar. The per-user function
+ * runs after a calendar sync that changed events, after the focus policy is
+ * saved, and daily from the cron for users with auto-protect on or active
+ * holds (so the policy books the newest day of the week ahead).
+ */
+
+import { inngest } from '../inngest';
+import { supabase } from '../supabase';
+import { reconcileFocusHolds } from '../focus-holds';
+import { FOCUS_HOLD_CRON } from '../constants';
+
+// ============================================================================
+// Fan-Out Cron Function
+// ============================================================================
+
+export const focusHoldsCron = inngest.createFunction(
+  {
+    id: 'focus-holds-cron',
+    name: 'Focus Hold Fan-Out',
+  },
+  { cron: FOCUS_HOLD_CRON },  // Daily at 4 AM UTC
+  async ({ step }) => {
+    const userIds = await step.run('get-focus-users', async () => {
+      const [policyUsers, holdUsers] = await Promise.all([
+        supabase
+          .from('user_profiles')
+          .select('user_id')
+          .eq('preferences->focusPolicy->>autoProtect', 'true'),
+        supabase
+          .from('focus_holds')
+          .select('user_id')
+          .eq('status', 'active')
+          .gt('end_time', new Date().toISOString()),
+      ]);
+
+      if (policyUsers.error) {
+        throw new Error(`Failed to fetch auto-protect users: ${policyUsers.error.message}`);
+      }
+      if (holdUsers.error) {
+        throw new Error(`Failed to fetch users with focus holds: ${holdUsers.error.message}`);
+      }
+
+      const rows = [...(policyUsers.data || []), ...(holdUsers.data || [])] as Array<{ user_id: string }>;
+      return [...new Set(rows.map((row) => row.user_id))];
+    });
+
+    console.log(`[Focus Holds Cron] Reconciling focus holds for ${userIds.length} users`);
+
+    if (userIds.length > 0) {
+      await step.sendEvent('fan-out', userIds.map((userId) => ({
+        name: 'calendar/focus-holds.reconcile' as const,
+        data: { userId, reason: 'scheduled' as const },
+      })));
+    }
+
+    return { users: userIds.length };
+  }
+);
+
+// ============================================================================
+// Per-User Reconcile
+// ============================================================================
+
+export const reconcileUserFocusHolds = inngest.createFunction(
+  {
+    id: 'reconcile-user-focus-holds',
+    name: 'Reconcile Focus Holds',
+    retries: 2,
+    // Moving a hold re-syncs the calendar; one reconcile per user at a time
+    concurrency: {
+      key: 'event.data.userId',
+      limit: 1,
+    },
+  },
+  { event: 'calendar/focus-holds.reconcile' },
+  async ({ event, step }) => {
+    const { userId, reason } = event.data;
+
+    const result = await step.run('reconcile', async () => {
+      return reconcileFocusHolds(userId);
+    });
+
+    if (result.moved + result.released + result.booked > 0) {
+      console.log(
+        `[Focus Holds] User ${userId} (${reason}): moved ${result.moved}, released ${result.released}, booked ${result.booked} of ${result.checked} holds`
+      );
+    }
+
+    return result;
+  }
+);
@@ -0,0 +1,124 @@
+/**
+ * EmergentOS - Re-Embedding Cron
+ *
+ * Migrates stored embeddings to the configured embedding provider after its
+ * model (or dimension) changes. The cron finds users with embeddings from
+ * another vector space and fans out one embeddings/reembed.requested event per
+ * user; the per-user function re-embeds the stored content in chunked steps.
+ * Until a row is migrated, match_embeddings leaves it out of semantic search
+ * (keyword search still finds it), so vector spaces are never mixed.
+ */
+
+import { inngest } from '../inngest';
+import { supabase } from '../supabase';
+import {
+  countOutdatedEmbeddings,
+  getEmbeddingProvider,
+  reembedOutdatedEmbeddings,
+  type ReembedChunkResult,
+} from '../embeddings';
+import {
+  EMBEDDING_REEMBED_CRON,
+  EMBEDDING_REEMBED_MAX_CHUNKS,
+  EMBEDDING_SYNC_CHUNK_SIZE,
+} from '../constants';
+
+// ============================================================================
+// Fan-Out Cron Function
+// ============================================================================
+
+export const reembedCron = inngest.createFunction(
+  {
+    id: 'reembed-cron',
+    name: 'Re-Embedding Fan-Out',
+  },
+  { cron: EMBEDDING_REEMBED_CRON },  // Hourly
+  async ({ step }) => {
+    const provider = getEmbeddingProvider();
+    if (!provider) {
+      console.log('[Reembed Cron] No embedding provider configured, skipping');
+      return { skipped: true, users: 0 };
+    }
+
+    const userIds = await step.run('get-outdated-users', async () => {
+      const { data, error } = await supabase.rpc('users_with_outdated_embeddings', {
+        current_model: provider.model,
+        current_dimension: provider.dimension,
+      });
+
+      if (error) {
+        throw new Error(`Failed to find outdated embeddings: ${error.message}`);
+      }
+
+      return ((data || []) as Array<{ user_id: string }>).map((row) => row.user_id);
+    });
+
+    console.log(`[Reembed Cron] ${userIds.length} users have embeddings outside ${provider.model} (${provider.dimension})`);
+
+    if (userIds.length > 0) {
+      await step.sendEvent('fan-out', userIds.map((userId) => ({
+        name: 'embeddings/reembed.requested' as const,
+        data: { userId, model: provider.model, dimension: provider.dimension },
+      })));
+    }
+
+    return { users: userIds.length };
+  }
+);
+
+// ============================================================================
+// Per-User Re-Embedding
+// ============================================================================
+
+export const reembedUserEmbeddings = inngest.createFunction(
+  {
+    id: 'reembed-user-embeddings',
+    name: 'Re-Embed User Corpus',
+    retries: 2,
+    // One migration per user at a time; hourly ticks don't stack up
+    concurrency: {
+      key: 'event.data.userId',
+      limit: 1,
+    },
+  },
+  { event: 'embeddings/reembed.requested' },
+  async ({ event, step }) => {
+    const { userId, model, dimension } = event.data;
+
+    const provider = getEmbeddingProvider();
+    if (!provider || provider.model !== model || provider.dimension !== dimension) {
+      // Configuration changed since the event was sent; the next cron run targets the new model
+      console.log(`[Reembed] Provider no longer ${model} (${dimension}), skipping user ${userId}`);
+      return { skipped: true, reembedded: 0 };
+    }
+
+    // STEP 1: SIZE THE BACKLOG
+    const outdated = await step.run('count-outdated', async () => {
+      return countOutdatedEmbeddings(userId, provider);
+    });
+
+    if (outdated === 0) {
+      return { reembedded: 0 };
+    }
+
+    // STEP 2: RE-EMBED IN CHUNKS (cursor by id, so failed rows don't stall the run)
+    const chunks = Math.min(Math.ceil(outdated / EMBEDDING_SYNC_CHUNK_SIZE), EMBEDDING_REEMBED_MAX_CHUNKS);
+    let afterId: string | null = null;
+    let reembedded = 0;
+
+    for (let index = 0; index < chunks; index++) {
+      const cursor = afterId;
+      const result: ReembedChunkResult = await step.run(`reembed-${index}`, async () => {
+        return reembedOutdatedEmbeddings(userId, cursor, EMBEDDING_SYNC_CHUNK_SIZE, provider);
+      });
+
+      reembedded += result.reembedded;
+      if (!result.lastId) break;
+      afterId = result.lastId;
+    }
+
+    console.log(`[Reembed] User ${userId}: re-embedded ${reembedded} of ${outdated} into ${model} (${dimension})`);
+
+    return { outdated, reembedded };
+  }
+);
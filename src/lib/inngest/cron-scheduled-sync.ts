@@ -0,0 +1,253 @@
+/**
+ * EmergentOS - Scheduled Sync Cron
+ *
+ * Syncs every connected user server-side every 10 minutes, so data stays
+ * fresh (and the morning briefing isn't built on stale data) without an open
+ * browser tab. The cron fans out one sync/scheduled.requested event per user;
+ * the per-user function queues <provider>/sync.requested jobs with trigger 'scheduled'
+ * ('date_boundary' in the first run after the user's local midnight), waits
+ * for them, and regenerates the briefing when data changed.
+ */
+
+import { inngest } from '../inngest';
+import { supabase } from '../supabase';
+import { getZonedParts } from '../time';
+import { getUserTimeZones } from '../preferences';
+import { SYNC_STAGES, type SyncJobProvider, type SyncJobStatus } from '../sync-jobs';
+import { generateBriefingForUser, generateCalendarInsightsForUser } from './cron-briefing';
+import {
+  SCHEDULED_SYNC_CRON,
+  SCHEDULED_SYNC_INTERVAL_MINUTES,
+  SCHEDULED_SYNC_USER_THROTTLE_PERIOD,
+  SCHEDULED_SYNC_MIN_GAP_MINUTES,
+  SCHEDULED_SYNC_IN_FLIGHT_MINUTES,
+  SCHEDULED_SYNC_POLL_INTERVAL,
+  SCHEDULED_SYNC_MAX_POLLS,
+} from '../constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface QueuedJob {
+  provider: SyncJobProvider;
+  connectionId: string;
+  jobId: string;
+  idempotencyKey: string;
+}
+
+interface JobOutcome {
+  provider: SyncJobProvider;
+  status: SyncJobStatus;
+  dataChanged: boolean;
+  timeChanged: boolean;
+}
+
+// ============================================================================
+// Fan-Out Cron Function
+// ============================================================================
+
+export const scheduledSyncCron = inngest.createFunction(
+  {
+    id: 'scheduled-sync-cron',
+    name: 'Scheduled Sync Fan-Out',
+  },
+  { cron: SCHEDULED_SYNC_CRON },  // Every 10 minutes
+  async ({ step }) => {
+    const users = await step.run('get-connected-users', async () => {
+      const { data, error } = await supabase
+        .from('connections')
+        .select('user_id')
+        .eq('status', 'connected');
+
+      if (error) {
+        throw new Error(`Failed to fetch connections: ${error.message}`);
+      }
+
+      const userIds = Array.from(new Set((data || []).map((c) => c.user_id as string)));
+      const timeZones = await getUserTimeZones(userIds);
+
+      // Round down to the tick so step retries produce the same idempotency keys
+      const intervalMs = SCHEDULED_SYNC_INTERVAL_MINUTES * 60 * 1000;
+      const now = new Date(Math.floor(Date.now() / intervalMs) * intervalMs);
+
+      return userIds.map((userId) => {
+        // First tick of the user's local day re-analyzes like the client's date boundary did
+        const local = getZonedParts(now, timeZones.get(userId)!);
+        const isDateBoundary = local.hour === 0 && local.minute < SCHEDULED_SYNC_INTERVAL_MINUTES;
+
+        return {
+          userId,
+          trigger: isDateBoundary ? 'date_boundary' as const : 'scheduled' as const,
+          scheduledAt: now.toISOString(),
+        };
+      });
+    });
+
+    console.log(`[Scheduled Sync] Fanning out to ${users.length} users`);
+
+    if (users.length > 0) {
+      await step.sendEvent('fan-out', users.map((data) => ({
+        name: 'sync/scheduled.requested' as const,
+        data,
+      })));
+    }
+
+    return { users: users.length };
+  }
+);
+
+// ============================================================================
+// Per-User Scheduled Sync
+// ============================================================================
+
+export const runScheduledSync = inngest.createFunction(
+  {
+    id: 'scheduled-sync-user',
+    name: 'Scheduled Sync (per user)',
+    retries: 1,
+    // One scheduled run per user per interval, however many ticks pile up
+    throttle: {
+      key: 'event.data.userId',
+      limit: 1,
+      period: SCHEDULED_SYNC_USER_THROTTLE_PERIOD,
+    },
+  },
+  { event: 'sync/scheduled.requested' },
+  async ({ event, step }) => {
+    const { userId, trigger, scheduledAt } = event.data;
+
+    // STEP 1: QUEUE JOBS for connected providers that aren't already syncing
+    const jobs = await step.run('queue-sync-jobs', async (): Promise<QueuedJob[]> => {
+      const { data: connections, error } = await supabase
+        .from('connections')
+        .select('id, provider, last_sync_at')
+        .eq('user_id', userId)
+        .eq('status', 'connected');
+
+      if (error) {
+        throw new Error(`Failed to fetch connections: ${error.message}`);
+      }
+
+      const { data: inFlight } = await supabase
+        .from('sync_jobs')
+        .select('provider')
+        .eq('user_id', userId)
+        .in('status', SYNC_STAGES)
+        .gte('started_at', new Date(Date.now() - SCHEDULED_SYNC_IN_FLIGHT_MINUTES * 60 * 1000).toISOString());
+
+      const syncing = new Set((inFlight || []).map((j) => j.provider as string));
+      const recentCutoff = Date.now() - SCHEDULED_SYNC_MIN_GAP_MINUTES * 60 * 1000;
+      const queued: QueuedJob[] = [];
+
+      for (const connection of connections || []) {
+        const provider = connection.provider as SyncJobProvider;
+
+        if (syncing.has(provider)) {
+          console.log(`[Scheduled Sync] ${provider} already syncing for user ${userId}, skipping`);
+          continue;
+        }
+
+        // A manual or push sync just ran; the date boundary re-analysis always runs
+        if (
+          trigger === 'scheduled' &&
+          connection.last_sync_at &&
+          new Date(connection.last_sync_at).getTime() > recentCutoff
+        ) {
+          continue;
+        }
+
+        const idempotencyKey = `${trigger}-${userId}-${provider}-${scheduledAt}`;
+        const jobId = crypto.randomUUID();
+
+        const { error: jobError } = await supabase.from('sync_jobs').insert({
+          id: jobId,
+          user_id: userId,
+          provider,
+          trigger,
+          idempotency_key: idempotencyKey,
+          status: 'pending',
+        });
+
+        if (jobError) {
+          // Already queued for this tick (step retry)
+          if (jobError.code === '23505') continue;
+          throw new Error(`Failed to create sync job: ${jobError.message}`);
+        }
+
+        queued.push({ provider, connectionId: connection.id, jobId, idempotencyKey });
+      }
+
+      return queued;
+    });
+
+    if (jobs.length === 0) {
+      return { queued: 0 };
+    }
+
+    // STEP 2: SEND SYNC EVENTS
+    await step.sendEvent('send-sync-events', jobs.map((job) => ({
+      name: `${job.provider}/sync.requested` as const,
+      data: {
+        userId,
+        connectionId: job.connectionId,
+        trigger,
+        idempotencyKey: job.idempotencyKey,
+        jobId: job.jobId,
+      },
+    })));
+
+    console.log(`[Scheduled Sync] Queued ${jobs.map((j) => j.provider).join(', ')} (${trigger}) for user ${userId}`);
+
+    // STEP 3: WAIT FOR THE JOBS TO FINISH
+    let outcomes: JobOutcome[] = [];
+
+    for (let poll = 1; poll <= SCHEDULED_SYNC_MAX_POLLS; poll++) {
+      await step.sleep(`wait-${poll}`, SCHEDULED_SYNC_POLL_INTERVAL);
+
+      outcomes = await step.run(`check-jobs-${poll}`, async (): Promise<JobOutcome[]> => {
+        const { data } = await supabase
+          .from('sync_jobs')
+          .select('provider, status, items_inserted, items_updated, items_deleted, time_changed')
+          .in('id', jobs.map((j) => j.jobId));
+
+        return (data || []).map((job) => ({
+          provider: job.provider as SyncJobProvider,
+          status: job.status as SyncJobStatus,
+          dataChanged: (job.items_inserted || 0) + (job.items_updated || 0) + (job.items_deleted || 0) > 0,
+          timeChanged: job.time_changed || false,
+        }));
+      });
+
+      if (!outcomes.some((o) => SYNC_STAGES.includes(o.status))) break;
+    }
+
+    // Jobs still running after the last check finish on their own; their changes
+    // are picked up by the next scheduled run
+    const finished = outcomes.filter((o) => o.status === 'complete' || o.status === 'partial');
+    const stillRunning = outcomes.filter((o) => SYNC_STAGES.includes(o.status)).length;
+
+    // STEP 4: REGENERATE BRIEFING (same rules as a client-driven sync)
+    const anyDataChanged = finished.some((o) => o.dataChanged);
+    const anyTimeChanged = finished.some((o) => o.timeChanged);
+    const calendarTimeChanged = finished.some((o) => o.provider === 'calendar' && o.timeChanged);
+    const shouldRegenerate = trigger === 'date_boundary' || anyDataChanged || anyTimeChanged;
+
+    let briefingRegenerated = false;
+    if (shouldRegenerate && finished.length > 0) {
+      briefingRegenerated = await step.run('regenerate-briefing', async () => {
+        // Calendar analysis only runs in the calendar sync when its own data changed
+        if (!calendarTimeChanged && (anyDataChanged || anyTimeChanged)) {
+          await generateCalendarInsightsForUser({ userId });
+        }
+
+        const result = await generateBriefingForUser({ userId });
+        return result.success;
+      });
+    }
+
+    console.log(`[Scheduled Sync] Complete for user ${userId} - finished: ${finished.length}/${jobs.length}, still running: ${stillRunning}, briefing regenerated: ${briefingRegenerated}`);
+
+    return { queued: jobs.length, finished: finished.length, stillRunning, briefingRegenerated };
+  }
+);
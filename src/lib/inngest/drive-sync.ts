@@ -6,11 +6,31 @@
 
 import { inngest } from '../inngest';
 import { supabase } from '../supabase';
-import { nango, PROVIDER_CONFIG_KEYS } from '../nango';
+import { PROVIDER_CONFIG_KEYS } from '../nango';
+import { nangoProxy } from '../nango-proxy';
 import { daysAgoUTC } from '../time';
 import { classifyError, formatErrorMessage } from '../errors';
-import { generateAndStoreEmbeddings, prepareDriveEmbeddings } from '../embeddings';
-import { DRIVE_INITIAL_DAYS } from '../constants';
+import { markSyncJobFailed } from '../sync-jobs';
+import { diffByContentHash, getChangedIds, hasChanges, hashContent, toChangeSet } from '../sync-diff';
+import {
+  isItemGone,
+  recordItemFailures,
+  toItemFailure,
+  upsertIsolatingFailures,
+  type ItemRetryResult,
+  type SyncItemFailure,
+} from '../sync-item-failures';
+import { planEmbeddingChunks, updateSourceEmbeddings } from '../embeddings';
+import { scanItems, summarizeDlpResults } from '../dlp/scanner';
+import { tokenizeItems, type TokenizedItem } from '../dlp/vault';
+import {
+  extractFileContent,
+  isExtractable,
+  needsExtraction,
+  type ExtractableFile,
+  type StoredExtraction,
+} from '../drive-content';
+import { DRIVE_CONTENT_PREVIEW_LENGTH, DRIVE_EXTRACT_BATCH_SIZE, DRIVE_INITIAL_DAYS } from '../constants';
 
 // ============================================================================
 // Types
@@ -23,6 +43,7 @@ interface GoogleDriveFile {
   modifiedTime: string;
   webViewLink?: string;
   md5Checksum?: string;
+  size?: string;  // Bytes, as a string; absent for Google-native files
   parents?: string[];
 }
 
@@ -34,10 +55,16 @@ interface ParsedDocument {
   modified_at: string | null;
   web_view_link: string | null;
   md5_checksum: string | null;
-  content_preview: string | null;
-  security_verified: boolean;
+  size_bytes: number | null;
 }
 
+const DRIVE_FILE_FIELDS = 'id,name,mimeType,modifiedTime,webViewLink,md5Checksum,size,parents';
+
+/** Fields whose change counts as an edit (content changes show up in md5_checksum/modified_at) */
+const DOCUMENT_HASH_FIELDS: ReadonlyArray<keyof ParsedDocument> = [
+  'name', 'mime_type', 'folder_path', 'modified_at', 'web_view_link', 'md5_checksum', 'size_bytes',
+];
+
 // ============================================================================
 // Drive Sync Function
 // ============================================================================
@@ -47,6 +74,10 @@ export const processDriveSync = inngest.createFunction(
     id: 'process-drive-sync',
     name: 'Process Drive Sync',
     retries: 3,
+    // Record the failure once retries are exhausted so the job doesn't stay stuck mid-stage
+    onFailure: async ({ event, error }) => {
+      await markSyncJobFailed(event.data.event.data.jobId, error);
+    },
   },
   { event: 'drive/sync.requested' },
   async ({ event, step }) => {
@@ -62,7 +93,7 @@ export const processDriveSync = inngest.createFunction(
         .from('sync_jobs')
         .select('id, status')
         .eq('idempotency_key', idempotencyKey)
-        .eq('status', 'complete')
+        .in('status', ['complete', 'partial'])
         .single();
 
       return data;
@@ -130,14 +161,14 @@ export const processDriveSync = inngest.createFunction(
         do {
           const params: Record<string, string | number> = {
             q: query,
-            fields: 'nextPageToken,files(id,name,mimeType,modifiedTime,webViewLink,md5Checksum,parents)',
+            fields: `nextPageToken,files(${DRIVE_FILE_FIELDS})`,
             pageSize: 1000,
           };
           if (pageToken) {
             params.pageToken = pageToken;
           }
 
-          const response = await nango.proxy({
+          const response = await nangoProxy<{ files?: GoogleDriveFile[]; nextPageToken?: string }>({
             method: 'GET',
             endpoint: '/drive/v3/files',
             providerConfigKey: PROVIDER_CONFIG_KEYS.drive,
@@ -170,6 +201,7 @@ export const processDriveSync = inngest.createFunction(
               status: 'error',
               error_message: formatErrorMessage(error),
               error_retryable: false,
+              error_category: 'auth',
               completed_at: new Date().toISOString(),
             })
             .eq('id', jobId);
@@ -185,7 +217,7 @@ export const processDriveSync = inngest.createFunction(
     // STEP 6: PARSE FILE METADATA
     const parsedDocuments = allFiles.map(parseFile);
 
-    // STEP 7-8: UPDATE STATUS → 'securing' (DLP placeholder)
+    // STEP 7: UPDATE STATUS → 'securing'
     await step.run('update-status-securing', async () => {
       await supabase
         .from('sync_jobs')
@@ -193,6 +225,22 @@ export const processDriveSync = inngest.createFunction(
         .eq('id', jobId);
     });
 
+    // STEP 8: DLP SCAN (file names; content is scanned when extracted)
+    const tokenizedDocuments = await step.run('dlp-scan', async () => {
+      const scanInputs = parsedDocuments.map((d) => ({
+        id: d.document_id,
+        fields: { name: d.name },
+      }));
+      const results = await scanItems(scanInputs);
+
+      const summary = summarizeDlpResults(results);
+      console.log(`[Drive Sync] DLP (${summary.scanner}): clean=${summary.clean}, flagged=${summary.flagged}, errored=${summary.errored}, findings=${JSON.stringify(summary.findingsByType)}`);
+
+      return tokenizeItems(userId, scanInputs, results, []);
+    });
+
+    const tokenizedById = new Map(tokenizedDocuments.map((t) => [t.id, t]));
+
     // STEP 9: UPDATE STATUS → 'persisting'
     await step.run('update-status-persisting', async () => {
       await supabase
@@ -201,79 +249,97 @@ export const processDriveSync = inngest.createFunction(
         .eq('id', jobId);
     });
 
-    // STEP 10-12: COUNT BEFORE, PERSIST, COUNT AFTER
-    const { itemsInserted, dataChanged } = await step.run('persist-documents', async () => {
-      // Count before
-      const { count: beforeCount } = await supabase
-        .from('drive_documents')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+    // STEP 10-12: DIFF BY CONTENT HASH, PERSIST CHANGED ROWS
+    const { changes, persistFailures } = await step.run('persist-documents', async () => {
+      const documentsWithUser = await toDocumentRows(userId, parsedDocuments, tokenizedById);
+      const diff = await diffByContentHash('drive_documents', userId, 'document_id', documentsWithUser, (row) => row.document_id);
 
-      // Add user_id to each document and UPSERT
-      const documentsWithUser = parsedDocuments.map((d) => ({
-        ...d,
-        user_id: userId,
-      }));
+      // Only new and edited rows are written (rows that fail are recorded for retry)
+      const failures = await upsertIsolatingFailures(
+        'drive_documents',
+        diff.changedRows,
+        'user_id,document_id',
+        (row) => row.document_id
+      );
 
-      if (documentsWithUser.length > 0) {
-        // UPSERT in batches
-        const upsertBatchSize = 100;
-        for (let i = 0; i < documentsWithUser.length; i += upsertBatchSize) {
-          const batch = documentsWithUser.slice(i, i + upsertBatchSize);
-          const { error } = await supabase
-            .from('drive_documents')
-            .upsert(batch, { onConflict: 'user_id,document_id' });
-
-          if (error) {
-            console.error('[Drive Sync] UPSERT error:', error);
-          }
+      await applyNameVerdicts(userId, diff.changedRows, tokenizedById);
+
+      return {
+        changes: toChangeSet(diff, failures),
+        persistFailures: failures,
+      };
+    });
+
+    const dataChanged = hasChanges(changes);
+
+    console.log(`[Drive Sync] Items inserted: ${changes.inserted.length}, updated: ${changes.updated.length}, unchanged: ${changes.unchanged.length}, dataChanged: ${dataChanged}`);
+
+    // STEP 12b: PLAN CONTENT EXTRACTION (only files whose md5Checksum/modifiedTime changed)
+    // Files whose metadata failed to persist are extracted when retried
+    const filesToExtract = await step.run('plan-extraction', async () => {
+      const failedIds = new Set(persistFailures.map((f) => f.itemId));
+      const candidates = allFiles.filter((f) => !failedIds.has(f.id)).map(toExtractableFile);
+
+      const stored = new Map<string, StoredExtraction>();
+      const ids = candidates.map((c) => c.id);
+      for (let i = 0; i < ids.length; i += 500) {
+        const { data } = await supabase
+          .from('drive_documents')
+          .select('document_id, extraction_status, extracted_md5_checksum, extracted_modified_at')
+          .eq('user_id', userId)
+          .in('document_id', ids.slice(i, i + 500));
+
+        for (const row of data || []) {
+          stored.set(row.document_id, row);
         }
       }
 
-      // Count after
-      const { count: afterCount } = await supabase
-        .from('drive_documents')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+      return candidates.filter((c) => needsExtraction(c, stored.get(c.id) || null));
+    });
 
-      const inserted = Math.max(0, (afterCount || 0) - (beforeCount || 0));
+    console.log(`[Drive Sync] Extracting content for ${filesToExtract.length} of ${allFiles.length} files`);
 
-      return {
-        itemsInserted: inserted,
-        dataChanged: inserted > 0,
-      };
-    });
+    // STEP 12c: EXTRACT, SCAN AND PERSIST CONTENT (one step per batch to bound step size)
+    const extractedIds: string[] = [];
+    for (let i = 0; i < filesToExtract.length; i += DRIVE_EXTRACT_BATCH_SIZE) {
+      const batch = filesToExtract.slice(i, i + DRIVE_EXTRACT_BATCH_SIZE);
 
-    console.log(`[Drive Sync] Items inserted: ${itemsInserted}, dataChanged: ${dataChanged}`);
+      extractedIds.push(...await step.run(`extract-content-${i / DRIVE_EXTRACT_BATCH_SIZE}`, async () => {
+        const nameVerified = new Map(batch.map((file) => [file.id, tokenizedById.get(file.id)?.verified ?? false]));
+        return extractAndStoreContent(userId, connection.connection_id, batch, nameVerified);
+      }));
+    }
+
+    console.log(`[Drive Sync] Content extracted for ${extractedIds.length} files`);
 
-    // STEP 13: CONDITIONAL EMBEDDING GENERATION
-    const embeddingResult = await step.run('generate-embeddings', async () => {
+    // STEP 13: INCREMENTAL EMBEDDINGS (new/edited documents and freshly extracted content)
+    await step.run('update-status-embedding', async () => {
       await supabase
         .from('sync_jobs')
         .update({ status: 'embedding' })
         .eq('id', jobId);
+    });
 
-      // Skip if auto-sync with no data changes
-      if (trigger === 'auto' && !dataChanged) {
-        console.log('[Drive Sync] Skipping embeddings - no data changes on auto-sync');
-        return { inserted: 0, skipped: 0 };
-      }
-
-      // Fetch ALL documents for user to embed
-      const { data: allDocs } = await supabase
-        .from('drive_documents')
-        .select('document_id, name, mime_type, modified_at, content_preview')
-        .eq('user_id', userId);
+    // One step per chunk so a large backlog (initial sync) doesn't outlive a step
+    const changedIds = Array.from(new Set([...getChangedIds(changes), ...extractedIds]));
+    const embeddingChunks = planEmbeddingChunks(changedIds, changes.deleted);
+    const embeddingResult = { inserted: 0, skipped: 0, deleted: 0 };
 
-      if (!allDocs || allDocs.length === 0) {
-        return { inserted: 0, skipped: 0 };
-      }
+    if (embeddingChunks.length === 0) {
+      console.log(`[Drive Sync] Skipping embeddings - no content changes on ${trigger} sync`);
+    }
 
-      const inputs = prepareDriveEmbeddings(allDocs);
-      return generateAndStoreEmbeddings(userId, inputs);
-    });
+    for (const [index, chunk] of embeddingChunks.entries()) {
+      const result = await step.run(`generate-embeddings-${index}`, async () => {
+        // Also removes chunk embeddings left over when a document shrank
+        return updateSourceEmbeddings(userId, 'drive', chunk);
+      });
+      embeddingResult.inserted += result.inserted;
+      embeddingResult.skipped += result.skipped;
+      embeddingResult.deleted += result.deleted;
+    }
 
-    console.log(`[Drive Sync] Embeddings - inserted: ${embeddingResult.inserted}, skipped: ${embeddingResult.skipped}`);
+    console.log(`[Drive Sync] Embeddings - inserted: ${embeddingResult.inserted}, skipped: ${embeddingResult.skipped}, deleted: ${embeddingResult.deleted}`);
 
     // STEP 14: UPDATE CONNECTION last_sync_at
     await step.run('update-connection', async () => {
@@ -286,36 +352,228 @@ export const processDriveSync = inngest.createFunction(
         .eq('id', connectionId);
     });
 
-    // STEP 15: MARK JOB COMPLETE
+    // STEP 14b: RECORD FAILED ITEMS
+    const itemsFailed = await step.run('record-item-failures', async () => {
+      await recordItemFailures({ jobId, userId, provider: 'drive' }, persistFailures);
+      if (persistFailures.length > 0) {
+        console.warn(`[Drive Sync] ${persistFailures.length} file(s) failed, queued for retry`);
+      }
+      return persistFailures.length;
+    });
+
+    // STEP 15: MARK JOB COMPLETE (partial when items failed)
     await step.run('complete-job', async () => {
       await supabase
         .from('sync_jobs')
         .update({
-          status: 'complete',
+          status: itemsFailed > 0 ? 'partial' : 'complete',
           items_fetched: allFiles.length,
-          items_inserted: itemsInserted,
+          items_inserted: changes.inserted.length,
+          items_updated: changes.updated.length,
           items_deleted: 0,
+          items_unchanged: changes.unchanged.length,
+          items_failed: itemsFailed,
           completed_at: new Date().toISOString(),
         })
         .eq('id', jobId);
     });
 
+    if (itemsFailed > 0) {
+      await step.sendEvent('request-item-retry', {
+        name: 'sync/items.retry-requested',
+        data: { jobId, userId, provider: 'drive' },
+      });
+    }
+
     console.log(`[Drive Sync] Completed for user ${userId}`);
 
     return {
       success: true,
       itemsFetched: allFiles.length,
-      itemsInserted,
+      itemsInserted: changes.inserted.length,
+      itemsUpdated: changes.updated.length,
+      itemsUnchanged: changes.unchanged.length,
+      itemsFailed,
       dataChanged,
+      contentExtracted: extractedIds.length,
       embeddingsInserted: embeddingResult.inserted,
     };
   }
 );
 
+// ============================================================================
+// Failed-Item Retry
+// ============================================================================
+
+/**
+ * Refetch, store and extract individual files for retry-sync-items. Files
+ * deleted or trashed meanwhile count as resolved.
+ */
+export async function resyncDriveFiles(
+  userId: string,
+  nangoConnectionId: string,
+  fileIds: string[]
+): Promise<ItemRetryResult> {
+  const files: GoogleDriveFile[] = [];
+  const failures: SyncItemFailure[] = [];
+  const resolvedIds: string[] = [];
+
+  for (const fileId of fileIds) {
+    try {
+      const response = await nangoProxy<GoogleDriveFile & { trashed?: boolean }>({
+        method: 'GET',
+        endpoint: `/drive/v3/files/${fileId}`,
+        providerConfigKey: PROVIDER_CONFIG_KEYS.drive,
+        connectionId: nangoConnectionId,
+        params: { fields: `${DRIVE_FILE_FIELDS},trashed` },
+      });
+
+      if (response.data?.trashed) resolvedIds.push(fileId);
+      else files.push(response.data);
+    } catch (error) {
+      if (isItemGone(error)) resolvedIds.push(fileId);
+      else failures.push(toItemFailure(fileId, 'fetch', error));
+    }
+  }
+
+  const documents = files.map(parseFile);
+  const scanInputs = documents.map((d) => ({ id: d.document_id, fields: { name: d.name } }));
+  const tokenized = await tokenizeItems(userId, scanInputs, await scanItems(scanInputs), []);
+  const tokenizedById = new Map(tokenized.map((t) => [t.id, t]));
+
+  const rows = await toDocumentRows(userId, documents, tokenizedById);
+  const persistFailures = await upsertIsolatingFailures('drive_documents', rows, 'user_id,document_id', (row) => row.document_id);
+  await applyNameVerdicts(userId, rows, tokenizedById);
+  const failedIds = new Set(persistFailures.map((f) => f.itemId));
+  const storedFiles = files.filter((f) => !failedIds.has(f.id));
+
+  if (storedFiles.length > 0) {
+    const nameVerified = new Map(storedFiles.map((f) => [f.id, tokenizedById.get(f.id)?.verified ?? false]));
+    const toExtract = storedFiles.map(toExtractableFile).filter((f) => needsExtraction(f, null));
+    await extractAndStoreContent(userId, nangoConnectionId, toExtract, nameVerified);
+    await updateSourceEmbeddings(userId, 'drive', { embedIds: storedFiles.map((f) => f.id), deleteIds: [] });
+  }
+
+  return {
+    resolvedIds: [...resolvedIds, ...storedFiles.map((f) => f.id)],
+    failures: [...failures, ...persistFailures],
+  };
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Rows for drive_documents with the content hash of the file metadata and
+ * name verdict. security_verified is left out (see applyNameVerdicts).
+ */
+async function toDocumentRows(userId: string, documents: ParsedDocument[], tokenizedById: Map<string, TokenizedItem>) {
+  return Promise.all(documents.map(async (d) => ({
+    ...d,
+    user_id: userId,
+    content_hash: await hashContent(d, DOCUMENT_HASH_FIELDS, tokenizedById.get(d.document_id)?.verified ?? false),
+  })));
+}
+
+/**
+ * Write the file-name DLP verdict. Files with extractable content only ever
+ * have it cleared here: their verdict also covers the content, which a
+ * metadata change doesn't rescan. Extraction sets it from both.
+ */
+async function applyNameVerdicts(
+  userId: string,
+  documents: Array<{ document_id: string; mime_type: string }>,
+  tokenizedById: Map<string, TokenizedItem>
+): Promise<void> {
+  const unverifiedIds = documents
+    .filter((d) => !tokenizedById.get(d.document_id)?.verified)
+    .map((d) => d.document_id);
+  const verifiedIds = documents
+    .filter((d) => tokenizedById.get(d.document_id)?.verified && !isExtractable(d.mime_type))
+    .map((d) => d.document_id);
+
+  for (const [verified, ids] of [[false, unverifiedIds], [true, verifiedIds]] as const) {
+    for (let i = 0; i < ids.length; i += 200) {
+      const { error } = await supabase
+        .from('drive_documents')
+        .update({ security_verified: verified })
+        .eq('user_id', userId)
+        .in('document_id', ids.slice(i, i + 200));
+
+      if (error) {
+        console.error('[Drive Sync] Verdict update error:', error);
+      }
+    }
+  }
+}
+
+function toExtractableFile(file: GoogleDriveFile): ExtractableFile {
+  return {
+    id: file.id,
+    mimeType: file.mimeType,
+    modifiedTime: file.modifiedTime || null,
+    md5Checksum: file.md5Checksum || null,
+    size: file.size ? parseInt(file.size, 10) : null,
+  };
+}
+
+/**
+ * Extract, DLP scan and store the text of the given files.
+ * Returns the IDs of the files that now have content.
+ */
+async function extractAndStoreContent(
+  userId: string,
+  nangoConnectionId: string,
+  files: ExtractableFile[],
+  nameVerifiedById: Map<string, boolean>
+): Promise<string[]> {
+  const extracted = await Promise.all(
+    files.map(async (file) => ({ file, result: await extractFileContent(nangoConnectionId, file) }))
+  );
+
+  // DLP scan + tokenize extracted text before it is stored
+  const scanInputs = extracted.map(({ file, result }) => ({
+    id: file.id,
+    fields: { content_text: result.text },
+  }));
+  const scanResults = await scanItems(scanInputs);
+  const scanErrored = new Set(scanResults.filter((r) => r.outcome === 'error').map((r) => r.id));
+  const tokenized = new Map(
+    (await tokenizeItems(userId, scanInputs, scanResults, ['content_text'])).map((t) => [t.id, t])
+  );
+
+  const succeeded: string[] = [];
+  for (const { file, result } of extracted) {
+    const failed = result.status === 'error' || (result.text !== null && scanErrored.has(file.id));
+    const contentText = result.text === null ? null : tokenized.get(file.id)?.fields.content_text ?? null;
+    const nameVerified = nameVerifiedById.get(file.id) ?? false;
+
+    const { error } = await supabase
+      .from('drive_documents')
+      .update({
+        content_text: contentText,
+        content_preview: contentText ? contentText.substring(0, DRIVE_CONTENT_PREVIEW_LENGTH) : null,
+        extraction_status: result.status,
+        // Failed extractions and scans keep no checksum so the next sync retries them
+        extracted_md5_checksum: failed ? null : file.md5Checksum,
+        extracted_modified_at: failed ? null : file.modifiedTime,
+        security_verified: nameVerified && (result.text === null || (tokenized.get(file.id)?.verified ?? false)),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .eq('document_id', file.id);
+
+    if (error) {
+      console.error(`[Drive Sync] Content update error for ${file.id}:`, error);
+    } else if (contentText !== null) {
+      succeeded.push(file.id);
+    }
+  }
+
+  return succeeded;
+}
+
 function parseFile(file: GoogleDriveFile): ParsedDocument {
   return {
     document_id: file.id,
@@ -325,7 +583,6 @@ function parseFile(file: GoogleDriveFile): ParsedDocument {
     modified_at: file.modifiedTime || null,
     web_view_link: file.webViewLink || null,
     md5_checksum: file.md5Checksum || null,
-    content_preview: null,  // Content preview would require additional API calls
-    security_verified: true,
+    size_bytes: file.size ? parseInt(file.size, 10) : null,
   };
 }
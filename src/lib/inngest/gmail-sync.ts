@@ -6,12 +6,42 @@
 
 import { inngest } from '../inngest';
 import { supabase } from '../supabase';
-import { nango, PROVIDER_CONFIG_KEYS } from '../nango';
+import { PROVIDER_CONFIG_KEYS } from '../nango';
+import { nangoProxy } from '../nango-proxy';
 import { daysAgoUTC, toUnixSeconds } from '../time';
 import { decodeHtmlEntities } from '../helpers';
 import { classifyError, formatErrorMessage } from '../errors';
-import { generateAndStoreEmbeddings, prepareEmailEmbeddings } from '../embeddings';
-import { GMAIL_INITIAL_DAYS } from '../constants';
+import { markSyncJobFailed } from '../sync-jobs';
+import {
+  diffByContentHash,
+  getChangedIds,
+  hasChanges,
+  hashContent,
+  toChangeSet,
+  type ChangeSet,
+} from '../sync-diff';
+import {
+  isItemGone,
+  recordItemFailures,
+  toItemFailure,
+  upsertIsolatingFailures,
+  type ItemRetryResult,
+  type SyncItemFailure,
+} from '../sync-item-failures';
+import { planEmbeddingChunks, updateSourceEmbeddings } from '../embeddings';
+import { scanItems, summarizeDlpResults } from '../dlp/scanner';
+import { tokenizeItems, type TokenizedItem } from '../dlp/vault';
+import { extractEmailBody, type GmailMessagePart } from '../email-body';
+import {
+  applyLabelChange,
+  fetchGmailHistory,
+  getMailboxHistoryId,
+  isHistoryExpired,
+  INBOX_LABEL,
+  UNREAD_LABEL,
+  type GmailLabelChange,
+} from '../gmail-history';
+import { GMAIL_FETCH_CONCURRENCY, GMAIL_INITIAL_DAYS, GMAIL_SYNC_BATCH_SIZE } from '../constants';
 
 // ============================================================================
 // Types
@@ -22,9 +52,8 @@ interface GmailMessage {
   threadId: string;
   labelIds: string[];
   snippet: string;
-  payload: {
+  payload: GmailMessagePart & {
     headers: Array<{ name: string; value: string }>;
-    parts?: Array<{ mimeType: string; filename?: string }>;
   };
   internalDate: string;
 }
@@ -35,6 +64,7 @@ interface ParsedEmail {
   sender: string;
   subject: string;
   snippet: string | null;
+  body_preview: string | null;
   received_at: string;
   is_read: boolean;
   has_attachments: boolean;
@@ -42,6 +72,14 @@ interface ParsedEmail {
   security_verified: boolean;
 }
 
+/**
+ * Fields whose change counts as an edit (and a re-embed). Labels and read state
+ * are applied from history, and re-checked for every listed message on persist.
+ */
+const EMAIL_HASH_FIELDS: ReadonlyArray<keyof ParsedEmail> = [
+  'thread_id', 'sender', 'subject', 'snippet', 'body_preview', 'received_at', 'has_attachments',
+];
+
 // ============================================================================
 // Gmail Sync Function
 // ============================================================================
@@ -51,6 +89,10 @@ export const processGmailSync = inngest.createFunction(
     id: 'process-gmail-sync',
     name: 'Process Gmail Sync',
     retries: 3,
+    // Record the failure once retries are exhausted so the job doesn't stay stuck mid-stage
+    onFailure: async ({ event, error }) => {
+      await markSyncJobFailed(event.data.event.data.jobId, error);
+    },
   },
   { event: 'gmail/sync.requested' },
   async ({ event, step }) => {
@@ -66,7 +108,7 @@ export const processGmailSync = inngest.createFunction(
         .from('sync_jobs')
         .select('id, status')
         .eq('idempotency_key', idempotencyKey)
-        .eq('status', 'complete')
+        .in('status', ['complete', 'partial'])
         .single();
       
       return data;
@@ -116,46 +158,47 @@ export const processGmailSync = inngest.createFunction(
     });
 
     const lastSyncAt = connection.last_sync_at;
-    const isInitialSync = !lastSyncAt;
-    const afterDate = isInitialSync
-      ? daysAgoUTC(GMAIL_INITIAL_DAYS)
-      : new Date(lastSyncAt);
-
-    console.log(`[Gmail Sync] Sync type: ${isInitialSync ? 'initial' : 'delta'}, after: ${afterDate.toISOString()}`);
-
-    // STEP 5: FETCH ALL MESSAGE IDS (PAGINATED)
-    const allMessageIds = await step.run('fetch-message-ids', async () => {
-      const query = `in:inbox after:${toUnixSeconds(afterDate)}`;
-      const messageIds: string[] = [];
-      let pageToken: string | null = null;
+    const storedHistoryId: string | null = connection.metadata?.history_id || null;
+
+    console.log(`[Gmail Sync] Sync type: ${!lastSyncAt ? 'initial' : storedHistoryId ? 'delta' : 'resync'}, historyId: ${storedHistoryId}`);
+
+    // STEP 5: FETCH CHANGES (history delta, or full listing on initial sync / expired history)
+    const changes = await step.run('fetch-changes', async () => {
       const nangoConnectionId = connection.connection_id;
 
       try {
-        do {
-          const params: Record<string, string | number> = {
-            q: query,
-            maxResults: 500,
-          };
-          if (pageToken) {
-            params.pageToken = pageToken;
+        if (lastSyncAt && storedHistoryId) {
+          try {
+            const delta = await fetchGmailHistory(nangoConnectionId, storedHistoryId);
+            console.log(`[Gmail Sync] History delta: added=${delta.addedIds.length}, deleted=${delta.deletedIds.length}, labelChanges=${Object.keys(delta.labelChanges).length}`);
+
+            return {
+              mode: 'delta' as const,
+              historyId: delta.historyId,
+              windowStart: null,
+              messageIds: delta.addedIds,
+              deletedIds: delta.deletedIds,
+              labelChanges: delta.labelChanges,
+            };
+          } catch (error) {
+            if (!isHistoryExpired(error)) throw error;
+            console.warn(`[Gmail Sync] History ID ${storedHistoryId} expired, falling back to full resync`);
           }
+        }
 
-          const response = await nango.proxy({
-            method: 'GET',
-            endpoint: '/gmail/v1/users/me/messages',
-            providerConfigKey: PROVIDER_CONFIG_KEYS.gmail,
-            connectionId: nangoConnectionId,
-            params,
-          });
-
-          const messages = response.data?.messages || [];
-          messageIds.push(...messages.map((m: { id: string }) => m.id));
-          pageToken = response.data?.nextPageToken || null;
-
-          console.log(`[Gmail Sync] Fetched ${messages.length} message IDs, total: ${messageIds.length}`);
-        } while (pageToken);
-
-        return messageIds;
+        // Read the history ID first so changes made during the listing land in the next delta
+        const historyId = await getMailboxHistoryId(nangoConnectionId);
+        const windowStart = daysAgoUTC(GMAIL_INITIAL_DAYS);
+        const messageIds = await listInboxMessageIds(nangoConnectionId, windowStart);
+
+        return {
+          mode: lastSyncAt ? 'resync' as const : 'initial' as const,
+          historyId,
+          windowStart: windowStart.toISOString(),
+          messageIds,
+          deletedIds: [] as string[],
+          labelChanges: {} as Record<string, GmailLabelChange>,
+        };
       } catch (error) {
         const classified = classifyError(error);
         if (classified.action === 'reconnect') {
@@ -175,6 +218,7 @@ export const processGmailSync = inngest.createFunction(
               status: 'error',
               error_message: formatErrorMessage(error),
               error_retryable: false,
+              error_category: 'auth',
               completed_at: new Date().toISOString(),
             })
             .eq('id', jobId);
@@ -185,58 +229,113 @@ export const processGmailSync = inngest.createFunction(
       }
     });
 
-    console.log(`[Gmail Sync] Total message IDs to process: ${allMessageIds.length}`);
+    // STEP 5b: APPLY DELETIONS AND LABEL CHANGES
+    // The emails table mirrors the inbox: deleted and archived messages are removed,
+    // read/unread and other label edits are written back, un-archived messages are refetched.
+    const historyApplied = await step.run('apply-history-changes', async () => {
+      if (changes.mode !== 'delta') {
+        return { deletedIds: [] as string[], labelUpdatedIds: [] as string[], refetchIds: [] as string[] };
+      }
 
-    // STEP 6: FETCH FULL DETAILS (in batches to avoid timeout)
-    const parsedEmails = await step.run('fetch-message-details', async () => {
-      const emails: ParsedEmail[] = [];
-      const nangoConnectionId = connection.connection_id;
-      const batchSize = 50; // Process in smaller batches
-
-      for (let i = 0; i < allMessageIds.length; i += batchSize) {
-        const batch = allMessageIds.slice(i, i + batchSize);
-        
-        const batchResults = await Promise.all(
-          batch.map(async (messageId) => {
-            try {
-              const response = await nango.proxy({
-                method: 'GET',
-                endpoint: `/gmail/v1/users/me/messages/${messageId}`,
-                providerConfigKey: PROVIDER_CONFIG_KEYS.gmail,
-                connectionId: nangoConnectionId,
-                params: { format: 'full' },
-              });
-
-              return parseGmailMessage(response.data);
-            } catch (error) {
-              console.error(`[Gmail Sync] Failed to fetch message ${messageId}:`, error);
-              return null;
-            }
+      const changedIds = Object.keys(changes.labelChanges);
+      const storedLabels = new Map<string, string[]>();
+
+      for (let i = 0; i < changedIds.length; i += 200) {
+        const { data, error } = await supabase
+          .from('emails')
+          .select('message_id, labels')
+          .eq('user_id', userId)
+          .in('message_id', changedIds.slice(i, i + 200));
+
+        if (error) {
+          throw new Error(`Failed to load stored labels: ${error.message}`);
+        }
+        for (const row of data || []) {
+          storedLabels.set(row.message_id, (row.labels as string[]) || []);
+        }
+      }
+
+      const removeIds = [...changes.deletedIds];
+      const refetchIds: string[] = [];
+      const labelUpdatedIds: string[] = [];
+
+      for (const messageId of changedIds) {
+        const change = changes.labelChanges[messageId];
+        const current = storedLabels.get(messageId);
+
+        if (!current) {
+          if (change.added.includes(INBOX_LABEL)) refetchIds.push(messageId);
+          continue;
+        }
+
+        const labels = applyLabelChange(current, change);
+        if (!labels.includes(INBOX_LABEL)) {
+          removeIds.push(messageId);
+          continue;
+        }
+
+        const { error } = await supabase
+          .from('emails')
+          .update({
+            labels,
+            is_read: !labels.includes(UNREAD_LABEL),
+            updated_at: new Date().toISOString(),
           })
-        );
+          .eq('user_id', userId)
+          .eq('message_id', messageId);
 
-        emails.push(...batchResults.filter((e): e is ParsedEmail => e !== null));
-        
-        console.log(`[Gmail Sync] Processed ${Math.min(i + batchSize, allMessageIds.length)}/${allMessageIds.length} messages`);
+        if (error) {
+          console.error(`[Gmail Sync] Label update error for ${messageId}:`, error);
+        } else {
+          labelUpdatedIds.push(messageId);
+        }
       }
 
-      return emails;
+      const deletedIds = await deleteEmails(userId, removeIds);
+
+      console.log(`[Gmail Sync] History applied: deleted=${deletedIds.length}, labelsUpdated=${labelUpdatedIds.length}, refetch=${refetchIds.length}`);
+      return { deletedIds, labelUpdatedIds, refetchIds };
     });
 
-    console.log(`[Gmail Sync] Parsed ${parsedEmails.length} emails`);
+    const allMessageIds = Array.from(new Set([...changes.messageIds, ...historyApplied.refetchIds]));
+
+    console.log(`[Gmail Sync] Total message IDs to process: ${allMessageIds.length}`);
 
-    // STEP 7-8: UPDATE STATUS → 'securing' (DLP placeholder)
+    // STEP 6: UPDATE STATUS → 'securing'
+    // Each batch is scanned and tokenized before any of it is stored
     await step.run('update-status-securing', async () => {
       await supabase
         .from('sync_jobs')
         .update({ status: 'securing' })
         .eq('id', jobId);
-      
-      // DLP scan would go here - for now, mark all as verified
-      // Nightfall integration can be added later
     });
 
-    // STEP 9: UPDATE STATUS → 'persisting'
+    // STEP 7-11: FETCH, DLP SCAN, DIFF BY CONTENT HASH AND PERSIST (one step per batch)
+    // Message bodies never leave the step, so step output stays small on large syncs.
+    // Messages that fail to fetch or persist are recorded for retry rather than dropped.
+    const persisted: ChangeSet = { inserted: [], updated: [], unchanged: [], deleted: [] };
+    const stateUpdatedIds: string[] = [];
+    const itemFailures: SyncItemFailure[] = [];
+
+    for (let i = 0; i < allMessageIds.length; i += GMAIL_SYNC_BATCH_SIZE) {
+      const batch = allMessageIds.slice(i, i + GMAIL_SYNC_BATCH_SIZE);
+
+      const result = await step.run(`process-messages-${i / GMAIL_SYNC_BATCH_SIZE}`, async () => {
+        return fetchAndStoreMessages(userId, connection.connection_id, batch);
+      });
+
+      persisted.inserted.push(...result.persisted.inserted);
+      persisted.updated.push(...result.persisted.updated);
+      persisted.unchanged.push(...result.persisted.unchanged);
+      stateUpdatedIds.push(...result.stateUpdatedIds);
+      itemFailures.push(...result.failures);
+
+      console.log(`[Gmail Sync] Processed ${Math.min(i + GMAIL_SYNC_BATCH_SIZE, allMessageIds.length)}/${allMessageIds.length} messages`);
+    }
+
+    console.log(`[Gmail Sync] Persisted - inserted: ${persisted.inserted.length}, updated: ${persisted.updated.length}, unchanged: ${persisted.unchanged.length}`);
+
+    // STEP 12: UPDATE STATUS → 'persisting'
     await step.run('update-status-persisting', async () => {
       await supabase
         .from('sync_jobs')
@@ -244,123 +343,295 @@ export const processGmailSync = inngest.createFunction(
         .eq('id', jobId);
     });
 
-    // STEP 10-12: COUNT BEFORE, PERSIST, COUNT AFTER
-    const { itemsInserted, dataChanged } = await step.run('persist-emails', async () => {
-      // Count before
-      const { count: beforeCount } = await supabase
-        .from('emails')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
-
-      // Add user_id to each email and UPSERT
-      const emailsWithUser = parsedEmails.map((e) => ({
-        ...e,
-        user_id: userId,
-        security_verified: true, // DLP placeholder
-      }));
-
-      if (emailsWithUser.length > 0) {
-        // UPSERT in batches
-        const upsertBatchSize = 100;
-        for (let i = 0; i < emailsWithUser.length; i += upsertBatchSize) {
-          const batch = emailsWithUser.slice(i, i + upsertBatchSize);
-          const { error } = await supabase
-            .from('emails')
-            .upsert(batch, { onConflict: 'user_id,message_id' });
-
-          if (error) {
-            console.error('[Gmail Sync] UPSERT error:', error);
-          }
+    // STEP 12b: PRUNE AFTER FULL RESYNC
+    // History was lost, so anything in the listed window that Gmail no longer lists was deleted or
+    // archived meanwhile. Older rows weren't listed at all and are kept.
+    const itemsPruned = await step.run('prune-resync', async () => {
+      if (changes.mode !== 'resync' || !changes.windowStart) return [] as string[];
+
+      // Paged: a select returns at most 1000 rows
+      const storedIds: string[] = [];
+      for (let from = 0; ; from += 1000) {
+        const { data, error } = await supabase
+          .from('emails')
+          .select('message_id')
+          .eq('user_id', userId)
+          .gte('received_at', changes.windowStart)
+          .order('message_id', { ascending: true })
+          .range(from, from + 999);
+
+        if (error) {
+          console.error('[Gmail Sync] Prune lookup error:', error);
+          return [] as string[];
         }
+
+        storedIds.push(...(data || []).map((row) => row.message_id as string));
+        if (!data || data.length < 1000) break;
       }
 
-      // Count after
-      const { count: afterCount } = await supabase
-        .from('emails')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+      const listed = new Set(changes.messageIds);
+      const staleIds = storedIds.filter((id) => !listed.has(id));
+      const pruned = await deleteEmails(userId, staleIds);
 
-      const inserted = Math.max(0, (afterCount || 0) - (beforeCount || 0));
-      
-      return {
-        itemsInserted: inserted,
-        dataChanged: inserted > 0,
-      };
+      console.log(`[Gmail Sync] Resync pruned ${pruned.length} emails`);
+      return pruned;
     });
 
-    console.log(`[Gmail Sync] Items inserted: ${itemsInserted}, dataChanged: ${dataChanged}`);
+    // Label and read-state edits count as updates; embeddings only need content changes
+    const contentChangedIds = getChangedIds(persisted);
+    const changed = new Set(contentChangedIds);
+    const stateChangedIds = Array.from(new Set([...historyApplied.labelUpdatedIds, ...stateUpdatedIds]));
+    const stateUpdated = new Set(stateUpdatedIds);
+    const changeSet = {
+      ...persisted,
+      unchanged: persisted.unchanged.filter((id) => !stateUpdated.has(id)),
+      updated: [...persisted.updated, ...stateChangedIds.filter((id) => !changed.has(id))],
+      deleted: [...historyApplied.deletedIds, ...itemsPruned],
+    };
+    const dataChanged = hasChanges(changeSet);
+
+    console.log(`[Gmail Sync] Changes - inserted: ${changeSet.inserted.length}, updated: ${changeSet.updated.length}, deleted: ${changeSet.deleted.length}, dataChanged: ${dataChanged}`);
 
-    // STEP 13: CONDITIONAL EMBEDDING GENERATION
-    const embeddingResult = await step.run('generate-embeddings', async () => {
-      // Update status
+    // STEP 13: INCREMENTAL EMBEDDINGS (new/edited messages embedded, removed ones deleted)
+    await step.run('update-status-embedding', async () => {
       await supabase
         .from('sync_jobs')
         .update({ status: 'embedding' })
         .eq('id', jobId);
+    });
 
-      // Skip if auto-sync with no data changes
-      if (trigger === 'auto' && !dataChanged) {
-        console.log('[Gmail Sync] Skipping embeddings - no data changes on auto-sync');
-        return { inserted: 0, skipped: 0 };
-      }
-
-      // Fetch ALL emails for user to embed
-      const { data: allEmails } = await supabase
-        .from('emails')
-        .select('message_id, sender, subject, snippet, received_at')
-        .eq('user_id', userId);
+    // One step per chunk so a large backlog (initial sync) doesn't outlive a step
+    const embeddingChunks = planEmbeddingChunks(contentChangedIds, changeSet.deleted);
+    const embeddingResult = { inserted: 0, skipped: 0, deleted: 0 };
 
-      if (!allEmails || allEmails.length === 0) {
-        return { inserted: 0, skipped: 0 };
-      }
+    if (embeddingChunks.length === 0) {
+      console.log(`[Gmail Sync] Skipping embeddings - no content changes on ${trigger} sync`);
+    }
 
-      const inputs = prepareEmailEmbeddings(allEmails);
-      return generateAndStoreEmbeddings(userId, inputs);
-    });
+    for (const [index, chunk] of embeddingChunks.entries()) {
+      const result = await step.run(`generate-embeddings-${index}`, async () => {
+        return updateSourceEmbeddings(userId, 'email', chunk);
+      });
+      embeddingResult.inserted += result.inserted;
+      embeddingResult.skipped += result.skipped;
+      embeddingResult.deleted += result.deleted;
+    }
 
-    console.log(`[Gmail Sync] Embeddings - inserted: ${embeddingResult.inserted}, skipped: ${embeddingResult.skipped}`);
+    console.log(`[Gmail Sync] Embeddings - inserted: ${embeddingResult.inserted}, skipped: ${embeddingResult.skipped}, deleted: ${embeddingResult.deleted}`);
 
-    // STEP 14: UPDATE CONNECTION last_sync_at
+    // STEP 14: UPDATE CONNECTION last_sync_at + history_id
     await step.run('update-connection', async () => {
       await supabase
         .from('connections')
         .update({
           last_sync_at: new Date().toISOString(),
+          metadata: { ...connection.metadata, history_id: changes.historyId },
           updated_at: new Date().toISOString(),
         })
         .eq('id', connectionId);
     });
 
-    // STEP 15: MARK JOB COMPLETE
+    // STEP 14b: RECORD FAILED ITEMS
+    const itemsFailed = await step.run('record-item-failures', async () => {
+      await recordItemFailures({ jobId, userId, provider: 'gmail' }, itemFailures);
+      if (itemFailures.length > 0) {
+        console.warn(`[Gmail Sync] ${itemFailures.length} message(s) failed, queued for retry`);
+      }
+      return itemFailures.length;
+    });
+
+    // STEP 15: MARK JOB COMPLETE (partial when items failed)
     await step.run('complete-job', async () => {
       await supabase
         .from('sync_jobs')
         .update({
-          status: 'complete',
+          status: itemsFailed > 0 ? 'partial' : 'complete',
           items_fetched: allMessageIds.length,
-          items_inserted: itemsInserted,
-          items_deleted: 0,
+          items_inserted: changeSet.inserted.length,
+          items_updated: changeSet.updated.length,
+          items_deleted: changeSet.deleted.length,
+          items_unchanged: changeSet.unchanged.length,
+          items_failed: itemsFailed,
           completed_at: new Date().toISOString(),
         })
         .eq('id', jobId);
     });
 
+    if (itemsFailed > 0) {
+      await step.sendEvent('request-item-retry', {
+        name: 'sync/items.retry-requested',
+        data: { jobId, userId, provider: 'gmail' },
+      });
+    }
+
     console.log(`[Gmail Sync] Completed for user ${userId}`);
 
     return {
       success: true,
       itemsFetched: allMessageIds.length,
-      itemsInserted,
+      itemsInserted: changeSet.inserted.length,
+      itemsUpdated: changeSet.updated.length,
+      itemsDeleted: changeSet.deleted.length,
+      itemsUnchanged: changeSet.unchanged.length,
+      itemsFailed,
       dataChanged,
       embeddingsInserted: embeddingResult.inserted,
     };
   }
 );
 
+// ============================================================================
+// Failed-Item Retry
+// ============================================================================
+
+/**
+ * Refetch and store individual messages for retry-sync-items. Messages that
+ * were deleted or left the inbox meanwhile count as resolved.
+ */
+export async function resyncGmailMessages(
+  userId: string,
+  nangoConnectionId: string,
+  messageIds: string[]
+): Promise<ItemRetryResult> {
+  const emails: ParsedEmail[] = [];
+  const failures: SyncItemFailure[] = [];
+  const resolvedIds: string[] = [];
+
+  for (let i = 0; i < messageIds.length; i += GMAIL_FETCH_CONCURRENCY) {
+    await Promise.all(
+      messageIds.slice(i, i + GMAIL_FETCH_CONCURRENCY).map(async (messageId) => {
+        try {
+          const email = await fetchGmailMessage(nangoConnectionId, messageId);
+          if (email) emails.push(email);
+          else resolvedIds.push(messageId);
+        } catch (error) {
+          if (isItemGone(error)) resolvedIds.push(messageId);
+          else failures.push(toItemFailure(messageId, 'fetch', error));
+        }
+      })
+    );
+  }
+
+  const scanInputs = emails.map((e) => ({
+    id: e.message_id,
+    fields: { subject: e.subject, snippet: e.snippet, body_preview: e.body_preview },
+  }));
+  const tokenized = await tokenizeItems(userId, scanInputs, await scanItems(scanInputs), ['snippet', 'body_preview']);
+
+  const rows = await toEmailRows(userId, emails, new Map(tokenized.map((t) => [t.id, t])));
+  const persistFailures = await upsertIsolatingFailures('emails', rows, 'user_id,message_id', (row) => row.message_id);
+  const failedIds = new Set(persistFailures.map((f) => f.itemId));
+  const storedIds = rows.map((row) => row.message_id).filter((id) => !failedIds.has(id));
+
+  if (storedIds.length > 0) {
+    await updateSourceEmbeddings(userId, 'email', { embedIds: storedIds, deleteIds: [] });
+  }
+
+  return {
+    resolvedIds: [...resolvedIds, ...storedIds],
+    failures: [...failures, ...persistFailures],
+  };
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Fetch and parse one message. Returns null when it is no longer in the inbox.
+ */
+async function fetchGmailMessage(nangoConnectionId: string, messageId: string): Promise<ParsedEmail | null> {
+  const response = await nangoProxy<GmailMessage>({
+    method: 'GET',
+    endpoint: `/gmail/v1/users/me/messages/${messageId}`,
+    providerConfigKey: PROVIDER_CONFIG_KEYS.gmail,
+    connectionId: nangoConnectionId,
+    params: { format: 'full' },
+  });
+
+  // Archived again since it was added
+  if (!response.data?.labelIds?.includes(INBOX_LABEL)) return null;
+
+  return parseGmailMessage(response.data);
+}
+
+/**
+ * Fetch, DLP-scan and store one batch of messages. Only new and edited rows
+ * are written; unchanged ones get drifted read state and labels corrected.
+ */
+async function fetchAndStoreMessages(
+  userId: string,
+  nangoConnectionId: string,
+  messageIds: string[]
+): Promise<{ persisted: ChangeSet; stateUpdatedIds: string[]; failures: SyncItemFailure[] }> {
+  const emails: ParsedEmail[] = [];
+  const failures: SyncItemFailure[] = [];
+
+  for (let i = 0; i < messageIds.length; i += GMAIL_FETCH_CONCURRENCY) {
+    await Promise.all(
+      messageIds.slice(i, i + GMAIL_FETCH_CONCURRENCY).map(async (messageId) => {
+        try {
+          const email = await fetchGmailMessage(nangoConnectionId, messageId);
+          if (email) emails.push(email);
+        } catch (error) {
+          if (isItemGone(error)) return;  // Deleted since it was listed
+          console.error(`[Gmail Sync] Failed to fetch message ${messageId}:`, error);
+          failures.push(toItemFailure(messageId, 'fetch', error));
+        }
+      })
+    );
+  }
+
+  // Sender is the correspondent identity and stays in clear; snippet and body are tokenized
+  const scanInputs = emails.map((e) => ({
+    id: e.message_id,
+    fields: { subject: e.subject, snippet: e.snippet, body_preview: e.body_preview },
+  }));
+  const results = await scanItems(scanInputs);
+
+  const summary = summarizeDlpResults(results);
+  console.log(`[Gmail Sync] DLP (${summary.scanner}): clean=${summary.clean}, flagged=${summary.flagged}, errored=${summary.errored}, findings=${JSON.stringify(summary.findingsByType)}`);
+
+  const tokenized = await tokenizeItems(userId, scanInputs, results, ['snippet', 'body_preview']);
+  const rows = await toEmailRows(userId, emails, new Map(tokenized.map((t) => [t.id, t])));
+  const diff = await diffByContentHash('emails', userId, 'message_id', rows, (row) => row.message_id);
+
+  const persistFailures = await upsertIsolatingFailures(
+    'emails',
+    diff.changedRows,
+    'user_id,message_id',
+    (row) => row.message_id
+  );
+
+  // Unchanged content can still carry drifted read state or labels (e.g. missed history)
+  const unchanged = new Set(diff.unchanged);
+  const stateUpdatedIds = await correctEmailStates(userId, rows.filter((row) => unchanged.has(row.message_id)));
+
+  return {
+    persisted: toChangeSet(diff, persistFailures),
+    stateUpdatedIds,
+    failures: [...failures, ...persistFailures],
+  };
+}
+
+/**
+ * Rows for the emails table with DLP-tokenized snippet and body, and the
+ * content hash of the original message
+ */
+async function toEmailRows(userId: string, emails: ParsedEmail[], tokenizedById: Map<string, TokenizedItem>) {
+  return Promise.all(emails.map(async (e) => {
+    const tokenized = tokenizedById.get(e.message_id);
+    return {
+      ...e,
+      snippet: tokenized ? tokenized.fields.snippet : e.snippet,
+      body_preview: tokenized ? tokenized.fields.body_preview : e.body_preview,
+      user_id: userId,
+      security_verified: tokenized?.verified ?? false,
+      content_hash: await hashContent(e, EMAIL_HASH_FIELDS, tokenized?.verified ?? false),
+    };
+  }));
+}
+
 function parseGmailMessage(message: GmailMessage): ParsedEmail {
   const headers = message.payload?.headers || [];
   
@@ -396,6 +667,7 @@ function parseGmailMessage(message: GmailMessage): ParsedEmail {
     sender: from,
     subject: subject || '(No subject)',
     snippet: decodeHtmlEntities(message.snippet || ''),
+    body_preview: extractEmailBody(message.payload),
     received_at: receivedAt,
     is_read: isRead,
     has_attachments: hasAttachments,
@@ -403,3 +675,115 @@ function parseGmailMessage(message: GmailMessage): ParsedEmail {
     security_verified: false,
   };
 }
+
+/**
+ * List inbox message IDs received after a date (paginated)
+ */
+async function listInboxMessageIds(nangoConnectionId: string, afterDate: Date): Promise<string[]> {
+  const query = `in:inbox after:${toUnixSeconds(afterDate)}`;
+  const messageIds: string[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const params: Record<string, string | number> = {
+      q: query,
+      maxResults: 500,
+    };
+    if (pageToken) {
+      params.pageToken = pageToken;
+    }
+
+    const response = await nangoProxy<{ messages?: Array<{ id: string }>; nextPageToken?: string }>({
+      method: 'GET',
+      endpoint: '/gmail/v1/users/me/messages',
+      providerConfigKey: PROVIDER_CONFIG_KEYS.gmail,
+      connectionId: nangoConnectionId,
+      params,
+    });
+
+    const messages = response.data?.messages || [];
+    messageIds.push(...messages.map((m: { id: string }) => m.id));
+    pageToken = response.data?.nextPageToken || null;
+
+    console.log(`[Gmail Sync] Fetched ${messages.length} message IDs, total: ${messageIds.length}`);
+  } while (pageToken);
+
+  return messageIds;
+}
+
+/**
+ * Write labels and read state for rows whose stored copy differs, returning
+ * the IDs updated. Content is untouched, so nothing needs re-embedding.
+ */
+async function correctEmailStates(
+  userId: string,
+  rows: Array<{ message_id: string; labels: string[]; is_read: boolean }>
+): Promise<string[]> {
+  const updatedIds: string[] = [];
+
+  for (let i = 0; i < rows.length; i += 200) {
+    const batch = rows.slice(i, i + 200);
+    const { data, error } = await supabase
+      .from('emails')
+      .select('message_id, labels, is_read')
+      .eq('user_id', userId)
+      .in('message_id', batch.map((row) => row.message_id));
+
+    if (error) {
+      console.error('[Gmail Sync] Stored state lookup error:', error);
+      continue;
+    }
+
+    const stored = new Map((data || []).map((row) => [row.message_id as string, row]));
+
+    for (const row of batch) {
+      const current = stored.get(row.message_id);
+      if (!current) continue;
+
+      const currentLabels = ((current.labels as string[]) || []).slice().sort();
+      const labels = row.labels.slice().sort();
+      const drifted = current.is_read !== row.is_read
+        || currentLabels.length !== labels.length
+        || currentLabels.some((label, index) => label !== labels[index]);
+      if (!drifted) continue;
+
+      const { error: updateError } = await supabase
+        .from('emails')
+        .update({ labels: row.labels, is_read: row.is_read, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('message_id', row.message_id);
+
+      if (updateError) {
+        console.error(`[Gmail Sync] State update error for ${row.message_id}:`, updateError);
+      } else {
+        updatedIds.push(row.message_id);
+      }
+    }
+  }
+
+  return updatedIds;
+}
+
+/**
+ * Delete stored emails by Gmail message ID, returning the IDs actually removed
+ */
+async function deleteEmails(userId: string, messageIds: string[]): Promise<string[]> {
+  const deleted: string[] = [];
+
+  for (let i = 0; i < messageIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('emails')
+      .delete()
+      .eq('user_id', userId)
+      .in('message_id', messageIds.slice(i, i + 200))
+      .select('message_id');
+
+    if (error) {
+      console.error('[Gmail Sync] Delete error:', error);
+      continue;
+    }
+    deleted.push(...(data || []).map((row) => row.message_id as string));
+  }
+
+  return deleted;
+}
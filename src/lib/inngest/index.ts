@@ -8,22 +8,40 @@
 export { processGmailSync } from './gmail-sync';
 export { processCalendarSync } from './calendar-sync';
 export { processDriveSync } from './drive-sync';
+export { retrySyncItems } from './retry-sync-items';
 
 // Cron functions
 export { generateDailyBriefingCron, generateBriefingForUser, generateCalendarInsightsForUser } from './cron-briefing';
 export { cleanupOldDataCron } from './cron-cleanup';
+export { renewCalendarWatchesCron } from './cron-calendar-watch';
+export { scheduledSyncCron, runScheduledSync } from './cron-scheduled-sync';
+export { reembedCron, reembedUserEmbeddings } from './cron-reembed';
+export { focusHoldsCron, reconcileUserFocusHolds } from './cron-focus-holds';
 
 // Export all functions as an array for serve()
 import { processGmailSync } from './gmail-sync';
 import { processCalendarSync } from './calendar-sync';
 import { processDriveSync } from './drive-sync';
+import { retrySyncItems } from './retry-sync-items';
 import { generateDailyBriefingCron } from './cron-briefing';
 import { cleanupOldDataCron } from './cron-cleanup';
+import { renewCalendarWatchesCron } from './cron-calendar-watch';
+import { scheduledSyncCron, runScheduledSync } from './cron-scheduled-sync';
+import { reembedCron, reembedUserEmbeddings } from './cron-reembed';
+import { focusHoldsCron, reconcileUserFocusHolds } from './cron-focus-holds';
 
 export const allFunctions = [
   processGmailSync,
   processCalendarSync,
   processDriveSync,
+  retrySyncItems,
   generateDailyBriefingCron,
   cleanupOldDataCron,
+  renewCalendarWatchesCron,
+  scheduledSyncCron,
+  runScheduledSync,
+  reembedCron,
+  reembedUserEmbeddings,
+  focusHoldsCron,
+  reconcileUserFocusHolds,
 ];
@@ -0,0 +1,103 @@
+/**
+ * EmergentOS - Failed Sync Item Retry
+ *
+ * Follow-up to a 'partial' sync job: refetches only the messages, events or
+ * files recorded in sync_item_failures, backing off between attempts. Items
+ * still failing after the last attempt are abandoned and the job keeps its
+ * 'partial' status; a fully recovered job becomes 'complete'.
+ */
+
+import { inngest } from '../inngest';
+import { supabase } from '../supabase';
+import {
+  abandonItemFailures,
+  applyItemRetryResult,
+  getPendingItemFailures,
+  settlePartialJob,
+  type ItemRetryResult,
+  type StoredItemFailure,
+} from '../sync-item-failures';
+import type { SyncJobProvider } from '../sync-jobs';
+import { resyncGmailMessages } from './gmail-sync';
+import { resyncCalendarEvents } from './calendar-sync';
+import { resyncDriveFiles } from './drive-sync';
+import { SYNC_ITEM_RETRY_DELAYS_MS } from '../constants';
+
+// ============================================================================
+// Retry Function
+// ============================================================================
+
+export const retrySyncItems = inngest.createFunction(
+  {
+    id: 'retry-sync-items',
+    name: 'Retry Failed Sync Items',
+    retries: 1,
+    // One retry run per job
+    idempotency: 'event.data.jobId',
+  },
+  { event: 'sync/items.retry-requested' },
+  async ({ event, step }) => {
+    const { jobId, userId, provider } = event.data as { jobId: string; userId: string; provider: SyncJobProvider };
+
+    console.log(`[Sync Item Retry] Starting for job ${jobId} (${provider})`);
+
+    for (let attempt = 1; attempt <= SYNC_ITEM_RETRY_DELAYS_MS.length; attempt++) {
+      await step.sleep(`backoff-${attempt}`, SYNC_ITEM_RETRY_DELAYS_MS[attempt - 1]);
+
+      const remaining = await step.run(`retry-attempt-${attempt}`, async () => {
+        const pending = await getPendingItemFailures(jobId);
+        if (pending.length === 0) return 0;
+
+        const { data: connection } = await supabase
+          .from('connections')
+          .select('connection_id')
+          .eq('user_id', userId)
+          .eq('provider', provider)
+          .eq('status', 'connected')
+          .maybeSingle();
+
+        if (!connection) {
+          await abandonItemFailures(jobId, `${provider} is no longer connected`);
+          return 0;
+        }
+
+        const isLastAttempt = attempt === SYNC_ITEM_RETRY_DELAYS_MS.length;
+        const result = await resyncItems(provider, userId, connection.connection_id, pending);
+        await applyItemRetryResult(jobId, result, attempt, isLastAttempt);
+
+        console.log(`[Sync Item Retry] Job ${jobId} attempt ${attempt}: resolved=${result.resolvedIds.length}, failed=${result.failures.length}`);
+        return result.failures.length;
+      });
+
+      if (remaining === 0) break;
+    }
+
+    const itemsFailed = await step.run('settle-job', async () => settlePartialJob(jobId));
+
+    console.log(`[Sync Item Retry] Job ${jobId} settled, ${itemsFailed} item(s) unrecovered`);
+
+    return { success: true, jobId, itemsFailed };
+  }
+);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function resyncItems(
+  provider: SyncJobProvider,
+  userId: string,
+  nangoConnectionId: string,
+  pending: StoredItemFailure[]
+): Promise<ItemRetryResult> {
+  const itemIds = pending.map((item) => item.itemId);
+
+  switch (provider) {
+    case 'gmail':
+      return resyncGmailMessages(userId, nangoConnectionId, itemIds);
+    case 'calendar':
+      return resyncCalendarEvents(userId, nangoConnectionId, pending);
+    case 'drive':
+      return resyncDriveFiles(userId, nangoConnectionId, itemIds);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * EmergentOS - LLM Adapter Helpers
+ *
+ * Rate-limit retry and SSE streaming shared by the provider adapters.
+ */
+
+import { LLM_MAX_RETRIES, LLM_RETRY_DELAYS_MS } from '../constants';
+
+/**
+ * Run an LLM call, retrying HTTP 429 responses with LLM_RETRY_DELAYS_MS backoff
+ */
+export async function withRateLimitRetry<T>(label: string, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; attempt < LLM_MAX_RETRIES; attempt++) {
+    try {
+      return await call();
+    } catch (error: unknown) {
+      const status = (error as { status?: number })?.status;
+      if (status === 429 && attempt < LLM_MAX_RETRIES - 1) {
+        console.warn(`[${label}] Rate limited, retrying in ${LLM_RETRY_DELAYS_MS[attempt]}ms`);
+        await new Promise((r) => setTimeout(r, LLM_RETRY_DELAYS_MS[attempt]));
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw new Error(`Max retries exceeded for ${label} API`);
+}
+
+/**
+ * Wrap an async iterable of text chunks as an SSE stream of `data: {text}`
+ * events. `onDone` runs once the chunks are exhausted or the stream fails.
+ */
+export function toSseStream(
+  chunks: AsyncIterable<string>,
+  onDone?: (error?: unknown) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const text of chunks) {
+          if (text) {
+            // SSE format: data: {text}\n\n
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text })}\n\n`));
+          }
+        }
+        // NOTE: Caller must send [DONE] signal after appending any additional data (e.g., sources)
+        controller.close();
+        onDone?.();
+      } catch (error) {
+        controller.error(error);
+        onDone?.(error);
+      }
+    },
+  });
+}
@@ -0,0 +1,105 @@
+/**
+ * EmergentOS - LLM Provider Selection
+ *
+ * LLM_PROVIDER picks the environment's provider ('gemini' or
+ * 'openai-compatible'); without it, Gemini when GEMINI_API_KEY is set,
+ * otherwise an OpenAI-compatible server when LLM_API_URL is set.
+ *
+ * A user can be pinned to a provider with user_profiles.llm_provider (set by
+ * an administrator, not from the app). A pinned user whose provider is not
+ * configured gets no LLM features rather than falling back to another one,
+ * so their data never reaches a provider they were moved off.
+ *
+ * Features get a metered client (metering.ts) with the user's daily budget:
+ * user_profiles.llm_daily_budget_usd, else LLM_DAILY_BUDGET_USD, else
+ * LLM_DEFAULT_DAILY_BUDGET_USD.
+ */
+
+import { supabase } from '../supabase';
+import { LLM_MODEL, LLM_DEFAULT_DAILY_BUDGET_USD } from '../constants';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createMeteredClient } from './metering';
+import type { LlmClient, LlmFeature, LlmProvider, LlmProviderName } from './types';
+
+const LLM_PROVIDER_NAMES: LlmProviderName[] = ['gemini', 'openai-compatible'];
+
+// ============================================================================
+// Configured Providers
+// ============================================================================
+
+const providers: Partial<Record<LlmProviderName, LlmProvider>> = {
+  ...(process.env.GEMINI_API_KEY && {
+    gemini: createGeminiProvider(process.env.GEMINI_API_KEY, LLM_MODEL),
+  }),
+  ...(process.env.LLM_API_URL && process.env.LLM_API_MODEL && {
+    'openai-compatible': createOpenAICompatibleProvider({
+      baseURL: process.env.LLM_API_URL,
+      // Self-hosted servers usually ignore the key, but the client requires one
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      model: process.env.LLM_API_MODEL,
+    }),
+  }),
+};
+
+function isProviderName(value: unknown): value is LlmProviderName {
+  return LLM_PROVIDER_NAMES.includes(value as LlmProviderName);
+}
+
+const environmentDailyBudgetUsd = Number.parseFloat(process.env.LLM_DAILY_BUDGET_USD ?? '');
+const defaultDailyBudgetUsd = Number.isFinite(environmentDailyBudgetUsd) && environmentDailyBudgetUsd >= 0
+  ? environmentDailyBudgetUsd
+  : LLM_DEFAULT_DAILY_BUDGET_USD;
+
+const environmentProviderName: LlmProviderName | null = isProviderName(process.env.LLM_PROVIDER)
+  ? process.env.LLM_PROVIDER
+  : providers.gemini ? 'gemini' : providers['openai-compatible'] ? 'openai-compatible' : null;
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * The environment's default provider, or null when none is configured
+ */
+function getDefaultLlmProvider(): LlmProvider | null {
+  return environmentProviderName ? providers[environmentProviderName] ?? null : null;
+}
+
+/**
+ * A metered client for a user and feature: their pinned provider if any,
+ * else the environment default. Null when that provider is not configured.
+ */
+export async function getLlmClientForUser(userId: string, feature: LlmFeature): Promise<LlmClient | null> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('llm_provider, llm_daily_budget_usd')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    // Don't guess: a pinned user must not fall back to the default provider
+    throw new Error(`Failed to load LLM provider for user: ${error.message}`);
+  }
+
+  const pinned = data?.llm_provider;
+  let provider: LlmProvider | null;
+
+  if (isProviderName(pinned)) {
+    provider = providers[pinned] ?? null;
+    if (!provider) {
+      console.warn(`[LLM] User ${userId} is pinned to ${pinned}, which is not configured`);
+    }
+  } else {
+    provider = getDefaultLlmProvider();
+  }
+
+  if (!provider) return null;
+
+  const userBudget = data?.llm_daily_budget_usd;
+  return createMeteredClient(provider, {
+    userId,
+    feature,
+    dailyBudgetUsd: userBudget !== null && userBudget !== undefined ? Number(userBudget) : defaultDailyBudgetUsd,
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * EmergentOS - Structured Output Fallbacks
+ *
+ * Safe, schema-valid content stored when an LLM response can't be repaired.
+ * Built from the counts the caller already has, so the widgets still show
+ * accurate numbers while the narrative fields say the analysis is unavailable.
+ */
+
+import type { BriefingContent, CalendarAnalysisContent } from './schemas';
+
+// ============================================================================
+// Daily Briefing
+// ============================================================================
+
+export interface BriefingFallbackInput {
+  emailCount: number;       // Emails since yesterday
+  eventCount: number;       // Events today and tomorrow
+  conflictCount: number;
+  documentCount: number;    // Documents modified since yesterday
+}
+
+export function buildFallbackBriefing(input: BriefingFallbackInput): BriefingContent {
+  const { emailCount, eventCount, conflictCount, documentCount } = input;
+
+  return {
+    executiveSummary:
+      `Your AI briefing couldn't be generated right now. Since yesterday you have ${emailCount} emails and ` +
+      `${documentCount} document updates, with ${eventCount} events on your calendar today and tomorrow` +
+      (conflictCount > 0 ? `, including ${conflictCount} scheduling conflicts.` : '.'),
+    briefingScore: 50,
+    briefingVerdict: 'MANAGEABLE',
+    topPriority: conflictCount > 0
+      ? {
+          item: 'Resolve scheduling conflicts',
+          reason: `${conflictCount} events on your calendar overlap`,
+          suggestedAction: 'Review the conflicting events in your schedule',
+        }
+      : {
+          item: "Review today's schedule and inbox",
+          reason: 'The AI briefing is temporarily unavailable',
+          suggestedAction: 'Regenerate the briefing in a few minutes',
+        },
+    urgentAttention: [],
+    scheduleInsight: {
+      meetingCount: eventCount,
+      totalMeetingHours: 0,
+      conflictCount,
+      nextMeeting: null,
+      minutesUntilNext: null,
+      freeBlocks: [],
+      recommendation: 'Schedule analysis is unavailable for this briefing.',
+    },
+    actionItems: [],
+    intelligence: {
+      emailHighlights: [],
+      documentActivity: [],
+      patterns: [],
+    },
+    personalizedInsights: null,
+    metrics: {
+      emailsToProcess: emailCount,
+      meetingsToday: eventCount,
+      conflictsDetected: conflictCount,
+      documentsUpdated: documentCount,
+    },
+    closingNote: 'Regenerate the briefing later for full insights.',
+  };
+}
+
+// ============================================================================
+// Calendar Analysis
+// ============================================================================
+
+export interface CalendarAnalysisFallbackInput {
+  events: Array<{ start_time: string; end_time: string; is_all_day: boolean }>;
+  conflictCount: number;
+  focusHours: number;
+}
+
+export function buildFallbackCalendarAnalysis(input: CalendarAnalysisFallbackInput): CalendarAnalysisContent {
+  const { events, conflictCount, focusHours } = input;
+
+  const timedEvents = events.filter((e) => !e.is_all_day);
+  const meetingHours = timedEvents.reduce(
+    (sum, e) => sum + Math.max(0, new Date(e.end_time).getTime() - new Date(e.start_time).getTime()) / 3_600_000,
+    0
+  );
+  const roundedMeetingHours = Math.round(meetingHours * 10) / 10;
+
+  return {
+    executiveSummary: conflictCount > 0
+      ? `Calendar analysis is temporarily unavailable. ${conflictCount} scheduling conflicts need your attention.`
+      : 'Calendar analysis is temporarily unavailable. No scheduling conflicts were detected.',
+    healthScore: 50,
+    verdict: conflictCount > 0 ? 'CONCERNING' : 'GOOD',
+    urgentActions: [],
+    conflictResolutions: [],
+    focusTimeProtection: {
+      availableHours: Math.round(focusHours * 10) / 10,
+      recommendation: 'Protect your open blocks for focused work.',
+    },
+    weeklyInsights: {
+      meetingLoad: 'MODERATE',
+      balanceScore: 50,
+      topConcern: conflictCount > 0 ? 'Unresolved scheduling conflicts' : 'Analysis unavailable',
+    },
+    personalizedInsights: null,
+    metrics: {
+      meetingHoursTotal: roundedMeetingHours,
+      focusHoursAvailable: Math.round(focusHours * 10) / 10,
+      conflictCount,
+      backToBackCount: 0,
+      averageMeetingLength: timedEvents.length > 0 ? Math.round((meetingHours * 60) / timedEvents.length) : 0,
+    },
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * EmergentOS - LLM Metering
+ *
+ * Binds a provider to one user and feature. Every call is recorded in
+ * llm_usage (tokens, latency, cost, outcome); structured calls are answered
+ * from llm_response_cache when the same prompt was answered recently; and
+ * budgeted features stop calling the provider once the user's spend for
+ * their local day reaches their daily budget. Callers treat an exceeded
+ * budget like any other LLM failure and keep the content they already have.
+ */
+
+import { supabase } from '../supabase';
+import { calculateContentHash } from '../helpers';
+import { formatErrorMessage } from '../errors';
+import { startOfDayInZone } from '../time';
+import { getUserPreferences } from '../preferences';
+import { validateAgainstSchema } from './validation';
+import { LLM_MODEL_PRICING_PER_MTOK, LLM_RESPONSE_CACHE_TTL_MINUTES } from '../constants';
+import type { JsonSchema, LlmClient, LlmFeature, LlmProvider, LlmResponse, LlmTokenUsage } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LlmUsageOutcome = 'success' | 'error' | 'cache_hit' | 'budget_exceeded';
+
+interface UsageEntry {
+  outcome: LlmUsageOutcome;
+  usage?: LlmTokenUsage | null;
+  latencyMs?: number;
+  promptHash?: string | null;
+  error?: unknown;
+}
+
+export interface MeteringOptions {
+  userId: string;
+  feature: LlmFeature;
+  dailyBudgetUsd: number;
+}
+
+/** Onboarding runs once per user and is never cut off */
+const BUDGETED_FEATURES: LlmFeature[] = ['chat', 'briefing', 'calendar_analysis'];
+
+const LLM_BUDGET_EXCEEDED = 'LLM_BUDGET_EXCEEDED';
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+/**
+ * True for the error thrown when a call would exceed the user's daily budget
+ */
+export function isLlmBudgetExceededError(error: unknown): boolean {
+  return (error as { code?: string })?.code === LLM_BUDGET_EXCEEDED;
+}
+
+/**
+ * Cost of a call at the model's list price (0 for unlisted models)
+ */
+export function estimateCostUsd(model: string, usage: LlmTokenUsage | null | undefined): number {
+  const pricing = LLM_MODEL_PRICING_PER_MTOK[model];
+  if (!pricing || !usage) return 0;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * The user's LLM spend since the start of their local day, or null if it
+ * can't be read (metering never blocks a feature on its own outage)
+ */
+async function getSpentTodayUsd(userId: string): Promise<number | null> {
+  const { timeZone } = await getUserPreferences(userId);
+
+  const { data, error } = await supabase.rpc('llm_usage_cost_since', {
+    p_user_id: userId,
+    p_since: startOfDayInZone(new Date(), timeZone).toISOString(),
+  });
+
+  if (error) {
+    console.error('[LLM Metering] Failed to read spend, not enforcing budget:', error);
+    return null;
+  }
+  return Number(data) || 0;
+}
+
+// ============================================================================
+// Ledger and Cache
+// ============================================================================
+
+async function recordUsage(options: MeteringOptions, provider: LlmProvider, entry: UsageEntry): Promise<void> {
+  const { error } = await supabase.from('llm_usage').insert({
+    user_id: options.userId,
+    feature: options.feature,
+    provider: provider.name,
+    model: provider.model,
+    input_tokens: entry.usage?.inputTokens ?? 0,
+    output_tokens: entry.usage?.outputTokens ?? 0,
+    cost_usd: estimateCostUsd(provider.model, entry.usage),
+    latency_ms: entry.latencyMs ?? null,
+    outcome: entry.outcome,
+    prompt_hash: entry.promptHash ?? null,
+    error_message: entry.error ? formatErrorMessage(entry.error) : null,
+  });
+
+  if (error) {
+    console.error('[LLM Metering] Failed to record usage:', error);
+  }
+}
+
+async function getCachedResponse(userId: string, promptHash: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('llm_response_cache')
+    .select('response')
+    .eq('user_id', userId)
+    .eq('prompt_hash', promptHash)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('[LLM Metering] Cache lookup error:', error);
+    return null;
+  }
+  return data?.response ?? null;
+}
+
+/**
+ * Cache a structured response, but only one that validates: an invalid
+ * response served from the cache would just be repaired again
+ */
+async function cacheResponse(userId: string, promptHash: string, model: string, text: string, schema: JsonSchema): Promise<void> {
+  try {
+    if (validateAgainstSchema(JSON.parse(text), schema).length > 0) return;
+  } catch {
+    return;
+  }
+
+  const now = Date.now();
+  const { error } = await supabase.from('llm_response_cache').upsert({
+    user_id: userId,
+    prompt_hash: promptHash,
+    model,
+    response: text,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + LLM_RESPONSE_CACHE_TTL_MINUTES * 60 * 1000).toISOString(),
+  }, { onConflict: 'user_id,prompt_hash' });
+
+  if (error) {
+    console.error('[LLM Metering] Failed to cache response:', error);
+  }
+}
+
+// ============================================================================
+// Metered Client
+// ============================================================================
+
+/**
+ * Wrap a provider so every call is metered, budgeted and (for structured
+ * output) cached
+ */
+export function createMeteredClient(provider: LlmProvider, options: MeteringOptions): LlmClient {
+  const { userId, feature, dailyBudgetUsd } = options;
+  const record = (entry: UsageEntry) => recordUsage(options, provider, entry);
+
+  async function enforceBudget(promptHash: string | null): Promise<void> {
+    if (!BUDGETED_FEATURES.includes(feature)) return;
+
+    const spent = await getSpentTodayUsd(userId);
+    if (spent === null || spent < dailyBudgetUsd) return;
+
+    console.warn(`[LLM Metering] ${feature} skipped for user ${userId}: $${spent.toFixed(4)} of $${dailyBudgetUsd.toFixed(2)} daily budget spent`);
+    await record({ outcome: 'budget_exceeded', promptHash });
+    throw Object.assign(new Error('Daily AI usage limit reached. It resets at midnight.'), { code: LLM_BUDGET_EXCEEDED });
+  }
+
+  async function call(run: () => Promise<LlmResponse>, promptHash: string | null): Promise<string> {
+    await enforceBudget(promptHash);
+
+    const startedAt = Date.now();
+    try {
+      const response = await run();
+      await record({ outcome: 'success', usage: response.usage, latencyMs: Date.now() - startedAt, promptHash });
+      return response.text;
+    } catch (error) {
+      await record({ outcome: 'error', latencyMs: Date.now() - startedAt, promptHash, error });
+      throw error;
+    }
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    feature,
+
+    async generateJSON(prompt: string, schema?: JsonSchema): Promise<string> {
+      if (!schema) {
+        return call(() => provider.generateJSON(prompt), null);
+      }
+
+      // Cache hits are free, so they're served even over budget
+      const promptHash = await calculateContentHash([provider.name, provider.model, JSON.stringify(schema), prompt].join('\n'));
+      const cached = await getCachedResponse(userId, promptHash);
+      if (cached !== null) {
+        console.log(`[LLM Metering] ${feature} served from cache for user ${userId}`);
+        await record({ outcome: 'cache_hit', promptHash });
+        return cached;
+      }
+
+      const text = await call(() => provider.generateJSON(prompt, schema), promptHash);
+      await cacheResponse(userId, promptHash, provider.model, text, schema);
+      return text;
+    },
+
+    generateText(prompt: string): Promise<string> {
+      return call(() => provider.generateText(prompt), null);
+    },
+
+    async streamChat(systemPrompt, userMessage, history) {
+      await enforceBudget(null);
+
+      const startedAt = Date.now();
+      try {
+        // Usage is known only once the stream ends
+        return await provider.streamChat(systemPrompt, userMessage, history, (usage, error) => {
+          void record({ outcome: error ? 'error' : 'success', usage, latencyMs: Date.now() - startedAt, error });
+        });
+      } catch (error) {
+        await record({ outcome: 'error', latencyMs: Date.now() - startedAt, error });
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * EmergentOS - OpenAI-Compatible LLM Adapter
+ *
+ * Chat completions against any OpenAI-compatible server (self-hosted vLLM,
+ * llama.cpp, Ollama, or OpenAI itself). Structured output is requested with a
+ * json_schema response format; servers without schema support still get
+ * JSON mode, and the prompt carries the expected fields.
+ */
+
+import OpenAI from 'openai';
+import { LLM_JSON_TEMPERATURE, LLM_CHAT_TEMPERATURE } from '../constants';
+import { toSseStream, withRateLimitRetry } from './adapter-helpers';
+import type { JsonSchema, LlmProvider, LlmResponse, LlmTokenUsage } from './types';
+
+interface OpenAICompatibleOptions {
+  baseURL: string;
+  apiKey: string;
+  model: string;
+}
+
+function toTokenUsage(usage: OpenAI.CompletionUsage | undefined | null): LlmTokenUsage | null {
+  if (!usage) return null;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LlmProvider {
+  const client = new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey });
+
+  return {
+    name: 'openai-compatible',
+    model: options.model,
+
+    async generateJSON(prompt: string, schema?: JsonSchema): Promise<LlmResponse> {
+      return withRateLimitRetry('OpenAI-compatible', async () => {
+        const completion = await client.chat.completions.create({
+          model: options.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: LLM_JSON_TEMPERATURE,
+          max_tokens: schema ? 8192 : 4096,
+          response_format: schema
+            ? {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: schema as unknown as Record<string, unknown>, strict: false },
+              }
+            : { type: 'json_object' },
+        });
+
+        const responseText = completion.choices[0]?.message?.content ?? '';
+
+        try {
+          // Validate JSON parsing
+          JSON.parse(responseText);
+        } catch (error) {
+          console.error('[OpenAI-compatible] Invalid JSON response');
+          throw error;
+        }
+
+        return { text: responseText, usage: toTokenUsage(completion.usage) };
+      });
+    },
+
+    async generateText(prompt: string): Promise<LlmResponse> {
+      return withRateLimitRetry('OpenAI-compatible', async () => {
+        const completion = await client.chat.completions.create({
+          model: options.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: LLM_CHAT_TEMPERATURE,
+          max_tokens: 2048,
+        });
+        return { text: completion.choices[0]?.message?.content ?? '', usage: toTokenUsage(completion.usage) };
+      });
+    },
+
+    async streamChat(systemPrompt, userMessage, history = [], onComplete) {
+      const stream = await client.chat.completions.create({
+        model: options.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...history.map((turn) => ({ role: turn.role, content: turn.content })),
+          { role: 'user', content: userMessage },
+        ],
+        temperature: LLM_CHAT_TEMPERATURE,
+        max_tokens: 2048,
+        stream: true,
+        // Usage arrives on a final chunk with no choices (servers that don't support it ignore this)
+        stream_options: { include_usage: true },
+      });
+
+      let usage: LlmTokenUsage | null = null;
+
+      return toSseStream((async function* () {
+        for await (const chunk of stream) {
+          if (chunk.usage) usage = toTokenUsage(chunk.usage);
+          yield chunk.choices[0]?.delta?.content ?? '';
+        }
+      })(), (error) => onComplete?.(usage, error));
+    },
+  };
+}
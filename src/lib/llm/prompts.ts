@@ -5,9 +5,12 @@
  * Enhanced with personalization from onboarding data (Section 7.2).
  */
 
-import { isToday, isThisWeek } from '../time';
+import { isToday, isThisWeek, getZonedParts, getDateInZone, type ZonedDateParts } from '../time';
 import { identifyBackToBackMeetings, type CalendarEvent, type FocusBlock, type ConflictInfo } from '../helpers';
+import { DEFAULT_TIME_ZONE, LLM_PROMPT_TIME_STEP_MINUTES, RECURRING_AUDIT_HORIZON_DAYS, RECURRING_AUDIT_PROMPT_LIMIT } from '../constants';
 import type { OnboardingAnswers, UserAssessment, WorkStyle } from '../onboarding/types';
+import type { RecurringSeriesAudit } from '../recurring-meetings';
+import { getDeclinedKeyAttendees } from '../attendees';
 
 // ============================================================================
 // Types
@@ -18,6 +21,9 @@ interface Email {
   subject: string;
   snippet: string | null;
   received_at: string;
+  thread_id?: string | null;
+  body_preview?: string | null;
+  earlier_messages?: Array<{ sender: string; received_at: string; body: string }>;
 }
 
 interface DriveDocument {
@@ -45,6 +51,14 @@ export interface UserProfileContext {
 // Calendar Analysis Prompt (Section 9.3) - Enhanced with Personalization
 // ============================================================================
 
+/**
+ * Format local wall-clock time for prompt context, e.g. "2026-01-27 09:05"
+ */
+function formatLocalTime(parts: ZonedDateParts): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
 /**
  * Build personalized user context section for prompts
  */
@@ -133,29 +147,41 @@ ${assessment.priorities.map((p, i) => `${i + 1}. ${p}`).join('\n')}`);
 /**
  * Build calendar analysis prompt with optional user personalization
  */
+/**
+ * Current time rounded down to LLM_PROMPT_TIME_STEP_MINUTES, so analysis
+ * prompts built from unchanged data are identical and hit the response cache
+ */
+function getPromptNow(): Date {
+  const stepMs = LLM_PROMPT_TIME_STEP_MINUTES * 60 * 1000;
+  return new Date(Math.floor(Date.now() / stepMs) * stepMs);
+}
+
 export function buildCalendarAnalysisPrompt(
   events: CalendarEvent[],
   conflicts: ConflictInfo[],
   focusBlocks: FocusBlock[],
-  userProfile?: UserProfileContext
+  userProfile?: UserProfileContext,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  recurringSeries: RecurringSeriesAudit[] = []
 ): string {
-  const now = new Date();
+  const now = getPromptNow();
   const currentTimeUTC = now.toISOString();
-  const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][now.getUTCDay()];
+  const localNow = getZonedParts(now, timeZone);
+  const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][localNow.weekday];
 
-  const todayEvents = events.filter((e) => isToday(e.start_time));
-  const thisWeekEvents = events.filter((e) => isThisWeek(e.start_time));
+  const todayEvents = events.filter((e) => isToday(e.start_time, timeZone));
+  const thisWeekEvents = events.filter((e) => isThisWeek(e.start_time, timeZone));
 
   const totalMeetingMinutes = events.reduce((sum, e) => {
     return sum + (new Date(e.end_time).getTime() - new Date(e.start_time).getTime()) / 60000;
   }, 0);
 
-  const backToBackSequences = identifyBackToBackMeetings(events);
+  const backToBackSequences = identifyBackToBackMeetings(events, timeZone);
 
-  // Calculate meeting hours by day for the prompt
+  // Calculate meeting hours by (local) day for the prompt
   const meetingsByDay = new Map<string, number>();
   for (const event of events) {
-    const dateKey = event.start_time.split('T')[0];
+    const dateKey = getDateInZone(new Date(event.start_time), timeZone);
     const duration = (new Date(event.end_time).getTime() - new Date(event.start_time).getTime()) / 3600000;
     meetingsByDay.set(dateKey, (meetingsByDay.get(dateKey) || 0) + duration);
   }
@@ -194,6 +220,22 @@ ${conflicts.map((c, i) => {
 }).join('\n')}`
     : '## CONFLICTS: None detected - calendar is conflict-free.';
 
+  // Costliest series first (the audit is stored sorted by quarter_hours)
+  const auditedSeries = recurringSeries.slice(0, RECURRING_AUDIT_PROMPT_LIMIT);
+  const recurringSection = auditedSeries.length > 0
+    ? `## RECURRING MEETING AUDIT (next ${RECURRING_AUDIT_HORIZON_DAYS} days, costliest first)
+${JSON.stringify(auditedSeries.map((s) => ({
+  series: s.title,
+  recurrence: s.recurrence.filter((line) => line.startsWith('RRULE')).join('; ') || null,
+  you_organize: s.organized_by_user,
+  attendees_count: s.attendee_count,
+  hours_next_quarter: s.quarter_hours,
+  occurrences_next_quarter: s.upcoming_count,
+  conflict_rate: s.occurrences_in_window > 0 ? `${s.conflict_count} of ${s.occurrences_in_window} synced occurrences` : null,
+  last_skipped: s.last_skipped_at ? `${s.last_skipped_at} (${s.last_skipped_reason})` : 'not in the lookback window',
+})), null, 2)}`
+    : '## RECURRING MEETING AUDIT: No recurring meetings.';
+
   return `You are an executive time strategist analyzing a calendar for optimal productivity.
 ${hasOnboarding ? 'IMPORTANT: This user has completed onboarding. Personalize ALL recommendations based on their profile below.' : 'This user has not completed onboarding. Apply universal C-Suite best practices.'}
 
@@ -205,6 +247,7 @@ ${hasOnboarding ? 'IMPORTANT: This user has completed onboarding. Personalize AL
 
 ## CURRENT CONTEXT
 - Current Time (UTC): ${currentTimeUTC}
+- User Time Zone: ${timeZone} (local time ${formatLocalTime(localNow)}) - express all times to the user in this zone
 - Day of Week: ${dayOfWeek}
 - Today's Meetings: ${todayEvents.length}
 - This Week's Meetings: ${thisWeekEvents.length}
@@ -231,7 +274,7 @@ For EACH conflict, you MUST:
 - Higher attendee count = likely more important
 - Meetings with external parties generally take priority
 - Events with detailed descriptions suggesting preparation = higher priority
-- Recurring events may be easier to reschedule than one-time meetings
+- Recurring events may be easier to reschedule than one-time meetings - check the series in the RECURRING MEETING AUDIT
 - Events containing "urgent", "critical", "deadline" keywords = higher priority
 
 ### Time-Boxing Method
@@ -258,12 +301,17 @@ ${JSON.stringify(events.map((e) => ({
   end: e.end_time,
   duration_minutes: Math.round((new Date(e.end_time).getTime() - new Date(e.start_time).getTime()) / 60000),
   attendees_count: e.attendees?.length || 0,
+  recurring: Boolean(e.recurring_event_id),
+  your_response: e.self_response_status || 'accepted',
+  key_attendees_declined: getDeclinedKeyAttendees(e.attendees || []).length,
   has_conflict: e.has_conflict,
   conflict_with: e.conflict_with || [],
   location: e.location,
   is_all_day: e.is_all_day,
 })), null, 2)}
 
+${recurringSection}
+
 ## AVAILABLE FOCUS BLOCKS (2+ hour gaps)
 ${focusBlocks.length > 0 ? JSON.stringify(focusBlocks, null, 2) : 'No focus blocks available - calendar is heavily packed.'}
 
@@ -284,6 +332,10 @@ ${hasOnboarding ? `Reference the user's specific goals, blockers, and preference
 2. Be direct, specific, and actionable - every recommendation must reference specific calendar items
 3. Conflicts are executive credibility issues - treat them with appropriate severity
 4. The healthScore should be significantly penalized for each unresolved conflict (-15 points per conflict)
+5. Privacy tokens like [EMAIL_3f2a] stand in for redacted values - copy them verbatim when referenced
+6. Advice to decline, shorten or delegate a recurring meeting MUST target the whole series in recurringMeetingActions, quantified with its hours next quarter. Series that conflict often or that the user already skips are the first candidates.
+7. Events with your_response "declined" are not on the user's schedule; "needsAction" invites still need an answer - recommend accept/decline for them
+8. Meetings with key_attendees_declined > 0 may not achieve their purpose - flag them for rescheduling or cancellation
 
 Respond with ONLY valid JSON in this exact format:
 {
@@ -310,6 +362,14 @@ Respond with ONLY valid JSON in this exact format:
       "priority": "HIGH|MEDIUM|LOW"
     }
   ],
+  "recurringMeetingActions": [
+    {
+      "series": "Exact series title from the audit",
+      "action": "DECLINE_SERIES|SHORTEN|REDUCE_FREQUENCY|DELEGATE|KEEP",
+      "reason": "Why - cite hours next quarter, conflict rate or skip history",
+      "hoursSavedPerQuarter": 0.0
+    }
+  ],
   "delegationOpportunities": [
     {
       "meeting": "Meeting title",
@@ -358,12 +418,14 @@ export function buildBriefingPrompt(
   events: CalendarEvent[],
   documents: DriveDocument[],
   connectedSources: { gmail: boolean; calendar: boolean; drive: boolean },
-  userProfile?: UserProfileContext
+  userProfile?: UserProfileContext,
+  timeZone: string = DEFAULT_TIME_ZONE
 ): string {
-  const now = new Date();
+  const now = getPromptNow();
   const currentTimeUTC = now.toISOString();
-  const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][now.getUTCDay()];
-  const hour = now.getUTCHours();
+  const localNow = getZonedParts(now, timeZone);
+  const dayOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][localNow.weekday];
+  const hour = localNow.hour;
 
   // Time-of-day context
   let timeContext: string;
@@ -390,17 +452,49 @@ export function buildBriefingPrompt(
     : null;
   
   // Check if next event is today or tomorrow
-  const nextEventIsToday = nextEvent ? isToday(nextEvent.start_time) : false;
+  const nextEventIsToday = nextEvent ? isToday(nextEvent.start_time, timeZone) : false;
 
   // Identify VIP/urgent emails
   const urgentKeywords = ['urgent', 'asap', 'immediately', 'critical', 'deadline', 'eod', 'cob'];
   const urgentEmails = emails.filter((e) =>
     urgentKeywords.some((kw) =>
       e.subject.toLowerCase().includes(kw) ||
-      (e.snippet || '').toLowerCase().includes(kw)
+      (e.body_preview || e.snippet || '').toLowerCase().includes(kw)
     )
   );
 
+  // Group emails into conversations (newest thread first)
+  const emailThreads = new Map<string, Email[]>();
+  for (const email of emails) {
+    const key = email.thread_id || `${email.sender}|${email.received_at}`;
+    emailThreads.set(key, [...(emailThreads.get(key) || []), email]);
+  }
+  const threadSummaries = Array.from(emailThreads.values())
+    .map((thread) => thread.sort((a, b) => b.received_at.localeCompare(a.received_at)))
+    .sort((a, b) => b[0].received_at.localeCompare(a[0].received_at))
+    .map((thread) => ({
+      subject: thread[thread.length - 1].subject,
+      from: thread[0].sender,
+      received: thread[0].received_at,
+      new_messages: thread.length,
+      is_potentially_urgent: thread.some((e) => urgentEmails.includes(e)),
+      latest: (thread[0].body_preview || thread[0].snippet || '').substring(0, 600),
+      ...(thread.length > 1 && {
+        other_new_messages: thread.slice(1, 3).map((e) => ({
+          from: e.sender,
+          received: e.received_at,
+          body: (e.body_preview || e.snippet || '').substring(0, 300),
+        })),
+      }),
+      ...(thread[0].earlier_messages?.length && {
+        earlier_in_thread: thread[0].earlier_messages.map((m) => ({
+          from: m.sender,
+          received: m.received_at,
+          body: m.body.substring(0, 300),
+        })),
+      }),
+    }));
+
   // Calculate conflicts count - count unique conflict PAIRS, not events with conflicts
   // Use Set to track unique pairs (sorted event_ids joined)
   const conflictPairs = new Set<string>();
@@ -416,7 +510,7 @@ export function buildBriefingPrompt(
   const conflictCount = conflictPairs.size;
 
   // Calculate total meeting hours for today
-  const todayEvents = events.filter((e) => isToday(e.start_time));
+  const todayEvents = events.filter((e) => isToday(e.start_time, timeZone));
   const totalMeetingMinutes = todayEvents.reduce((sum, e) => {
     return sum + (new Date(e.end_time).getTime() - new Date(e.start_time).getTime()) / 60000;
   }, 0);
@@ -430,6 +524,7 @@ ${hasOnboarding ? 'IMPORTANT: This user has completed onboarding. Personalize AL
 
 ## CURRENT CONTEXT
 - Current Time (UTC): ${currentTimeUTC}
+- User Time Zone: ${timeZone} (local time ${formatLocalTime(localNow)}) - express all times to the user in this zone
 - Day: ${dayOfWeek}
 - Time Context: ${timeContext}
 - Day Context: ${dayContext}
@@ -445,14 +540,8 @@ ${userContextSection}
 - Calendar: ${connectedSources.calendar ? `Connected (${todayEvents.length} events today, ${totalMeetingMinutes.toFixed(0)} mins scheduled)` : 'Not connected'}
 - Drive: ${connectedSources.drive ? `Connected (${documents.length} recent documents)` : 'Not connected'}
 
-## EMAILS (Last 24 hours) - ${emails.length} total
-${connectedSources.gmail ? JSON.stringify(emails.map((e) => ({
-  from: e.sender,
-  subject: e.subject,
-  snippet: e.snippet?.substring(0, 200),
-  received: e.received_at,
-  is_potentially_urgent: urgentEmails.includes(e),
-})), null, 2) : 'Gmail not connected'}
+## EMAILS (Last 24 hours) - ${emails.length} total in ${threadSummaries.length} conversations
+${connectedSources.gmail ? JSON.stringify(threadSummaries, null, 2) : 'Gmail not connected'}
 
 ## TODAY'S SCHEDULE - ${todayEvents.length} events
 ${connectedSources.calendar ? JSON.stringify(todayEvents.map((e) => ({
@@ -462,6 +551,9 @@ ${connectedSources.calendar ? JSON.stringify(todayEvents.map((e) => ({
   end: e.end_time,
   location: e.location,
   attendees_count: e.attendees?.length || 0,
+  recurring: Boolean(e.recurring_event_id),
+  your_response: e.self_response_status || 'accepted',
+  key_attendees_declined: getDeclinedKeyAttendees(e.attendees || []).length,
   has_conflict: e.has_conflict,
   conflict_with: e.conflict_with || [],
 })), null, 2) : 'Calendar not connected'}
@@ -553,7 +645,29 @@ Respond with ONLY valid JSON in this exact format:
   "closingNote": "One sentence of strategic advice for the day"
 }
 
-CRITICAL: Use the EXACT counts from DATA SUMMARY above for all numeric fields in metrics and scheduleInsight.`;
+CRITICAL: Use the EXACT counts from DATA SUMMARY above for all numeric fields in metrics and scheduleInsight.
+NOTE: Privacy tokens like [EMAIL_3f2a] or [PHONE_91c0] stand in for redacted values - copy them verbatim when referenced.`;
+}
+
+// ============================================================================
+// Structured Output Repair Prompt
+// ============================================================================
+
+/**
+ * Re-prompt after a structured response failed validation: the original
+ * request, the rejected JSON and what was wrong with it
+ */
+export function buildRepairPrompt(originalPrompt: string, invalidResponse: string, errors: string[]): string {
+  return `${originalPrompt}
+
+## CORRECTION REQUIRED
+Your previous response did not match the required JSON schema:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Previous response:
+${invalidResponse}
+
+Return the complete, corrected JSON object. Include every required field, use only the allowed enum values, and keep numbers within their stated ranges (scores are 0-100). Return ONLY the JSON object.`;
 }
 
 // ============================================================================
@@ -562,10 +676,12 @@ CRITICAL: Use the EXACT counts from DATA SUMMARY above for all numeric fields in
 
 export function buildChatSystemPrompt(
   connectedSources: { gmail: boolean; calendar: boolean; drive: boolean },
-  searchContext: SearchResult[]
+  searchContext: SearchResult[],
+  timeZone: string = DEFAULT_TIME_ZONE
 ): string {
   const now = new Date();
   const currentTimeUTC = now.toISOString();
+  const localNow = getZonedParts(now, timeZone);
 
   const connectedList = Object.entries(connectedSources)
     .filter(([, connected]) => connected)
@@ -579,6 +695,7 @@ export function buildChatSystemPrompt(
 
 ## CURRENT CONTEXT
 - Current Time (UTC): ${currentTimeUTC}
+- User Time Zone: ${timeZone} (local time ${formatLocalTime(localNow)})
 - Connected Sources: ${connectedList.length > 0 ? connectedList.join(', ') : 'None'}
 ${disconnectedList.length > 0 ? `- Not Connected: ${disconnectedList.join(', ')} (user can connect these in Settings)` : ''}
 
@@ -597,10 +714,10 @@ ${searchContext.length > 0 ? JSON.stringify(searchContext.map((r) => ({
 
 ## GUIDELINES
 1. USE the search context above to answer questions with specific data
-2. If data contains security tokens like [PERSON_001], display them as-is
+2. Data may contain privacy tokens like [EMAIL_3f2a] - reproduce them exactly as written, never guess the underlying value
 3. Only mention disconnected sources if the user specifically asks about them
 4. Cite sources when referencing specific emails, events, or documents
-5. For time-related questions, consider the current UTC time
+5. For time-related questions, answer in the user's time zone
 
 Provide helpful, accurate responses based on the user's connected data.`;
 }
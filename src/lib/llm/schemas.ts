@@ -0,0 +1,472 @@
+/**
+ * EmergentOS - LLM Output Schemas
+ *
+ * Structured output schemas for calendar analysis and daily briefings, in
+ * plain JSON Schema. Each provider adapter translates them to its own
+ * structured-output format; validation.ts checks responses against them at
+ * runtime. The content types below mirror the schemas.
+ */
+
+import type { JsonSchema } from './types';
+
+// ============================================================================
+// Calendar Analysis Schema (Structured Output)
+// ============================================================================
+
+/**
+ * JSON Schema for Calendar Analysis output
+ * Plain JSON Schema, so any provider can enforce it
+ */
+export const CALENDAR_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    executiveSummary: {
+      type: 'string',
+      description: 'One paragraph overview - MUST prominently mention any scheduling conflicts first, then connect calendar health to user strategic focus',
+    },
+    healthScore: {
+      type: 'integer',
+      description: 'Overall calendar health score from 0-100',
+      minimum: 0,
+      maximum: 100,
+    },
+    verdict: {
+      type: 'string',
+      description: 'Overall verdict',
+      enum: ['OPTIMAL', 'GOOD', 'CONCERNING', 'CRITICAL'],
+    },
+    urgentActions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          priority: { type: 'integer', description: 'Priority ranking (1 = highest)', minimum: 1 },
+          action: { type: 'string', description: 'Specific action to take' },
+          reason: { type: 'string', description: 'Why this matters' },
+          timeframe: { type: 'string', description: 'When to do it' },
+          relatedEvents: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Event titles this action relates to',
+          },
+        },
+        required: ['priority', 'action', 'reason', 'timeframe'],
+      },
+    },
+    conflictResolutions: {
+      type: 'array',
+      description: 'REQUIRED for each detected conflict - resolution recommendations',
+      items: {
+        type: 'object',
+        properties: {
+          conflictingEvents: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Exact titles of the conflicting events',
+          },
+          overlapMinutes: { 
+            type: 'integer',
+            description: 'Number of minutes these events overlap',
+            minimum: 0,
+          },
+          recommendation: { 
+            type: 'string',
+            description: 'Specific resolution: which to keep, which to move, and suggested new time',
+          },
+          suggestedAction: {
+            type: 'string',
+            enum: ['RESCHEDULE', 'DELEGATE', 'DECLINE', 'SHORTEN'],
+          },
+          keepEvent: {
+            type: 'string',
+            description: 'Title of the event to prioritize keeping',
+          },
+          moveEvent: {
+            type: 'string',
+            description: 'Title of the event to reschedule/delegate/decline',
+          },
+          priority: {
+            type: 'string',
+            enum: ['HIGH', 'MEDIUM', 'LOW'],
+            description: 'Priority level for resolving this conflict',
+          },
+        },
+        required: ['conflictingEvents', 'recommendation', 'suggestedAction', 'overlapMinutes', 'keepEvent', 'moveEvent'],
+      },
+    },
+    recurringMeetingActions: {
+      type: 'array',
+      description: 'Series-level advice for recurring meetings from the audit',
+      items: {
+        type: 'object',
+        properties: {
+          series: { type: 'string', description: 'Exact series title' },
+          action: {
+            type: 'string',
+            enum: ['DECLINE_SERIES', 'SHORTEN', 'REDUCE_FREQUENCY', 'DELEGATE', 'KEEP'],
+          },
+          reason: { type: 'string' },
+          hoursSavedPerQuarter: { type: 'number', description: 'Hours freed over the next quarter', minimum: 0 },
+        },
+        required: ['series', 'action', 'reason', 'hoursSavedPerQuarter'],
+      },
+    },
+    delegationOpportunities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          meeting: { type: 'string' },
+          reason: { type: 'string' },
+          suggestedDelegate: { type: 'string' },
+        },
+        required: ['meeting', 'reason', 'suggestedDelegate'],
+      },
+    },
+    focusTimeProtection: {
+      type: 'object',
+      properties: {
+        availableHours: { type: 'number', minimum: 0 },
+        recommendation: { type: 'string' },
+        suggestedBlocks: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+        riskAreas: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+      },
+      required: ['availableHours', 'recommendation'],
+    },
+    weeklyInsights: {
+      type: 'object',
+      properties: {
+        meetingLoad: {
+          type: 'string',
+          enum: ['LIGHT', 'MODERATE', 'HEAVY', 'OVERLOADED'],
+        },
+        balanceScore: { type: 'integer', minimum: 0, maximum: 100 },
+        topConcern: { type: 'string' },
+        positivePatterns: {
+          type: 'array',
+          items: { type: 'string' },
+        },
+        alignmentScore: { type: 'integer', minimum: 0, maximum: 100 },
+      },
+      required: ['meetingLoad', 'balanceScore', 'topConcern'],
+    },
+    personalizedInsights: {
+      type: ['array', 'null'],
+      items: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'string',
+            enum: ['GOAL_ALIGNMENT', 'BLOCKER_RISK', 'FLOW_PROTECTION', 'DECISION_SUPPORT'],
+          },
+          insight: { type: 'string' },
+          recommendation: { type: 'string' },
+        },
+        required: ['category', 'insight', 'recommendation'],
+      },
+    },
+    metrics: {
+      type: 'object',
+      properties: {
+        meetingHoursTotal: { type: 'number', minimum: 0 },
+        focusHoursAvailable: { type: 'number', minimum: 0 },
+        conflictCount: { type: 'integer', minimum: 0 },
+        backToBackCount: { type: 'integer', minimum: 0 },
+        averageMeetingLength: { type: 'number', minimum: 0 },
+        busiestDay: { type: 'string' },
+        lightestDay: { type: 'string' },
+      },
+      required: ['meetingHoursTotal', 'focusHoursAvailable', 'conflictCount', 'backToBackCount'],
+    },
+  },
+  required: [
+    'executiveSummary',
+    'healthScore',
+    'verdict',
+    'urgentActions',
+    'conflictResolutions',
+    'focusTimeProtection',
+    'weeklyInsights',
+    'metrics',
+  ],
+};
+
+// ============================================================================
+// Daily Briefing Schema (Structured Output)
+// ============================================================================
+
+/**
+ * JSON Schema for Daily Briefing output
+ * Plain JSON Schema, so any provider can enforce it
+ */
+export const BRIEFING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    executiveSummary: {
+      type: 'string',
+      description: '2-3 sentence overview - MUST mention conflicts if any, connect to strategic priorities',
+    },
+    briefingScore: {
+      type: 'integer',
+      description: 'Day readiness score from 0-100',
+      minimum: 0,
+      maximum: 100,
+    },
+    briefingVerdict: {
+      type: 'string',
+      enum: ['CLEAR', 'MANAGEABLE', 'BUSY', 'OVERLOADED'],
+    },
+    topPriority: {
+      type: 'object',
+      properties: {
+        item: { type: 'string', description: 'The single most important thing' },
+        reason: { type: 'string', description: 'Why this is #1' },
+        suggestedAction: { type: 'string', description: 'Specific next step' },
+        alignsWithGoal: { type: 'boolean', description: 'Whether this aligns with user stated goals' },
+      },
+      required: ['item', 'reason', 'suggestedAction'],
+    },
+    urgentAttention: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { 
+            type: 'string', 
+            enum: ['EMAIL', 'MEETING', 'DOCUMENT', 'CONFLICT'],
+          },
+          item: { type: 'string', description: 'Description of urgent item' },
+          action: { type: 'string', description: 'What to do' },
+          deadline: { type: ['string', 'null'], description: 'When, if applicable' },
+          priority: { type: 'integer', description: 'Priority ranking (1 = highest)', minimum: 1 },
+        },
+        required: ['type', 'item', 'action', 'priority'],
+      },
+    },
+    scheduleInsight: {
+      type: 'object',
+      properties: {
+        meetingCount: { type: 'integer', description: 'Number of meetings today', minimum: 0 },
+        totalMeetingHours: { type: 'number', description: 'Total hours in meetings today', minimum: 0 },
+        conflictCount: { type: 'integer', description: 'Number of scheduling conflicts', minimum: 0 },
+        nextMeeting: { type: ['string', 'null'], description: 'Title of next meeting or null' },
+        minutesUntilNext: { type: ['integer', 'null'], description: 'Minutes until next meeting or null', minimum: 0 },
+        freeBlocks: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Time ranges with 30+ minutes free',
+        },
+        recommendation: { type: 'string', description: 'Brief schedule optimization advice' },
+      },
+      required: ['meetingCount', 'totalMeetingHours', 'conflictCount', 'recommendation', 'freeBlocks'],
+    },
+    actionItems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          task: { type: 'string' },
+          source: { 
+            type: 'string',
+            enum: ['EMAIL', 'CALENDAR', 'DRIVE', 'ANALYSIS'],
+          },
+          priority: {
+            type: 'string',
+            enum: ['HIGH', 'MEDIUM', 'LOW'],
+          },
+          canDelegate: { type: 'boolean' },
+          delegateTo: { type: ['string', 'null'] },
+          estimatedMinutes: { type: ['integer', 'null'], minimum: 0 },
+        },
+        required: ['task', 'source', 'priority'],
+      },
+    },
+    intelligence: {
+      type: 'object',
+      properties: {
+        emailHighlights: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Key email summaries - max 3 most important',
+        },
+        documentActivity: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Notable document changes - max 3',
+        },
+        patterns: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Patterns noticed in communication or workload',
+        },
+      },
+      required: ['emailHighlights', 'documentActivity', 'patterns'],
+    },
+    personalizedInsights: {
+      type: ['array', 'null'],
+      items: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'string',
+            enum: ['GOAL_PROGRESS', 'BLOCKER_ALERT', 'ENERGY_TIP', 'DECISION_NEEDED'],
+          },
+          insight: { type: 'string' },
+          recommendation: { type: 'string' },
+        },
+        required: ['category', 'insight', 'recommendation'],
+      },
+    },
+    metrics: {
+      type: 'object',
+      properties: {
+        emailsToProcess: { type: 'integer', minimum: 0 },
+        urgentEmailCount: { type: 'integer', minimum: 0 },
+        meetingsToday: { type: 'integer', minimum: 0 },
+        conflictsDetected: { type: 'integer', minimum: 0 },
+        documentsUpdated: { type: 'integer', minimum: 0 },
+      },
+      required: ['emailsToProcess', 'meetingsToday', 'conflictsDetected'],
+    },
+    closingNote: {
+      type: 'string',
+      description: 'One sentence of strategic advice',
+    },
+  },
+  required: [
+    'executiveSummary',
+    'briefingScore',
+    'briefingVerdict',
+    'topPriority',
+    'urgentAttention',
+    'scheduleInsight',
+    'actionItems',
+    'intelligence',
+    'metrics',
+    'closingNote',
+  ],
+};
+
+// ============================================================================
+// Content Types
+// ============================================================================
+
+export interface CalendarAnalysisContent {
+  executiveSummary: string;
+  healthScore: number;
+  verdict: 'OPTIMAL' | 'GOOD' | 'CONCERNING' | 'CRITICAL';
+  urgentActions: Array<{
+    priority: number;
+    action: string;
+    reason: string;
+    timeframe: string;
+    relatedEvents?: string[];
+  }>;
+  conflictResolutions: Array<{
+    conflictingEvents: string[];
+    overlapMinutes: number;
+    recommendation: string;
+    suggestedAction: 'RESCHEDULE' | 'DELEGATE' | 'DECLINE' | 'SHORTEN';
+    keepEvent: string;
+    moveEvent: string;
+    priority?: 'HIGH' | 'MEDIUM' | 'LOW';
+  }>;
+  recurringMeetingActions?: Array<{
+    series: string;
+    action: 'DECLINE_SERIES' | 'SHORTEN' | 'REDUCE_FREQUENCY' | 'DELEGATE' | 'KEEP';
+    reason: string;
+    hoursSavedPerQuarter: number;
+  }>;
+  delegationOpportunities?: Array<{
+    meeting: string;
+    reason: string;
+    suggestedDelegate: string;
+  }>;
+  focusTimeProtection: {
+    availableHours: number;
+    recommendation: string;
+    suggestedBlocks?: string[];
+    riskAreas?: string[];
+  };
+  weeklyInsights: {
+    meetingLoad: 'LIGHT' | 'MODERATE' | 'HEAVY' | 'OVERLOADED';
+    balanceScore: number;
+    topConcern: string;
+    positivePatterns?: string[];
+    alignmentScore?: number;
+  };
+  personalizedInsights?: Array<{
+    category: 'GOAL_ALIGNMENT' | 'BLOCKER_RISK' | 'FLOW_PROTECTION' | 'DECISION_SUPPORT';
+    insight: string;
+    recommendation: string;
+  }> | null;
+  metrics: {
+    meetingHoursTotal: number;
+    focusHoursAvailable: number;
+    conflictCount: number;
+    backToBackCount: number;
+    averageMeetingLength?: number;
+    busiestDay?: string;
+    lightestDay?: string;
+  };
+}
+
+export interface BriefingContent {
+  executiveSummary: string;
+  briefingScore: number;
+  briefingVerdict: 'CLEAR' | 'MANAGEABLE' | 'BUSY' | 'OVERLOADED';
+  topPriority: {
+    item: string;
+    reason: string;
+    suggestedAction: string;
+    alignsWithGoal?: boolean;
+  };
+  urgentAttention: Array<{
+    type: 'EMAIL' | 'MEETING' | 'DOCUMENT' | 'CONFLICT';
+    item: string;
+    action: string;
+    deadline?: string | null;
+    priority: number;
+  }>;
+  scheduleInsight: {
+    meetingCount: number;
+    totalMeetingHours: number;
+    conflictCount: number;
+    nextMeeting?: string | null;
+    minutesUntilNext?: number | null;
+    freeBlocks: string[];
+    recommendation: string;
+  };
+  actionItems: Array<{
+    task: string;
+    source: 'EMAIL' | 'CALENDAR' | 'DRIVE' | 'ANALYSIS';
+    priority: 'HIGH' | 'MEDIUM' | 'LOW';
+    canDelegate?: boolean;
+    delegateTo?: string | null;
+    estimatedMinutes?: number | null;
+  }>;
+  intelligence: {
+    emailHighlights: string[];
+    documentActivity: string[];
+    patterns: string[];
+  };
+  personalizedInsights?: Array<{
+    category: 'GOAL_PROGRESS' | 'BLOCKER_ALERT' | 'ENERGY_TIP' | 'DECISION_NEEDED';
+    insight: string;
+    recommendation: string;
+  }> | null;
+  metrics: {
+    emailsToProcess: number;
+    urgentEmailCount?: number;
+    meetingsToday: number;
+    conflictsDetected: number;
+    documentsUpdated?: number;
+  };
+  closingNote: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * EmergentOS - LLM Provider Types
+ *
+ * Provider-neutral interface for briefings, calendar analysis, onboarding and
+ * chat. Adapters (Gemini, OpenAI-compatible) live next to this file; the
+ * provider for a user is picked in client.ts.
+ */
+
+import type { ChatHistoryTurn } from '../chat-history';
+
+// ============================================================================
+// JSON Schema
+// ============================================================================
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+
+/**
+ * The JSON Schema subset our structured outputs use. Nullable values are
+ * written as a type pair, e.g. `type: ['string', 'null']`.
+ */
+export interface JsonSchema {
+  type: JsonSchemaType | [JsonSchemaType, 'null'];
+  description?: string;
+  enum?: string[];
+  minimum?: number;   // Checked by validation.ts; not every provider enforces ranges
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+export type LlmProviderName = 'gemini' | 'openai-compatible';
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Output of a completed call, with its token usage (null when the server
+ * doesn't report it)
+ */
+export interface LlmResponse {
+  text: string;
+  usage: LlmTokenUsage | null;
+}
+
+/** Called once a chat stream ends, with the error if it failed */
+export type StreamCompleteCallback = (usage: LlmTokenUsage | null, error?: unknown) => void;
+
+/**
+ * Pluggable LLM backend. Implementations retry rate limits themselves and
+ * throw once retries run out. Features don't call providers directly; they
+ * get a metered LlmClient from client.ts.
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+
+  /**
+   * Deterministic JSON output (temperature 0). With a schema the provider
+   * enforces it natively where it can. Returns the raw JSON text.
+   */
+  generateJSON(prompt: string, schema?: JsonSchema): Promise<LlmResponse>;
+
+  /**
+   * Plain text output (recaps, summaries)
+   */
+  generateText(prompt: string): Promise<LlmResponse>;
+
+  /**
+   * Streaming chat as Server-Sent Events: one `data: {"text": ...}` event per
+   * chunk. `history` holds the session's earlier turns, oldest first.
+   * Does NOT send [DONE] - the caller appends it after any extra events.
+   */
+  streamChat(
+    systemPrompt: string,
+    userMessage: string,
+    history?: ChatHistoryTurn[],
+    onComplete?: StreamCompleteCallback
+  ): Promise<ReadableStream<Uint8Array>>;
+}
+
+// ============================================================================
+// Metered Client
+// ============================================================================
+
+/** What a call is for, as recorded in llm_usage.feature */
+export type LlmFeature = 'chat' | 'briefing' | 'calendar_analysis' | 'onboarding';
+
+/**
+ * A provider bound to one user and feature (metering.ts): every call is
+ * recorded in llm_usage, checked against the user's daily budget, and
+ * structured calls are served from the response cache when the prompt repeats
+ */
+export interface LlmClient {
+  name: LlmProviderName;
+  model: string;
+  feature: LlmFeature;
+
+  generateJSON(prompt: string, schema?: JsonSchema): Promise<string>;
+  generateText(prompt: string): Promise<string>;
+  streamChat(systemPrompt: string, userMessage: string, history?: ChatHistoryTurn[]): Promise<ReadableStream<Uint8Array>>;
+}
@@ -0,0 +1,160 @@
+/**
+ * EmergentOS - Structured Output Validation
+ *
+ * Runtime checks of LLM JSON against our output schemas: types, enums,
+ * required fields and numeric ranges. Schema enforcement differs per provider
+ * (and some servers ignore it), so responses are validated before they reach
+ * briefings.content or calendar_insights.content. An invalid response gets
+ * one repair re-prompt listing the errors; if that still fails, the caller's
+ * typed fallback is stored instead.
+ */
+
+import { buildRepairPrompt } from './prompts';
+import { LLM_REPAIR_MAX_ATTEMPTS, LLM_REPAIR_MAX_ERRORS } from '../constants';
+import type { JsonSchema, LlmClient } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StructuredResult<T> {
+  content: T;
+  outcome: 'valid' | 'repaired' | 'fallback';
+  errors: string[];   // Validation errors of the last rejected response
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validation errors of a value against a schema, as `path: problem` strings
+ * (empty when valid). A null optional property counts as absent.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const [type, nullable] = Array.isArray(schema.type) ? [schema.type[0], true] : [schema.type, false];
+
+  if (value === null && nullable) return [];
+  if (!matchesType(value, type)) {
+    return [`${path}: expected ${nullable ? `${type} or null` : type}, got ${describe(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${value} is below the minimum of ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${value} is above the maximum of ${schema.maximum}`);
+    }
+  }
+
+  if (type === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push(`${path}.${key}: required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (record[key] === undefined || record[key] === null) continue;
+      errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+    }
+  }
+
+  if (type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a raw JSON response
+ */
+function checkResponse(responseText: string, schema: JsonSchema): { value: unknown; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(responseText);
+  } catch {
+    return { value: null, errors: ['$: response is not valid JSON'] };
+  }
+  return { value, errors: validateAgainstSchema(value, schema) };
+}
+
+// ============================================================================
+// Generation with Repair
+// ============================================================================
+
+/**
+ * Generate JSON matching the schema. An invalid response is re-prompted with
+ * its validation errors (LLM_REPAIR_MAX_ATTEMPTS times); when repair fails,
+ * including a repair call that throws, the fallback is returned. Errors from
+ * the first call are thrown to the caller as before.
+ */
+export async function generateStructured<T>(
+  llm: LlmClient,
+  prompt: string,
+  schema: JsonSchema,
+  fallback: () => T,
+  label: string
+): Promise<StructuredResult<T>> {
+  let responseText = await llm.generateJSON(prompt, schema);
+
+  for (let attempt = 0; ; attempt++) {
+    const { value, errors } = checkResponse(responseText, schema);
+
+    if (errors.length === 0) {
+      if (attempt > 0) {
+        console.log(`[${label}] ${llm.name} response repaired after ${attempt} attempt(s)`);
+      }
+      return { content: value as T, outcome: attempt === 0 ? 'valid' : 'repaired', errors: [] };
+    }
+
+    if (attempt >= LLM_REPAIR_MAX_ATTEMPTS) {
+      console.error(`[${label}] ${llm.name} response still invalid after repair, using fallback:`, errors);
+      return { content: fallback(), outcome: 'fallback', errors };
+    }
+
+    console.warn(`[${label}] ${llm.name} response failed validation (${errors.length} errors), re-prompting:`, errors);
+
+    try {
+      responseText = await llm.generateJSON(
+        buildRepairPrompt(prompt, responseText, errors.slice(0, LLM_REPAIR_MAX_ERRORS)),
+        schema
+      );
+    } catch (error) {
+      console.error(`[${label}] ${llm.name} repair call failed, using fallback:`, error);
+      return { content: fallback(), outcome: 'fallback', errors };
+    }
+  }
+}
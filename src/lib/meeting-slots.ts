@@ -0,0 +1,519 @@
+/**
+ * EmergentOS - Meeting Slot Finder
+ *
+ * Answers "when can I meet X, Y and Z next week". The user's own time comes
+ * from calendar_events (focus holds count as busy); attendees' busy time
+ * comes from Google's freeBusy endpoint, which works for anyone whose
+ * calendar the user can see. Every free working-hours slot of the requested
+ * length is scored and the best few are returned, spread across days:
+ *  - Slots that break a free focus block (MIN_FOCUS_BLOCK_HOURS) rank lower
+ *  - Slots that make a back-to-back run (MAX_BACK_TO_BACK_GAP_MINUTES) rank lower
+ *  - Slots in the user's energy peak (onboarding assessment) rank lower, since
+ *    peak hours are kept for deep work
+ *  - Sooner slots win ties
+ */
+
+import { supabase } from './supabase';
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { getCalendarConnectionId } from './calendars';
+import { isAttending } from './attendees';
+import { parseUserPreferences, toWorkSchedule } from './preferences';
+import { getDateInZone, getZonedParts, zonedTimeToUtc } from './time';
+import type { WorkSchedule } from './helpers';
+import type { UserAssessment, WorkStyle } from './onboarding/types';
+import {
+  CALENDAR_FUTURE_DAYS,
+  MAX_BACK_TO_BACK_GAP_MINUTES,
+  MIN_BACK_TO_BACK_SEQUENCE,
+  MIN_FOCUS_BLOCK_HOURS,
+  SLOT_FINDER_DEFAULT_DAYS,
+  SLOT_FINDER_MAX_ATTENDEES,
+  SLOT_FINDER_MAX_DAYS,
+  SLOT_FINDER_MAX_DURATION_MINUTES,
+  SLOT_FINDER_MAX_PER_DAY,
+  SLOT_FINDER_MAX_RESULTS,
+  SLOT_FINDER_MIN_DURATION_MINUTES,
+  SLOT_FINDER_STEP_MINUTES,
+} from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MeetingSlotRequest {
+  attendees: string[];        // Lowercased, de-duplicated emails
+  durationMinutes: number;
+  from?: string;              // ISO; defaults to now
+  to?: string;                // ISO; defaults to SLOT_FINDER_DEFAULT_DAYS after from
+}
+
+export interface MeetingSlot {
+  start: string;
+  end: string;
+  score: number;              // 0-100, higher is better
+  reasons: string[];          // Why the slot ranks where it does, for display
+}
+
+export interface UnavailableAttendee {
+  email: string;
+  reason: string;             // Google's error reason, e.g. notFound (calendar not shared)
+}
+
+export interface MeetingSlotSearch {
+  timeZone: string;
+  durationMinutes: number;
+  from: string;
+  to: string;
+  slots: MeetingSlot[];
+  unavailable: UnavailableAttendee[];   // Ranked without their availability
+}
+
+interface Interval {
+  start: number;              // Epoch ms
+  end: number;
+}
+
+interface WorkDay extends Interval {
+  date: string;               // Local YYYY-MM-DD
+  index: number;              // Days after the first day searched
+}
+
+interface Candidate {
+  slot: MeetingSlot;
+  interval: Interval;
+  date: string;
+}
+
+interface FreeBusyResponse {
+  calendars?: Record<string, {
+    busy?: Array<{ start: string; end: string }>;
+    errors?: Array<{ domain: string; reason: string }>;
+  }>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Score deductions */
+const PENALTY_PER_FOCUS_HOUR_LOST = 20;
+const PENALTY_BACK_TO_BACK_RUN = 25;
+const PENALTY_ADJACENT_MEETING = 5;
+const PENALTY_ENERGY_PEAK = 20;
+const PENALTY_PER_DAY_OUT = 1.5;
+
+const ENERGY_PEAK_LABELS: Record<Exclude<WorkStyle['energyPattern'], 'steady'>, string> = {
+  morning_peak: 'morning',
+  afternoon_peak: 'afternoon',
+  evening_peak: 'evening',
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+const MEETING_SLOTS_REJECTED = 'MEETING_SLOTS_REJECTED';
+
+function reject(message: string): never {
+  throw Object.assign(new Error(message), { code: MEETING_SLOTS_REJECTED });
+}
+
+/**
+ * True for errors the user can act on (calendar not connected); the message
+ * is safe to show
+ */
+export function isMeetingSlotsRejectedError(error: unknown): boolean {
+  return (error as { code?: string })?.code === MEETING_SLOTS_REJECTED;
+}
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+/**
+ * Validate a slot search body: { attendees, durationMinutes, from?, to? }
+ */
+export function parseMeetingSlotRequest(body: unknown): MeetingSlotRequest | null {
+  const raw = (body ?? {}) as Record<string, unknown>;
+
+  if (!Array.isArray(raw.attendees) || !raw.attendees.every((a) => typeof a === 'string')) return null;
+  const attendees = Array.from(new Set((raw.attendees as string[]).map((a) => a.trim().toLowerCase()).filter(Boolean)));
+  if (attendees.length === 0 || attendees.length > SLOT_FINDER_MAX_ATTENDEES) return null;
+  if (!attendees.every((a) => EMAIL_PATTERN.test(a))) return null;
+
+  const durationMinutes = raw.durationMinutes;
+  if (
+    typeof durationMinutes !== 'number' || !Number.isInteger(durationMinutes) ||
+    durationMinutes < SLOT_FINDER_MIN_DURATION_MINUTES || durationMinutes > SLOT_FINDER_MAX_DURATION_MINUTES
+  ) {
+    return null;
+  }
+
+  if (raw.from !== undefined && !isValidDate(raw.from)) return null;
+  if (raw.to !== undefined && !isValidDate(raw.to)) return null;
+  if (raw.from !== undefined && raw.to !== undefined && Date.parse(raw.to as string) <= Date.parse(raw.from as string)) {
+    return null;
+  }
+
+  return {
+    attendees,
+    durationMinutes,
+    from: raw.from as string | undefined,
+    to: raw.to as string | undefined,
+  };
+}
+
+/**
+ * The searched window: from no earlier than now (on the slot grid), to at
+ * most SLOT_FINDER_MAX_DAYS later. It never runs past the synced calendar
+ * (CALENDAR_FUTURE_DAYS), since beyond it the user would look free.
+ */
+function resolveWindow(request: MeetingSlotRequest, now: Date): Interval | null {
+  const stepMs = SLOT_FINDER_STEP_MINUTES * MINUTE_MS;
+  const requestedFrom = request.from ? Date.parse(request.from) : now.getTime();
+  const start = Math.ceil(Math.max(requestedFrom, now.getTime()) / stepMs) * stepMs;
+  const end = Math.min(
+    request.to ? Date.parse(request.to) : start + SLOT_FINDER_DEFAULT_DAYS * DAY_MS,
+    start + SLOT_FINDER_MAX_DAYS * DAY_MS,
+    getSyncedUntil(now)
+  );
+
+  return end - start >= request.durationMinutes * MINUTE_MS ? { start, end } : null;
+}
+
+/**
+ * End of the range calendar sync keeps in calendar_events
+ */
+function getSyncedUntil(now: Date): number {
+  return now.getTime() + CALENDAR_FUTURE_DAYS * DAY_MS;
+}
+
+// ============================================================================
+// Availability
+// ============================================================================
+
+/**
+ * The user's attended, timed meetings and focus holds in the window. Calendars
+ * excluded from conflicts (holidays) don't block time.
+ */
+async function getUserBusy(
+  userId: string,
+  window: Interval,
+  conflictExcluded: string[]
+): Promise<{ meetings: Interval[]; holds: Interval[] }> {
+  // A day either side, so back-to-back runs at the window edges are seen
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('calendar_id, start_time, end_time, is_all_day, self_response_status, focus_hold')
+    .eq('user_id', userId)
+    .gt('end_time', new Date(window.start - DAY_MS).toISOString())
+    .lt('start_time', new Date(window.end + DAY_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch events for slot search: ${error.message}`);
+  }
+
+  const excluded = new Set(conflictExcluded);
+  const meetings: Interval[] = [];
+  const holds: Interval[] = [];
+
+  for (const event of data || []) {
+    if (event.is_all_day || !isAttending(event) || excluded.has(event.calendar_id)) continue;
+    const interval = { start: Date.parse(event.start_time), end: Date.parse(event.end_time) };
+    (event.focus_hold ? holds : meetings).push(interval);
+  }
+
+  meetings.sort((a, b) => a.start - b.start);
+  return { meetings, holds };
+}
+
+/**
+ * Attendees' busy time from Google freeBusy. Calendars the user can't see
+ * come back with errors instead of busy blocks.
+ */
+async function getAttendeeBusy(
+  nangoConnectionId: string,
+  attendees: string[],
+  window: Interval,
+  timeZone: string
+): Promise<{ busy: Interval[]; unavailable: UnavailableAttendee[] }> {
+  const response = await nangoProxy<FreeBusyResponse>({
+    method: 'POST',
+    endpoint: '/calendar/v3/freeBusy',
+    providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+    connectionId: nangoConnectionId,
+    data: {
+      timeMin: new Date(window.start).toISOString(),
+      timeMax: new Date(window.end).toISOString(),
+      timeZone,
+      items: attendees.map((id) => ({ id })),
+    },
+  });
+
+  const calendars = response.data.calendars ?? {};
+  const busy: Interval[] = [];
+  const unavailable: UnavailableAttendee[] = [];
+
+  for (const email of attendees) {
+    const calendar = calendars[email];
+    if (!calendar || calendar.errors?.length) {
+      unavailable.push({ email, reason: calendar?.errors?.[0]?.reason ?? 'notFound' });
+      continue;
+    }
+    for (const block of calendar.busy ?? []) {
+      busy.push({ start: Date.parse(block.start), end: Date.parse(block.end) });
+    }
+  }
+
+  return { busy, unavailable };
+}
+
+/**
+ * Stored preferences and the energy pattern from the onboarding assessment
+ * (null until onboarding completes)
+ */
+async function getSchedulingProfile(userId: string): Promise<{ pattern: WorkStyle['energyPattern'] | null; preferences: unknown }> {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('preferences, ai_assessment')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const assessment = data?.ai_assessment as Partial<UserAssessment> | null | undefined;
+  return { pattern: assessment?.workStyle?.energyPattern ?? null, preferences: data?.preferences };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Working hours of each working day that overlaps the window
+ */
+function getWorkDays(window: Interval, schedule: WorkSchedule): WorkDay[] {
+  const first = getZonedParts(new Date(window.start), schedule.timeZone);
+  const days: WorkDay[] = [];
+
+  for (let d = 0; d <= SLOT_FINDER_MAX_DAYS; d++) {
+    const start = zonedTimeToUtc(first.year, first.month, first.day + d, 0, schedule.startMinutes, schedule.timeZone).getTime();
+    if (start >= window.end) break;
+    if (!schedule.days.includes((first.weekday + d) % 7)) continue;
+
+    const end = zonedTimeToUtc(first.year, first.month, first.day + d, 0, schedule.endMinutes, schedule.timeZone).getTime();
+    const day = { start: Math.max(start, window.start), end: Math.min(end, window.end) };
+    if (day.end > day.start) {
+      days.push({ ...day, date: getDateInZone(new Date(start), schedule.timeZone), index: d });
+    }
+  }
+
+  return days;
+}
+
+/**
+ * The third of the working day the user's energy peaks in (null for steady)
+ */
+function getPeakWindow(day: WorkDay, schedule: WorkSchedule, pattern: WorkStyle['energyPattern'] | null): Interval | null {
+  if (!pattern || pattern === 'steady') return null;
+
+  const first = getZonedParts(new Date(day.start), schedule.timeZone);
+  const third = (schedule.endMinutes - schedule.startMinutes) / 3;
+  const offset = pattern === 'morning_peak' ? 0 : pattern === 'afternoon_peak' ? 1 : 2;
+  const startMinutes = schedule.startMinutes + third * offset;
+
+  return {
+    start: zonedTimeToUtc(first.year, first.month, first.day, 0, Math.round(startMinutes), schedule.timeZone).getTime(),
+    end: zonedTimeToUtc(first.year, first.month, first.day, 0, Math.round(startMinutes + third), schedule.timeZone).getTime(),
+  };
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+/**
+ * Focus hours the slot costs beyond its own length: the free gap it sits in
+ * counts as focus time when it is MIN_FOCUS_BLOCK_HOURS or more, and so do
+ * the pieces left on either side
+ */
+function focusHoursLost(slot: Interval, day: WorkDay, userBusy: Interval[]): number {
+  let gapStart = day.start;
+  let gapEnd = day.end;
+  for (const busy of userBusy) {
+    if (busy.end <= slot.start && busy.end > gapStart) gapStart = busy.end;
+    if (busy.start >= slot.end && busy.start < gapEnd) gapEnd = busy.start;
+  }
+
+  const focus = (ms: number) => (ms >= MIN_FOCUS_BLOCK_HOURS * HOUR_MS ? ms / HOUR_MS : 0);
+  const before = focus(gapEnd - gapStart);
+  const after = focus(slot.start - gapStart) + focus(gapEnd - slot.end);
+  return Math.max(0, before - after - (slot.end - slot.start) / HOUR_MS);
+}
+
+/**
+ * Length of the back-to-back run the slot would join, counting itself
+ */
+function backToBackRun(slot: Interval, meetings: Interval[]): number {
+  const maxGap = MAX_BACK_TO_BACK_GAP_MINUTES * MINUTE_MS;
+  let run = 1;
+
+  let edge = slot.start;
+  for (let i = meetings.length - 1; i >= 0; i--) {
+    const meeting = meetings[i];
+    if (meeting.end <= edge && edge - meeting.end <= maxGap) {
+      run++;
+      edge = meeting.start;
+    }
+  }
+
+  edge = slot.end;
+  for (const meeting of meetings) {
+    if (meeting.start >= edge && meeting.start - edge <= maxGap) {
+      run++;
+      edge = meeting.end;
+    }
+  }
+
+  return run;
+}
+
+function scoreSlot(
+  slot: Interval,
+  day: WorkDay,
+  meetings: Interval[],
+  userBusy: Interval[],
+  peak: Interval | null,
+  pattern: WorkStyle['energyPattern'] | null
+): MeetingSlot {
+  let score = 100;
+  const reasons: string[] = [];
+
+  const lost = focusHoursLost(slot, day, userBusy);
+  if (lost > 0) {
+    score -= lost * PENALTY_PER_FOCUS_HOUR_LOST;
+    reasons.push(`Costs ${Math.round(lost * 10) / 10}h of focus time`);
+  } else {
+    reasons.push('Keeps your focus blocks intact');
+  }
+
+  const run = backToBackRun(slot, meetings);
+  if (run >= MIN_BACK_TO_BACK_SEQUENCE) {
+    score -= PENALTY_BACK_TO_BACK_RUN;
+    reasons.push(`Makes ${run} meetings back-to-back`);
+  } else if (run > 1) {
+    score -= PENALTY_ADJACENT_MEETING;
+    reasons.push('Right next to another meeting');
+  } else {
+    reasons.push('Breathing room before and after');
+  }
+
+  if (peak && pattern && pattern !== 'steady') {
+    if (overlaps(slot, peak)) {
+      score -= PENALTY_ENERGY_PEAK;
+      reasons.push(`During your ${ENERGY_PEAK_LABELS[pattern]} peak`);
+    } else {
+      reasons.push(`Outside your ${ENERGY_PEAK_LABELS[pattern]} peak`);
+    }
+  }
+
+  score -= day.index * PENALTY_PER_DAY_OUT;
+
+  return {
+    start: new Date(slot.start).toISOString(),
+    end: new Date(slot.end).toISOString(),
+    score: Math.max(0, Math.round(score)),
+    reasons,
+  };
+}
+
+/**
+ * Best slots first, at most SLOT_FINDER_MAX_PER_DAY per day and none
+ * overlapping another pick
+ */
+function pickSlots(candidates: Candidate[]): MeetingSlot[] {
+  const sorted = [...candidates].sort((a, b) => b.slot.score - a.slot.score || a.interval.start - b.interval.start);
+  const perDay = new Map<string, number>();
+  const picked: Candidate[] = [];
+
+  for (const candidate of sorted) {
+    if (picked.length >= SLOT_FINDER_MAX_RESULTS) break;
+    if ((perDay.get(candidate.date) ?? 0) >= SLOT_FINDER_MAX_PER_DAY) continue;
+    if (picked.some((p) => overlaps(p.interval, candidate.interval))) continue;
+
+    picked.push(candidate);
+    perDay.set(candidate.date, (perDay.get(candidate.date) ?? 0) + 1);
+  }
+
+  return picked.map((candidate) => candidate.slot);
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Ranked slots when the user and every attendee whose calendar is visible
+ * are free, inside the user's working hours
+ */
+export async function findMeetingSlots(userId: string, request: MeetingSlotRequest): Promise<MeetingSlotSearch> {
+  const nangoConnectionId = await getCalendarConnectionId(userId);
+  if (!nangoConnectionId) reject('Google Calendar is not connected');
+
+  const profile = await getSchedulingProfile(userId);
+  const preferences = parseUserPreferences(profile.preferences);
+  const schedule = toWorkSchedule(preferences);
+
+  const now = new Date();
+  const window = resolveWindow(request, now);
+  if (!window) {
+    if (request.from && Date.parse(request.from) >= getSyncedUntil(now) - request.durationMinutes * MINUTE_MS) {
+      reject(`Slots can only be searched up to ${CALENDAR_FUTURE_DAYS} days ahead`);
+    }
+    reject('The search window is shorter than the meeting');
+  }
+
+  const [user, attendees] = await Promise.all([
+    getUserBusy(userId, window, preferences.calendars.conflictExcluded),
+    getAttendeeBusy(nangoConnectionId, request.attendees, window, schedule.timeZone),
+  ]);
+
+  const userBusy = [...user.meetings, ...user.holds];
+  const allBusy = [...userBusy, ...attendees.busy];
+  const durationMs = request.durationMinutes * MINUTE_MS;
+  const stepMs = SLOT_FINDER_STEP_MINUTES * MINUTE_MS;
+  const candidates: Candidate[] = [];
+
+  for (const day of getWorkDays(window, schedule)) {
+    const peak = getPeakWindow(day, schedule, profile.pattern);
+
+    for (let start = Math.ceil(day.start / stepMs) * stepMs; start + durationMs <= day.end; start += stepMs) {
+      const slot = { start, end: start + durationMs };
+      if (allBusy.some((busy) => overlaps(busy, slot))) continue;
+
+      candidates.push({
+        slot: scoreSlot(slot, day, user.meetings, userBusy, peak, profile.pattern),
+        interval: slot,
+        date: day.date,
+      });
+    }
+  }
+
+  console.log(
+    `[Meeting Slots] User ${userId}: ${candidates.length} free slots for ${request.attendees.length} attendees (${attendees.unavailable.length} without visible calendars)`
+  );
+
+  return {
+    timeZone: schedule.timeZone,
+    durationMinutes: request.durationMinutes,
+    from: new Date(window.start).toISOString(),
+    to: new Date(window.end).toISOString(),
+    slots: pickSlots(candidates),
+    unavailable: attendees.unavailable,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * EmergentOS - Rate-Limited Nango Proxy
+ *
+ * Shared client for Google API calls through nango.proxy. Requests are
+ * throttled per connection by a token bucket sized from the provider's
+ * *_FETCH_CONCURRENCY constant. Rate-limit, quota, server and network errors
+ * are retried after Retry-After or a jittered exponential backoff; a
+ * rate-limit response pauses every request on that connection.
+ *
+ * Buckets live in process memory, so the limit applies per server instance.
+ */
+
+import type { ProxyConfiguration } from '@nangohq/node';
+import { nango, getProviderFromConfigKey, type ProviderKey } from './nango';
+import { classifyError, formatErrorMessage, getRetryAfterMs } from './errors';
+import {
+  CALENDAR_FETCH_CONCURRENCY,
+  DRIVE_FETCH_CONCURRENCY,
+  GMAIL_FETCH_CONCURRENCY,
+  NANGO_PROXY_BASE_DELAY_MS,
+  NANGO_PROXY_MAX_DELAY_MS,
+  NANGO_PROXY_MAX_RETRIES,
+  NANGO_PROXY_REFILL_WINDOW_MS,
+} from './constants';
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+const CONCURRENCY_BY_PROVIDER: Record<ProviderKey, number> = {
+  gmail: GMAIL_FETCH_CONCURRENCY,
+  calendar: CALENDAR_FETCH_CONCURRENCY,
+  drive: DRIVE_FETCH_CONCURRENCY,
+};
+
+/** Categories worth retrying in-process; auth and client errors fail immediately */
+const RETRYABLE_CATEGORIES = ['rate_limit', 'server', 'network'];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * At most `capacity` requests in flight, and `capacity` request starts per
+ * refill window
+ */
+class ConnectionLimiter {
+  private tokens: number;
+  private inFlight = 0;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      if (this.inFlight >= this.capacity) {
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+
+      this.refill();
+      const now = Date.now();
+      if (now >= this.pausedUntil && this.tokens >= 1) {
+        this.tokens -= 1;
+        this.inFlight++;
+        return;
+      }
+
+      const untilToken = ((1 - this.tokens) * NANGO_PROXY_REFILL_WINDOW_MS) / this.capacity;
+      await sleep(Math.max(this.pausedUntil - now, untilToken, 1));
+    }
+  }
+
+  release(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+    this.waiters.shift()?.();
+  }
+
+  /**
+   * Hold back all requests on this connection (after a rate-limit response)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) * this.capacity) / NANGO_PROXY_REFILL_WINDOW_MS;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+}
+
+const limiters = new Map<string, ConnectionLimiter>();
+
+function getLimiter(providerConfigKey: string, connectionId: string): ConnectionLimiter {
+  const key = `${providerConfigKey}:${connectionId}`;
+  let limiter = limiters.get(key);
+
+  if (!limiter) {
+    const provider = getProviderFromConfigKey(providerConfigKey);
+    limiter = new ConnectionLimiter(provider ? CONCURRENCY_BY_PROVIDER[provider] : GMAIL_FETCH_CONCURRENCY);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+// ============================================================================
+// Retry Policy
+// ============================================================================
+
+/**
+ * Delay before retrying, or null to give up. A Retry-After longer than the
+ * maximum delay (e.g. daily quota) is not waited out in-process; the error is
+ * thrown so the Inngest step retries later.
+ */
+function getRetryDelayMs(error: unknown, attempt: number): number | null {
+  if (attempt >= NANGO_PROXY_MAX_RETRIES) return null;
+
+  const classified = classifyError(error);
+  if (!RETRYABLE_CATEGORIES.includes(classified.category)) return null;
+
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== null) {
+    return retryAfter <= NANGO_PROXY_MAX_DELAY_MS ? retryAfter : null;
+  }
+
+  // Equal jitter: half the exponential delay, plus up to the other half at random
+  const backoff = Math.min(NANGO_PROXY_MAX_DELAY_MS, NANGO_PROXY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+// ============================================================================
+// Proxy
+// ============================================================================
+
+/**
+ * nango.proxy with per-connection throttling and retries. Same configuration
+ * and response as nango.proxy; throws the last error once retries run out.
+ */
+export async function nangoProxy<T = unknown>(config: ProxyConfiguration) {
+  const limiter = getLimiter(config.providerConfigKey ?? '', config.connectionId ?? '');
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire();
+
+    try {
+      const response = await nango.proxy<T>(config);
+      limiter.release();
+      return response;
+    } catch (error) {
+      limiter.release();
+
+      const delay = getRetryDelayMs(error, attempt);
+      if (delay === null) throw error;
+
+      const classified = classifyError(error);
+      if (classified.category === 'rate_limit') {
+        limiter.pause(delay);
+      }
+
+      console.warn(`[Nango Proxy] ${config.method || 'GET'} ${config.endpoint} failed (${classified.category}: ${formatErrorMessage(error)}), retry ${attempt + 1}/${NANGO_PROXY_MAX_RETRIES} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * EmergentOS - User Preferences
+ *
+ * Time zone, working hours, calendar selection and the focus-hold policy
+ * stored in user_profiles.preferences (JSONB).
+ * Users without saved preferences get the defaults from constants.ts.
+ */
+
+import { supabase } from './supabase';
+import {
+  DEFAULT_TIME_ZONE,
+  WORK_DAY_START_HOUR,
+  WORK_DAY_END_HOUR,
+  WORK_DAYS,
+  MAX_SELECTED_CALENDARS,
+  FOCUS_HOLD_DEFAULT_WEEKLY_HOURS,
+  FOCUS_HOLD_MAX_WEEKLY_HOURS,
+} from './constants';
+import { isValidTimeZone } from './time';
+import type { WorkSchedule } from './helpers';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkingHours {
+  start: string;   // "HH:MM", user's local time
+  end: string;     // "HH:MM", user's local time
+  days: number[];  // 0 = Sunday
+}
+
+export interface CalendarPreferences {
+  selected: string[];          // Google calendar IDs to sync ('primary' is always included)
+  conflictExcluded: string[];  // Synced calendars ignored by conflict detection (e.g. holidays)
+}
+
+export interface FocusPolicy {
+  autoProtect: boolean;  // Book focus holds automatically
+  weeklyHours: number;   // Focus hours kept on the calendar over the next 7 days
+}
+
+export interface UserPreferences {
+  timeZone: string;  // IANA zone, e.g. "America/Los_Angeles"
+  workingHours: WorkingHours;
+  calendars: CalendarPreferences;
+  focusPolicy: FocusPolicy;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function formatHourOfDay(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  timeZone: DEFAULT_TIME_ZONE,
+  workingHours: {
+    start: formatHourOfDay(WORK_DAY_START_HOUR),
+    end: formatHourOfDay(WORK_DAY_END_HOUR),
+    days: WORK_DAYS,
+  },
+  calendars: {
+    selected: ['primary'],
+    conflictExcluded: [],
+  },
+  focusPolicy: {
+    autoProtect: false,
+    weeklyHours: FOCUS_HOLD_DEFAULT_WEEKLY_HOURS,
+  },
+};
+
+// ============================================================================
+// Parsing & Validation
+// ============================================================================
+
+/**
+ * Convert "HH:MM" to minutes after midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((n) => parseInt(n, 10));
+  return hours * 60 + minutes;
+}
+
+function isValidDays(days: unknown): days is number[] {
+  return Array.isArray(days) &&
+    days.length > 0 &&
+    days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+}
+
+function isValidWorkingHours(value: unknown): value is WorkingHours {
+  if (!value || typeof value !== 'object') return false;
+  const { start, end, days } = value as Record<string, unknown>;
+  return typeof start === 'string' && TIME_PATTERN.test(start) &&
+    typeof end === 'string' && TIME_PATTERN.test(end) &&
+    toMinutes(end) > toMinutes(start) &&
+    isValidDays(days);
+}
+
+function isCalendarIdList(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.length <= MAX_SELECTED_CALENDARS &&
+    value.every((id) => typeof id === 'string' && id.length > 0 && id.length <= 255);
+}
+
+function isValidCalendarPreferences(value: unknown): value is CalendarPreferences {
+  if (!value || typeof value !== 'object') return false;
+  const { selected, conflictExcluded } = value as Record<string, unknown>;
+  return isCalendarIdList(selected) && isCalendarIdList(conflictExcluded);
+}
+
+function isValidFocusPolicy(value: unknown): value is FocusPolicy {
+  if (!value || typeof value !== 'object') return false;
+  const { autoProtect, weeklyHours } = value as Record<string, unknown>;
+  return typeof autoProtect === 'boolean' &&
+    typeof weeklyHours === 'number' &&
+    weeklyHours > 0 &&
+    weeklyHours <= FOCUS_HOLD_MAX_WEEKLY_HOURS;
+}
+
+/**
+ * Read preferences from the stored JSONB, falling back per field on
+ * missing or invalid values
+ */
+export function parseUserPreferences(raw: unknown): UserPreferences {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const timeZone = typeof stored.timeZone === 'string' && isValidTimeZone(stored.timeZone)
+    ? stored.timeZone
+    : DEFAULT_USER_PREFERENCES.timeZone;
+
+  const workingHours = isValidWorkingHours(stored.workingHours)
+    ? {
+        start: stored.workingHours.start,
+        end: stored.workingHours.end,
+        days: Array.from(new Set(stored.workingHours.days)).sort((a, b) => a - b),
+      }
+    : DEFAULT_USER_PREFERENCES.workingHours;
+
+  const calendars = isValidCalendarPreferences(stored.calendars)
+    ? {
+        selected: Array.from(new Set(['primary', ...stored.calendars.selected])),
+        conflictExcluded: Array.from(new Set(stored.calendars.conflictExcluded)),
+      }
+    : DEFAULT_USER_PREFERENCES.calendars;
+
+  const focusPolicy = isValidFocusPolicy(stored.focusPolicy)
+    ? { autoProtect: stored.focusPolicy.autoProtect, weeklyHours: stored.focusPolicy.weeklyHours }
+    : DEFAULT_USER_PREFERENCES.focusPolicy;
+
+  return { timeZone, workingHours, calendars, focusPolicy };
+}
+
+/**
+ * Validate a preferences update from the client.
+ * Returns an error message, or null when valid.
+ */
+export function validatePreferencesUpdate(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Preferences must be an object';
+  }
+
+  const { timeZone, workingHours, calendars, focusPolicy } = input as Record<string, unknown>;
+
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    return 'timeZone must be a valid IANA time zone (e.g. America/Los_Angeles)';
+  }
+
+  if (workingHours !== undefined && !isValidWorkingHours(workingHours)) {
+    return 'workingHours must have start/end as HH:MM (end after start) and days as 0-6';
+  }
+
+  if (calendars !== undefined && !isValidCalendarPreferences(calendars)) {
+    return `calendars must have selected and conflictExcluded as lists of up to ${MAX_SELECTED_CALENDARS} calendar IDs`;
+  }
+
+  if (focusPolicy !== undefined && !isValidFocusPolicy(focusPolicy)) {
+    return `focusPolicy must have autoProtect as a boolean and weeklyHours between 0 and ${FOCUS_HOLD_MAX_WEEKLY_HOURS}`;
+  }
+
+  return null;
+}
+
+/**
+ * Working schedule used by focus-block and back-to-back detection
+ */
+export function toWorkSchedule(preferences: UserPreferences): WorkSchedule {
+  return {
+    timeZone: preferences.timeZone,
+    startMinutes: toMinutes(preferences.workingHours.start),
+    endMinutes: toMinutes(preferences.workingHours.end),
+    days: preferences.workingHours.days,
+  };
+}
+
+// ============================================================================
+// Database Access
+// ============================================================================
+
+/**
+ * Get a user's preferences (defaults if no profile exists)
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('preferences')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('[Preferences] Fetch error, using defaults:', error);
+  }
+
+  return parseUserPreferences(data?.preferences);
+}
+
+/**
+ * Get time zones for a set of users (defaults for users without a profile)
+ */
+export async function getUserTimeZones(userIds: string[]): Promise<Map<string, string>> {
+  const timeZones = new Map<string, string>(
+    userIds.map((id) => [id, DEFAULT_USER_PREFERENCES.timeZone])
+  );
+  if (userIds.length === 0) return timeZones;
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('user_id, preferences')
+    .in('user_id', userIds);
+
+  if (error) {
+    console.error('[Preferences] Time zone lookup error, using defaults:', error);
+    return timeZones;
+  }
+
+  for (const row of data || []) {
+    timeZones.set(row.user_id, parseUserPreferences(row.preferences).timeZone);
+  }
+
+  return timeZones;
+}
+
+/**
+ * Merge validated fields into stored preferences, keeping any other keys
+ */
+export async function saveUserPreferences(
+  userId: string,
+  update: Partial<UserPreferences>
+): Promise<UserPreferences> {
+  const { data: existing } = await supabase
+    .from('user_profiles')
+    .select('preferences')
+    .eq('user_id', userId)
+    .single();
+
+  const merged = {
+    ...((existing?.preferences as Record<string, unknown>) || {}),
+    ...(update.timeZone !== undefined && { timeZone: update.timeZone }),
+    ...(update.workingHours !== undefined && { workingHours: update.workingHours }),
+    ...(update.calendars !== undefined && { calendars: update.calendars }),
+    ...(update.focusPolicy !== undefined && { focusPolicy: update.focusPolicy }),
+  };
+
+  const { error } = await supabase
+    .from('user_profiles')
+    .upsert({
+      user_id: userId,
+      preferences: merged,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(`Failed to save preferences: ${error.message}`);
+  }
+
+  return parseUserPreferences(merged);
+}
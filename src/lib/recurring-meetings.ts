@@ -0,0 +1,362 @@
+/**
+ * EmergentOS - Recurring Meeting Audit
+ *
+ * Calendar sync expands recurring events into single instances, each tagged
+ * with its series ID (calendar_events.recurring_event_id). This module audits
+ * each series as a whole: recurrence rule, hours over the next quarter,
+ * attendee count, how often it conflicts and when the user last skipped or
+ * declined it. Results live in recurring_series and feed calendar analysis.
+ */
+
+import { supabase } from './supabase';
+import { PROVIDER_CONFIG_KEYS } from './nango';
+import { nangoProxy } from './nango-proxy';
+import { calendarEventsEndpoint } from './calendars';
+import {
+  CALENDAR_FETCH_CONCURRENCY,
+  RECURRING_AUDIT_HORIZON_DAYS,
+  RECURRING_AUDIT_LOOKBACK_DAYS,
+  RECURRING_AUDIT_REFRESH_HOURS,
+} from './constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SkipReason = 'declined' | 'cancelled';
+
+/**
+ * One row of recurring_series
+ */
+export interface RecurringSeriesAudit {
+  recurring_event_id: string;
+  calendar_id: string;
+  title: string;                      // From the stored instances (PII-tokenized)
+  recurrence: string[];               // RRULE/EXDATE lines from the series master
+  organized_by_user: boolean;
+  attendee_count: number;
+  quarter_hours: number;              // Hours the user is expected to attend over the horizon
+  upcoming_count: number;             // Occurrences over the horizon, excluding declined ones
+  occurrences_in_window: number;      // Stored occurrences conflicts are counted over
+  conflict_count: number;
+  last_skipped_at: string | null;
+  last_skipped_reason: SkipReason | null;
+  audited_at: string;
+}
+
+export interface RecurringAuditResult {
+  seriesCount: number;
+  audited: number;
+  removed: number;
+  errors: number;
+}
+
+interface GoogleSeriesEvent {
+  id: string;
+  status?: 'confirmed' | 'cancelled' | 'tentative';
+  recurrence?: string[];
+  start?: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+  originalStartTime?: { dateTime?: string; date?: string };
+  attendees?: Array<{ email: string; responseStatus?: string; self?: boolean }>;
+  organizer?: { email?: string; self?: boolean };
+}
+
+interface StoredSeries {
+  recurring_event_id: string;
+  calendar_id: string;
+  title: string;
+  occurrences_in_window: number;
+  conflict_count: number;
+}
+
+// ============================================================================
+// Google API
+// ============================================================================
+
+async function fetchSeriesMaster(
+  nangoConnectionId: string,
+  calendarId: string,
+  recurringEventId: string
+): Promise<GoogleSeriesEvent> {
+  const response = await nangoProxy<GoogleSeriesEvent>({
+    method: 'GET',
+    endpoint: `${calendarEventsEndpoint(calendarId)}/${encodeURIComponent(recurringEventId)}`,
+    providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+    connectionId: nangoConnectionId,
+  });
+  return response.data;
+}
+
+/**
+ * All instances of a series in a time range, including cancelled exceptions
+ */
+async function fetchSeriesInstances(
+  nangoConnectionId: string,
+  calendarId: string,
+  recurringEventId: string,
+  timeMin: string,
+  timeMax: string
+): Promise<GoogleSeriesEvent[]> {
+  const instances: GoogleSeriesEvent[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const params: Record<string, string | number> = {
+      timeMin,
+      timeMax,
+      showDeleted: 'true',
+      maxResults: 250,
+    };
+    if (pageToken) {
+      params.pageToken = pageToken;
+    }
+
+    const response = await nangoProxy<{ items?: GoogleSeriesEvent[]; nextPageToken?: string }>({
+      method: 'GET',
+      endpoint: `${calendarEventsEndpoint(calendarId)}/${encodeURIComponent(recurringEventId)}/instances`,
+      providerConfigKey: PROVIDER_CONFIG_KEYS.calendar,
+      connectionId: nangoConnectionId,
+      params,
+    });
+
+    instances.push(...(response.data?.items || []));
+    pageToken = response.data?.nextPageToken || null;
+  } while (pageToken);
+
+  return instances;
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+function instanceStart(instance: GoogleSeriesEvent): number {
+  const time = instance.originalStartTime || instance.start;
+  return new Date(time?.dateTime || time?.date || 0).getTime();
+}
+
+/**
+ * Audit one series from its master event and instances around now
+ */
+export async function auditSeries(
+  nangoConnectionId: string,
+  series: StoredSeries,
+  now: Date = new Date()
+): Promise<RecurringSeriesAudit> {
+  const timeMin = new Date(now.getTime() - RECURRING_AUDIT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const timeMax = new Date(now.getTime() + RECURRING_AUDIT_HORIZON_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [master, instances] = await Promise.all([
+    fetchSeriesMaster(nangoConnectionId, series.calendar_id, series.recurring_event_id),
+    fetchSeriesInstances(nangoConnectionId, series.calendar_id, series.recurring_event_id, timeMin, timeMax),
+  ]);
+
+  let quarterMs = 0;
+  let upcomingCount = 0;
+  let lastSkippedAt = 0;
+  let lastSkippedReason: SkipReason | null = null;
+
+  for (const instance of instances) {
+    const start = instanceStart(instance);
+    const declined = instance.attendees?.find((a) => a.self)?.responseStatus === 'declined';
+    const reason: SkipReason | null = instance.status === 'cancelled' ? 'cancelled' : declined ? 'declined' : null;
+
+    if (start >= now.getTime()) {
+      if (reason) continue;
+      const end = new Date(instance.end?.dateTime || instance.end?.date || start).getTime();
+      quarterMs += Math.max(0, end - start);
+      upcomingCount++;
+    } else if (reason && start > lastSkippedAt) {
+      lastSkippedAt = start;
+      lastSkippedReason = reason;
+    }
+  }
+
+  return {
+    recurring_event_id: series.recurring_event_id,
+    calendar_id: series.calendar_id,
+    title: series.title,
+    recurrence: master?.recurrence || [],
+    organized_by_user: Boolean(master?.organizer?.self),
+    attendee_count: master?.attendees?.length || 0,
+    quarter_hours: Math.round((quarterMs / 3600000) * 10) / 10,
+    upcoming_count: upcomingCount,
+    occurrences_in_window: series.occurrences_in_window,
+    conflict_count: series.conflict_count,
+    last_skipped_at: lastSkippedAt > 0 ? new Date(lastSkippedAt).toISOString() : null,
+    last_skipped_reason: lastSkippedReason,
+    audited_at: now.toISOString(),
+  };
+}
+
+/**
+ * Group a user's stored (timed) instances by series. The title comes from the
+ * next upcoming occurrence, so renamed series show their current name.
+ */
+async function loadStoredSeries(userId: string): Promise<StoredSeries[]> {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('recurring_event_id, calendar_id, title, start_time, has_conflict')
+    .eq('user_id', userId)
+    .eq('is_all_day', false)
+    .not('recurring_event_id', 'is', null)
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch recurring events: ${error.message}`);
+  }
+
+  const nowIso = new Date().toISOString();
+  const bySeries = new Map<string, StoredSeries>();
+  const titleStart = new Map<string, string>();
+
+  for (const event of data || []) {
+    const series = bySeries.get(event.recurring_event_id) || {
+      recurring_event_id: event.recurring_event_id,
+      calendar_id: event.calendar_id,
+      title: event.title,
+      occurrences_in_window: 0,
+      conflict_count: 0,
+    };
+    bySeries.set(event.recurring_event_id, series);
+
+    series.occurrences_in_window++;
+    if (event.has_conflict) series.conflict_count++;
+
+    // Rows are in start order: stop taking titles once one comes from an upcoming occurrence
+    const previous = titleStart.get(event.recurring_event_id);
+    if (!previous || previous <= nowIso) {
+      series.title = event.title;
+      titleStart.set(event.recurring_event_id, event.start_time);
+    }
+  }
+
+  return Array.from(bySeries.values());
+}
+
+/**
+ * Re-audit series that are new or older than RECURRING_AUDIT_REFRESH_HOURS
+ * and refresh local counts (title, conflicts) for the rest. Series with no
+ * stored instances left are removed. A failing series keeps its previous row.
+ */
+export async function refreshRecurringAudit(
+  userId: string,
+  nangoConnectionId: string,
+  options: { force?: boolean } = {}
+): Promise<RecurringAuditResult> {
+  const series = await loadStoredSeries(userId);
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from('recurring_series')
+    .select('recurring_event_id, calendar_id, title, occurrences_in_window, conflict_count, audited_at')
+    .eq('user_id', userId);
+
+  if (existingError) {
+    throw new Error(`Failed to fetch recurring series: ${existingError.message}`);
+  }
+
+  const existing = new Map((existingRows || []).map((row) => [row.recurring_event_id as string, row]));
+  const staleBefore = Date.now() - RECURRING_AUDIT_REFRESH_HOURS * 60 * 60 * 1000;
+
+  const stale = series.filter((s) => {
+    const audited = existing.get(s.recurring_event_id)?.audited_at;
+    return options.force || !audited || new Date(audited).getTime() < staleBefore;
+  });
+  const staleIds = new Set(stale.map((s) => s.recurring_event_id));
+
+  // Full audits (2 API calls per series), bounded concurrency
+  const audits: RecurringSeriesAudit[] = [];
+  let errors = 0;
+
+  for (let i = 0; i < stale.length; i += CALENDAR_FETCH_CONCURRENCY) {
+    const batch = stale.slice(i, i + CALENDAR_FETCH_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(async (s) => {
+        try {
+          return await auditSeries(nangoConnectionId, s);
+        } catch (error) {
+          console.warn(`[Recurring Audit] Failed to audit series ${s.recurring_event_id}:`, error);
+          errors++;
+          return null;
+        }
+      })
+    );
+    audits.push(...results.filter((a): a is RecurringSeriesAudit => a !== null));
+  }
+
+  if (audits.length > 0) {
+    const { error } = await supabase
+      .from('recurring_series')
+      .upsert(audits.map((audit) => ({ ...audit, user_id: userId })), { onConflict: 'user_id,recurring_event_id' });
+    if (error) {
+      throw new Error(`Failed to store recurring audit: ${error.message}`);
+    }
+  }
+
+  // Fresh series: only the locally derived columns change, and only when they differ
+  const changed = series.filter((s) => {
+    const row = existing.get(s.recurring_event_id);
+    return !staleIds.has(s.recurring_event_id) && row && (
+      row.calendar_id !== s.calendar_id ||
+      row.title !== s.title ||
+      row.occurrences_in_window !== s.occurrences_in_window ||
+      row.conflict_count !== s.conflict_count
+    );
+  });
+
+  for (const s of changed) {
+    const { error } = await supabase
+      .from('recurring_series')
+      .update({
+        calendar_id: s.calendar_id,
+        title: s.title,
+        occurrences_in_window: s.occurrences_in_window,
+        conflict_count: s.conflict_count,
+      })
+      .eq('user_id', userId)
+      .eq('recurring_event_id', s.recurring_event_id);
+    if (error) {
+      console.warn(`[Recurring Audit] Failed to update series ${s.recurring_event_id}:`, error);
+      errors++;
+    }
+  }
+
+  // Series that ended or were deleted
+  const currentIds = new Set(series.map((s) => s.recurring_event_id));
+  const removedIds = (existingRows || [])
+    .map((row) => row.recurring_event_id as string)
+    .filter((id) => !currentIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('recurring_series')
+      .delete()
+      .eq('user_id', userId)
+      .in('recurring_event_id', removedIds);
+    if (error) {
+      console.warn('[Recurring Audit] Failed to remove ended series:', error);
+      errors++;
+    }
+  }
+
+  return { seriesCount: series.length, audited: audits.length, removed: removedIds.length, errors };
+}
+
+/**
+ * Stored audit for a user, costliest series first
+ */
+export async function getRecurringMeetingAudit(userId: string): Promise<RecurringSeriesAudit[]> {
+  const { data, error } = await supabase
+    .from('recurring_series')
+    .select('recurring_event_id, calendar_id, title, recurrence, organized_by_user, attendee_count, quarter_hours, upcoming_count, occurrences_in_window, conflict_count, last_skipped_at, last_skipped_reason, audited_at')
+    .eq('user_id', userId)
+    .order('quarter_hours', { ascending: false });
+
+  if (error) {
+    console.error('[Recurring Audit] Failed to fetch audit:', error);
+    return [];
+  }
+
+  return (data || []) as RecurringSeriesAudit[];
+}
@@ -0,0 +1,127 @@
+/**
+ * EmergentOS - Sync Change Detection
+ *
+ * Content-hash diffing for the persist steps. Each synced row stores a hash of
+ * its source content (content_hash, migration 013); comparing it with the
+ * stored hash splits a batch into inserted, updated and unchanged items, so
+ * only real changes are written and passed on to embeddings, conflict
+ * detection and briefing regeneration.
+ */
+
+import { supabase } from './supabase';
+import { calculateContentHash } from './helpers';
+import type { SyncItemFailure } from './sync-item-failures';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChangeSet {
+  inserted: string[];
+  updated: string[];
+  unchanged: string[];
+  deleted: string[];
+}
+
+export interface RowDiff<T> {
+  inserted: string[];
+  updated: string[];
+  unchanged: string[];
+  changedRows: T[];   // Inserted and updated rows, the only ones that need writing
+}
+
+export const EMPTY_CHANGE_SET: ChangeSet = { inserted: [], updated: [], unchanged: [], deleted: [] };
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * Hash the given fields of a source item (before DLP tokenization, so a new
+ * token doesn't look like an edit) together with its DLP verdict. A row stored
+ * unverified (scanner outage, vault error) then diffs as updated once a later
+ * scan of the same content comes back clean, and is rewritten tokenized.
+ */
+export async function hashContent<T extends object>(
+  item: T,
+  fields: ReadonlyArray<keyof T>,
+  verified: boolean
+): Promise<string> {
+  return calculateContentHash(JSON.stringify([...fields.map((field) => item[field] ?? null), verified]));
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Compare rows with the stored content_hash of the same IDs. Rows stored
+ * before content hashes existed count as updated once.
+ */
+export async function diffByContentHash<T extends { content_hash: string }>(
+  table: string,
+  userId: string,
+  idColumn: string,
+  rows: T[],
+  idOf: (row: T) => string
+): Promise<RowDiff<T>> {
+  const stored = new Map<string, string | null>();
+  const ids = rows.map(idOf);
+
+  for (let i = 0; i < ids.length; i += 500) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(`${idColumn}, content_hash`)
+      .eq('user_id', userId)
+      .in(idColumn, ids.slice(i, i + 500));
+
+    if (error) {
+      throw new Error(`Failed to load stored hashes from ${table}: ${error.message}`);
+    }
+    for (const row of (data || []) as unknown as Array<Record<string, string | null>>) {
+      stored.set(row[idColumn] as string, row.content_hash);
+    }
+  }
+
+  const diff: RowDiff<T> = { inserted: [], updated: [], unchanged: [], changedRows: [] };
+
+  for (const row of rows) {
+    const id = idOf(row);
+    if (!stored.has(id)) {
+      diff.inserted.push(id);
+    } else if (stored.get(id) !== row.content_hash) {
+      diff.updated.push(id);
+    } else {
+      diff.unchanged.push(id);
+      continue;
+    }
+    diff.changedRows.push(row);
+  }
+
+  return diff;
+}
+
+/**
+ * Final change set of a persist step: rows that failed to write are neither
+ * inserted nor updated (they are retried as item failures)
+ */
+export function toChangeSet<T>(diff: RowDiff<T>, failures: SyncItemFailure[], deleted: string[] = []): ChangeSet {
+  const failedIds = new Set(failures.map((f) => f.itemId));
+  return {
+    inserted: diff.inserted.filter((id) => !failedIds.has(id)),
+    updated: diff.updated.filter((id) => !failedIds.has(id)),
+    unchanged: diff.unchanged,
+    deleted,
+  };
+}
+
+/**
+ * IDs whose content was inserted or updated
+ */
+export function getChangedIds(changes: ChangeSet): string[] {
+  return [...changes.inserted, ...changes.updated];
+}
+
+export function hasChanges(changes: ChangeSet): boolean {
+  return changes.inserted.length > 0 || changes.updated.length > 0 || changes.deleted.length > 0;
+}
@@ -0,0 +1,255 @@
+/**
+ * EmergentOS - Sync Item Failures
+ *
+ * Per-item failure ledger for sync jobs. Sync functions collect items they
+ * could not fetch or store instead of dropping them; the job then finishes as
+ * 'partial' and retry-sync-items refetches just those items with backoff.
+ */
+
+import { supabase } from './supabase';
+import { formatErrorMessage } from './errors';
+import { SYNC_ITEM_FAILURE_PAGE_SIZE } from './constants';
+import type { SyncJobProvider } from './sync-jobs';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SyncItemType = 'message' | 'event' | 'file';
+
+export type SyncItemStage = 'fetch' | 'persist';
+
+export interface SyncItemFailure {
+  itemId: string;
+  stage: SyncItemStage;
+  error: string;
+  context?: Record<string, unknown>;
+}
+
+export interface StoredItemFailure {
+  itemId: string;
+  stage: SyncItemStage;
+  context: Record<string, unknown>;
+  attempts: number;
+}
+
+export interface ItemRetryResult {
+  resolvedIds: string[];
+  failures: SyncItemFailure[];
+}
+
+export const ITEM_TYPE_BY_PROVIDER: Record<SyncJobProvider, SyncItemType> = {
+  gmail: 'message',
+  calendar: 'event',
+  drive: 'file',
+};
+
+// ============================================================================
+// Collecting Failures
+// ============================================================================
+
+export function toItemFailure(
+  itemId: string,
+  stage: SyncItemStage,
+  error: unknown,
+  context?: Record<string, unknown>
+): SyncItemFailure {
+  return { itemId, stage, error: formatErrorMessage(error), ...(context ? { context } : {}) };
+}
+
+/**
+ * The item no longer exists upstream (deleted between listing and fetching),
+ * which is not a failure
+ */
+export function isItemGone(error: unknown): boolean {
+  const errorObj = error as { status?: number; response?: { status?: number } };
+  const status = errorObj.status ?? errorObj.response?.status;
+  return status === 404 || status === 410;
+}
+
+/**
+ * UPSERT rows in batches. When a batch fails, its rows are retried one by one
+ * so a single bad row doesn't lose the whole batch; rows that still fail are
+ * returned as persist failures.
+ */
+export async function upsertIsolatingFailures<T extends object>(
+  table: string,
+  rows: T[],
+  onConflict: string,
+  idOf: (row: T) => string,
+  batchSize: number = 100
+): Promise<SyncItemFailure[]> {
+  const failures: SyncItemFailure[] = [];
+
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize);
+    const { error } = await supabase.from(table).upsert(batch, { onConflict });
+
+    if (!error) continue;
+    console.error(`[Sync Items] ${table} batch UPSERT error, retrying rows individually:`, error);
+
+    for (const row of batch) {
+      const { error: rowError } = await supabase.from(table).upsert(row, { onConflict });
+      if (rowError) {
+        failures.push(toItemFailure(idOf(row), 'persist', rowError.message));
+      }
+    }
+  }
+
+  return failures;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Record failed items against a job. Re-recording an item (step retry) only
+ * refreshes its error.
+ */
+export async function recordItemFailures(
+  job: { jobId: string; userId: string; provider: SyncJobProvider },
+  failures: SyncItemFailure[]
+): Promise<void> {
+  if (failures.length === 0) return;
+
+  const rows = failures.map((f) => ({
+    job_id: job.jobId,
+    user_id: job.userId,
+    provider: job.provider,
+    item_type: ITEM_TYPE_BY_PROVIDER[job.provider],
+    item_id: f.itemId,
+    stage: f.stage,
+    context: f.context ?? {},
+    error_message: f.error,
+    updated_at: new Date().toISOString(),
+  }));
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from('sync_item_failures')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'job_id,item_id' });
+
+    if (error) {
+      throw new Error(`Failed to record item failures: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Items of a job still waiting for a retry (paged, a large initial sync can
+ * leave more than a single select returns)
+ */
+export async function getPendingItemFailures(jobId: string): Promise<StoredItemFailure[]> {
+  const pending: StoredItemFailure[] = [];
+
+  for (let from = 0; ; from += SYNC_ITEM_FAILURE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sync_item_failures')
+      .select('item_id, stage, context, attempts')
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .order('item_id', { ascending: true })
+      .range(from, from + SYNC_ITEM_FAILURE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load item failures: ${error.message}`);
+    }
+
+    pending.push(...(data || []).map((row) => ({
+      itemId: row.item_id,
+      stage: row.stage,
+      context: row.context || {},
+      attempts: row.attempts,
+    })));
+
+    if (!data || data.length < SYNC_ITEM_FAILURE_PAGE_SIZE) break;
+  }
+
+  return pending;
+}
+
+/**
+ * Store the outcome of a retry attempt. Items that failed again stay pending,
+ * or are abandoned after the last attempt.
+ */
+export async function applyItemRetryResult(
+  jobId: string,
+  result: ItemRetryResult,
+  attempt: number,
+  isLastAttempt: boolean
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  for (let i = 0; i < result.resolvedIds.length; i += 200) {
+    const { error } = await supabase
+      .from('sync_item_failures')
+      .update({ status: 'resolved', attempts: attempt, resolved_at: now, updated_at: now })
+      .eq('job_id', jobId)
+      .in('item_id', result.resolvedIds.slice(i, i + 200));
+
+    if (error) {
+      throw new Error(`Failed to resolve item failures: ${error.message}`);
+    }
+  }
+
+  for (const failure of result.failures) {
+    const { error } = await supabase
+      .from('sync_item_failures')
+      .update({
+        status: isLastAttempt ? 'abandoned' : 'pending',
+        attempts: attempt,
+        error_message: failure.error,
+        updated_at: now,
+      })
+      .eq('job_id', jobId)
+      .eq('item_id', failure.itemId);
+
+    if (error) {
+      console.error(`[Sync Items] Failed to update item failure ${failure.itemId}:`, error);
+    }
+  }
+}
+
+/**
+ * Abandon every pending item of a job (e.g. the connection went away)
+ */
+export async function abandonItemFailures(jobId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('sync_item_failures')
+    .update({ status: 'abandoned', error_message: reason, updated_at: new Date().toISOString() })
+    .eq('job_id', jobId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to abandon item failures: ${error.message}`);
+  }
+}
+
+/**
+ * Update a partial job once retries are done: items_failed becomes the
+ * number of unrecovered items, and a fully recovered job is complete.
+ */
+export async function settlePartialJob(jobId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('sync_item_failures')
+    .select('*', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .neq('status', 'resolved');
+
+  if (error) {
+    throw new Error(`Failed to count item failures: ${error.message}`);
+  }
+
+  const remaining = count || 0;
+  await supabase
+    .from('sync_jobs')
+    .update({
+      items_failed: remaining,
+      ...(remaining === 0 ? { status: 'complete' } : {}),
+    })
+    .eq('id', jobId)
+    .eq('status', 'partial');
+
+  return remaining;
+}
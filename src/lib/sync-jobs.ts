@@ -0,0 +1,292 @@
+/**
+ * EmergentOS - Sync Job History
+ *
+ * Reads sync_jobs for the diagnostics API and records failures. Stage entry
+ * times are stamped into sync_jobs.stage_timings by a database trigger
+ * (migration 010); durations are derived here.
+ */
+
+import { supabase } from './supabase';
+import { classifyError, formatErrorMessage, type ClassifiedError } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SyncJobProvider = 'gmail' | 'calendar' | 'drive';
+
+export type SyncJobTrigger = 'connect' | 'manual' | 'auto' | 'scheduled' | 'date_boundary' | 'push';
+
+export type SyncJobStatus =
+  | 'pending'
+  | 'fetching'
+  | 'securing'
+  | 'persisting'
+  | 'analyzing'
+  | 'embedding'
+  | 'complete'
+  | 'partial'   // Finished, but some items failed (see sync_item_failures)
+  | 'error';
+
+export const SYNC_JOB_PROVIDERS: SyncJobProvider[] = ['gmail', 'calendar', 'drive'];
+export const SYNC_JOB_TRIGGERS: SyncJobTrigger[] = ['connect', 'manual', 'auto', 'scheduled', 'date_boundary', 'push'];
+export const SYNC_JOB_STATUSES: SyncJobStatus[] = [
+  'pending', 'fetching', 'securing', 'persisting', 'analyzing', 'embedding', 'complete', 'partial', 'error',
+];
+
+/** Working stages in pipeline order ('analyzing' is calendar only) */
+export const SYNC_STAGES: SyncJobStatus[] = ['pending', 'fetching', 'securing', 'persisting', 'analyzing', 'embedding'];
+
+/**
+ * Unattended triggers: these syncs skip calendar analysis when nothing changed
+ */
+export function isBackgroundTrigger(trigger: SyncJobTrigger): boolean {
+  return trigger === 'auto' || trigger === 'scheduled' || trigger === 'push';
+}
+
+export interface SyncStageDuration {
+  stage: SyncJobStatus;
+  startedAt: string;
+  durationMs: number | null;  // null while the stage is still running
+}
+
+export interface SyncJobSummary {
+  id: string;
+  provider: SyncJobProvider;
+  trigger: SyncJobTrigger;
+  status: SyncJobStatus;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  stages: SyncStageDuration[];
+  failedStage: SyncJobStatus | null;
+  counts: {
+    fetched: number;
+    inserted: number;
+    updated: number;
+    deleted: number;
+    unchanged: number;
+    failed: number;
+  };
+  error: {
+    message: string;
+    retryable: boolean;
+    category: ClassifiedError['category'] | null;
+  } | null;
+  retryOf: string | null;
+  itemFailures: SyncItemFailureCounts | null;  // Per-item ledger, when any item failed
+}
+
+export interface SyncItemFailureCounts {
+  pending: number;     // Waiting for a retry
+  resolved: number;    // Recovered by a retry
+  abandoned: number;   // Gave up after the last retry
+}
+
+export interface SyncJobFilters {
+  provider?: SyncJobProvider;
+  trigger?: SyncJobTrigger;
+  status?: SyncJobStatus;
+  from?: string;   // ISO timestamp, inclusive (started_at)
+  to?: string;     // ISO timestamp, inclusive (started_at)
+  limit: number;
+}
+
+interface SyncJobRow {
+  id: string;
+  provider: SyncJobProvider;
+  trigger: SyncJobTrigger;
+  status: SyncJobStatus;
+  items_fetched: number | null;
+  items_inserted: number | null;
+  items_updated: number | null;
+  items_deleted: number | null;
+  items_unchanged: number | null;
+  items_failed: number | null;
+  error_message: string | null;
+  error_retryable: boolean | null;
+  error_category: ClassifiedError['category'] | null;
+  stage_timings: Record<string, string> | null;
+  retry_of: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+const SYNC_JOB_COLUMNS =
+  'id, provider, trigger, status, items_fetched, items_inserted, items_updated, items_deleted, items_unchanged, ' +
+  'items_failed, error_message, error_retryable, error_category, stage_timings, retry_of, started_at, completed_at';
+
+// ============================================================================
+// Stage Durations
+// ============================================================================
+
+/**
+ * Turn stage entry times into durations. Each stage runs until the next
+ * recorded status (including 'complete' or 'error'); the last one is still
+ * running unless the job has finished.
+ */
+export function computeStageDurations(
+  stageTimings: Record<string, string> | null,
+  completedAt: string | null
+): SyncStageDuration[] {
+  const entries = Object.entries(stageTimings || {})
+    .map(([status, at]) => ({ status: status as SyncJobStatus, at: new Date(at).getTime() }))
+    .filter((e) => !Number.isNaN(e.at))
+    .sort((a, b) => a.at - b.at);
+
+  const finishedAt = completedAt ? new Date(completedAt).getTime() : null;
+
+  return entries
+    .map((entry, i) => {
+      const endAt = entries[i + 1]?.at ?? finishedAt;
+      return {
+        stage: entry.status,
+        startedAt: new Date(entry.at).toISOString(),
+        durationMs: endAt !== null ? Math.max(0, endAt - entry.at) : null,
+      };
+    })
+    .filter((s) => SYNC_STAGES.includes(s.stage));
+}
+
+function toSummary(row: SyncJobRow): SyncJobSummary {
+  const stages = computeStageDurations(row.stage_timings, row.completed_at);
+  const isError = row.status === 'error';
+
+  return {
+    id: row.id,
+    provider: row.provider,
+    trigger: row.trigger,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    durationMs: row.completed_at
+      ? new Date(row.completed_at).getTime() - new Date(row.started_at).getTime()
+      : null,
+    stages,
+    failedStage: isError ? stages[stages.length - 1]?.stage ?? null : null,
+    counts: {
+      fetched: row.items_fetched || 0,
+      inserted: row.items_inserted || 0,
+      updated: row.items_updated || 0,
+      deleted: row.items_deleted || 0,
+      unchanged: row.items_unchanged || 0,
+      failed: row.items_failed || 0,
+    },
+    error: isError
+      ? {
+          message: row.error_message || 'Unknown error',
+          retryable: row.error_retryable !== false,
+          category: row.error_category,
+        }
+      : null,
+    retryOf: row.retry_of,
+    itemFailures: null,
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * A user's sync jobs, newest first
+ */
+export async function listSyncJobs(userId: string, filters: SyncJobFilters): Promise<SyncJobSummary[]> {
+  let query = supabase
+    .from('sync_jobs')
+    .select(SYNC_JOB_COLUMNS)
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .limit(filters.limit);
+
+  if (filters.provider) query = query.eq('provider', filters.provider);
+  if (filters.trigger) query = query.eq('trigger', filters.trigger);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.from) query = query.gte('started_at', filters.from);
+  if (filters.to) query = query.lte('started_at', filters.to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch sync jobs: ${error.message}`);
+  }
+
+  const jobs = ((data || []) as unknown as SyncJobRow[]).map(toSummary);
+  return attachItemFailureCounts(jobs);
+}
+
+/**
+ * A single job owned by the user, or null
+ */
+export async function getSyncJob(userId: string, jobId: string): Promise<SyncJobSummary | null> {
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .select(SYNC_JOB_COLUMNS)
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch sync job: ${error.message}`);
+  }
+
+  if (!data) return null;
+  const [job] = await attachItemFailureCounts([toSummary(data as unknown as SyncJobRow)]);
+  return job;
+}
+
+/**
+ * Summarize the per-item failure ledger of each job
+ */
+async function attachItemFailureCounts(jobs: SyncJobSummary[]): Promise<SyncJobSummary[]> {
+  if (jobs.length === 0) return jobs;
+
+  const { data, error } = await supabase
+    .from('sync_item_failures')
+    .select('job_id, status')
+    .in('job_id', jobs.map((j) => j.id));
+
+  if (error) {
+    console.error('[Sync Jobs] Item failure lookup error:', error);
+    return jobs;
+  }
+
+  const counts = new Map<string, SyncItemFailureCounts>();
+  for (const row of data || []) {
+    const jobCounts = counts.get(row.job_id) ?? { pending: 0, resolved: 0, abandoned: 0 };
+    jobCounts[row.status as keyof SyncItemFailureCounts]++;
+    counts.set(row.job_id, jobCounts);
+  }
+
+  return jobs.map((job) => ({ ...job, itemFailures: counts.get(job.id) ?? null }));
+}
+
+// ============================================================================
+// Failures
+// ============================================================================
+
+/**
+ * Mark a job as failed once Inngest has given up on it. Jobs that already
+ * finished (including auth failures recorded by the sync step) are left alone.
+ */
+export async function markSyncJobFailed(jobId: string | undefined, error: unknown): Promise<void> {
+  if (!jobId) return;
+
+  const classified = classifyError(error);
+
+  const { error: updateError } = await supabase
+    .from('sync_jobs')
+    .update({
+      status: 'error',
+      error_message: formatErrorMessage(error),
+      error_retryable: classified.retryable,
+      error_category: classified.category,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .not('status', 'in', '("complete","partial","error")');
+
+  if (updateError) {
+    console.error(`[Sync Jobs] Failed to mark job ${jobId} as failed:`, updateError);
+  }
+}
@@ -6,9 +6,12 @@
  * CRITICAL COMPONENT - Implementation per Section 11 of specification.
  * 
  * Features:
- * - Wall-clock aligned 10-minute auto-sync (:00, :10, :20, :30, :40, :50)
- * - DATE BOUNDARY DETECTION: Re-analyze at midnight UTC
- * - EVENT IMMINENCE: Check events starting within 30 minutes
+ * - STATUS SUBSCRIBER: Auto-sync and the date-boundary re-analysis run
+ *   server-side (scheduled-sync cron); the client refreshes connection status
+ *   and announces syncs that completed in the background
+ * - EVENT IMMINENCE: Check events starting within 30 minutes (wall-clock
+ *   aligned at :00, :10, :20, :30, :40, :50)
+ * - Manual, connect and disconnect syncs are still driven from the client
  * - FIFO queue with deduplication (max 3 pending, 2s window)
  * - CustomEvent dispatch for UI updates (eos:connections-updated, eos:imminent-event)
  */
@@ -28,8 +31,9 @@ import {
   MAX_QUEUE_LENGTH,
   DEDUP_WINDOW_MS,
   IMMINENT_EVENT_THRESHOLD_MINUTES,
+  SYNC_STATUS_REFRESH_INTERVAL_MS,
 } from '@/lib/constants';
-import { formatTimeAgo, msUntilNextTenMinuteMark, getCurrentUTCDate } from '@/lib/time';
+import { formatTimeAgo, msUntilNextTenMinuteMark } from '@/lib/time';
 
 // ============================================================================
 // Types (Per Section 11.1)
@@ -37,7 +41,7 @@ import { formatTimeAgo, msUntilNextTenMinuteMark, getCurrentUTCDate } from '@/li
 
 export type ProviderKey = 'gmail' | 'calendar' | 'drive';
 export type ConnectionStatus = 'connected' | 'disconnected' | 'error';
-export type SyncTrigger = 'connect' | 'disconnect' | 'manual' | 'auto' | 'date_boundary';
+export type SyncTrigger = 'connect' | 'disconnect' | 'manual' | 'auto' | 'scheduled' | 'date_boundary';
 
 export interface ProviderState {
   status: ConnectionStatus;
@@ -165,7 +169,8 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
   // ---- Refs (Per Section 11.2) ----
   const queueRef = useRef<SyncRequest[]>([]);
   const isProcessingRef = useRef(false);
-  const lastSyncDateUTCRef = useRef<string | null>(null);
+  // Latest provider state for the status refresh interval (avoids a stale closure)
+  const providersRef = useRef(providers);
   const notifiedEventIdsRef = useRef<Set<string>>(new Set());
   const autoSyncTimerRef = useRef<NodeJS.Timeout | null>(null);
   // NOTE: Syncing state is tracked in globalSyncingProviders (module-level)
@@ -619,10 +624,40 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
   }, [providers, processQueue]);
 
   // ============================================================================
-  // Auto-Sync Implementation (Per Section 11.2)
+  // Status Subscription (syncing itself runs server-side)
   // ============================================================================
 
-  const setupAutoSync = useCallback(() => {
+  /**
+   * Pick up syncs that completed server-side (scheduled, push, or another tab)
+   * and let widgets refresh
+   */
+  const refreshServerStatus = useCallback(async (): Promise<void> => {
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') return;
+
+    const previous = providersRef.current;
+    const connections = await fetchConnections();
+    setProviders(connections);
+
+    const synced = (Object.keys(connections) as ProviderKey[]).filter(
+      (key) =>
+        !previous[key].isSyncing &&
+        connections[key].lastSyncAt !== null &&
+        connections[key].lastSyncAt !== previous[key].lastSyncAt
+    );
+
+    if (synced.length > 0) {
+      console.log('[SyncManager] Server-side sync completed for:', synced);
+      dispatchConnectionsUpdated({
+        providers: synced,
+        trigger: 'scheduled',
+        dataChanged: false,
+        briefingRegenerated: false,
+        phase: 'complete',
+      });
+    }
+  }, [fetchConnections, dispatchConnectionsUpdated]);
+
+  const setupImminentCheck = useCallback(() => {
     // Clear any existing timer
     if (autoSyncTimerRef.current) {
       clearTimeout(autoSyncTimerRef.current);
@@ -634,27 +669,8 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
     }
 
     const tick = async () => {
-      const now = new Date();
-      const todayUTC = getCurrentUTCDate();
-
-      console.log('[SyncManager] Auto-sync tick at', now.toISOString());
-
-      // 1. Check date boundary (midnight UTC crossing)
-      if (lastSyncDateUTCRef.current && todayUTC !== lastSyncDateUTCRef.current) {
-        console.log('[SyncManager] Date boundary crossed, triggering full re-analysis');
-        await enqueueSync(['gmail', 'calendar', 'drive'], 'date_boundary');
-        lastSyncDateUTCRef.current = todayUTC;
-        
-        // Schedule next tick
-        const msUntilNext = msUntilNextTenMinuteMark();
-        setNextAutoSyncAt(new Date(Date.now() + msUntilNext));
-        autoSyncTimerRef.current = setTimeout(tick, msUntilNext);
-        return;
-      }
-
-      // 2. Check imminent events (30 minutes threshold)
-      // Only check if calendar is connected
-      if (providers.calendar.status === 'connected') {
+      // Check imminent events (30 minutes threshold), only if calendar is connected
+      if (providersRef.current.calendar.status === 'connected') {
         const imminentEvent = await checkImminentEvents();
         if (imminentEvent && !notifiedEventIdsRef.current.has(imminentEvent.event_id)) {
           notifiedEventIdsRef.current.add(imminentEvent.event_id);
@@ -666,11 +682,7 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
         }
       }
 
-      // 3. Standard auto-sync
-      await enqueueSync(['gmail', 'calendar', 'drive'], 'auto');
-      lastSyncDateUTCRef.current = todayUTC;
-
-      // Schedule next tick
+      // Schedule next tick (scheduled syncs run on the same wall-clock marks)
       const msUntilNext = msUntilNextTenMinuteMark();
       setNextAutoSyncAt(new Date(Date.now() + msUntilNext));
       autoSyncTimerRef.current = setTimeout(tick, msUntilNext);
@@ -678,10 +690,9 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
 
     // Calculate initial delay to align with wall clock
     const msUntilNext = msUntilNextTenMinuteMark();
-    console.log(`[SyncManager] Auto-sync scheduled in ${Math.round(msUntilNext / 1000)}s`);
     setNextAutoSyncAt(new Date(Date.now() + msUntilNext));
     autoSyncTimerRef.current = setTimeout(tick, msUntilNext);
-  }, [isAnyConnected, providers.calendar.status, checkImminentEvents, dispatchImminentEvent, enqueueSync]);
+  }, [isAnyConnected, checkImminentEvents, dispatchImminentEvent]);
 
   // ============================================================================
   // Public Methods
@@ -803,7 +814,6 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
       console.log('[SyncManager] Initializing...');
       const connections = await fetchConnections();
       setProviders(connections);
-      lastSyncDateUTCRef.current = getCurrentUTCDate();
       setIsInitialized(true);
       console.log('[SyncManager] Initialized with connections:', connections);
     };
@@ -820,17 +830,32 @@ export function SyncManagerProvider({ children }: { children: React.ReactNode })
     return () => clearInterval(intervalId);
   }, []);
 
-  // Setup auto-sync when providers change
+  useEffect(() => {
+    providersRef.current = providers;
+  }, [providers]);
+
+  // Setup imminent-event checks when providers change
   useEffect(() => {
     if (!isInitialized) return;
-    setupAutoSync();
+    setupImminentCheck();
 
     return () => {
       if (autoSyncTimerRef.current) {
         clearTimeout(autoSyncTimerRef.current);
       }
     };
-  }, [isInitialized, isAnyConnected, setupAutoSync]);
+  }, [isInitialized, isAnyConnected, setupImminentCheck]);
+
+  // Refresh status from the server while any source is connected
+  useEffect(() => {
+    if (!isInitialized || !isAnyConnected) return;
+
+    const intervalId = setInterval(() => {
+      void refreshServerStatus();
+    }, SYNC_STATUS_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isInitialized, isAnyConnected, refreshServerStatus]);
 
   // Listen for external connection updates (from Connect components)
   useEffect(() => {
@@ -1,7 +1,9 @@
 /**
  * EmergentOS - Time Boundary Functions
  * 
- * All time operations use UTC as specified in Section 3.
+ * Storage and sync windows use UTC as specified in Section 3.
+ * User-facing day boundaries ("today", focus blocks, briefing dates)
+ * use the user's IANA time zone via the *InZone helpers.
  */
 
 /**
@@ -63,43 +65,164 @@ export function getCurrentUTCDate(): string {
   return new Date().toISOString().split('T')[0];
 }
 
+// ============================================================================
+// Time Zone Functions
+// ============================================================================
+
+export interface ZonedDateParts {
+  year: number;
+  month: number;    // 1-12
+  day: number;
+  hour: number;     // 0-23
+  minute: number;
+  second: number;
+  weekday: number;  // 0 = Sunday
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+// Intl.DateTimeFormat construction is expensive - cache one per zone
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
 /**
- * Check if a date string represents today (UTC)
+ * Check if a string is a valid IANA time zone (e.g. "America/Los_Angeles")
  */
-export function isToday(dateString: string): boolean {
-  const date = new Date(dateString);
-  const now = new Date();
-  return (
-    date.getUTCFullYear() === now.getUTCFullYear() &&
-    date.getUTCMonth() === now.getUTCMonth() &&
-    date.getUTCDate() === now.getUTCDate()
-  );
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getZoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get calendar/clock fields of an instant as seen in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant (ms, positive east of UTC)
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant.
+ * Out-of-range fields roll over like Date.UTC (day 32 → next month).
+ * Wall times skipped by a DST jump resolve to the following valid instant.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, 0, 0);
+
+  // Guess with the offset at the wall-clock instant, then correct once for DST
+  const firstGuess = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const correctedOffset = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+  const secondGuess = wallClock - correctedOffset;
+
+  if (secondGuess === firstGuess || getTimeZoneOffsetMs(new Date(secondGuess), timeZone) === correctedOffset) {
+    return new Date(secondGuess);
+  }
+  // Wall time falls in a DST gap
+  return new Date(Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * Get start of day (00:00 local) in a time zone, optionally offset by N days
+ */
+export function startOfDayInZone(date: Date, timeZone: string, dayOffset: number = 0): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day + dayOffset, 0, 0, timeZone);
 }
 
 /**
- * Check if a date string is within this week (UTC)
+ * Get end of day (23:59:59.999 local) in a time zone, optionally offset by N days
+ */
+export function endOfDayInZone(date: Date, timeZone: string, dayOffset: number = 0): Date {
+  return new Date(startOfDayInZone(date, timeZone, dayOffset + 1).getTime() - 1);
+}
+
+/**
+ * Get the local calendar date of an instant as YYYY-MM-DD
+ */
+export function getDateInZone(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Get current local date in a time zone as YYYY-MM-DD string
+ */
+export function getCurrentDateInZone(timeZone: string): string {
+  return getDateInZone(new Date(), timeZone);
+}
+
+/**
+ * Check if a date string represents today in the given time zone
+ */
+export function isToday(dateString: string, timeZone: string = 'UTC'): boolean {
+  return getDateInZone(new Date(dateString), timeZone) === getCurrentDateInZone(timeZone);
+}
+
+/**
+ * Check if a date string is within this week in the given time zone
  * Week starts on Sunday
  */
-export function isThisWeek(dateString: string): boolean {
+export function isThisWeek(dateString: string, timeZone: string = 'UTC'): boolean {
   const date = new Date(dateString);
   const now = new Date();
-  
-  // Get start of this week (Sunday 00:00:00 UTC)
-  const weekStart = new Date(Date.UTC(
-    now.getUTCFullYear(),
-    now.getUTCMonth(),
-    now.getUTCDate() - now.getUTCDay(),
-    0, 0, 0, 0
-  ));
-  
-  // Get end of this week (Saturday 23:59:59 UTC)
-  const weekEnd = new Date(Date.UTC(
-    now.getUTCFullYear(),
-    now.getUTCMonth(),
-    now.getUTCDate() - now.getUTCDay() + 6,
-    23, 59, 59, 999
-  ));
-  
+  const weekday = getZonedParts(now, timeZone).weekday;
+
+  // Sunday 00:00 local through Saturday 23:59:59.999 local
+  const weekStart = startOfDayInZone(now, timeZone, -weekday);
+  const weekEnd = endOfDayInZone(now, timeZone, 6 - weekday);
+
   return date >= weekStart && date <= weekEnd;
 }
 
@@ -140,22 +263,22 @@ export function msUntilNextTenMinuteMark(): number {
 }
 
 /**
- * Format a time block string into human-readable format
+ * Format a time block string into human-readable format in the given time zone
  * Input: "2026-01-27T09:00:00.000Z - 2026-01-27T11:00:00.000Z" or "2026-01-27T09:00:00.000Z"
  * Output: "Mon 9-11am" or "Jan 27 • 9am-11am"
  */
-export function formatTimeBlock(block: string): string {
+export function formatTimeBlock(block: string, timeZone: string = 'UTC'): string {
   // Check if it's a range (contains " - ")
   if (block.includes(' - ')) {
     const [startStr, endStr] = block.split(' - ');
-    return formatTimeRange(startStr, endStr);
+    return formatTimeRange(startStr, endStr, timeZone);
   }
   
   // Single timestamp - just format as time
   try {
     const date = new Date(block);
     if (isNaN(date.getTime())) return block; // Return original if invalid
-    return formatSingleTime(date);
+    return formatSingleTime(date, timeZone);
   } catch {
     return block;
   }
@@ -164,7 +287,7 @@ export function formatTimeBlock(block: string): string {
 /**
  * Format a time range into human-readable format
  */
-function formatTimeRange(startStr: string, endStr: string): string {
+function formatTimeRange(startStr: string, endStr: string, timeZone: string): string {
   try {
     const start = new Date(startStr);
     const end = new Date(endStr);
@@ -174,8 +297,8 @@ function formatTimeRange(startStr: string, endStr: string): string {
     }
     
     const now = new Date();
-    const startHour = start.getUTCHours();
-    const endHour = end.getUTCHours();
+    const startHour = getZonedParts(start, timeZone).hour;
+    const endHour = getZonedParts(end, timeZone).hour;
     
     // Format times
     const startTime = formatHour(startHour);
@@ -183,26 +306,25 @@ function formatTimeRange(startStr: string, endStr: string): string {
     const timeRange = `${startTime}-${endTime}`;
     
     // Check if it's today
-    if (isSameDay(start, now)) {
+    const startDate = getDateInZone(start, timeZone);
+    if (startDate === getDateInZone(now, timeZone)) {
       return `Today ${timeRange}`;
     }
     
     // Check if it's tomorrow
-    const tomorrow = new Date(now);
-    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-    if (isSameDay(start, tomorrow)) {
+    if (startDate === getDateInZone(startOfDayInZone(now, timeZone, 1), timeZone)) {
       return `Tomorrow ${timeRange}`;
     }
     
     // Check if it's within this week - show day name
     const daysDiff = Math.floor((start.getTime() - now.getTime()) / 86400000);
     if (daysDiff >= 0 && daysDiff < 7) {
-      const dayName = start.toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
+      const dayName = start.toLocaleDateString('en-US', { weekday: 'short', timeZone });
       return `${dayName} ${timeRange}`;
     }
     
     // Otherwise show month and day
-    const monthDay = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    const monthDay = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone });
     return `${monthDay} • ${timeRange}`;
   } catch {
     return `${startStr} - ${endStr}`;
@@ -212,8 +334,8 @@ function formatTimeRange(startStr: string, endStr: string): string {
 /**
  * Format a single time
  */
-function formatSingleTime(date: Date): string {
-  const hour = date.getUTCHours();
+function formatSingleTime(date: Date, timeZone: string): string {
+  const hour = getZonedParts(date, timeZone).hour;
   return formatHour(hour);
 }
 
@@ -226,14 +348,3 @@ function formatHour(hour: number): string {
   if (hour < 12) return `${hour}am`;
   return `${hour - 12}pm`;
 }
-
-/**
- * Check if two dates are the same day (UTC)
- */
-function isSameDay(date1: Date, date2: Date): boolean {
-  return (
-    date1.getUTCFullYear() === date2.getUTCFullYear() &&
-    date1.getUTCMonth() === date2.getUTCMonth() &&
-    date1.getUTCDate() === date2.getUTCDate()
-  );
-}
@@ -12,6 +12,7 @@ const isPublicRoute = createRouteMatcher([
   '/sign-up(.*)',
   '/api/inngest(.*)',      // Inngest function registration and execution
   '/api/nango/webhook(.*)', // Nango OAuth webhooks
+  '/api/calendar/webhook(.*)', // Google Calendar push notifications
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
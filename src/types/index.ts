@@ -19,12 +19,26 @@ export interface Email {
   snippet?: string;
   body_preview?: string;
   received_at: string;
+  is_read?: boolean;
   labels?: string[];
   is_important?: boolean;
   security_verified: boolean;
   created_at: string;
 }
 
+/**
+ * Calendar event attendee (see src/lib/attendees.ts)
+ */
+export interface CalendarAttendee {
+  email: string;
+  displayName: string | null;
+  responseStatus: 'needsAction' | 'declined' | 'tentative' | 'accepted';
+  organizer: boolean;
+  self: boolean;
+  optional: boolean;
+  resource: boolean;
+}
+
 /**
  * Calendar event stored in Supabase
  */
@@ -32,13 +46,16 @@ export interface CalendarEvent {
   id: string;
   user_id: string;
   event_id: string;
-  calendar_id: string;
+  calendar_id: string;     // 'primary' or a Google calendar ID
+  color?: string | null;   // Source calendar color (hex)
+  recurring_event_id?: string | null;  // Series this instance belongs to
   title: string;
   description?: string;
   start_time: string;
   end_time: string;
   location?: string;
-  attendees?: string[]; // stored as JSONB in DB
+  attendees?: CalendarAttendee[]; // stored as JSONB in DB
+  self_response_status: 'needsAction' | 'declined' | 'tentative' | 'accepted';
   is_all_day: boolean;
   status: 'confirmed' | 'tentative' | 'cancelled';
   has_conflict: boolean;
@@ -60,6 +77,9 @@ export interface DriveDocument {
   modified_at: string;
   web_view_link?: string;
   content_hash?: string;
+  content_preview?: string | null;
+  content_text?: string | null;      // Extracted text, capped and PII tokenized
+  extraction_status?: 'extracted' | 'truncated' | 'unsupported' | 'too_large' | 'error' | null;
   is_context_folder: boolean;
   created_at: string;
 }
@@ -71,8 +91,8 @@ export interface PiiVaultEntry {
   id: string;
   user_id: string;
   token: string;
-  original_value: string;
-  entity_type: string;
+  original_value: string;  // AES-256-GCM encrypted (v1:iv:tag:ciphertext)
+  detection_type: string;
   created_at: string;
 }
 /**
@@ -112,6 +132,17 @@ export interface CalendarInsight {
   generated_at: string;
 }
 
+/**
+ * Omni-Panel chat session (conversation container)
+ */
+export interface ChatSession {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Chat message persisted for Omni-Panel sessions
  */
@@ -135,7 +166,9 @@ export interface Embedding {
   source_id: string;
   content: string;
   metadata?: Record<string, unknown>;
-  embedding?: number[]; // 1536 dimensions (OpenAI text-embedding-3-small)
+  embedding?: number[]; // embedding_dimension long
+  embedding_model: string;      // e.g. 'text-embedding-3-small', 'hashing-v1'
+  embedding_dimension: number;  // With embedding_model, identifies the vector space
   created_at: string;
 }
 
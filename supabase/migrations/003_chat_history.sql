@@ -0,0 +1,45 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Chat History Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- Persists Omni-Panel conversations: one chat_sessions row per conversation,
+-- one chat_messages row per user/assistant turn (with cited sources).
+-- ============================================================================
+
+-- ============================================================================
+-- chat_sessions - Conversation containers
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  title TEXT NOT NULL,                            -- Defaults to the first question
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()   -- Bumped on every new turn
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_updated ON chat_sessions (user_id, updated_at DESC);
+
+-- Enable RLS
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- chat_messages - Individual turns
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  session_id UUID NOT NULL REFERENCES chat_sessions (id) ON DELETE CASCADE,
+  role TEXT NOT NULL,                             -- 'user' | 'assistant' | 'system'
+  content TEXT NOT NULL,                          -- Assistant turns keep PII tokens as generated
+  sources JSONB DEFAULT '[]',                     -- ChatSource[] cited by assistant turns
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  
+  CONSTRAINT chat_messages_role_check CHECK (role IN ('user', 'assistant', 'system'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages (session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_user ON chat_messages (user_id);
+
+-- Enable RLS
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Drive Content Extraction Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- Stores extracted document text so embeddings can cover document contents,
+-- plus the state needed to skip re-extraction of unchanged files.
+-- ============================================================================
+
+-- Extracted text (capped at DRIVE_CONTENT_MAX_CHARS, PII tokenized)
+ALTER TABLE drive_documents
+ADD COLUMN IF NOT EXISTS content_text TEXT;
+
+-- File size in bytes as reported by Drive (NULL for Google-native files)
+ALTER TABLE drive_documents
+ADD COLUMN IF NOT EXISTS size_bytes BIGINT;
+
+-- Outcome of the last extraction attempt
+ALTER TABLE drive_documents
+ADD COLUMN IF NOT EXISTS extraction_status TEXT;
+
+-- modifiedTime / md5Checksum the stored content was extracted from
+ALTER TABLE drive_documents
+ADD COLUMN IF NOT EXISTS extracted_modified_at TIMESTAMPTZ;
+
+ALTER TABLE drive_documents
+ADD COLUMN IF NOT EXISTS extracted_md5_checksum TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'drive_documents_extraction_status_check'
+  ) THEN
+    ALTER TABLE drive_documents
+    ADD CONSTRAINT drive_documents_extraction_status_check
+    CHECK (extraction_status IN ('extracted', 'truncated', 'unsupported', 'too_large', 'error'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN drive_documents.content_text IS 'Extracted document text, capped and PII tokenized';
+COMMENT ON COLUMN drive_documents.extraction_status IS 'extracted, truncated (hit the size cap), unsupported, too_large or error';
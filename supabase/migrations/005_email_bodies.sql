@@ -0,0 +1,14 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Email Bodies Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- Stores the cleaned message body (quotes and signatures removed) so threads
+-- can be rebuilt for briefings, chat and the thread API.
+-- ============================================================================
+
+-- Cleaned plain-text body (capped at EMAIL_BODY_MAX_CHARS, PII tokenized)
+ALTER TABLE emails
+ADD COLUMN IF NOT EXISTS body_preview TEXT;
+
+COMMENT ON COLUMN emails.body_preview IS 'Cleaned message body: text/plain preferred, quotes and signatures stripped, PII tokenized';
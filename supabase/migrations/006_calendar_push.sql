@@ -0,0 +1,19 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Calendar Push Notifications Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- Adds the 'push' sync trigger used by /api/calendar/webhook. Watch channels
+-- are stored in connections.metadata.watch_channel (no schema change).
+-- ============================================================================
+
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_trigger_check;
+
+ALTER TABLE sync_jobs
+ADD CONSTRAINT sync_jobs_trigger_check
+CHECK (trigger IN ('connect', 'manual', 'auto', 'date_boundary', 'push'));
+
+-- Webhook lookup by channel ID
+CREATE INDEX IF NOT EXISTS idx_connections_watch_channel
+ON connections ((metadata->'watch_channel'->>'id'))
+WHERE provider = 'calendar';
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Multi-Calendar Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- Tags events with the calendar they were synced from. The primary calendar
+-- is stored as 'primary'; other calendars keep their Google calendar ID.
+-- Per-calendar delta state lives in connections.metadata.calendar_sync_state
+-- and the selection in user_profiles.preferences.calendars.
+-- ============================================================================
+
+ALTER TABLE calendar_events
+ADD COLUMN IF NOT EXISTS calendar_id TEXT NOT NULL DEFAULT 'primary';
+
+ALTER TABLE calendar_events
+ADD COLUMN IF NOT EXISTS color TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_user_calendar ON calendar_events (user_id, calendar_id);
+
+COMMENT ON COLUMN calendar_events.calendar_id IS 'Source calendar: ''primary'' or a Google calendar ID. Events on several selected calendars are stored once.';
+COMMENT ON COLUMN calendar_events.color IS 'Background color of the source calendar (hex)';
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Recurring Meetings Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- Calendar sync expands recurring events into single instances. Each instance
+-- now keeps its series ID, and recurring_series holds one audit row per series
+-- (recurrence rule, hours over the next quarter, conflict frequency, last skip).
+-- ============================================================================
+
+ALTER TABLE calendar_events
+ADD COLUMN IF NOT EXISTS recurring_event_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_user_series ON calendar_events (user_id, recurring_event_id)
+  WHERE recurring_event_id IS NOT NULL;
+
+COMMENT ON COLUMN calendar_events.recurring_event_id IS 'Google recurringEventId of the series this instance belongs to (NULL for one-off events)';
+
+-- ============================================================================
+-- recurring_series - Recurring meeting audit
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS recurring_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  recurring_event_id TEXT NOT NULL,
+  calendar_id TEXT NOT NULL DEFAULT 'primary',
+  title TEXT NOT NULL,                              -- From stored instances (PII-tokenized)
+  recurrence TEXT[] NOT NULL DEFAULT '{}',          -- RRULE/EXDATE lines from the series master
+  organized_by_user BOOLEAN NOT NULL DEFAULT false,
+  attendee_count INTEGER NOT NULL DEFAULT 0,
+  quarter_hours REAL NOT NULL DEFAULT 0,            -- Hours over the next 90 days, declined occurrences excluded
+  upcoming_count INTEGER NOT NULL DEFAULT 0,
+  occurrences_in_window INTEGER NOT NULL DEFAULT 0, -- Stored instances conflict_count is measured over
+  conflict_count INTEGER NOT NULL DEFAULT 0,
+  last_skipped_at TIMESTAMPTZ,
+  last_skipped_reason TEXT,                         -- 'declined' | 'cancelled'
+  audited_at TIMESTAMPTZ NOT NULL DEFAULT now(),    -- Last full audit against Google
+
+  CONSTRAINT recurring_series_user_series_unique UNIQUE (user_id, recurring_event_id),
+  CONSTRAINT recurring_series_skip_reason_check CHECK (last_skipped_reason IN ('declined', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_series_user_hours ON recurring_series (user_id, quarter_hours DESC);
+
+-- Enable RLS
+ALTER TABLE recurring_series ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Attendee RSVP Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+-- 
+-- calendar_events.attendees now holds typed attendees (see src/lib/attendees.ts).
+-- The user's own response is denormalized into self_response_status so declined
+-- events can be left out of conflict detection and pending invites listed.
+-- ============================================================================
+
+ALTER TABLE calendar_events
+ADD COLUMN IF NOT EXISTS self_response_status TEXT NOT NULL DEFAULT 'accepted';
+
+ALTER TABLE calendar_events DROP CONSTRAINT IF EXISTS calendar_events_self_response_status_check;
+ALTER TABLE calendar_events ADD CONSTRAINT calendar_events_self_response_status_check
+  CHECK (self_response_status IN ('needsAction', 'declined', 'tentative', 'accepted'));
+
+-- Backfill from the attendee flagged as self (events without one stay 'accepted')
+UPDATE calendar_events e
+SET self_response_status = a.attendee->>'responseStatus'
+FROM (
+  SELECT id, attendee
+  FROM calendar_events, jsonb_array_elements(attendees) AS attendee
+  WHERE jsonb_typeof(attendees) = 'array'
+    AND (attendee->>'self')::boolean IS TRUE
+    AND attendee->>'responseStatus' IN ('needsAction', 'declined', 'tentative', 'accepted')
+) a
+WHERE e.id = a.id;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_user_response ON calendar_events (user_id, self_response_status);
+
+COMMENT ON COLUMN calendar_events.self_response_status IS 'The user''s RSVP: needsAction | declined | tentative | accepted (accepted when the user is not an attendee)';
+COMMENT ON COLUMN calendar_events.attendees IS 'CalendarAttendee[]: email, displayName, responseStatus, organizer, self, optional, resource';
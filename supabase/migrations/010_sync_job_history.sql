@@ -0,0 +1,42 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Sync Job History Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Records when each sync job entered each stage so /api/sync/jobs can report
+-- per-stage durations, classifies failures, and links retries to the job they
+-- retry. Stage timestamps are written by a trigger, so the sync functions only
+-- keep updating sync_jobs.status as before.
+-- ============================================================================
+
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS stage_timings JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS error_category TEXT,
+ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES sync_jobs(id) ON DELETE SET NULL;
+
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_error_category_check;
+ALTER TABLE sync_jobs ADD CONSTRAINT sync_jobs_error_category_check
+  CHECK (error_category IS NULL OR error_category IN ('auth', 'rate_limit', 'network', 'server', 'client', 'unknown'));
+
+-- Stamp the time each status was entered: {"pending": ts, "fetching": ts, ...}
+CREATE OR REPLACE FUNCTION record_sync_job_stage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.stage_timings := COALESCE(NEW.stage_timings, '{}'::jsonb)
+      || jsonb_build_object(NEW.status, to_jsonb(now()));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_jobs_record_stage ON sync_jobs;
+CREATE TRIGGER sync_jobs_record_stage
+  BEFORE INSERT OR UPDATE OF status ON sync_jobs
+  FOR EACH ROW EXECUTE FUNCTION record_sync_job_stage();
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_user_started ON sync_jobs (user_id, started_at DESC);
+
+COMMENT ON COLUMN sync_jobs.stage_timings IS 'Time each status was entered, keyed by status (set by trigger)';
+COMMENT ON COLUMN sync_jobs.error_category IS 'classifyError category of the failure: auth | rate_limit | network | server | client | unknown';
+COMMENT ON COLUMN sync_jobs.retry_of IS 'Failed job this job was started to retry';
@@ -0,0 +1,54 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Sync Item Failures Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Per-item failure ledger for sync jobs. Messages, events or files that could
+-- not be fetched or stored are recorded against their job, which finishes as
+-- 'partial' instead of 'complete'. The retry-sync-items Inngest function
+-- refetches only those items with backoff and resolves or abandons them.
+-- ============================================================================
+
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_status_check;
+ALTER TABLE sync_jobs ADD CONSTRAINT sync_jobs_status_check
+  CHECK (status IN (
+    'pending', 'fetching', 'securing', 'persisting',
+    'analyzing', 'embedding', 'complete', 'partial', 'error'
+  ));
+
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS items_failed INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN sync_jobs.items_failed IS 'Items still failed after the sync (and any item retries); > 0 means status partial';
+
+-- ============================================================================
+-- sync_item_failures - one row per failed item per job
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS sync_item_failures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES sync_jobs(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  item_type TEXT NOT NULL,                        -- 'message' | 'event' | 'file'
+  item_id TEXT NOT NULL,                          -- Gmail message ID, Calendar event ID or Drive file ID
+  stage TEXT NOT NULL,                            -- 'fetch' | 'persist'
+  context JSONB NOT NULL DEFAULT '{}',            -- Needed to refetch (e.g. calendar_id for events)
+  error_message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,            -- Retries made so far
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+
+  CONSTRAINT sync_item_failures_job_item_unique UNIQUE (job_id, item_id),
+  CONSTRAINT sync_item_failures_provider_check CHECK (provider IN ('gmail', 'calendar', 'drive')),
+  CONSTRAINT sync_item_failures_item_type_check CHECK (item_type IN ('message', 'event', 'file')),
+  CONSTRAINT sync_item_failures_stage_check CHECK (stage IN ('fetch', 'persist')),
+  CONSTRAINT sync_item_failures_status_check CHECK (status IN ('pending', 'resolved', 'abandoned'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_item_failures_job_status ON sync_item_failures (job_id, status);
+CREATE INDEX IF NOT EXISTS idx_sync_item_failures_user ON sync_item_failures (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE sync_item_failures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Scheduled Sync Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Adds the 'scheduled' sync trigger used by the scheduled-sync cron, which
+-- syncs every connected user server-side instead of relying on an open tab.
+-- ============================================================================
+
+ALTER TABLE sync_jobs DROP CONSTRAINT IF EXISTS sync_jobs_trigger_check;
+
+ALTER TABLE sync_jobs
+ADD CONSTRAINT sync_jobs_trigger_check
+CHECK (trigger IN ('connect', 'manual', 'auto', 'scheduled', 'date_boundary', 'push'));
+
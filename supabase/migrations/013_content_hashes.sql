@@ -0,0 +1,27 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Content Hash Change Detection Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Stores a hash of each synced item's source content so the persist steps can
+-- tell inserted, updated and unchanged items apart (instead of counting rows
+-- before and after the UPSERT, which never saw edits). Rows synced before this
+-- migration have no hash and count as updated on their next sync.
+-- ============================================================================
+
+ALTER TABLE emails
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE calendar_events
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE drive_documents
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+ALTER TABLE sync_jobs
+ADD COLUMN IF NOT EXISTS items_unchanged INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN emails.content_hash IS 'SHA256 of the message content fields before DLP tokenization (labels excluded)';
+COMMENT ON COLUMN calendar_events.content_hash IS 'SHA256 of the event fields as fetched, before DLP tokenization';
+COMMENT ON COLUMN drive_documents.content_hash IS 'SHA256 of the file metadata as fetched';
+COMMENT ON COLUMN sync_jobs.items_unchanged IS 'Fetched items whose content hash matched the stored row';
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Incremental Embeddings Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Syncs now embed only changed sources and delete the embeddings of removed
+-- ones. Drive documents have one embedding per content chunk
+-- (source_id = document_id or document_id#N), so chunk lookups and deletions
+-- go through metadata->>'document_id'; this index keeps them off a scan of
+-- every drive embedding the user has.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_drive_document
+  ON embeddings (user_id, (metadata->>'document_id'))
+  WHERE source_type = 'drive';
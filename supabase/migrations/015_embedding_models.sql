@@ -0,0 +1,92 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Embedding Model Versioning Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Embeddings now come from a configurable provider (OpenAI, an
+-- OpenAI-compatible server, or the offline hashing provider). Each row records
+-- the model and dimension that produced it, the vector column accepts any
+-- dimension, and match_embeddings only compares rows from the query's model
+-- and dimension. The re-embed job migrates rows after a model change.
+--
+-- The global ivfflat index is dropped: it requires a fixed dimension, and
+-- searches are always filtered to one user's rows, which the
+-- (user_id, embedding_model, embedding_dimension) index narrows directly.
+-- ============================================================================
+
+ALTER TABLE embeddings
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+ALTER TABLE embeddings
+ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Everything stored so far came from OpenAI text-embedding-3-small at 1536 dimensions
+UPDATE embeddings
+SET embedding_model = 'text-embedding-3-small', embedding_dimension = 1536
+WHERE embedding_model IS NULL;
+
+ALTER TABLE embeddings
+ALTER COLUMN embedding_model SET NOT NULL,
+ALTER COLUMN embedding_dimension SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_embeddings_vector;
+
+ALTER TABLE embeddings
+ALTER COLUMN embedding TYPE vector;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_user_model
+  ON embeddings (user_id, embedding_model, embedding_dimension);
+
+COMMENT ON COLUMN embeddings.embedding_model IS 'Model that produced the vector (provider model name, or hashing-v1)';
+COMMENT ON COLUMN embeddings.embedding_dimension IS 'Vector dimension; with embedding_model, identifies the vector space';
+
+-- Semantic search within one vector space
+DROP FUNCTION IF EXISTS match_embeddings(vector, TEXT, INT);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+  query_embedding vector,
+  match_user_id TEXT,
+  match_model TEXT,
+  match_dimension INT,
+  match_count INT DEFAULT 10
+)
+RETURNS TABLE (
+  source_type TEXT,
+  source_id TEXT,
+  content TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.source_type,
+    e.source_id,
+    e.content,
+    e.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM embeddings e
+  WHERE e.user_id = match_user_id
+    AND e.embedding_model = match_model
+    AND e.embedding_dimension = match_dimension
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Users with embeddings outside the current vector space (re-embed cron)
+CREATE OR REPLACE FUNCTION users_with_outdated_embeddings(
+  current_model TEXT,
+  current_dimension INT
+)
+RETURNS TABLE (user_id TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT e.user_id
+  FROM embeddings e
+  WHERE e.embedding_model <> current_model
+     OR e.embedding_dimension <> current_dimension;
+$$;
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Per-User LLM Provider Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- LLM calls go through a provider-neutral interface with Gemini and
+-- OpenAI-compatible adapters. The environment picks the default provider
+-- (LLM_PROVIDER); an administrator can pin a user to a provider, e.g. a
+-- self-hosted model for users whose data must stay on-premises. A pinned user
+-- whose provider is not configured gets no LLM features instead of falling
+-- back to the default.
+-- ============================================================================
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS llm_provider TEXT
+CHECK (llm_provider IS NULL OR llm_provider IN ('gemini', 'openai-compatible'));
+
+COMMENT ON COLUMN user_profiles.llm_provider IS 'LLM provider pinned by an administrator; NULL uses the environment default (LLM_PROVIDER)';
@@ -0,0 +1,103 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - LLM Usage Metering Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Every LLM call (chat, briefing, calendar analysis, onboarding) is recorded
+-- in llm_usage with its tokens, latency, cost and outcome. Structured calls
+-- whose prompt was answered in the last few minutes are served from
+-- llm_response_cache. Chat, briefings and calendar analysis stop calling the
+-- provider once a user's spend for their local day reaches their daily budget
+-- (user_profiles.llm_daily_budget_usd, else the environment default).
+-- llm_monthly_cost gives finance the monthly cost per executive.
+-- ============================================================================
+
+-- ============================================================================
+-- llm_usage - one row per LLM call
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER,                             -- NULL for cache hits and budget refusals
+  outcome TEXT NOT NULL,
+  prompt_hash TEXT,                               -- Structured calls only (cache key)
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT llm_usage_feature_check CHECK (feature IN ('chat', 'briefing', 'calendar_analysis', 'onboarding')),
+  CONSTRAINT llm_usage_outcome_check CHECK (outcome IN ('success', 'error', 'cache_hit', 'budget_exceeded'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN llm_usage.cost_usd IS 'Estimated from LLM_MODEL_PRICING_PER_MTOK at call time; 0 for unlisted (self-hosted) models';
+COMMENT ON COLUMN llm_usage.outcome IS 'success | error | cache_hit (no provider call) | budget_exceeded (refused, no provider call)';
+
+-- ============================================================================
+-- llm_response_cache - structured responses by prompt hash
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+  user_id TEXT NOT NULL,
+  prompt_hash TEXT NOT NULL,                      -- SHA256 of provider, model, schema and prompt
+  model TEXT NOT NULL,
+  response TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  PRIMARY KEY (user_id, prompt_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_expires ON llm_response_cache (expires_at);
+
+-- Enable RLS
+ALTER TABLE llm_response_cache ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Per-user daily budget
+-- ============================================================================
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS llm_daily_budget_usd NUMERIC(10, 2)
+CHECK (llm_daily_budget_usd IS NULL OR llm_daily_budget_usd >= 0);
+
+COMMENT ON COLUMN user_profiles.llm_daily_budget_usd IS 'Daily LLM spend limit set by an administrator; NULL uses LLM_DAILY_BUDGET_USD';
+
+-- Spend since a point in time (the start of the user's local day)
+CREATE OR REPLACE FUNCTION llm_usage_cost_since(p_user_id TEXT, p_since TIMESTAMPTZ)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM llm_usage
+  WHERE user_id = p_user_id AND created_at >= p_since;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- llm_monthly_cost - monthly cost per executive (UTC months)
+-- ============================================================================
+CREATE OR REPLACE VIEW llm_monthly_cost AS
+SELECT
+  u.user_id,
+  p.display_name,
+  date_trunc('month', u.created_at AT TIME ZONE 'UTC')::date AS month,
+  COUNT(*) FILTER (WHERE u.outcome IN ('success', 'error')) AS provider_calls,
+  COUNT(*) FILTER (WHERE u.outcome = 'cache_hit') AS cache_hits,
+  COUNT(*) FILTER (WHERE u.outcome = 'budget_exceeded') AS budget_refusals,
+  SUM(u.input_tokens) AS input_tokens,
+  SUM(u.output_tokens) AS output_tokens,
+  SUM(u.cost_usd) AS cost_usd,
+  SUM(u.cost_usd) FILTER (WHERE u.feature = 'chat') AS chat_cost_usd,
+  SUM(u.cost_usd) FILTER (WHERE u.feature = 'briefing') AS briefing_cost_usd,
+  SUM(u.cost_usd) FILTER (WHERE u.feature = 'calendar_analysis') AS calendar_analysis_cost_usd,
+  SUM(u.cost_usd) FILTER (WHERE u.feature = 'onboarding') AS onboarding_cost_usd
+FROM llm_usage u
+LEFT JOIN user_profiles p ON p.user_id = u.user_id
+GROUP BY u.user_id, p.display_name, date_trunc('month', u.created_at AT TIME ZONE 'UTC');
+
+COMMENT ON VIEW llm_monthly_cost IS 'LLM calls, tokens and estimated cost per user per calendar month (UTC)';
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Calendar Conflict Actions Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Conflict resolutions from the calendar analysis can be applied to Google
+-- Calendar (decline with a note, reschedule, shorten). calendar_actions is
+-- the audit trail: one row per attempted write, with the event's original
+-- fields so the change can be undone until undo_until.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  calendar_id TEXT NOT NULL DEFAULT 'primary',
+  event_title TEXT NOT NULL,
+  keep_event_title TEXT,                          -- The conflicting event the user kept
+  action TEXT NOT NULL,
+  suggested_action TEXT,                          -- The analysis suggestion (RESCHEDULE, DELEGATE, ...)
+  note TEXT,                                      -- Decline note sent to the organizer
+  before JSONB NOT NULL,                          -- Original values of the changed fields
+  after JSONB NOT NULL,                           -- Values written to Google
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,     -- Preview diff shown to the user
+  send_updates TEXT NOT NULL DEFAULT 'all',
+  status TEXT NOT NULL DEFAULT 'pending',
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  applied_at TIMESTAMPTZ,
+  undo_until TIMESTAMPTZ,
+  undone_at TIMESTAMPTZ,
+
+  CONSTRAINT calendar_actions_action_check CHECK (action IN ('decline', 'reschedule', 'shorten')),
+  CONSTRAINT calendar_actions_status_check CHECK (status IN ('pending', 'applied', 'failed', 'undone')),
+  CONSTRAINT calendar_actions_send_updates_check CHECK (send_updates IN ('all', 'none'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_actions_user_created ON calendar_actions (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE calendar_actions ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE calendar_actions IS 'Audit trail of conflict resolutions written to Google Calendar';
+COMMENT ON COLUMN calendar_actions.status IS 'pending (write in flight) | applied | failed (see error_message) | undone';
+COMMENT ON COLUMN calendar_actions.undo_until IS 'applied_at + CALENDAR_ACTION_UNDO_WINDOW_MINUTES; undo restores before';
@@ -0,0 +1,51 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Focus Holds Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Focus blocks can be reserved as busy "Focus" events on the user's primary
+-- calendar, either one at a time ("protect this block") or by the auto-protect
+-- policy in user_profiles.preferences.focusPolicy. The events carry a private
+-- extended property so sync flags them (calendar_events.focus_hold); focus_holds
+-- tracks each hold so it can be moved or released when a real meeting lands
+-- on it.
+-- ============================================================================
+
+-- ============================================================================
+-- calendar_events.focus_hold - set by sync from the event's tag
+-- ============================================================================
+ALTER TABLE calendar_events
+ADD COLUMN IF NOT EXISTS focus_hold BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN calendar_events.focus_hold IS 'EmergentOS focus hold; counts as focus time, never as a meeting or conflict';
+
+-- ============================================================================
+-- focus_holds - one row per booked hold
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS focus_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,                         -- Google event ID on calendar_id
+  calendar_id TEXT NOT NULL DEFAULT 'primary',
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  release_reason TEXT,
+  move_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT focus_holds_user_event_unique UNIQUE (user_id, event_id),
+  CONSTRAINT focus_holds_source_check CHECK (source IN ('manual', 'auto')),
+  CONSTRAINT focus_holds_status_check CHECK (status IN ('active', 'released')),
+  CONSTRAINT focus_holds_release_reason_check CHECK (release_reason IS NULL OR release_reason IN ('conflict', 'deleted', 'user'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_focus_holds_user_active ON focus_holds (user_id, start_time) WHERE status = 'active';
+
+-- Enable RLS
+ALTER TABLE focus_holds ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE focus_holds IS 'Focus time reserved as busy calendar events, moved or released when meetings conflict';
+COMMENT ON COLUMN focus_holds.release_reason IS 'conflict (no free slot to move to) | deleted (removed in Google Calendar) | user (released in EmergentOS)';
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- EmergentOS Phase 1 - Per-Calendar Watch Channels Migration
+-- Version: 1.0
+-- Date: October 19, 2026
+--
+-- Push channels now watch every synced calendar, not just primary. They are
+-- stored in connections.metadata.watch_channels, with their IDs repeated in
+-- metadata.watch_channel_ids for the webhook lookup. The single
+-- metadata.watch_channel is replaced by the next renewal run.
+-- ============================================================================
+
+-- Webhook lookup by channel ID (metadata->'watch_channel_ids' @> '["<id>"]')
+CREATE INDEX IF NOT EXISTS idx_connections_watch_channel_ids
+ON connections USING GIN ((metadata->'watch_channel_ids'))
+WHERE provider = 'calendar';
+
+DROP INDEX IF EXISTS idx_connections_watch_channel;